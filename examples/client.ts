@@ -29,6 +29,7 @@ import {
   getUnpushedTessellae,
   getUnpushedRes,
   insertPulledData,
+  pullCursorKey,
   findGenusByName,
   getGenusDef,
   listGenera,
@@ -56,31 +57,40 @@ function authHeaders(): Record<string, string> {
 }
 
 async function pull(): Promise<void> {
-  const since = Number(getSyncState(kernel, "server_hwm") ?? "0");
+  const sourceTag = `sync:${SERVER_URL}`;
+  // Older versions of this client kept the cursor under server_hwm
+  let since = Number(getSyncState(kernel, pullCursorKey(sourceTag)) ?? getSyncState(kernel, "server_hwm") ?? "0");
   console.log(`Pulling from ${SERVER_URL} (since ${since})...`);
 
-  const resp = await fetch(`${SERVER_URL}/sync/pull`, {
-    method: "POST",
-    headers: authHeaders(),
-    body: JSON.stringify({ since, device_id: DEVICE_ID }),
-  });
-
-  if (!resp.ok) {
-    console.error(`Pull failed: ${resp.status} ${await resp.text()}`);
-    return;
-  }
+  // The server pages its answer; keep pulling until it has nothing more
+  let tessellaeCount = 0;
+  let resCount = 0;
+  let data: SyncPullData;
+  do {
+    const resp = await fetch(`${SERVER_URL}/sync/pull`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ since, device_id: DEVICE_ID }),
+    });
+
+    if (!resp.ok) {
+      console.error(`Pull failed: ${resp.status} ${await resp.text()}`);
+      return;
+    }
 
-  const data = (await resp.json()) as SyncPullData;
-  const sourceTag = `sync:${SERVER_URL}`;
+    data = (await resp.json()) as SyncPullData;
+    // Stores the page and advances the pull cursor in one transaction
+    insertPulledData(kernel, data, sourceTag);
+    tessellaeCount += data.tessellae.length;
+    resCount += data.res.length;
+    since = data.next_cursor ?? data.high_water_mark;
+  } while (data.has_more);
 
-  if (data.tessellae.length === 0) {
+  if (tessellaeCount === 0) {
     console.log("Nothing new to pull.");
   } else {
-    insertPulledData(kernel, data, sourceTag);
-    console.log(`Pulled ${data.tessellae.length} tessellae, ${data.res.length} res.`);
+    console.log(`Pulled ${tessellaeCount} tessellae, ${resCount} res.`);
   }
-
-  setSyncState(kernel, "server_hwm", String(data.high_water_mark));
 }
 
 async function push(): Promise<void> {
@@ -16,9 +16,11 @@
 //   ORIGIN         — Public origin for OAuth metadata (default: http://localhost:PORT)
 //
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import { mcpServer, httpCors, httpNotFound, sqliteOpen, sqliteMigrate } from "./libraries";
 import {
   initKernel,
+  createKernelView,
   getRes,
   materialize,
   replay,
@@ -33,6 +35,12 @@ import {
   appendTessella,
   defineActionGenus,
   executeAction,
+  executeActionBulk,
+  checkActionAvailability,
+  getActionParametersSchema,
+  withIdempotencyKey,
+  purgeIdempotencyKeys,
+  undoAction,
   getActionDef,
   findActionByName,
   findActionsByTargetGenus,
@@ -80,6 +88,9 @@ import {
   listCronSchedules,
   fireCronSchedule,
   tickCron,
+  deliverOutbox,
+  listOutbox,
+  requeueOutboxEntry,
   createTaxonomy,
   listTaxonomies,
   findTaxonomyByName,
@@ -103,6 +114,10 @@ import {
   listProcessGenera,
   findProcessGenusByName,
   listProcesses,
+  retryProcessStep,
+  skipProcessStep,
+  getProcessDefVersion,
+  migrateProcessInstance,
   defineSerializationGenus,
   findSerializationGenusByName,
   listSerializationGenera,
@@ -153,14 +168,19 @@ import {
   setGenusTemplate,
   getGenusTemplates,
   renderTemplate,
+  getReferenceNames,
   getEntityDisplayName,
   setTemporalAnchor,
   getTemporalAnchor,
   removeTemporalAnchor,
   queryTimeline,
   findTransitionPath,
+  getPullData,
+  rebuildSearchIndex,
+  queryEntities,
+  rebuildAttributeIndex,
 } from "./smaragda";
-import type { PalaceAction, PalaceRoom, PalaceScroll, PalaceScrollsResult, PalaceRoomManifest, PalaceManifestEntry, PalaceDialogueNode, PalaceNPC } from "./smaragda";
+import type { Kernel, PalaceAction, PalaceRoom, PalaceScroll, PalaceScrollsResult, PalaceRoomManifest, PalaceManifestEntry, PalaceDialogueNode, PalaceNPC, SyncPullOptions, AttributeFilter, AttributeQuery, AttributeSort, GenusAttributeType, AttributeConstraints, ActionParameterDef, ActionRelationshipGuard, OutboxEntry, OutboxStatus } from "./smaragda";
 
 // --- Config ---
 
@@ -172,7 +192,47 @@ const ORIGIN = process.env.ORIGIN ?? `http://localhost:${PORT}`;
 
 // --- Kernel init ---
 
-const kernel = initKernel(DB_PATH);
+const rootKernel = initKernel(DB_PATH);
+
+// --- Request-scoped kernel ---
+//
+// Each MCP tool call (and palace web request) runs inside its own scope holding
+// a kernel view — same Database, but the session's own branch and workspace —
+// plus the session id. `kernel` resolves to the active scope's view, so two
+// sessions interleaving calls (even across awaits) never see each other's
+// branch or workspace. Outside any scope it falls through to rootKernel.
+//
+// The view also carries the actor — the authenticated principal plus the
+// session id — so every tessella a tool call writes is attributed to it.
+// authedTransport sets the principal for the HTTP request; the tool wrapper
+// pairs it with the session.
+
+interface RequestScope {
+  kernel: Kernel;
+  session_id: string | null;
+}
+
+const _requestScope = new AsyncLocalStorage<RequestScope>();
+const _requestPrincipal = new AsyncLocalStorage<string>();
+
+function _scopedKernel(): Kernel {
+  return _requestScope.getStore()?.kernel ?? rootKernel;
+}
+
+function _currentSessionId(): string | null {
+  return _requestScope.getStore()?.session_id ?? null;
+}
+
+const kernel: Kernel = {
+  get db() { return rootKernel.db; },
+  get path() { return rootKernel.path; },
+  get currentBranch() { return _scopedKernel().currentBranch; },
+  set currentBranch(branch: string) { _scopedKernel().currentBranch = branch; },
+  get currentWorkspace() { return _scopedKernel().currentWorkspace; },
+  set currentWorkspace(workspace_id: string | null) { _scopedKernel().currentWorkspace = workspace_id; },
+  get actor() { return _scopedKernel().actor; },
+  get asOf() { return _scopedKernel().asOf; },
+};
 
 // One-time backfill: assign workspace_id to relationships based on their members
 const backfill = backfillRelationshipWorkspaces(kernel);
@@ -231,7 +291,6 @@ interface SessionContext {
 }
 
 const sessions = new Map<string, SessionContext>();
-let _currentSessionId: string | null = null;
 
 function _serializeSession(ctx: SessionContext): string {
   return JSON.stringify({
@@ -273,11 +332,12 @@ function _loadSession(sessionId: string): SessionContext | null {
 
 function _getSessionContext(): SessionContext {
   const defaultCtx = (): SessionContext => ({ workspace_id: null, current_branch: "main", palace_current_slug: null, palace_action_menu: null, palace_nav_history: [], palace_last_results: [], palace_room_manifest: null, palace_npc_conversation: null, palace_scroll_pile: null, shown_tips: new Set() });
-  if (!_currentSessionId) return defaultCtx();
-  let ctx = sessions.get(_currentSessionId);
+  const sessionId = _currentSessionId();
+  if (!sessionId) return defaultCtx();
+  let ctx = sessions.get(sessionId);
   if (!ctx) {
-    ctx = _loadSession(_currentSessionId) ?? defaultCtx();
-    sessions.set(_currentSessionId, ctx);
+    ctx = _loadSession(sessionId) ?? defaultCtx();
+    sessions.set(sessionId, ctx);
   }
   return ctx;
 }
@@ -314,10 +374,12 @@ const _TIPS: string[] = [
   // Actions
   'Handler tokens: $res.X.id for bound resource IDs, $param.X for parameters, $now for current ISO timestamp.',
   'Actions check entity status preconditions. Use list_available_actions to see what\'s available in the current state.',
-  'Action side effects include: set_attribute, transition_status, create_res, create_log, create_error, create_task.',
+  'Action side effects include: set_attribute, transition_status, create_res, create_log, create_error, create_task, create_relationship, add_member, remove_member, create_feature, set_feature_attribute, transition_feature_status.',
+  'In a handler, $created.0.id is the first res or feature the handler created, $created.1.id the second, and so on.',
   // Processes
   'When you complete_task on a process task, the process engine auto-advances to the next step.',
   'Process step types: task_step (waits for completion), action_step (immediate), gate_step (waits for conditions), fetch_step (reads data), branch_step (conditional).',
+  'Process triggers start instances automatically: { type: "action", action_name } fires after that action runs; { type: "condition", condition_attribute, condition_value } fires when an attribute or status becomes the value.',
   // Session & branches
   'Pass _session_id from each response to your next call to maintain workspace, branch, and palace navigation state.',
   'Creating or switching branches resets palace navigation state. Re-enter via set_workspace afterward.',
@@ -372,17 +434,69 @@ function _reachableStates(genusDef: { transitions: { from: string; to: string }[
   return [...visited];
 }
 
+// Binds the entity to every resource slot of its genus, as execute_action does
+function _actionBindings(resources: Record<string, { genus_name: string }>, entity_id: string, genusName: string): Record<string, string> {
+  const bindings: Record<string, string> = {};
+  for (const [name, resDef] of Object.entries(resources)) {
+    if (resDef.genus_name.toLowerCase() === genusName.toLowerCase()) bindings[name] = entity_id;
+  }
+  return bindings;
+}
+
 function _requireWorkspace(): void {
   if (!kernel.currentWorkspace) {
     throw new Error(
       "No workspace set. Use set_workspace to select a workspace before modifying entities."
     );
   }
-  // Sync branch from session context
-  const ctx = _getSessionContext();
-  kernel.currentBranch = ctx.current_branch;
 }
 
+// --- Point-in-time reads ---
+//
+// Tools taking as_of run their body against a read-only view of the session's
+// kernel pinned at that point, so every helper reading through `kernel`
+// (genus resolution included) sees the past without extra plumbing.
+
+const AS_OF_PROPERTY = {
+  type: ["string", "number"],
+  description: "Read as of a point in time: ISO timestamp (e.g. '2026-10-13T17:00:00Z') or tessella id. Genus definitions are read as of that point too.",
+};
+
+const IDEMPOTENCY_KEY_PROPERTY = {
+  type: "string",
+  description: "Any unique string for this logical request. Retrying with the same key returns the first response instead of writing again (keys expire after 24h).",
+};
+
+// Runs a tool body once per idempotency key; a retry with the key gets the first response back
+function _idempotent(key: string | undefined, operation: string, request: Record<string, unknown>, fn: () => string): string {
+  if (!key) return fn();
+  return withIdempotencyKey(kernel, key, operation, request, fn, { source: "mcp" }).result;
+}
+
+function _withAsOf<T>(as_of: string | number | undefined, fn: () => T): T {
+  if (as_of === undefined || as_of === null || as_of === "") return fn();
+  const view = createKernelView(_scopedKernel(), { as_of });
+  return _requestScope.run({ kernel: view, session_id: _currentSessionId() }, fn);
+}
+
+function _asOfContext(): Record<string, unknown> {
+  return kernel.asOf != null ? { as_of: { tessella_id: kernel.asOf } } : {};
+}
+
+// Shared input schema for per-attribute validation constraints on genus tools
+const ATTRIBUTE_CONSTRAINTS_PROPERTY = {
+  type: "object",
+  description: "Validation constraints: min/max (number), min_length/max_length/pattern (text), unique (within genus and workspace)",
+  properties: {
+    min: { type: "number" },
+    max: { type: "number" },
+    min_length: { type: "integer" },
+    max_length: { type: "integer" },
+    pattern: { type: "string", description: "JavaScript regex source; anchor with ^...$ for a full match" },
+    unique: { type: "boolean" },
+  },
+};
+
 function _workspaceContext(): Record<string, unknown> {
   if (kernel.currentWorkspace) return {};
   const ws = listWorkspaces(kernel);
@@ -822,6 +936,18 @@ if (!findSerializationGenusByName(kernel, "Markdown Export")) {
 
 // --- Auth ---
 
+// Who a valid bearer token belongs to: "token" for the static AUTH_TOKEN,
+// "oauth:<client_id>" for OAuth access tokens. Null when the token is invalid.
+function _authPrincipal(req: Request): string | null {
+  const token = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  if (token === AUTH_TOKEN) return "token";
+  const row = kernel.db.query(
+    "SELECT client_id FROM oauth_tokens WHERE token = ? AND token_type = 'access' AND revoked = 0 AND expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now')"
+  ).get(token) as { client_id: string } | null;
+  return row ? `oauth:${row.client_id}` : null;
+}
+
 function requireAuth(req: Request): Response | null {
   const header = req.headers.get("Authorization");
   if (!header) {
@@ -938,7 +1064,8 @@ const mcp = mcpServer({ name: "smaragda", version: SERVER_VERSION });
 
 // Wrap mcp.tool to auto-handle _session_id on every tool.
 // Agents receive a _session_id on first call and pass it back on subsequent
-// calls to maintain workspace context across requests.
+// calls to maintain workspace context across requests. Each call runs in its
+// own request scope; the handler also receives the scoped kernel view.
 const _rawTool = mcp.tool.bind(mcp);
 mcp.tool = ((name: string, def: any) => {
   const originalHandler = def.handler;
@@ -957,40 +1084,45 @@ mcp.tool = ((name: string, def: any) => {
     input: wrappedInput,
     handler: async (args: any) => {
       const { _session_id, ...toolArgs } = args;
-      _currentSessionId = _session_id || null;
-      if (!_currentSessionId) {
-        _currentSessionId = crypto.randomUUID();
-      }
-      const ctx = _getSessionContext();
-      kernel.currentWorkspace = ctx.workspace_id;
-      try {
-        const result = await originalHandler(toolArgs);
-        try {
-          const parsed = JSON.parse(result);
-          parsed._session_id = _currentSessionId;
-          // Inject random educational tip (non-repeating within session)
-          const available = _TIPS.map((t, i) => i).filter(i => !ctx.shown_tips.has(i));
-          if (available.length > 0) {
-            const idx = available[Math.floor(Math.random() * available.length)];
-            ctx.shown_tips.add(idx);
-            parsed._tip = _TIPS[idx];
-          }
-          return JSON.stringify(parsed, null, 2);
-        } catch {
-          return result;
-        }
-      } finally {
-        if (_currentSessionId) {
-          const sessionCtx = sessions.get(_currentSessionId);
-          if (sessionCtx) _saveSession(_currentSessionId, sessionCtx);
-        }
-        kernel.currentWorkspace = null;
-        _currentSessionId = null;
-      }
+      const sessionId: string = _session_id || crypto.randomUUID();
+      const actor = { id: _requestPrincipal.getStore() ?? "anonymous", session_id: sessionId };
+      const view = createKernelView(rootKernel, { branch: "main", workspace_id: null, actor });
+      return _requestScope.run({ kernel: view, session_id: sessionId }, () => _runTool(sessionId, view, originalHandler, toolArgs));
     },
   });
 }) as typeof mcp.tool;
 
+async function _runTool(
+  sessionId: string,
+  view: Kernel,
+  handler: (args: any, kernel: Kernel) => Promise<string>,
+  toolArgs: any,
+): Promise<string> {
+  const ctx = _getSessionContext();
+  view.currentWorkspace = ctx.workspace_id;
+  view.currentBranch = ctx.current_branch;
+  try {
+    const result = await handler(toolArgs, view);
+    try {
+      const parsed = JSON.parse(result);
+      parsed._session_id = sessionId;
+      // Inject random educational tip (non-repeating within session)
+      const available = _TIPS.map((t, i) => i).filter(i => !ctx.shown_tips.has(i));
+      if (available.length > 0) {
+        const idx = available[Math.floor(Math.random() * available.length)];
+        ctx.shown_tips.add(idx);
+        parsed._tip = _TIPS[idx];
+      }
+      return JSON.stringify(parsed, null, 2);
+    } catch {
+      return result;
+    }
+  } finally {
+    const sessionCtx = sessions.get(sessionId);
+    if (sessionCtx) _saveSession(sessionId, sessionCtx);
+  }
+}
+
 // --- Palace helpers ---
 
 const PALACE_TUTORIAL_TEXT = `Welcome to your workshop. This is a place you build and tend — a castle of rooms for each area of knowledge you're exploring. Previous versions of you have built this place, and you are inheriting their work.
@@ -1225,7 +1357,7 @@ function _renderRoom(room: PalaceRoom, scrollsResult: PalaceScrollsResult): stri
   }
 
   // Store manifest in session for verb resolution
-  const ctx = _currentSessionId ? _getSessionContext() : null;
+  const ctx = _currentSessionId() ? _getSessionContext() : null;
   if (ctx) ctx.palace_room_manifest = manifest;
   lines.push(_renderActionMenu(room, scrollsResult.scrolls, { totalScrolls: scrollsResult.total, hasHistory: (ctx?.palace_nav_history.length ?? 0) > 0 }));
   return lines.join("\n");
@@ -1502,7 +1634,7 @@ async function _executePalaceQuery(tool: string, toolParams: Record<string, unkn
   const mergedParams = { ...toolParams };
   if (params) mergedParams.query = params;
   const normalizedTool = tool.replace(/^smaragda:/, "");
-  const ctx = _currentSessionId ? _getSessionContext() : null;
+  const ctx = _currentSessionId() ? _getSessionContext() : null;
 
   switch (normalizedTool) {
     case "list_entities": {
@@ -2054,6 +2186,15 @@ function resolveTaxonomyId(taxonomy: string): string {
   throw new Error(`Taxonomy not found: "${taxonomy}". Available taxonomies: ${available}`);
 }
 
+function resolveWorkspaceId(workspace: string): string {
+  const byName = findWorkspaceByName(kernel, workspace);
+  if (byName) return byName;
+  const row = kernel.db.query("SELECT genus_id FROM res WHERE id = ?").get(workspace) as any;
+  if (row && row.genus_id === WORKSPACE_GENUS_ID) return workspace;
+  const available = _nameList(listWorkspaces(kernel).map(w => w.name));
+  throw new Error(`Workspace not found: "${workspace}". Available workspaces: ${available}`);
+}
+
 function resolveScienceId(science: string): string {
   const byName = findScienceByName(kernel, science);
   if (byName) return byName;
@@ -2361,7 +2502,7 @@ mcp.tool("set_workspace", {
       removeWorkspaceScience(kernel, wsId, scienceId);
     }
 
-    if (_currentSessionId) {
+    if (_currentSessionId()) {
       const ctx = _getSessionContext();
       ctx.workspace_id = wsId;
     }
@@ -2379,11 +2520,11 @@ mcp.tool("set_workspace", {
       const entryRoom = palaceGetEntryRoom(kernel, wsId);
       if (entryRoom) {
         const scrolls = palaceGetScrolls(kernel, wsId, entryRoom.slug, { limit: 10 });
-        if (_currentSessionId) {
+        if (_currentSessionId()) {
           const ctx = _getSessionContext();
           _palaceNavigate(ctx, entryRoom.slug, entryRoom);
         }
-        const ctx2 = _currentSessionId ? _getSessionContext() : null;
+        const ctx2 = _currentSessionId() ? _getSessionContext() : null;
         return JSON.stringify({
           workspace_id: wsId,
           name: state.name,
@@ -2432,7 +2573,7 @@ mcp.tool("set_workspace", {
       };
     }
 
-    const ctx2 = _currentSessionId ? _getSessionContext() : null;
+    const ctx2 = _currentSessionId() ? _getSessionContext() : null;
     return JSON.stringify({
       workspace_id: wsId,
       name: state.name,
@@ -2656,17 +2797,19 @@ mcp.tool("describe_taxonomy", {
 });
 
 mcp.tool("describe_genus", {
-  description: "Returns comprehensive documentation for a single genus: attributes, full state machine with per-state actions, cross-references to features/relationships/actions/processes/serializations, and entity health stats.",
+  description: "Returns comprehensive documentation for a single genus: attributes, full state machine with per-state actions, cross-references to features/relationships/actions/processes/serializations, and entity health stats. Pass as_of to see the definition (and stats) in force at a past moment.",
   input: {
     type: "object",
     properties: {
       genus: { type: "string", description: "Genus name or ID" },
+      as_of: AS_OF_PROPERTY,
     },
     required: ["genus"],
   },
-  handler: async ({ genus }: { genus: string }) => {
+  handler: async ({ genus, as_of }: { genus: string; as_of?: string | number }) => _withAsOf(as_of, () => {
     const genusId = resolveGenusId(genus);
     const def = getGenusDef(kernel, genusId);
+    if (kernel.asOf != null && def.meta.name === undefined) throw new Error(`Genus "${genus}" did not exist as of tessella ${kernel.asOf}`);
     const genusName = (def.meta.name as string) ?? "";
     const kind = (def.meta.kind as string) ?? "entity";
 
@@ -2675,6 +2818,9 @@ mcp.tool("describe_genus", {
       type: a.type,
       required: a.required,
       ...(a.default_value !== undefined ? { default_value: a.default_value } : {}),
+      ...(a.values !== undefined ? { values: a.values } : {}),
+      ...(a.target_genera !== undefined ? { target_genera: a.target_genera } : {}),
+      ...(a.constraints !== undefined ? { constraints: a.constraints } : {}),
     }));
 
     const states = Object.values(def.states).map((s) => ({
@@ -2707,6 +2853,16 @@ mcp.tool("describe_genus", {
               ...(step.gate_conditions && step.gate_conditions.length > 0 ? { gate_conditions: step.gate_conditions } : {}),
               ...(step.task_target_agent_type ? { task_target_agent_type: step.task_target_agent_type } : {}),
               ...(step.task_priority ? { task_priority: step.task_priority } : {}),
+              ...(step.timer_delay ? { timer_delay: step.timer_delay } : {}),
+              ...(step.timer_until ? { timer_until: step.timer_until } : {}),
+              ...(step.wait_condition ? { wait_condition: step.wait_condition } : {}),
+              ...(step.wait_timeout_step ? { wait_timeout_step: step.wait_timeout_step } : {}),
+              ...(step.subprocess_name ? { subprocess_name: step.subprocess_name } : {}),
+              ...(step.retry_max_attempts !== undefined ? { retry_max_attempts: step.retry_max_attempts } : {}),
+              ...(step.retry_backoff ? { retry_backoff: step.retry_backoff } : {}),
+              ...(step.on_failure ? { on_failure: step.on_failure } : {}),
+              ...(step.step_timeout ? { step_timeout: step.step_timeout } : {}),
+              ...(step.result_into ? { result_into: step.result_into } : {}),
             }));
           return { name: lane.name, steps: laneSteps };
         });
@@ -2727,6 +2883,7 @@ mcp.tool("describe_genus", {
         lanes,
         triggers: processDef.triggers,
         instances: statusCounts,
+        ..._asOfContext(),
       }, null, 2);
     }
 
@@ -2741,6 +2898,7 @@ mcp.tool("describe_genus", {
         attributes,
         states,
         transitions,
+        ..._asOfContext(),
       }, null, 2);
     }
 
@@ -2756,7 +2914,7 @@ mcp.tool("describe_genus", {
         const resources = Object.values(a.def.resources).filter(
           (r) => r.genus_name.toLowerCase() === genusName.toLowerCase(),
         );
-        return resources.some((r) => !r.required_status || r.required_status === s.name);
+        return resources.some((r) => !r.required_status || [r.required_status].flat().includes(s.name));
       }).map((a) => ({
         name: a.name,
         ...(a.def.meta.description ? { description: a.def.meta.description } : {}),
@@ -2769,6 +2927,9 @@ mcp.tool("describe_genus", {
       name: g.name,
       attributes: Object.values(g.def.attributes).map((a) => ({
         name: a.name, type: a.type, required: a.required,
+        ...(a.values !== undefined ? { values: a.values } : {}),
+        ...(a.target_genera !== undefined ? { target_genera: a.target_genera } : {}),
+        ...(a.constraints !== undefined ? { constraints: a.constraints } : {}),
       })),
       states: Object.values(g.def.states).map((s) => ({
         name: s.name, initial: s.initial ?? false,
@@ -2808,12 +2969,15 @@ mcp.tool("describe_genus", {
         name: r.name,
         genus_name: r.genus_name,
         ...(r.required_status ? { required_status: r.required_status } : {}),
+        ...(r.where ? { where: r.where } : {}),
+        ...(r.relationships ? { relationships: r.relationships } : {}),
       })),
       parameters: Object.values(a.def.parameters).map((p) => ({
         name: p.name,
         type: p.type,
         required: p.required,
       })),
+      ...(a.def.preconditions ? { preconditions: a.def.preconditions } : {}),
       side_effects: a.def.handler.map((h) => h.type),
     }));
 
@@ -2887,8 +3051,9 @@ mcp.tool("describe_genus", {
       process_genera,
       serialization_genera,
       entities: { total: totalCount, healthy: totalCount - unhealthyCount, unhealthy: unhealthyCount },
+      ..._asOfContext(),
     }, null, 2);
-  },
+  }),
 });
 
 // --- Temporal Anchor tools ---
@@ -2992,6 +3157,9 @@ mcp.tool("list_genera", {
         name: a.name,
         type: a.type,
         required: a.required,
+        ...(a.values !== undefined ? { values: a.values } : {}),
+        ...(a.target_genera !== undefined ? { target_genera: a.target_genera } : {}),
+        ...(a.constraints !== undefined ? { constraints: a.constraints } : {}),
       })),
       states: Object.values(g.def.states).map((s) => ({
         name: s.name,
@@ -3022,9 +3190,12 @@ mcp.tool("define_entity_genus", {
           type: "object",
           properties: {
             name: { type: "string", description: "Attribute name" },
-            type: { type: "string", description: "Attribute type: text, number, boolean, or filetree" },
+            type: { type: "string", description: "Attribute type: text, number, boolean, filetree, enum, date (YYYY-MM-DD), datetime (ISO 8601 with timezone), or reference (entity id)" },
             required: { type: "boolean", description: "Whether the attribute is required (default false)" },
             default_value: { description: "Default value for the attribute" },
+            values: { type: "array", items: { type: "string" }, description: "Allowed values (required for enum attributes)" },
+            target_genera: { type: "array", items: { type: "string" }, description: "Genus names a reference may point to. Omit or leave empty for any entity." },
+            constraints: ATTRIBUTE_CONSTRAINTS_PROPERTY,
           },
           required: ["name", "type"],
         },
@@ -3061,7 +3232,7 @@ mcp.tool("define_entity_genus", {
     name: string;
     description?: string;
     taxonomy?: string;
-    attributes?: { name: string; type: string; required?: boolean; default_value?: unknown }[];
+    attributes?: { name: string; type: string; required?: boolean; default_value?: unknown; values?: string[]; target_genera?: string[]; constraints?: AttributeConstraints }[];
     states?: { name: string; initial?: boolean }[];
     transitions?: { from: string; to: string; name?: string }[];
   }) => {
@@ -3110,9 +3281,12 @@ mcp.tool("define_feature_genus", {
           type: "object",
           properties: {
             name: { type: "string", description: "Attribute name" },
-            type: { type: "string", description: "Attribute type: text, number, boolean, or filetree" },
+            type: { type: "string", description: "Attribute type: text, number, boolean, filetree, enum, date (YYYY-MM-DD), datetime (ISO 8601 with timezone), or reference (entity id)" },
             required: { type: "boolean", description: "Whether the attribute is required (default false)" },
             default_value: { description: "Default value for the attribute" },
+            values: { type: "array", items: { type: "string" }, description: "Allowed values (required for enum attributes)" },
+            target_genera: { type: "array", items: { type: "string" }, description: "Genus names a reference may point to. Omit or leave empty for any entity." },
+            constraints: ATTRIBUTE_CONSTRAINTS_PROPERTY,
           },
           required: ["name", "type"],
         },
@@ -3155,7 +3329,7 @@ mcp.tool("define_feature_genus", {
     parent_genus: string;
     description?: string;
     taxonomy?: string;
-    attributes?: { name: string; type: string; required?: boolean; default_value?: unknown }[];
+    attributes?: { name: string; type: string; required?: boolean; default_value?: unknown; values?: string[]; target_genera?: string[]; constraints?: AttributeConstraints }[];
     states?: { name: string; initial?: boolean }[];
     transitions?: { from: string; to: string; name?: string }[];
     editable_parent_statuses?: string[];
@@ -3238,48 +3412,51 @@ mcp.tool("create_entity", {
       },
       target_status: { type: "string", description: "Auto-traverse to this status after creation (uses BFS shortest path)" },
       compact: { type: "boolean", description: "Return id/genus/status only (default: false)" },
+      idempotency_key: IDEMPOTENCY_KEY_PROPERTY,
     },
     required: ["genus"],
   },
-  handler: async ({ genus, attributes, features, target_status, compact }: { genus: string; attributes?: Record<string, unknown>; features?: { genus: string; attributes?: Record<string, unknown> }[]; target_status?: string; compact?: boolean }) => {
+  handler: async ({ genus, attributes, features, target_status, compact, idempotency_key }: { genus: string; attributes?: Record<string, unknown>; features?: { genus: string; attributes?: Record<string, unknown> }[]; target_status?: string; compact?: boolean; idempotency_key?: string }) => {
     _requireWorkspace();
-    const genusId = resolveGenusId(genus);
-    const entityId = createEntity(kernel, genusId);
+    return _idempotent(idempotency_key, "create_entity", { genus, attributes, features, target_status, compact }, () => {
+      const genusId = resolveGenusId(genus);
+      const entityId = createEntity(kernel, genusId);
 
-    if (attributes) {
-      for (const [key, value] of Object.entries(attributes)) {
-        setAttribute(kernel, entityId, key, value);
+      if (attributes) {
+        for (const [key, value] of Object.entries(attributes)) {
+          setAttribute(kernel, entityId, key, value);
+        }
       }
-    }
 
-    if (features) {
-      for (const f of features) {
-        const fGenusId = resolveFeatureGenusId(f.genus);
-        createFeature(kernel, entityId, fGenusId, { attributes: f.attributes });
+      if (features) {
+        for (const f of features) {
+          const fGenusId = resolveFeatureGenusId(f.genus);
+          createFeature(kernel, entityId, fGenusId, { attributes: f.attributes });
+        }
       }
-    }
 
-    if (target_status) {
-      const genusDef = getGenusDef(kernel, genusId);
-      const currentState = materialize(kernel, entityId, { branch_id: kernel.currentBranch });
-      const currentStatus = currentState.status as string;
-      if (currentStatus !== target_status) {
-        const path = findTransitionPath(genusDef, currentStatus, target_status);
-        if (!path || path.length === 0) { const reachable = _reachableStates(genusDef, currentStatus); throw new Error(`No valid transition path from "${currentStatus}" to "${target_status}". Reachable states from "${currentStatus}": ${reachable.length > 0 ? reachable.join(", ") : "(none — terminal state)"}`); }
-        for (const step of path) transitionStatus(kernel, entityId, step);
+      if (target_status) {
+        const genusDef = getGenusDef(kernel, genusId);
+        const currentState = materialize(kernel, entityId, { branch_id: kernel.currentBranch });
+        const currentStatus = currentState.status as string;
+        if (currentStatus !== target_status) {
+          const path = findTransitionPath(genusDef, currentStatus, target_status);
+          if (!path || path.length === 0) { const reachable = _reachableStates(genusDef, currentStatus); throw new Error(`No valid transition path from "${currentStatus}" to "${target_status}". Reachable states from "${currentStatus}": ${reachable.length > 0 ? reachable.join(", ") : "(none — terminal state)"}`); }
+          for (const step of path) transitionStatus(kernel, entityId, step);
+        }
       }
-    }
 
-    const state = materialize(kernel, entityId, { branch_id: kernel.currentBranch });
-    const genusDef = getGenusDef(kernel, genusId);
-    if (compact) {
-      return JSON.stringify({ id: entityId, genus: genusDef.meta.name, status: state.status }, null, 2);
-    }
-    return JSON.stringify({
-      id: entityId,
-      genus: genusDef.meta.name,
-      state,
-    }, null, 2);
+      const state = materialize(kernel, entityId, { branch_id: kernel.currentBranch });
+      const genusDef = getGenusDef(kernel, genusId);
+      if (compact) {
+        return JSON.stringify({ id: entityId, genus: genusDef.meta.name, status: state.status }, null, 2);
+      }
+      return JSON.stringify({
+        id: entityId,
+        genus: genusDef.meta.name,
+        state,
+      }, null, 2);
+    });
   },
 });
 
@@ -3362,37 +3539,59 @@ mcp.tool("create_entities", {
 });
 
 mcp.tool("list_entities", {
-  description: "List entities, optionally filtered by genus. Defaults to compact (id/genus/status/name) when no genus specified. Use compact=false for full state.",
+  description: "List entities, optionally filtered by genus, status and attribute conditions, sorted and paged. Returns the page plus the total match count. Defaults to compact (id/genus/status/name) when no genus specified. Use compact=false for full state.",
   input: {
     type: "object",
     properties: {
       genus: { type: "string", description: "Genus name or ID to filter by" },
       status: { type: "string", description: "Filter by current status (e.g., 'draft', 'active')" },
       limit: { type: "number", description: "Max entities to return" },
+      offset: { type: "number", description: "Number of matching entities to skip (for paging; default 0)" },
       compact: { type: "boolean", description: "Return id/genus/status/name only (default: false)" },
       attribute_filters: {
         type: "array",
-        description: "Filter by attribute values. Multiple filters are ANDed.",
+        description: "Attribute conditions, ANDed. Each is {key, op, value}.",
         items: {
           type: "object",
           properties: {
             key: { type: "string", description: "Attribute name" },
-            op: { type: "string", enum: ["eq", "contains"], description: "eq: strict equality, contains: case-insensitive substring (strings only)" },
-            value: { description: "Value to compare against" },
+            op: {
+              type: "string",
+              enum: ["eq", "contains", "gt", "lt", "in", "exists", "between"],
+              description: "eq: same type and value. contains: case-insensitive substring (strings). gt/lt: greater/less than a number or string (ISO dates compare correctly). in: equals any value in an array. exists: attribute is set and not null (value false inverts). between: inclusive [low, high].",
+            },
+            value: { description: "Value to compare against (array for in/between, optional boolean for exists)" },
+          },
+          required: ["key", "op"],
+        },
+      },
+      where: {
+        type: "object",
+        description: "Boolean condition tree, ANDed with the other filters. A node is a condition {key, op, value} (same ops as attribute_filters) or a group {and: [nodes]} / {or: [nodes]}. E.g. {\"or\": [{\"key\": \"priority\", \"op\": \"gt\", \"value\": 3}, {\"key\": \"owner\", \"op\": \"exists\", \"value\": false}]}",
+      },
+      sort: {
+        type: "array",
+        description: "Sort by attributes, in order of precedence. Missing values sort last. Ties fall back to creation order.",
+        items: {
+          type: "object",
+          properties: {
+            key: { type: "string", description: "Attribute name (or 'status')" },
+            direction: { type: "string", enum: ["asc", "desc"], description: "Default asc" },
           },
-          required: ["key", "op", "value"],
+          required: ["key"],
         },
       },
       all_workspaces: { type: "boolean", description: "Search across all workspaces, ignoring current workspace scope (default false)" },
+      as_of: AS_OF_PROPERTY,
     },
   },
-  handler: async ({ genus, status, limit, compact, attribute_filters, all_workspaces }: { genus?: string; status?: string; limit?: number; compact?: boolean; attribute_filters?: { key: string; op: "eq" | "contains"; value: unknown }[]; all_workspaces?: boolean }) => {
+  handler: async ({ genus, status, limit, offset, compact, attribute_filters, where, sort, all_workspaces, as_of }: { genus?: string; status?: string; limit?: number; offset?: number; compact?: boolean; attribute_filters?: AttributeFilter[]; where?: AttributeQuery; sort?: AttributeSort[]; all_workspaces?: boolean; as_of?: string | number }) => _withAsOf(as_of, () => {
     let genusId: string | undefined;
     if (genus) {
       genusId = resolveGenusId(genus);
     }
 
-    const entities = listEntities(kernel, { genus_id: genusId, status, limit, attribute_filters, all_workspaces });
+    const { entities, total } = queryEntities(kernel, { genus_id: genusId, status, limit, offset, attribute_filters, where, sort, all_workspaces });
     const useCompact = compact ?? !genusId;
     const result = entities.map((e) => {
       const genusDef = getGenusDef(kernel, e.genus_id);
@@ -3406,24 +3605,26 @@ mcp.tool("list_entities", {
         state: e.state,
       };
     });
-    return JSON.stringify({ entities: result, ..._workspaceContext() }, null, 2);
-  },
+    return JSON.stringify({ entities: result, total, offset: offset ?? 0, ..._asOfContext(), ..._workspaceContext() }, null, 2);
+  }),
 });
 
 mcp.tool("get_entity", {
-  description: "Get full details for a single entity including state, genus info, tessella count, and available transitions.",
+  description: "Get full details for a single entity including state, genus info, tessella count, and available transitions. Pass as_of to see the entity as it was at a past moment.",
   input: {
     type: "object",
     properties: {
       entity_id: { type: "string", description: "Entity ID" },
+      as_of: AS_OF_PROPERTY,
     },
     required: ["entity_id"],
   },
-  handler: async ({ entity_id }: { entity_id: string }) => {
+  handler: async ({ entity_id, as_of }: { entity_id: string; as_of?: string | number }) => _withAsOf(as_of, () => {
     const res = getRes(kernel, entity_id);
     const state = materialize(kernel, entity_id, { branch_id: kernel.currentBranch });
     const genusDef = getGenusDef(kernel, res.genus_id);
     const tessellae = replay(kernel, entity_id, { branch_id: kernel.currentBranch });
+    if (kernel.asOf != null && tessellae.length === 0) throw new Error(`Entity ${entity_id} did not exist as of tessella ${kernel.asOf}`);
     const currentStatus = state.status as string | undefined;
 
     let availableTransitions: { target: string; name?: string }[] = [];
@@ -3489,21 +3690,12 @@ mcp.tool("get_entity", {
     const genusName = (genusDef.meta.name as string) ?? "";
     const targetActions = findActionsByTargetGenus(kernel, genusName);
     const availableActions = targetActions.map((action) => {
-      let available = true;
-      let reason: string | undefined;
-      for (const resDef of Object.values(action.def.resources)) {
-        if (resDef.genus_name.toLowerCase() === genusName.toLowerCase() && resDef.required_status) {
-          if (currentStatus !== resDef.required_status) {
-            available = false;
-            reason = `Requires status "${resDef.required_status}", currently "${currentStatus}"`;
-          }
-        }
-      }
+      const { available, reasons } = checkActionAvailability(kernel, action.id, _actionBindings(action.def.resources, entity_id, genusName), { partial: true });
       return {
         action_id: action.id,
         name: action.name,
         available,
-        ...(reason ? { reason } : {}),
+        ...(reasons.length > 0 ? { reason: reasons.join("; ") } : {}),
         parameters: Object.values(action.def.parameters).map((p) => ({
           name: p.name,
           type: p.type,
@@ -3529,9 +3721,10 @@ mcp.tool("get_entity", {
       ...(pendingTasks.length > 0 ? { pending_tasks: pendingTasks } : {}),
       ...(formattedFeatures ? { features: formattedFeatures } : {}),
       ...(formattedRelationships ? { relationships: formattedRelationships } : {}),
+      ..._asOfContext(),
       ..._workspaceContext(),
     }, null, 2);
-  },
+  }),
 });
 
 mcp.tool("set_attribute", {
@@ -3692,7 +3885,7 @@ mcp.tool("batch_update", {
 });
 
 mcp.tool("list_available_actions", {
-  description: "List actions available for an entity. Shows which actions can be executed given the entity's current state, and what parameters each action requires.",
+  description: "List actions available for an entity. Shows which actions can be executed given the entity's current state, and what parameters each action requires; params_schema is the JSON Schema for execute_action's params. Unavailable actions carry a reason listing every guard the entity fails (status, attribute predicates, relationships).",
   input: {
     type: "object",
     properties: {
@@ -3704,35 +3897,23 @@ mcp.tool("list_available_actions", {
     const res = getRes(kernel, entity_id);
     const genusDef = getGenusDef(kernel, res.genus_id);
     const genusName = (genusDef.meta.name as string) ?? "";
-    const entityState = materialize(kernel, entity_id, { branch_id: kernel.currentBranch });
-    const currentStatus = entityState.status as string | undefined;
-
     const targetActions = findActionsByTargetGenus(kernel, genusName);
 
     const result = targetActions.map((action) => {
-      // Check preconditions
-      let available = true;
-      let reason: string | undefined;
-
-      for (const resDef of Object.values(action.def.resources)) {
-        if (resDef.genus_name.toLowerCase() === genusName.toLowerCase() && resDef.required_status) {
-          if (currentStatus !== resDef.required_status) {
-            available = false;
-            reason = `Requires status "${resDef.required_status}", currently "${currentStatus}"`;
-          }
-        }
-      }
+      // Other resources are not bound yet, so only guards on this entity can fail
+      const { available, reasons } = checkActionAvailability(kernel, action.id, _actionBindings(action.def.resources, entity_id, genusName), { partial: true });
 
       return {
         action_id: action.id,
         name: action.name,
         available,
-        reason,
+        reason: reasons.length > 0 ? reasons.join("; ") : undefined,
         parameters: Object.values(action.def.parameters).map((p) => ({
           name: p.name,
           type: p.type,
           required: p.required,
         })),
+        params_schema: getActionParametersSchema(kernel, action.id),
       };
     });
 
@@ -3741,7 +3922,7 @@ mcp.tool("list_available_actions", {
 });
 
 mcp.tool("execute_action", {
-  description: "Execute a named action on an entity. Validates preconditions, runs side effects atomically, and returns the updated state.",
+  description: "Execute a named action on an entity. Validates preconditions, runs side effects atomically, and returns the updated state. Use dry_run=true to preview: nothing is written, and you get the tessellae it would write, the resulting states, and any health regressions — show these to the human before running it for real.",
   input: {
     type: "object",
     properties: {
@@ -3749,13 +3930,15 @@ mcp.tool("execute_action", {
       entity_id: { type: "string", description: "Target entity ID" },
       params: {
         type: "object",
-        description: "Action parameters (e.g., { version: '2.0' })",
+        description: "Action parameters (e.g., { version: '2.0' }). The exact shape per action is in params_schema from list_available_actions; omitted parameters take their defaults",
         additionalProperties: true,
       },
+      dry_run: { type: "boolean", description: "Preview the action without committing anything (default: false)" },
+      idempotency_key: IDEMPOTENCY_KEY_PROPERTY,
     },
     required: ["action", "entity_id"],
   },
-  handler: async ({ action, entity_id, params }: { action: string; entity_id: string; params?: Record<string, unknown> }) => {
+  handler: async ({ action, entity_id, params, dry_run, idempotency_key }: { action: string; entity_id: string; params?: Record<string, unknown>; dry_run?: boolean; idempotency_key?: string }) => {
     _requireWorkspace();
     const actionId = findActionByName(kernel, action);
     if (!actionId) {
@@ -3769,16 +3952,27 @@ mcp.tool("execute_action", {
     const genusDef = getGenusDef(kernel, res.genus_id);
     const genusName = (genusDef.meta.name as string) ?? "";
 
-    const resourceBindings: Record<string, string> = {};
-    for (const [name, resDef] of Object.entries(actionDef.resources)) {
-      if (resDef.genus_name.toLowerCase() === genusName.toLowerCase()) {
-        resourceBindings[name] = entity_id;
-      }
-    }
+    const resourceBindings = _actionBindings(actionDef.resources, entity_id, genusName);
 
-    const result = executeAction(kernel, actionId, resourceBindings, params ?? {}, { source: "mcp" });
+    const result = executeAction(kernel, actionId, resourceBindings, params ?? {}, { source: "mcp", dry_run, idempotency_key });
     if (result.error) {
-      return JSON.stringify({ error: result.error }, null, 2);
+      // Point the caller at the expected shape when the params were the problem
+      const paramError = /^(Missing required parameter|Parameter ")/.test(result.error);
+      return JSON.stringify({ error: result.error, ...(paramError ? { params_schema: getActionParametersSchema(kernel, actionId) } : {}) }, null, 2);
+    }
+
+    if (result.dry_run) {
+      const preview = result.preview!;
+      return JSON.stringify({
+        dry_run: true,
+        entity_id,
+        state: preview.states[entity_id] ?? materialize(kernel, entity_id, { branch_id: kernel.currentBranch }),
+        would_write: preview.tessellae.map((t) => ({ res_id: t.res_id, type: t.type, data: t.data })),
+        affected_states: preview.states,
+        health_regressions: preview.health_regressions,
+        ...(preview.triggered_processes.length > 0 ? { would_trigger_processes: preview.triggered_processes.length } : {}),
+        ...(preview.outbox.length > 0 ? { would_send: preview.outbox.map((o) => ({ method: o.method, url: o.url, body: o.body })) } : {}),
+      }, null, 2);
     }
 
     const newState = materialize(kernel, entity_id, { branch_id: kernel.currentBranch });
@@ -3787,12 +3981,89 @@ mcp.tool("execute_action", {
       entity_id,
       state: newState,
       tessellae_count: result.tessellae!.length,
+      ...(result.triggered_processes ? { triggered_processes: result.triggered_processes } : {}),
+      ...(result.replayed ? { replayed: true } : {}),
+    }, null, 2);
+  },
+});
+
+mcp.tool("execute_action_bulk", {
+  description: "Execute an action once for every entity matching a query (e.g. archive every published Issue older than a date). The query runs over the genus of one resource slot; other slots can be bound to fixed entities. mode=best_effort (default) keeps going and reports per-entity results; mode=all_or_nothing rolls every run back if any fails. At most limit entities run per call: total is everything that matched, and has_more means some were left over (call again, or raise limit).",
+  input: {
+    type: "object",
+    properties: {
+      action: { type: "string", description: "Action name" },
+      resource: { type: "string", description: "Resource slot each match fills (defaults to the action's only resource)" },
+      status: { type: "string", description: "Only entities in this status" },
+      where: {
+        type: "object",
+        description: "Condition tree over attributes, same form as list_entities where. E.g. {\"key\": \"published_at\", \"op\": \"lt\", \"value\": \"2024-01-01\"}",
+      },
+      bindings: {
+        type: "object",
+        description: "Fixed entity IDs for the action's other resource slots, by slot name",
+        additionalProperties: { type: "string" },
+      },
+      params: { type: "object", description: "Action parameters shared by every run", additionalProperties: true },
+      mode: { type: "string", enum: ["best_effort", "all_or_nothing"], description: "Failure handling (default best_effort)" },
+      limit: { type: "number", description: "Max entities to act on (default 500); the response's total and has_more show whether more matched" },
+    },
+    required: ["action"],
+  },
+  handler: async ({ action, resource, status, where, bindings, params, mode, limit }: {
+    action: string;
+    resource?: string;
+    status?: string;
+    where?: AttributeQuery;
+    bindings?: Record<string, string>;
+    params?: Record<string, unknown>;
+    mode?: "best_effort" | "all_or_nothing";
+    limit?: number;
+  }) => {
+    _requireWorkspace();
+    const actionId = findActionByName(kernel, action);
+    if (!actionId) {
+      return JSON.stringify({ error: `Action not found: ${action}` }, null, 2);
+    }
+    const slots = Object.keys(getActionDef(kernel, actionId).resources);
+    const slot = resource ?? (slots.length === 1 ? slots[0] : undefined);
+    if (!slot) {
+      throw new Error(`Action "${action}" has several resources; pass resource as one of: ${slots.join(", ")}`);
+    }
+    const result = executeActionBulk(kernel, actionId, { resource: slot, status, where, bindings, params, mode, limit, source: "mcp" });
+    return JSON.stringify(result, null, 2);
+  },
+});
+
+mcp.tool("undo_action", {
+  description: "Undo a previously executed action by appending compensating changes: attributes get their earlier values back, status is reverted, and entities the action created are retired. Refuses and lists the conflicts if later changes touched the same attributes, and refuses if a created entity's genus has states but no retired, archived or cancelled state. Find action_taken_id in execute_action output or get_history.",
+  input: {
+    type: "object",
+    properties: {
+      action_taken_id: { type: "string", description: "ID of the action_taken to reverse" },
+    },
+    required: ["action_taken_id"],
+  },
+  handler: async ({ action_taken_id }: { action_taken_id: string }) => {
+    const result = undoAction(kernel, action_taken_id, { source: "mcp" });
+    if (result.error) {
+      return JSON.stringify({ error: result.error, ...(result.conflicts ? { conflicts: result.conflicts } : {}) }, null, 2);
+    }
+    const states: Record<string, Record<string, unknown>> = {};
+    for (const t of result.tessellae!) {
+      states[t.res_id] ??= materialize(kernel, t.res_id, { branch_id: result.action_taken!.branch_id });
+    }
+    return JSON.stringify({
+      action_taken_id: result.action_taken!.id,
+      undoes: action_taken_id,
+      tessellae_count: result.tessellae!.length,
+      states,
     }, null, 2);
   },
 });
 
 mcp.tool("get_history", {
-  description: "Get the tessella history for an entity, with action context. Use diff=true to show only changed fields per event.",
+  description: "Get the tessella history for an entity, with action context and who made each change (actor = authenticated client, session_id = the MCP session). Use diff=true to show only changed fields per event.",
   input: {
     type: "object",
     properties: {
@@ -3820,6 +4091,8 @@ mcp.tool("get_history", {
         type: entry.tessella.type,
         data,
         created_at: entry.tessella.created_at,
+        actor: entry.tessella.actor,
+        session_id: entry.tessella.session_id,
       };
       if (entry.action_taken) {
         const actionDef = getActionDef(kernel, entry.action_taken.action_genus_id);
@@ -3827,6 +4100,7 @@ mcp.tool("get_history", {
           name: (actionDef.meta.name as string) ?? "",
           params: entry.action_taken.params,
           action_taken_id: entry.action_taken.id,
+          ...(entry.action_taken.undoes ? { undoes: entry.action_taken.undoes } : {}),
         };
       }
       return item;
@@ -3835,6 +4109,42 @@ mcp.tool("get_history", {
   },
 });
 
+// Header values often hold credentials; tool output shows only their names
+function _redactOutboxHeaders(entry: OutboxEntry): OutboxEntry {
+  return { ...entry, headers: Object.fromEntries(Object.keys(entry.headers).map((h) => [h, "[redacted]"])) };
+}
+
+mcp.tool("list_outbox", {
+  description: "List queued outbound HTTP requests from http_request side effects in the current workspace, with delivery status (pending, delivered, dead), attempt count and the last error. Header values are redacted. Use to check whether a webhook went out.",
+  input: {
+    type: "object",
+    properties: {
+      status: { type: "string", enum: ["pending", "delivered", "dead"], description: "Filter by delivery status" },
+      entity_id: { type: "string", description: "Only requests associated with this entity" },
+      action_taken_id: { type: "string", description: "Only requests queued by this action run" },
+      limit: { type: "number", description: "Max entries to return (default 100)" },
+    },
+  },
+  handler: async ({ status, entity_id, action_taken_id, limit }: { status?: OutboxStatus; entity_id?: string; action_taken_id?: string; limit?: number }) => {
+    const entries = listOutbox(kernel, { status, res_id: entity_id, action_taken_id, limit }).map(_redactOutboxHeaders);
+    return JSON.stringify({ entries, total: entries.length }, null, 2);
+  },
+});
+
+mcp.tool("requeue_outbox_entry", {
+  description: "Send a dead-lettered outbound HTTP request again: resets its attempts and makes it due immediately. Only entries with status 'dead' can be requeued.",
+  input: {
+    type: "object",
+    properties: {
+      outbox_id: { type: "string", description: "Outbox entry ID (from list_outbox)" },
+    },
+    required: ["outbox_id"],
+  },
+  handler: async ({ outbox_id }: { outbox_id: string }) => {
+    return JSON.stringify(_redactOutboxHeaders(requeueOutboxEntry(kernel, outbox_id)), null, 2);
+  },
+});
+
 mcp.tool("define_action_genus", {
   description: "Define a new action genus — a reusable business action with typed resources, parameters, and a handler of side effects (e.g., 'discontinue a Product by setting discontinued_at and transitioning to discontinued').",
   input: {
@@ -3851,7 +4161,31 @@ mcp.tool("define_action_genus", {
           properties: {
             name: { type: "string", description: "Resource name used in handler tokens (e.g., 'product')" },
             genus_name: { type: "string", description: "Entity genus name this resource must be" },
-            required_status: { type: "string", description: "Entity must be in this status to run the action" },
+            required_status: {
+              oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+              description: "Entity must be in this status (or one of these statuses) to run the action",
+            },
+            where: {
+              type: "object",
+              description: "Attribute predicates the entity must satisfy, e.g. { key: 'priority', op: 'in', value: ['high', 'urgent'] }; and/or groups allowed",
+              additionalProperties: true,
+            },
+            relationships: {
+              type: "array",
+              description: "Relationships the entity must belong to, e.g. [{ relationship: 'Assignment', role: 'ticket', status: 'active' }]",
+              items: {
+                type: "object",
+                properties: {
+                  relationship: { type: "string", description: "Relationship genus name" },
+                  role: { type: "string", description: "Role the entity must fill (any role if omitted)" },
+                  status: {
+                    oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                    description: "Allowed status(es) of the relationship",
+                  },
+                },
+                required: ["relationship"],
+              },
+            },
           },
           required: ["name", "genus_name"],
         },
@@ -3863,34 +4197,60 @@ mcp.tool("define_action_genus", {
           type: "object",
           properties: {
             name: { type: "string", description: "Parameter name used in handler tokens (e.g., 'reason')" },
-            type: { type: "string", description: "Parameter type: text, number, boolean, or filetree" },
+            type: {
+              type: "string",
+              description: "Parameter type: text, number, boolean, filetree, enum, date, datetime, reference, " +
+                "list (an array, e.g. for for_each; 'items' gives the element shape) or object ('properties' lists its fields, same shape as parameters)",
+            },
             required: { type: "boolean", description: "Whether the parameter is required (default false)" },
+            description: { type: "string", description: "Shown to callers in the action's parameter schema" },
+            default: { description: "Value used when the caller omits the parameter" },
+            values: { type: "array", items: { type: "string" }, description: "Allowed values (enum)" },
+            items: { type: "object", description: "Element shape for list: { type, values?, items?, properties? }", additionalProperties: true },
+            properties: { type: "array", description: "Fields of an object parameter, defined like parameters", items: { type: "object", additionalProperties: true } },
           },
           required: ["name", "type"],
         },
       },
       handler: {
         type: "array",
-        description: "Side effects to execute. Tokens: $res.X.id, $param.X, $now",
+        description: "Side effects to execute. Tokens: $res.X.id, $res.X.<attr> (current value), $param.X, $each.X (for_each item), " +
+          "$created.N.id / $created.N.<attr> (Nth res or feature created earlier in this handler, from 0), $now. " +
+          "Relationships: { type: 'create_relationship', genus_name, members: { role: id }, attributes? }, " +
+          "{ type: 'add_member' | 'remove_member', relationship, role, entity }. " +
+          "Features: { type: 'create_feature', res, genus_name, attributes? }, { type: 'set_feature_attribute', res, feature, key, value }, " +
+          "{ type: 'transition_feature_status', res, feature, target }. " +
+          "Webhooks: { type: 'http_request', url, method? (default POST), headers?, body?, res? (entity to log deliveries on; defaults to the first resource), max_attempts? (default 5) } " +
+          "queues the request in the outbox; it is sent after the action commits, with retries. " +
+          "Control flow: { type: 'if', condition: { key: '$res.issue.severity', op: 'eq', value: 'high' }, then: [...], else: [...] } " +
+          "(conditions use list_entities 'where' ops and and/or groups, with tokens as keys); " +
+          "{ type: 'for_each', over: '$param.tags' | { relationship, role, of: '$res.X.id' }, as: 'tag', do: [...] }.",
         items: {
           type: "object",
           properties: {
-            type: { type: "string", description: "Side effect type: set_attribute, transition_status, create_res, create_log, create_error, create_task" },
+            type: { type: "string", description: "Side effect type: set_attribute, transition_status, create_res, create_log, create_error, create_task, create_relationship, add_member, remove_member, create_feature, set_feature_attribute, transition_feature_status, http_request, if, for_each" },
           },
           required: ["type"],
           additionalProperties: true,
         },
       },
+      preconditions: {
+        type: "object",
+        description: "Condition across resources and params, written like an 'if' condition with tokens as keys " +
+          "(e.g. { key: '$res.ticket.workspace_id', op: 'eq', value: '$res.agent.workspace_id' }). The action is refused when it does not hold.",
+        additionalProperties: true,
+      },
     },
     required: ["name"],
   },
-  handler: async ({ name, description, taxonomy, resources, parameters, handler }: {
+  handler: async ({ name, description, taxonomy, resources, parameters, handler, preconditions }: {
     name: string;
     description?: string;
     taxonomy?: string;
-    resources?: { name: string; genus_name: string; required_status?: string }[];
-    parameters?: { name: string; type: string; required?: boolean }[];
+    resources?: { name: string; genus_name: string; required_status?: string | string[]; where?: AttributeQuery; relationships?: ActionRelationshipGuard[] }[];
+    parameters?: (Omit<ActionParameterDef, "required"> & { required?: boolean })[];
     handler?: { type: string; [key: string]: unknown }[];
+    preconditions?: AttributeQuery;
   }) => {
     // Check name uniqueness
     const existing = listActionGenera(kernel);
@@ -3898,22 +4258,6 @@ mcp.tool("define_action_genus", {
       throw new Error(`Action genus "${name}" already exists`);
     }
 
-    // Validate parameters
-    if (parameters) {
-      const VALID_PARAM_TYPES = ["text", "number", "boolean", "filetree"];
-      const seenParams = new Set<string>();
-      for (const param of parameters) {
-        const lower = param.name.toLowerCase();
-        if (seenParams.has(lower)) {
-          throw new Error(`Duplicate parameter name: "${param.name}"`);
-        }
-        seenParams.add(lower);
-        if (!VALID_PARAM_TYPES.includes(param.type)) {
-          throw new Error(`Invalid parameter type "${param.type}" for parameter "${param.name}". Valid types: ${VALID_PARAM_TYPES.join(", ")}`);
-        }
-      }
-    }
-
     // Validate resources
     if (resources) {
       const seenResources = new Set<string>();
@@ -3928,13 +4272,13 @@ mcp.tool("define_action_genus", {
         if (def.meta.kind) {
           throw new Error(`Resource "${res.name}" references "${res.genus_name}" which is a ${def.meta.kind} genus, not an entity genus`);
         }
-        if (res.required_status) {
+        for (const status of res.required_status === undefined ? [] : [res.required_status].flat()) {
           const stateNames = Object.keys(def.states);
           if (stateNames.length === 0) {
-            throw new Error(`Resource "${res.name}" specifies required_status "${res.required_status}" but genus "${res.genus_name}" is stateless`);
+            throw new Error(`Resource "${res.name}" specifies required_status "${status}" but genus "${res.genus_name}" is stateless`);
           }
-          if (!stateNames.some((s) => s.toLowerCase() === res.required_status!.toLowerCase())) {
-            throw new Error(`Resource "${res.name}" specifies required_status "${res.required_status}" but genus "${res.genus_name}" has no such state. Valid states: ${stateNames.join(", ")}`);
+          if (!stateNames.some((s) => s.toLowerCase() === status.toLowerCase())) {
+            throw new Error(`Resource "${res.name}" specifies required_status "${status}" but genus "${res.genus_name}" has no such state. Valid states: ${stateNames.join(", ")}`);
           }
         }
       }
@@ -3982,19 +4326,19 @@ mcp.tool("define_action_genus", {
         name: r.name,
         genus_name: r.genus_name,
         ...(r.required_status ? { required_status: r.required_status } : {}),
+        ...(r.where ? { where: r.where } : {}),
+        ...(r.relationships ? { relationships: r.relationships } : {}),
       })),
-      parameters: parameters?.map((p) => ({
-        name: p.name,
-        type: p.type as "text" | "number" | "boolean" | "filetree",
-        required: p.required ?? false,
-      })),
+      // Types, enums, nested shapes and defaults are validated by the kernel
+      parameters: parameters?.map((p) => ({ ...p, required: p.required ?? false })),
       handler: handler as any,
+      ...(preconditions ? { preconditions } : {}),
       meta,
       taxonomy_id,
     });
 
     const def = getActionDef(kernel, genusId);
-    return JSON.stringify({ genus_id: genusId, name, definition: def }, null, 2);
+    return JSON.stringify({ genus_id: genusId, name, definition: def, params_schema: getActionParametersSchema(kernel, genusId) }, null, 2);
   },
 });
 
@@ -4150,9 +4494,12 @@ mcp.tool("define_relationship_genus", {
           type: "object",
           properties: {
             name: { type: "string", description: "Attribute name" },
-            type: { type: "string", description: "Attribute type: text, number, boolean, or filetree" },
+            type: { type: "string", description: "Attribute type: text, number, boolean, filetree, enum, date (YYYY-MM-DD), datetime (ISO 8601 with timezone), or reference (entity id)" },
             required: { type: "boolean", description: "Whether the attribute is required (default false)" },
             default_value: { description: "Default value for the attribute" },
+            values: { type: "array", items: { type: "string" }, description: "Allowed values (required for enum attributes)" },
+            target_genera: { type: "array", items: { type: "string" }, description: "Genus names a reference may point to. Omit or leave empty for any entity." },
+            constraints: ATTRIBUTE_CONSTRAINTS_PROPERTY,
           },
           required: ["name", "type"],
         },
@@ -4190,7 +4537,7 @@ mcp.tool("define_relationship_genus", {
     description?: string;
     taxonomy?: string;
     roles: { name: string; valid_member_genera?: string[]; cardinality: string }[];
-    attributes?: { name: string; type: string; required?: boolean; default_value?: unknown }[];
+    attributes?: { name: string; type: string; required?: boolean; default_value?: unknown; values?: string[]; target_genera?: string[]; constraints?: AttributeConstraints }[];
     states?: { name: string; initial?: boolean }[];
     transitions?: { from: string; to: string; name?: string }[];
   }) => {
@@ -4285,6 +4632,9 @@ mcp.tool("list_relationship_genera", {
         name: a.name,
         type: a.type,
         required: a.required,
+        ...(a.values !== undefined ? { values: a.values } : {}),
+        ...(a.target_genera !== undefined ? { target_genera: a.target_genera } : {}),
+        ...(a.constraints !== undefined ? { constraints: a.constraints } : {}),
       })),
       states: Object.values(g.def.states).map((s) => ({
         name: s.name,
@@ -4315,20 +4665,23 @@ mcp.tool("create_relationship", {
         description: "Optional initial attributes",
         additionalProperties: true,
       },
+      idempotency_key: IDEMPOTENCY_KEY_PROPERTY,
     },
     required: ["genus", "members"],
   },
-  handler: async ({ genus, members, attributes }: { genus: string; members: Record<string, string>; attributes?: Record<string, unknown> }) => {
+  handler: async ({ genus, members, attributes, idempotency_key }: { genus: string; members: Record<string, string>; attributes?: Record<string, unknown>; idempotency_key?: string }) => {
     _requireWorkspace();
-    const genusId = resolveRelationshipGenusId(genus);
-    const relId = createRelationship(kernel, genusId, members, { attributes });
-    const state = materialize(kernel, relId, { branch_id: kernel.currentBranch });
-    const genusDef = getGenusDef(kernel, genusId);
-    return JSON.stringify({
-      id: relId,
-      genus: genusDef.meta.name,
-      state,
-    }, null, 2);
+    return _idempotent(idempotency_key, "create_relationship", { genus, members, attributes }, () => {
+      const genusId = resolveRelationshipGenusId(genus);
+      const relId = createRelationship(kernel, genusId, members, { attributes });
+      const state = materialize(kernel, relId, { branch_id: kernel.currentBranch });
+      const genusDef = getGenusDef(kernel, genusId);
+      return JSON.stringify({
+        id: relId,
+        genus: genusDef.meta.name,
+        state,
+      }, null, 2);
+    });
   },
 });
 
@@ -4428,17 +4781,18 @@ mcp.tool("get_relationship", {
 });
 
 mcp.tool("get_relationships", {
-  description: "List relationships an entity participates in, optionally filtered by relationship genus or role.",
+  description: "List relationships an entity participates in, optionally filtered by relationship genus or role. Pass as_of for the relationships it was in at a past moment.",
   input: {
     type: "object",
     properties: {
       entity_id: { type: "string", description: "Entity ID" },
       genus: { type: "string", description: "Relationship genus name to filter by" },
       role: { type: "string", description: "Role name to filter by" },
+      as_of: AS_OF_PROPERTY,
     },
     required: ["entity_id"],
   },
-  handler: async ({ entity_id, genus, role }: { entity_id: string; genus?: string; role?: string }) => {
+  handler: async ({ entity_id, genus, role, as_of }: { entity_id: string; genus?: string; role?: string; as_of?: string | number }) => _withAsOf(as_of, () => {
     let genusId: string | undefined;
     if (genus) {
       genusId = resolveRelationshipGenusId(genus);
@@ -4469,7 +4823,7 @@ mcp.tool("get_relationships", {
       };
     });
     return JSON.stringify(result, null, 2);
-  },
+  }),
 });
 
 mcp.tool("list_relationships", {
@@ -4530,11 +4884,11 @@ mcp.tool("list_relationships", {
 });
 
 mcp.tool("search_entities", {
-  description: "Search entities by content across all string attributes. Case-insensitive substring match. Returns matching entities with which attributes matched.",
+  description: "Full-text search over entity text attributes (including feature attributes). Results are ranked by relevance and include highlighted snippets per matched attribute. All words must match; use \"quoted phrases\" for exact phrases and word* for prefixes.",
   input: {
     type: "object",
     properties: {
-      query: { type: "string", description: "Search query (case-insensitive substring match)" },
+      query: { type: "string", description: "Search query: words (all must match, case-insensitive), \"quoted phrases\", or prefixes like geo*" },
       genus: { type: "string", description: "Optional genus name to restrict search" },
       limit: { type: "number", description: "Max results to return" },
       all_workspaces: { type: "boolean", description: "Search across all workspaces (default false)" },
@@ -4556,6 +4910,8 @@ mcp.tool("search_entities", {
         genus: r.genus_name,
         state: r.state,
         matched_attributes: r.matched_attributes,
+        snippets: r.snippets,
+        score: r.score,
       })),
       total: results.length,
       ..._workspaceContext(),
@@ -4564,7 +4920,7 @@ mcp.tool("search_entities", {
 });
 
 mcp.tool("evolve_genus", {
-  description: "Idempotent additive genus evolution. Adds new attributes, states, or transitions to an existing genus without removing or modifying existing definitions.",
+  description: "Idempotent additive genus evolution. Adds new attributes, states, or transitions to an existing genus without removing or modifying existing definitions. Constraints passed for an existing attribute are added to it, and the result reports constraint_violations (per attribute) and newly_unhealthy entity counts.",
   input: {
     type: "object",
     properties: {
@@ -4576,8 +4932,11 @@ mcp.tool("evolve_genus", {
           type: "object",
           properties: {
             name: { type: "string" },
-            type: { type: "string", enum: ["text", "number", "boolean"] },
+            type: { type: "string", enum: ["text", "number", "boolean", "filetree", "enum", "date", "datetime", "reference"] },
             required: { type: "boolean" },
+            values: { type: "array", items: { type: "string" }, description: "Allowed values for enum attributes. On an existing enum, new values are added." },
+            target_genera: { type: "array", items: { type: "string" }, description: "Genus names for reference attributes. On an existing constrained reference, new genera are added." },
+            constraints: { ...ATTRIBUTE_CONSTRAINTS_PROPERTY, description: "Validation constraints. On an existing attribute, these are added to (or replace) its current constraints." },
           },
           required: ["name", "type"],
         },
@@ -4629,7 +4988,7 @@ mcp.tool("evolve_genus", {
       },
       templates: {
         type: "object",
-        description: "Render templates for palace v2 (mention/glance/inspect). Use {{name}}, {{status}}, {{any_attr}}, {{genus_name}}, {{id}} placeholders.",
+        description: "Render templates for palace v2 (mention/glance/inspect). Use {{name}}, {{status}}, {{any_attr}}, {{genus_name}}, {{id}} placeholders; {{ref_attr.name}} renders a reference attribute as the target entity's name.",
         properties: {
           mention: { type: "string", description: "Short inline text for room descriptions" },
           glance: { type: "string", description: "Brief summary for 'look' verb" },
@@ -4641,7 +5000,7 @@ mcp.tool("evolve_genus", {
   },
   handler: async ({ genus, attributes, states, transitions, roles, templates }: {
     genus: string;
-    attributes?: { name: string; type: "text" | "number" | "boolean"; required?: boolean }[];
+    attributes?: { name: string; type: GenusAttributeType; required?: boolean; values?: string[]; target_genera?: string[]; constraints?: AttributeConstraints }[];
     states?: { name: string; initial?: boolean }[];
     transitions?: { from: string; to: string }[];
     roles?: { name: string; valid_member_genera?: string[]; cardinality: string }[];
@@ -4660,11 +5019,14 @@ mcp.tool("evolve_genus", {
       }
     }
     const genusId = resolveGenusId(genus);
-    evolveGenus(kernel, genusId, {
+    const evolution = evolveGenus(kernel, genusId, {
       attributes: attributes?.map((a) => ({
         name: a.name,
         type: a.type,
         required: a.required ?? false,
+        ...(a.values !== undefined ? { values: a.values } : {}),
+        ...(a.target_genera !== undefined ? { target_genera: a.target_genera } : {}),
+        ...(a.constraints !== undefined ? { constraints: a.constraints } : {}),
       })),
       states: states?.map((s) => ({
         name: s.name,
@@ -4689,6 +5051,9 @@ mcp.tool("evolve_genus", {
       genus: def.meta.name,
       attributes: Object.values(def.attributes).map((a) => ({
         name: a.name, type: a.type, required: a.required,
+        ...(a.values !== undefined ? { values: a.values } : {}),
+        ...(a.target_genera !== undefined ? { target_genera: a.target_genera } : {}),
+        ...(a.constraints !== undefined ? { constraints: a.constraints } : {}),
       })),
       states: Object.values(def.states).map((s) => ({
         name: s.name, initial: s.initial,
@@ -4700,23 +5065,28 @@ mcp.tool("evolve_genus", {
         })),
       } : {}),
       ...(Object.values(genusTemplates).some(Boolean) ? { templates: genusTemplates } : {}),
+      ...(Object.keys(evolution.constraint_violations).length > 0 ? {
+        constraint_violations: evolution.constraint_violations,
+        newly_unhealthy: evolution.newly_unhealthy,
+      } : {}),
     }, null, 2);
   },
 });
 
 mcp.tool("get_health", {
-  description: "Get a health report for a single entity. Checks required attributes, attribute types, status validity, and unacknowledged errors.",
+  description: "Get a health report for a single entity. Checks required attributes, attribute types and enum values, dangling references, attribute constraints, status validity, and unacknowledged errors. Pass as_of to evaluate against the entity and genus as they were then.",
   input: {
     type: "object",
     properties: {
       entity_id: { type: "string", description: "Entity ID to evaluate" },
+      as_of: AS_OF_PROPERTY,
     },
     required: ["entity_id"],
   },
-  handler: async ({ entity_id }: { entity_id: string }) => {
+  handler: async ({ entity_id, as_of }: { entity_id: string; as_of?: string | number }) => _withAsOf(as_of, () => {
     const report = evaluateHealth(kernel, entity_id);
-    return JSON.stringify(report, null, 2);
-  },
+    return JSON.stringify({ ...report, ..._asOfContext() }, null, 2);
+  }),
 });
 
 mcp.tool("list_unhealthy", {
@@ -4785,21 +5155,24 @@ mcp.tool("create_task", {
       entity_id: { type: "string", description: "Primary entity this task relates to" },
       priority: { type: "string", description: "low, normal, high, or urgent (default: normal)", enum: ["low", "normal", "high", "urgent"] },
       target_agent_type: { type: "string", description: "human, llm, or either (default: either)", enum: ["human", "llm", "either"] },
+      idempotency_key: IDEMPOTENCY_KEY_PROPERTY,
     },
     required: ["title"],
   },
-  handler: async ({ title, description, entity_id, priority, target_agent_type }: {
-    title: string; description?: string; entity_id?: string; priority?: string; target_agent_type?: string;
+  handler: async ({ title, description, entity_id, priority, target_agent_type, idempotency_key }: {
+    title: string; description?: string; entity_id?: string; priority?: string; target_agent_type?: string; idempotency_key?: string;
   }) => {
     _requireWorkspace();
-    const taskId = createTask(kernel, title, {
-      description,
-      associated_res_id: entity_id,
-      priority,
-      target_agent_type,
+    return _idempotent(idempotency_key, "create_task", { title, description, entity_id, priority, target_agent_type }, () => {
+      const taskId = createTask(kernel, title, {
+        description,
+        associated_res_id: entity_id,
+        priority,
+        target_agent_type,
+      });
+      const state = materialize(kernel, taskId, { branch_id: kernel.currentBranch });
+      return JSON.stringify({ id: taskId, state }, null, 2);
     });
-    const state = materialize(kernel, taskId, { branch_id: kernel.currentBranch });
-    return JSON.stringify({ id: taskId, state }, null, 2);
   },
 });
 
@@ -4943,7 +5316,7 @@ mcp.tool("start_process", {
 });
 
 mcp.tool("get_process_status", {
-  description: "Get the current status of a process instance, including all step statuses enriched with lane/type/position from the definition.",
+  description: "Get the current status of a process instance, including all step statuses enriched with lane/type/position from the definition. Waiting timer/wait steps are active and show wake_at (when they fire or time out) and waiting_for (the condition on the context entity). Subprocess steps show subprocess_id; a child instance shows parent_process_id and parent_step_name. A step waiting to be retried is pending with attempts and retry_at; a failure routed elsewhere shows routed_to. variables holds the values steps have written (fetch_into, result_into). definition_version is the process definition the instance is pinned to; compare with latest_definition_version and use migrate_process_instance to move it forward.",
   input: {
     type: "object",
     properties: {
@@ -4953,7 +5326,7 @@ mcp.tool("get_process_status", {
   },
   handler: async ({ process_id }: { process_id: string }) => {
     const state = getProcessStatus(kernel, process_id);
-    const def = getProcessDef(kernel, state.process_genus_id);
+    const def = getProcessDef(kernel, state.process_genus_id, { version: state.def_version });
 
     // Enrich steps
     const enrichedSteps: Record<string, any> = {};
@@ -4984,15 +5357,75 @@ mcp.tool("get_process_status", {
       process_genus_id: state.process_genus_id,
       status: state.status,
       context_res_id: state.context_res_id,
+      ...(state.parent_process_id ? { parent_process_id: state.parent_process_id, parent_step_name: state.parent_step_name } : {}),
+      ...(state.def_version !== undefined ? { definition_version: state.def_version } : {}),
+      latest_definition_version: getProcessDefVersion(kernel, state.process_genus_id),
       started_at: state.started_at,
       completed_at: state.completed_at,
+      variables: state.variables,
       steps: enrichedSteps,
     }, null, 2);
   },
 });
 
+mcp.tool("migrate_process_instance", {
+  description: "Move a running process instance onto another version of its definition (default: the latest). Step states carry over by name; use step_map to rename ({ old: new }) or drop ({ old: null }) steps. Active or waiting steps must map to a step of the same type. Steps the new version places before a lane's progress are marked skipped.",
+  input: {
+    type: "object",
+    properties: {
+      process_id: { type: "string", description: "Process instance ID" },
+      to_version: { type: "number", description: "Definition version to migrate to (see latest_definition_version in get_process_status)" },
+      step_map: { type: "object", description: "Old step name -> new step name, or null to drop that step's state", additionalProperties: true },
+    },
+    required: ["process_id"],
+  },
+  handler: async ({ process_id, to_version, step_map }: { process_id: string; to_version?: number; step_map?: Record<string, string | null> }) => {
+    const before = getProcessStatus(kernel, process_id);
+    const state = migrateProcessInstance(kernel, process_id, { to_version, step_map });
+    return JSON.stringify({
+      id: process_id,
+      ...(before.def_version !== undefined ? { from_version: before.def_version } : {}),
+      to_version: state.def_version,
+      status: state.status,
+      steps: state.steps,
+    }, null, 2);
+  },
+});
+
+mcp.tool("retry_process_step", {
+  description: "Retry a failed process step now, with its retry policy starting over. Reopens the process if it failed because of this step. Also runs a step that is waiting out its retry backoff immediately.",
+  input: {
+    type: "object",
+    properties: {
+      process_id: { type: "string", description: "Process instance ID" },
+      step: { type: "string", description: "Name of the failed step" },
+    },
+    required: ["process_id", "step"],
+  },
+  handler: async ({ process_id, step }: { process_id: string; step: string }) => {
+    const state = retryProcessStep(kernel, process_id, step);
+    return JSON.stringify({ id: process_id, status: state.status, step: state.steps[step] }, null, 2);
+  },
+});
+
+mcp.tool("skip_process_step", {
+  description: "Skip a failed process step (or one waiting to be retried) so its lane carries on with the next step. Reopens the process if it failed because of this step.",
+  input: {
+    type: "object",
+    properties: {
+      process_id: { type: "string", description: "Process instance ID" },
+      step: { type: "string", description: "Name of the failed step" },
+    },
+    required: ["process_id", "step"],
+  },
+  handler: async ({ process_id, step }: { process_id: string; step: string }) => {
+    const state = skipProcessStep(kernel, process_id, step);
+    return JSON.stringify({ id: process_id, status: state.status, step: state.steps[step] }, null, 2);
+  },
+});
+
 mcp.tool("list_processes", {
-  description: "List process instances with optional filters. Excludes completed/cancelled/failed processes by default — set include_finished to see them.",
+  description: "List process instances with optional filters. Excludes completed/cancelled/failed processes by default — set include_finished to see them. Instances started by a subprocess_step carry parent_process_id; parents list their subprocess_ids.",
   input: {
     type: "object",
     properties: {
@@ -5029,7 +5462,7 @@ mcp.tool("create_cron_schedule", {
       expression: { type: "string", description: "Cron expression (e.g. '*/5 * * * *', '@daily')" },
       target_type: { type: "string", description: "What to fire: 'action' or 'process'", enum: ["action", "process"] },
       target_genus: { type: "string", description: "Action or process genus name or ID" },
-      target_config: { type: "string", description: "Optional JSON config: { resource_bindings, params } for actions, { context_res_id } for processes" },
+      target_config: { type: "string", description: "Optional JSON config: { resource_bindings, params } for actions, { context_res_id } for processes; add branch_id to write somewhere other than the current branch" },
     },
     required: ["name", "expression", "target_type", "target_genus"],
   },
@@ -5124,7 +5557,7 @@ mcp.tool("schedule_trigger", {
       target_genus: { type: "string", description: "Action or process genus name or ID" },
       scheduled_at: { type: "string", description: "ISO 8601 timestamp for when to fire (e.g. '2025-03-15T15:00:00Z')" },
       delay: { type: "string", description: "Human-readable delay from now (e.g. '30s', '90m', '2h', '1d')" },
-      target_config: { type: "string", description: "Optional JSON config: { resource_bindings, params } for actions, { context_res_id } for processes" },
+      target_config: { type: "string", description: "Optional JSON config: { resource_bindings, params } for actions, { context_res_id } for processes; add branch_id to write somewhere other than the current branch" },
     },
     required: ["name", "target_type", "target_genus"],
   },
@@ -5247,7 +5680,7 @@ mcp.tool("compare_branches", {
 });
 
 mcp.tool("define_process_genus", {
-  description: "Define a new process genus — a multi-lane workflow with steps (tasks, gates, actions, fetches). Steps are nested inside lanes; position is implicit from array order.",
+  description: "Define a new process genus — a multi-lane workflow with steps (tasks, gates, actions, fetches, timers, waits, subprocesses). Steps are nested inside lanes; position is implicit from array order.",
   input: {
     type: "object",
     properties: {
@@ -5268,17 +5701,28 @@ mcp.tool("define_process_genus", {
                 type: "object",
                 properties: {
                   name: { type: "string", description: "Step name (unique across all lanes)" },
-                  type: { type: "string", description: "Step type: task_step, action_step, gate_step, fetch_step, branch_step" },
-                  title: { type: "string", description: "task_step: task title" },
-                  description: { type: "string", description: "task_step: task description" },
+                  type: { type: "string", description: "Step type: task_step, action_step, gate_step, fetch_step, branch_step, timer_step, wait_step, subprocess_step" },
+                  title: { type: "string", description: "task_step: task title; $var.X is substituted" },
+                  description: { type: "string", description: "task_step: task description; $var.X is substituted" },
                   priority: { type: "string", description: "task_step: priority level" },
                   target_agent_type: { type: "string", description: "task_step: agent type to assign to" },
                   action_name: { type: "string", description: "action_step: name of the action genus to execute" },
-                  action_params: { type: "object", description: "action_step: parameters to pass to the action" },
-                  resource_bindings: { type: "object", description: "action_step: resource bindings for the action" },
+                  action_params: { type: "object", description: "action_step: parameters to pass to the action; a '$var.X' value passes a process variable through" },
+                  resource_bindings: { type: "object", description: "action_step: resource bindings for the action ('$context.res_id', '$var.X', or an entity ID)" },
                   conditions: { type: "array", items: { type: "string" }, description: "gate_step: step names that must complete before this gate passes" },
                   fetch_source: { type: "string", description: "fetch_step: attribute to read from context entity" },
-                  fetch_into: { type: "string", description: "fetch_step: key to store the fetched value" },
+                  fetch_into: { type: "string", description: "fetch_step: process variable to store the fetched value in (read later as $var.<name>)" },
+                  result_into: { type: "string", description: "task_step/action_step: process variable for the task's result or the action's output { action_taken_id, created }" },
+                  delay: { type: "string", description: "timer_step: fire this long after the step starts, e.g. '3d', '12h'. wait_step: deadline relative to the step start" },
+                  until: { type: "string", description: "timer_step: fire at this ISO time. wait_step: absolute deadline" },
+                  wait_for: { type: "object", description: "wait_step: condition on the context entity, e.g. { key: 'status', op: 'eq', value: 'approved' }; and/or groups allowed", additionalProperties: true },
+                  on_timeout: { type: "string", description: "wait_step: later step in the same lane to jump to when the deadline passes (default: the step fails)" },
+                  subprocess: { type: "string", description: "subprocess_step: name of the process genus to start; the step completes when that process does" },
+                  subprocess_context: { type: "string", description: "subprocess_step: context for the child — '$context.res_id' (default), '$context.<attribute>' holding an entity ID, or an entity ID" },
+                  max_attempts: { type: "number", description: "Any step: total attempts before the step fails (default 1, no retries)" },
+                  backoff: { type: "string", description: "Any step: wait before the first retry, doubled for each later one, e.g. '30s', '5m' (default: retry at once)" },
+                  on_failure: { type: "string", description: "Any step: later step in the same lane to jump to when this step finally fails, e.g. 'notify_editor' (default: the lane halts)" },
+                  timeout: { type: "string", description: "task_step/subprocess_step: fail the step if it is still running after this long, e.g. '2d'" },
                 },
                 required: ["name", "type"],
               },
@@ -5294,6 +5738,10 @@ mcp.tool("define_process_genus", {
           type: "object",
           properties: {
             type: { type: "string", description: "Trigger type: manual, action, condition, cron" },
+            action_name: { type: "string", description: "action: start an instance whenever this action executes (context = the action's first bound resource)" },
+            condition_attribute: { type: "string", description: "condition: attribute to watch (use 'status' for status transitions)" },
+            condition_value: { description: "condition: start an instance when the attribute becomes this value" },
+            genus_name: { type: "string", description: "condition: only watch entities of this genus" },
           },
           required: ["type"],
           additionalProperties: true,
@@ -5306,7 +5754,7 @@ mcp.tool("define_process_genus", {
     name: string;
     description?: string;
     taxonomy?: string;
-    lanes: { name: string; steps: { name: string; type: string; title?: string; description?: string; priority?: string; target_agent_type?: string; action_name?: string; action_params?: Record<string, unknown>; resource_bindings?: Record<string, string>; conditions?: string[]; fetch_source?: string; fetch_into?: string }[] }[];
+    lanes: { name: string; steps: { name: string; type: string; title?: string; description?: string; priority?: string; target_agent_type?: string; action_name?: string; action_params?: Record<string, unknown>; resource_bindings?: Record<string, string>; conditions?: string[]; fetch_source?: string; fetch_into?: string; delay?: string; until?: string; wait_for?: AttributeQuery; on_timeout?: string; subprocess?: string; subprocess_context?: string; max_attempts?: number; backoff?: string; on_failure?: string; timeout?: string; result_into?: string }[] }[];
     triggers?: { type: string; [key: string]: unknown }[];
   }) => {
     // Check name uniqueness
@@ -5317,7 +5765,7 @@ mcp.tool("define_process_genus", {
 
     // Flatten nested lanes/steps to kernel format
     const flatLanes = lanes.map((l, i) => ({ name: l.name, position: i }));
-    const flatSteps: { name: string; type: string; lane: string; position: number; gate_conditions?: string[]; action_name?: string; action_params?: Record<string, unknown>; action_resource_bindings?: Record<string, string>; task_title?: string; task_description?: string; task_priority?: string; task_target_agent_type?: string; fetch_source?: string; fetch_into?: string }[] = [];
+    const flatSteps: { name: string; type: string; lane: string; position: number; gate_conditions?: string[]; action_name?: string; action_params?: Record<string, unknown>; action_resource_bindings?: Record<string, string>; task_title?: string; task_description?: string; task_priority?: string; task_target_agent_type?: string; fetch_source?: string; fetch_into?: string; timer_delay?: string; timer_until?: string; wait_condition?: AttributeQuery; wait_timeout_step?: string; subprocess_name?: string; subprocess_context?: string; retry_max_attempts?: number; retry_backoff?: string; on_failure?: string; step_timeout?: string; result_into?: string }[] = [];
     for (const lane of lanes) {
       for (let j = 0; j < lane.steps.length; j++) {
         const s = lane.steps[j];
@@ -5336,6 +5784,17 @@ mcp.tool("define_process_genus", {
           ...(s.target_agent_type ? { task_target_agent_type: s.target_agent_type } : {}),
           ...(s.fetch_source ? { fetch_source: s.fetch_source } : {}),
           ...(s.fetch_into ? { fetch_into: s.fetch_into } : {}),
+          ...(s.delay ? { timer_delay: s.delay } : {}),
+          ...(s.until ? { timer_until: s.until } : {}),
+          ...(s.wait_for ? { wait_condition: s.wait_for } : {}),
+          ...(s.on_timeout ? { wait_timeout_step: s.on_timeout } : {}),
+          ...(s.subprocess ? { subprocess_name: s.subprocess } : {}),
+          ...(s.subprocess_context ? { subprocess_context: s.subprocess_context } : {}),
+          ...(s.max_attempts !== undefined ? { retry_max_attempts: s.max_attempts } : {}),
+          ...(s.backoff ? { retry_backoff: s.backoff } : {}),
+          ...(s.on_failure ? { on_failure: s.on_failure } : {}),
+          ...(s.timeout ? { step_timeout: s.timeout } : {}),
+          ...(s.result_into ? { result_into: s.result_into } : {}),
         });
       }
     }
@@ -5351,6 +5810,14 @@ mcp.tool("define_process_genus", {
           throw new Error(`Action step "${step.name}" references non-existent action: "${step.action_name}"`);
         }
       }
+      if (step.type === "subprocess_step" && step.subprocess_name) {
+        if (step.subprocess_name.toLowerCase() === name.toLowerCase()) {
+          throw new Error(`Subprocess step "${step.name}" cannot start its own process`);
+        }
+        if (!findProcessGenusByName(kernel, step.subprocess_name)) {
+          throw new Error(`Subprocess step "${step.name}" references non-existent process: "${step.subprocess_name}"`);
+        }
+      }
     }
 
     // Validate triggers
@@ -5360,6 +5827,15 @@ mcp.tool("define_process_genus", {
       if (!VALID_TRIGGER_TYPES.has(trigger.type)) {
         throw new Error(`Invalid trigger type: "${trigger.type}". Valid types: ${[...VALID_TRIGGER_TYPES].join(", ")}`);
       }
+      if (trigger.type === "action") {
+        if (!trigger.action_name) throw new Error(`Action trigger requires action_name`);
+        if (!findActionByName(kernel, trigger.action_name as string)) {
+          throw new Error(`Action trigger references non-existent action: "${trigger.action_name}"`);
+        }
+      }
+      if (trigger.type === "condition" && !trigger.condition_attribute) {
+        throw new Error(`Condition trigger requires condition_attribute`);
+      }
     }
 
     const taxonomy_id = taxonomy ? resolveTaxonomyId(taxonomy) : DEFAULT_TAXONOMY_ID;
@@ -5375,12 +5851,12 @@ mcp.tool("define_process_genus", {
     });
 
     const def = getProcessDef(kernel, genusId);
-    return JSON.stringify({ genus_id: genusId, name, definition: def }, null, 2);
+    return JSON.stringify({ genus_id: genusId, name, version: getProcessDefVersion(kernel, genusId), definition: def }, null, 2);
   },
 });
 
 mcp.tool("evolve_process_genus", {
-  description: "Evolve an existing process genus — add or modify lanes, steps, and triggers. Uses last-value-wins: re-defining a step/lane by name overwrites it.",
+  description: "Evolve an existing process genus — add or modify lanes, steps, and triggers. Uses last-value-wins: re-defining a step/lane by name overwrites it. Returns the new definition version; running instances stay on the version they started with until migrate_process_instance moves them.",
   input: {
     type: "object",
     properties: {
@@ -5399,17 +5875,28 @@ mcp.tool("evolve_process_genus", {
                 type: "object",
                 properties: {
                   name: { type: "string", description: "Step name (unique across all lanes)" },
-                  type: { type: "string", description: "Step type: task_step, action_step, gate_step, fetch_step, branch_step" },
-                  title: { type: "string", description: "task_step: task title" },
-                  description: { type: "string", description: "task_step: task description" },
+                  type: { type: "string", description: "Step type: task_step, action_step, gate_step, fetch_step, branch_step, timer_step, wait_step, subprocess_step" },
+                  title: { type: "string", description: "task_step: task title; $var.X is substituted" },
+                  description: { type: "string", description: "task_step: task description; $var.X is substituted" },
                   priority: { type: "string", description: "task_step: priority level" },
                   target_agent_type: { type: "string", description: "task_step: agent type to assign to" },
                   action_name: { type: "string", description: "action_step: name of the action genus to execute" },
-                  action_params: { type: "object", description: "action_step: parameters to pass to the action" },
-                  resource_bindings: { type: "object", description: "action_step: resource bindings for the action" },
+                  action_params: { type: "object", description: "action_step: parameters to pass to the action; a '$var.X' value passes a process variable through" },
+                  resource_bindings: { type: "object", description: "action_step: resource bindings for the action ('$context.res_id', '$var.X', or an entity ID)" },
                   conditions: { type: "array", items: { type: "string" }, description: "gate_step: step names that must complete before this gate passes" },
                   fetch_source: { type: "string", description: "fetch_step: attribute to read from context entity" },
-                  fetch_into: { type: "string", description: "fetch_step: key to store the fetched value" },
+                  fetch_into: { type: "string", description: "fetch_step: process variable to store the fetched value in (read later as $var.<name>)" },
+                  result_into: { type: "string", description: "task_step/action_step: process variable for the task's result or the action's output { action_taken_id, created }" },
+                  delay: { type: "string", description: "timer_step: fire this long after the step starts, e.g. '3d', '12h'. wait_step: deadline relative to the step start" },
+                  until: { type: "string", description: "timer_step: fire at this ISO time. wait_step: absolute deadline" },
+                  wait_for: { type: "object", description: "wait_step: condition on the context entity, e.g. { key: 'status', op: 'eq', value: 'approved' }; and/or groups allowed", additionalProperties: true },
+                  on_timeout: { type: "string", description: "wait_step: later step in the same lane to jump to when the deadline passes (default: the step fails)" },
+                  subprocess: { type: "string", description: "subprocess_step: name of the process genus to start; the step completes when that process does" },
+                  subprocess_context: { type: "string", description: "subprocess_step: context for the child — '$context.res_id' (default), '$context.<attribute>' holding an entity ID, or an entity ID" },
+                  max_attempts: { type: "number", description: "Any step: total attempts before the step fails (default 1, no retries)" },
+                  backoff: { type: "string", description: "Any step: wait before the first retry, doubled for each later one, e.g. '30s', '5m' (default: retry at once)" },
+                  on_failure: { type: "string", description: "Any step: later step in the same lane to jump to when this step finally fails, e.g. 'notify_editor' (default: the lane halts)" },
+                  timeout: { type: "string", description: "task_step/subprocess_step: fail the step if it is still running after this long, e.g. '2d'" },
                 },
                 required: ["name", "type"],
               },
@@ -5425,6 +5912,10 @@ mcp.tool("evolve_process_genus", {
           type: "object",
           properties: {
             type: { type: "string", description: "Trigger type: manual, action, condition, cron" },
+            action_name: { type: "string", description: "action: start an instance whenever this action executes (context = the action's first bound resource)" },
+            condition_attribute: { type: "string", description: "condition: attribute to watch (use 'status' for status transitions)" },
+            condition_value: { description: "condition: start an instance when the attribute becomes this value" },
+            genus_name: { type: "string", description: "condition: only watch entities of this genus" },
           },
           required: ["type"],
           additionalProperties: true,
@@ -5435,7 +5926,7 @@ mcp.tool("evolve_process_genus", {
   },
   handler: async ({ process, lanes, triggers }: {
     process: string;
-    lanes?: { name: string; steps?: { name: string; type: string; title?: string; description?: string; priority?: string; target_agent_type?: string; action_name?: string; action_params?: Record<string, unknown>; resource_bindings?: Record<string, string>; conditions?: string[]; fetch_source?: string; fetch_into?: string }[] }[];
+    lanes?: { name: string; steps?: { name: string; type: string; title?: string; description?: string; priority?: string; target_agent_type?: string; action_name?: string; action_params?: Record<string, unknown>; resource_bindings?: Record<string, string>; conditions?: string[]; fetch_source?: string; fetch_into?: string; delay?: string; until?: string; wait_for?: AttributeQuery; on_timeout?: string; subprocess?: string; subprocess_context?: string; max_attempts?: number; backoff?: string; on_failure?: string; timeout?: string; result_into?: string }[] }[];
     triggers?: { type: string; [key: string]: unknown }[];
   }) => {
     const genusId = resolveProcessGenusId(process);
@@ -5470,6 +5961,17 @@ mcp.tool("evolve_process_genus", {
             ...(s.target_agent_type ? { task_target_agent_type: s.target_agent_type } : {}),
             ...(s.fetch_source ? { fetch_source: s.fetch_source } : {}),
             ...(s.fetch_into ? { fetch_into: s.fetch_into } : {}),
+            ...(s.delay ? { timer_delay: s.delay } : {}),
+            ...(s.until ? { timer_until: s.until } : {}),
+            ...(s.wait_for ? { wait_condition: s.wait_for } : {}),
+            ...(s.on_timeout ? { wait_timeout_step: s.on_timeout } : {}),
+            ...(s.subprocess ? { subprocess_name: s.subprocess } : {}),
+            ...(s.subprocess_context ? { subprocess_context: s.subprocess_context } : {}),
+            ...(s.max_attempts !== undefined ? { retry_max_attempts: s.max_attempts } : {}),
+            ...(s.backoff ? { retry_backoff: s.backoff } : {}),
+            ...(s.on_failure ? { on_failure: s.on_failure } : {}),
+            ...(s.timeout ? { step_timeout: s.timeout } : {}),
+            ...(s.result_into ? { result_into: s.result_into } : {}),
           });
         }
         globalOffset += lane.steps.length;
@@ -5483,7 +5985,7 @@ mcp.tool("evolve_process_genus", {
     });
 
     const def = getProcessDef(kernel, genusId);
-    return JSON.stringify({ genus_id: genusId, definition: def }, null, 2);
+    return JSON.stringify({ genus_id: genusId, version: getProcessDefVersion(kernel, genusId), definition: def }, null, 2);
   },
 });
 
@@ -5724,7 +6226,7 @@ mcp.tool("build_room", {
         );
       }
     }
-    if (_currentSessionId) {
+    if (_currentSessionId()) {
       const ctx = _getSessionContext();
       _palaceNavigate(ctx, room.slug, room);
     }
@@ -6041,16 +6543,17 @@ function _renderGlance(entityId: string): string {
   // Check for genus template
   const templates = getGenusTemplates(kernel, resRow.genus_id);
   if (templates.glance) {
-    return renderTemplate(templates.glance, state, { genus_name: genusName, id: entityId });
+    return renderTemplate(templates.glance, state, { genus_name: genusName, id: entityId, refs: getReferenceNames(kernel, genusDef, state) });
   }
 
   // Default glance
   const name = getEntityDisplayName(kernel, entityId);
+  const refs = getReferenceNames(kernel, genusDef, state);
   const lines: string[] = [`${name} (${genusName}). Status: ${(state.status as string) ?? "unknown"}.`];
   for (const [key, val] of Object.entries(state)) {
     if (["name", "title", "status", "genus_id"].includes(key)) continue;
     if (val == null || typeof val === "object") continue;
-    lines.push(`  ${key}: ${val}`);
+    lines.push(`  ${key}: ${refs[key] ?? val}`);
   }
   return lines.join("\n");
 }
@@ -6064,7 +6567,7 @@ function _renderInspect(entityId: string): string {
   // Check for genus template
   const templates = getGenusTemplates(kernel, resRow.genus_id);
   if (templates.inspect) {
-    return renderTemplate(templates.inspect, state, { genus_name: genusName, id: entityId });
+    return renderTemplate(templates.inspect, state, { genus_name: genusName, id: entityId, refs: getReferenceNames(kernel, genusDef, state) });
   }
 
   // Default inspect
@@ -6375,7 +6878,7 @@ mcp.tool("palace_action", {
           (grouped[r.type] ??= []).push(r);
         }
         for (const [type, items] of Object.entries(grouped)) {
-          lines.push(`${type.charAt(0).toUpperCase() + type.slice(1)}s:`);
+          lines.push(type === "npc" ? "NPCs:" : `${type.charAt(0).toUpperCase() + type.slice(1)}s:`);
           for (const item of items) {
             lines.push(`  - ${item.match} (${item.field} in ${item.room_name})`);
           }
@@ -6387,9 +6890,9 @@ mcp.tool("palace_action", {
       if (entityResults.length > 0) {
         lines.push("Entities:");
         for (const e of entityResults) {
-          const matchedFields = e.matched_attributes.join(", ");
           const displayName = getEntityDisplayName(kernel, e.id);
-          lines.push(`  - [${e.genus_name}] ${displayName} (matched: ${matchedFields})`);
+          const [firstField] = e.matched_attributes;
+          lines.push(`  - [${e.genus_name}] ${displayName} — ${firstField}: ${e.snippets[firstField]}`);
         }
         lines.push("");
       }
@@ -6444,7 +6947,7 @@ mcp.tool("palace_action", {
           const targetWsId = findWorkspaceByName(kernel, act.workspace);
           if (!targetWsId) return `Workspace "${act.workspace}" not found. Create it with set_workspace.`;
           kernel.currentWorkspace = targetWsId;
-          if (_currentSessionId) {
+          if (_currentSessionId()) {
             const sessionCtx = _getSessionContext();
             sessionCtx.workspace_id = targetWsId;
           }
@@ -6757,7 +7260,7 @@ const transport = mcp.httpTransport();
 async function authedTransport(req: Request): Promise<Response> {
   const denied = requireAuth(req);
   if (denied) return denied;
-  return transport(req);
+  return _requestPrincipal.run(_authPrincipal(req) ?? "anonymous", () => transport(req));
 }
 
 async function deleteSession(req: Request): Promise<Response> {
@@ -6785,70 +7288,33 @@ async function handleSyncPull(req: Request): Promise<Response> {
   const denied = requireAuth(req);
   if (denied) return denied;
 
-  const body = await req.json() as { since?: number; device_id?: string };
-  const since = body.since ?? 0;
+  const body = await req.json() as {
+    since?: number; device_id?: string; limit?: number;
+    workspace?: string; genus?: string | string[]; taxonomy?: string;
+  };
   const deviceId = body.device_id ?? "unknown";
 
-  const deviceResId = resolveOrCreateDevice(deviceId);
-
-  const sentinels = [META_GENUS_ID, LOG_GENUS_ID, ERROR_GENUS_ID, TASK_GENUS_ID, BRANCH_GENUS_ID];
-  const deviceSource = `device:${deviceId}`;
-
-  const rows = kernel.db.query(
-    `SELECT * FROM tessella WHERE id > ? AND res_id NOT IN (?, ?, ?, ?) AND (source IS NULL OR source != ?) ORDER BY id ASC`,
-  ).all(since, ...sentinels, deviceSource) as any[];
-
-  const tessellae = rows.map((r: any) => ({
-    id: r.id,
-    res_id: r.res_id,
-    branch_id: r.branch_id,
-    type: r.type,
-    data: JSON.parse(r.data),
-    created_at: r.created_at,
-    source: r.source,
-  }));
-
-  // Collect distinct res_ids, excluding sentinels
-  const resIds = [...new Set(tessellae.map((t: any) => t.res_id))].filter(
-    (id) => !sentinels.includes(id),
-  );
-  const resRows = resIds.map((id) => {
-    const row = kernel.db.query("SELECT * FROM res WHERE id = ?").get(id) as any;
-    return row ? { id: row.id, genus_id: row.genus_id, branch_id: row.branch_id, created_at: row.created_at } : null;
-  }).filter((r): r is NonNullable<typeof r> => r !== null);
-
-  // Also include genus res for any non-sentinel genus_ids so the client gets genus definitions
-  const genusIds = [...new Set(resRows.map((r) => r.genus_id))].filter(
-    (id) => !sentinels.includes(id) && !resIds.includes(id),
-  );
-  for (const gid of genusIds) {
-    const row = kernel.db.query("SELECT * FROM res WHERE id = ?").get(gid) as any;
-    if (row) {
-      resRows.push({ id: row.id, genus_id: row.genus_id, branch_id: row.branch_id, created_at: row.created_at });
-      // Also include genus tessellae
-      const genusTessellae = kernel.db.query(
-        "SELECT * FROM tessella WHERE res_id = ? ORDER BY id ASC",
-      ).all(gid) as any[];
-      for (const gt of genusTessellae) {
-        tessellae.push({
-          id: gt.id,
-          res_id: gt.res_id,
-          branch_id: gt.branch_id,
-          type: gt.type,
-          data: JSON.parse(gt.data),
-          created_at: gt.created_at,
-          source: gt.source,
-        });
-      }
-    }
+  let opts: SyncPullOptions;
+  try {
+    opts = {
+      since: body.since ?? 0,
+      limit: body.limit,
+      exclude_source: `device:${deviceId}`,
+      workspace_id: body.workspace ? resolveWorkspaceId(body.workspace) : undefined,
+      genus_ids: body.genus ? (Array.isArray(body.genus) ? body.genus : [body.genus]).map(resolveGenusId) : undefined,
+      taxonomy_id: body.taxonomy ? resolveTaxonomyId(body.taxonomy) : undefined,
+    };
+  } catch (e: any) {
+    return Response.json({ error: e.message }, { status: 400 });
   }
 
-  const hwm = rows.length > 0 ? rows[rows.length - 1].id : since;
+  const deviceResId = resolveOrCreateDevice(deviceId);
+  const data = getPullData(kernel, opts);
 
   // Update device last_sync_at
   setAttribute(kernel, deviceResId, "last_sync_at", new Date().toISOString());
 
-  return Response.json({ res: resRows, tessellae, high_water_mark: hwm });
+  return Response.json(data);
 }
 
 async function handleSyncPush(req: Request): Promise<Response> {
@@ -6858,7 +7324,7 @@ async function handleSyncPush(req: Request): Promise<Response> {
   const body = await req.json() as {
     device_id?: string;
     res?: { id: string; genus_id: string; branch_id: string; created_at?: string }[];
-    tessellae?: { res_id: string; branch_id: string; type: string; data: any; created_at: string; source: string | null }[];
+    tessellae?: { res_id: string; branch_id: string; type: string; data: any; created_at: string; source: string | null; actor?: string | null; session_id?: string | null }[];
   };
   const deviceId = body.device_id ?? "unknown";
   const deviceSource = `device:${deviceId}`;
@@ -6867,6 +7333,7 @@ async function handleSyncPush(req: Request): Promise<Response> {
 
   const resData = body.res ?? [];
   const tessData = body.tessellae ?? [];
+  const maxBefore = (kernel.db.query("SELECT MAX(id) as max_id FROM tessella").get() as { max_id: number | null }).max_id ?? 0;
 
   const doInsert = kernel.db.transaction(() => {
     for (const r of resData) {
@@ -6877,12 +7344,14 @@ async function handleSyncPush(req: Request): Promise<Response> {
     }
     for (const t of tessData) {
       kernel.db.run(
-        "INSERT INTO tessella (res_id, branch_id, type, data, created_at, source) VALUES (?, ?, ?, ?, ?, ?)",
-        [t.res_id, t.branch_id, t.type, JSON.stringify(t.data), t.created_at, deviceSource],
+        "INSERT INTO tessella (res_id, branch_id, type, data, created_at, source, actor, session_id, recorded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))",
+        [t.res_id, t.branch_id, t.type, JSON.stringify(t.data), t.created_at, deviceSource, t.actor ?? null, t.session_id ?? null],
       );
     }
   });
   doInsert();
+  rebuildSearchIndex(kernel, { after: maxBefore });
+  rebuildAttributeIndex(kernel, { after: maxBefore });
 
   const maxRow = kernel.db.query("SELECT MAX(id) as max_id FROM tessella").get() as { max_id: number };
   const hwm = maxRow.max_id ?? 0;
@@ -6898,14 +7367,26 @@ async function handleSyncPush(req: Request): Promise<Response> {
 setInterval(() => {
   kernel.db.run("DELETE FROM oauth_codes WHERE used = 1 OR expires_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')");
   kernel.db.run("DELETE FROM oauth_tokens WHERE revoked = 1 OR expires_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')");
+  purgeIdempotencyKeys(kernel);
 }, 60 * 60 * 1000);
 
-// --- Cron tick (every 60 seconds) ---
+// --- Cron tick (every 60 seconds; also resumes process timer and wait steps) ---
 
 setInterval(() => {
   try { tickCron(kernel); } catch (e) { console.error("Cron tick error:", e); }
 }, 60_000);
 
+// --- Outbox delivery (every 15 seconds) ---
+
+let outboxDelivering = false;
+setInterval(async () => {
+  // A slow endpoint can outlast the interval; never run two passes at once
+  if (outboxDelivering) return;
+  outboxDelivering = true;
+  try { await deliverOutbox(kernel); } catch (e) { console.error("Outbox delivery error:", e); }
+  finally { outboxDelivering = false; }
+}, 15_000);
+
 // --- Palace Web UI ---
 
 function _escapeHtml(s: string): string {
@@ -6988,7 +7469,7 @@ function _palaceGlanceJson(entityId: string): Record<string, unknown> {
     genus_name: genusName,
     status: (state.status as string) ?? "unknown",
     attributes: attrs,
-    template: templates.glance ? renderTemplate(templates.glance, state, { genus_name: genusName, id: entityId }) : null,
+    template: templates.glance ? renderTemplate(templates.glance, state, { genus_name: genusName, id: entityId, refs: getReferenceNames(kernel, genusDef, state) }) : null,
   };
 }
 
@@ -7017,7 +7498,7 @@ function _palaceInspectJson(entityId: string): Record<string, unknown> {
     status: (state.status as string) ?? "unknown",
     state,
     relationships,
-    template: templates.inspect ? renderTemplate(templates.inspect, state, { genus_name: genusName, id: entityId }) : null,
+    template: templates.inspect ? renderTemplate(templates.inspect, state, { genus_name: genusName, id: entityId, refs: getReferenceNames(kernel, genusDef, state) }) : null,
   };
 }
 
@@ -7334,7 +7815,7 @@ function palaceFetchHandler(req: Request): Response | Promise<Response> {
   if (url.pathname === "/palace" || url.pathname === "/palace/")
     return new Response(PALACE_HTML, { headers: { "Content-Type": "text/html; charset=utf-8" } });
   if (url.pathname.startsWith("/palace/api/"))
-    return handlePalaceApi(req, url);
+    return _requestScope.run({ kernel: createKernelView(rootKernel), session_id: null }, () => handlePalaceApi(req, url));
   return httpNotFound();
 }
 
@@ -0,0 +1,179 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Subprocess } from "bun";
+
+const SERVER_PORT = 3098;
+const SERVER_URL = `http://localhost:${SERVER_PORT}`;
+const AUTH_TOKEN = "test-isolation-token";
+const SERVER_DB = "/tmp/smaragda-isolation-test.db";
+
+let serverProc: Subprocess;
+let rpcId = 0;
+
+function headers(): Record<string, string> {
+  return { "Content-Type": "application/json", Authorization: `Bearer ${AUTH_TOKEN}` };
+}
+
+async function rpc(method: string, params: Record<string, unknown> = {}): Promise<any> {
+  const resp = await fetch(`${SERVER_URL}/mcp`, {
+    method: "POST",
+    headers: headers(),
+    body: JSON.stringify({ jsonrpc: "2.0", id: ++rpcId, method, params }),
+  });
+  return resp.json();
+}
+
+async function callTool(session: string, name: string, args: Record<string, unknown> = {}): Promise<any> {
+  const body = await rpc("tools/call", { name, arguments: { ...args, _session_id: session } });
+  const text = body.result?.content?.[0]?.text ?? "";
+  if (body.result?.isError) throw new Error(text);
+  return JSON.parse(text);
+}
+
+function removeDbFiles(): void {
+  // The server keeps session state next to the main db; clear both so stale sessions don't leak in
+  for (const base of [SERVER_DB, SERVER_DB.replace(/\.db$/, "-sessions.db")]) {
+    for (const suffix of ["", "-wal", "-shm"]) {
+      try { require("fs").unlinkSync(base + suffix); } catch {}
+    }
+  }
+}
+
+async function waitForServer(maxMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (Date.now() - start < maxMs) {
+    try {
+      const body = await rpc("ping");
+      if (body.result) return;
+    } catch {}
+    await Bun.sleep(100);
+  }
+  throw new Error("Server did not start in time");
+}
+
+describe("Session Isolation", () => {
+  const A = "session-a";
+  const B = "session-b";
+
+  beforeAll(async () => {
+    removeDbFiles();
+
+    serverProc = Bun.spawn(["bun", "server.ts"], {
+      env: {
+        ...process.env,
+        PORT: String(SERVER_PORT),
+        AUTH_TOKEN,
+        DB_PATH: SERVER_DB,
+      },
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+
+    await waitForServer();
+
+    await callTool(A, "create_workspace", { name: "Alpha" });
+    await callTool(A, "create_workspace", { name: "Beta" });
+    await callTool(A, "define_entity_genus", {
+      name: "Note",
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "draft", initial: true }],
+      transitions: [],
+    });
+  });
+
+  afterAll(async () => {
+    serverProc.kill();
+    await serverProc.exited;
+    removeDbFiles();
+  });
+
+  test("each session keeps its own workspace", async () => {
+    await callTool(A, "set_workspace", { workspace: "Alpha" });
+    await callTool(B, "set_workspace", { workspace: "Beta" });
+
+    const a = await callTool(A, "create_entity", { genus: "Note", attributes: { title: "from A" } });
+    const b = await callTool(B, "create_entity", { genus: "Note", attributes: { title: "from B" } });
+
+    const listA = await callTool(A, "list_entities", { genus: "Note" });
+    const listB = await callTool(B, "list_entities", { genus: "Note" });
+    const idsA = JSON.stringify(listA);
+    const idsB = JSON.stringify(listB);
+    expect(idsA).toContain(a.id);
+    expect(idsA).not.toContain(b.id);
+    expect(idsB).toContain(b.id);
+    expect(idsB).not.toContain(a.id);
+  });
+
+  test("branch switch in one session does not leak into another", async () => {
+    await callTool(A, "set_workspace", { workspace: "Alpha" });
+    await callTool(B, "set_workspace", { workspace: "Alpha" });
+    const note = await callTool(A, "create_entity", { genus: "Note", attributes: { title: "original" } });
+
+    await callTool(A, "create_branch", { name: "a-experiment" });
+    // B reads and writes between A's branch switch and A's next write
+    const bRead = await callTool(B, "get_entity", { entity_id: note.id });
+    expect(bRead.state.title).toBe("original");
+
+    await callTool(A, "set_attribute", { entity_id: note.id, attribute: "title", value: "on branch" });
+    await callTool(B, "set_attribute", { entity_id: note.id, attribute: "title", value: "on main" });
+
+    const aView = await callTool(A, "get_entity", { entity_id: note.id });
+    const bView = await callTool(B, "get_entity", { entity_id: note.id });
+    expect(aView.state.title).toBe("on branch");
+    expect(bView.state.title).toBe("on main");
+
+    const branches = await callTool(B, "list_branches");
+    expect(branches.current_branch).toBe("main");
+  });
+
+  test("concurrent calls from different sessions stay scoped", async () => {
+    await callTool(A, "set_workspace", { workspace: "Alpha" });
+    await callTool(B, "set_workspace", { workspace: "Beta" });
+
+    const created = await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        callTool(i % 2 === 0 ? A : B, "create_entity", { genus: "Note", attributes: { title: `concurrent ${i}` } }),
+      ),
+    );
+
+    const listA = JSON.stringify(await callTool(A, "list_entities", { genus: "Note", compact: false }));
+    const listB = JSON.stringify(await callTool(B, "list_entities", { genus: "Note", compact: false }));
+    created.forEach((entity, i) => {
+      if (i % 2 === 0) {
+        expect(listA).toContain(entity.id);
+        expect(listB).not.toContain(entity.id);
+      } else {
+        expect(listB).toContain(entity.id);
+        expect(listA).not.toContain(entity.id);
+      }
+    });
+  });
+
+  test("get_history attributes each change to its caller's session", async () => {
+    await callTool(A, "set_workspace", { workspace: "Alpha" });
+    await callTool(A, "switch_branch", { name: "main" });
+    await callTool(B, "set_workspace", { workspace: "Alpha" });
+    const note = await callTool(A, "create_entity", { genus: "Note", attributes: { title: "by A" } });
+    await callTool(B, "set_attribute", { entity_id: note.id, attribute: "title", value: "by B" });
+
+    const history = await callTool(A, "get_history", { entity_id: note.id });
+    const titles = history.filter((h: any) => h.type === "attribute_set" && h.data.key === "title");
+    expect(titles.map((h: any) => [h.data.value, h.session_id])).toEqual([["by A", A], ["by B", B]]);
+    for (const h of history) expect(h.actor).toBe("token");
+  });
+
+  test("as_of pins only the call it is passed to", async () => {
+    await callTool(A, "set_workspace", { workspace: "Alpha" });
+    const note = await callTool(A, "create_entity", { genus: "Note", attributes: { title: "first" } });
+    const history = await callTool(A, "get_history", { entity_id: note.id });
+    const pinned = history[history.length - 1].tessella_id;
+    await callTool(A, "set_attribute", { entity_id: note.id, attribute: "title", value: "second" });
+
+    const past = await callTool(A, "get_entity", { entity_id: note.id, as_of: pinned });
+    expect(past.state.title).toBe("first");
+    expect(past.as_of.tessella_id).toBe(pinned);
+
+    const now = await callTool(A, "get_entity", { entity_id: note.id });
+    expect(now.state.title).toBe("second");
+    expect(now.as_of).toBeUndefined();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import {
   initKernel,
+  createKernelView,
   getRes,
   createRes,
   appendTessella,
@@ -21,9 +22,18 @@ import {
   ERROR_GENUS_ID,
   actionReducer,
   getActionDef,
+  getActionParametersSchema,
   defineActionGenus,
   recordInput,
   executeAction,
+  executeActionBulk,
+  withIdempotencyKey,
+  purgeIdempotencyKeys,
+  undoAction,
+  checkActionAvailability,
+  deliverOutbox,
+  listOutbox,
+  requeueOutboxEntry,
   listActionGenera,
   findActionByName,
   findActionsByTargetGenus,
@@ -57,6 +67,14 @@ import {
   getUnpushedTessellae,
   getUnpushedRes,
   insertPulledData,
+  getPullData,
+  pullCursorKey,
+  rebuildSearchIndex,
+  registerSnapshotReducer,
+  invalidateSnapshots,
+  queryEntities,
+  rebuildAttributeIndex,
+  resolveAsOf,
   TASK_GENUS_ID,
   CRON_SCHEDULE_GENUS_ID,
   parseCron,
@@ -67,6 +85,10 @@ import {
   listCronSchedules,
   fireCronSchedule,
   tickCron,
+  retryProcessStep,
+  skipProcessStep,
+  getProcessDefVersion,
+  migrateProcessInstance,
   createTask,
   claimTask,
   completeTask,
@@ -159,6 +181,7 @@ import {
   setGenusTemplate,
   getGenusTemplates,
   renderTemplate,
+  getReferenceNames,
   getEntityDisplayName,
   setTemporalAnchor,
   getTemporalAnchor,
@@ -166,7 +189,7 @@ import {
   queryTimeline,
   findTransitionPath,
 } from "./smaragda";
-import type { Kernel, Tessella, SyncPullData, ProcessStepDef, FiletreeNode, SerializationManifest, PalaceDialogueNode } from "./smaragda";
+import type { Kernel, Tessella, TessellaReducer, SyncPullData, ProcessStepDef, ProcessTriggerDef, FiletreeNode, SerializationManifest, PalaceDialogueNode, SideEffect } from "./smaragda";
 
 // ============================================================================
 // Tessella Store
@@ -10547,3 +10570,3296 @@ describe("Palace NPCs", () => {
     ).toThrow(/missing required "label" field/);
   });
 });
+
+// ============================================================================
+// Process Triggers
+// ============================================================================
+
+describe("Process Triggers", () => {
+  let kernel: Kernel;
+  let issueGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    issueGenus = defineEntityGenus(kernel, "Issue", {
+      attributes: [
+        { name: "title", type: "text", required: true },
+        { name: "priority", type: "text" },
+      ],
+      states: [
+        { name: "draft", initial: true },
+        { name: "review", initial: false },
+        { name: "published", initial: false },
+      ],
+      transitions: [
+        { from: "draft", to: "review" },
+        { from: "review", to: "published" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function defineReviewProcess(triggers: ProcessTriggerDef[]) {
+    return defineProcessGenus(kernel, "Review", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "check", type: "task_step", lane: "main", position: 0, task_title: "Check issue" },
+      ],
+      triggers,
+    });
+  }
+
+  test("action trigger starts a process bound to the acted-on resource", () => {
+    const actionId = defineActionGenus(kernel, "submit", {
+      resources: [{ name: "issue", genus_name: "Issue", required_status: "draft" }],
+      handler: [{ type: "transition_status", res: "$res.issue.id", target: "review" }],
+    });
+    const procGenus = defineReviewProcess([{ type: "action", action_name: "Submit" }]);
+    const issueId = createEntity(kernel, issueGenus);
+    setAttribute(kernel, issueId, "title", "Spring");
+
+    const result = executeAction(kernel, actionId, { issue: issueId }, {});
+    expect(result.error).toBeUndefined();
+    expect(result.triggered_processes).toHaveLength(1);
+
+    const procs = listProcesses(kernel, { genus_id: procGenus });
+    expect(procs).toHaveLength(1);
+    expect(procs[0].id).toBe(result.triggered_processes![0]);
+    expect(procs[0].context_res_id).toBe(issueId);
+  });
+
+  test("action trigger does not fire for other actions or failed executions", () => {
+    const submitId = defineActionGenus(kernel, "submit", {
+      resources: [{ name: "issue", genus_name: "Issue", required_status: "draft" }],
+      handler: [{ type: "transition_status", res: "$res.issue.id", target: "review" }],
+    });
+    const otherId = defineActionGenus(kernel, "retitle", {
+      resources: [{ name: "issue", genus_name: "Issue" }],
+      parameters: [{ name: "title", type: "text", required: true }],
+      handler: [{ type: "set_attribute", res: "$res.issue.id", key: "title", value: "$param.title" }],
+    });
+    const procGenus = defineReviewProcess([{ type: "action", action_name: "submit" }]);
+    const issueId = createEntity(kernel, issueGenus);
+
+    const other = executeAction(kernel, otherId, { issue: issueId }, { title: "X" });
+    expect(other.triggered_processes).toBeUndefined();
+
+    transitionStatus(kernel, issueId, "review");
+    const failed = executeAction(kernel, submitId, { issue: issueId }, {});
+    expect(failed.error).toBeDefined();
+
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(0);
+  });
+
+  test("a process that runs its own triggering action fails instead of restarting", () => {
+    const touch = defineActionGenus(kernel, "touch", {
+      resources: [{ name: "issue", genus_name: "Issue" }],
+      handler: [{ type: "set_attribute", res: "$res.issue.id", key: "priority", value: "high" }],
+    });
+    const procGenus = defineProcessGenus(kernel, "Retouch", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "again", type: "action_step", lane: "main", position: 0, action_name: "touch",
+          action_resource_bindings: { issue: "$context.res_id" } },
+      ],
+      triggers: [{ type: "action", action_name: "touch" }],
+    });
+    const issueId = createEntity(kernel, issueGenus);
+
+    const result = executeAction(kernel, touch, { issue: issueId }, {});
+    expect(result.error).toBeUndefined();
+    expect(result.triggered_processes).toHaveLength(1);
+    expect(listProcesses(kernel, { genus_id: procGenus, include_finished: true })).toHaveLength(1);
+
+    const state = getProcessStatus(kernel, result.triggered_processes![0]);
+    expect(state.status).toBe("failed");
+    expect(state.steps.again.result).toBe('Action "touch" would trigger itself again (touch → touch)');
+
+    // Outside a trigger chain the action runs and triggers as usual
+    expect(executeAction(kernel, touch, { issue: issueId }, {}).triggered_processes).toHaveLength(1);
+  });
+
+  test("condition trigger on status starts a process when the condition becomes true", () => {
+    const procGenus = defineReviewProcess([
+      { type: "condition", condition_attribute: "status", condition_value: "review", genus_name: "Issue" },
+    ]);
+    const issueId = createEntity(kernel, issueGenus);
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(0);
+
+    transitionStatus(kernel, issueId, "review");
+    const procs = listProcesses(kernel, { genus_id: procGenus });
+    expect(procs).toHaveLength(1);
+    expect(procs[0].context_res_id).toBe(issueId);
+  });
+
+  test("condition trigger on an attribute is edge-triggered", () => {
+    const procGenus = defineReviewProcess([
+      { type: "condition", condition_attribute: "priority", condition_value: "urgent" },
+    ]);
+    const issueId = createEntity(kernel, issueGenus);
+
+    setAttribute(kernel, issueId, "priority", "low");
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(0);
+
+    setAttribute(kernel, issueId, "priority", "urgent");
+    setAttribute(kernel, issueId, "priority", "urgent");
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(1);
+
+    setAttribute(kernel, issueId, "priority", "low");
+    setAttribute(kernel, issueId, "priority", "urgent");
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(2);
+  });
+
+  test("condition trigger respects genus_name scoping", () => {
+    const otherGenus = defineEntityGenus(kernel, "Ticket", {
+      attributes: [{ name: "priority", type: "text" }],
+      states: [{ name: "open", initial: true }],
+    });
+    const procGenus = defineReviewProcess([
+      { type: "condition", condition_attribute: "priority", condition_value: "urgent", genus_name: "Issue" },
+    ]);
+    const ticketId = createEntity(kernel, otherGenus);
+    setAttribute(kernel, ticketId, "priority", "urgent");
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(0);
+  });
+
+  test("condition trigger does not fire on a branch", () => {
+    const procGenus = defineReviewProcess([
+      { type: "condition", condition_attribute: "priority", condition_value: "urgent" },
+    ]);
+    const issueId = createEntity(kernel, issueGenus);
+    createBranch(kernel, "experiment");
+    switchBranch(kernel, "experiment");
+    setAttribute(kernel, issueId, "priority", "urgent");
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(0);
+  });
+
+  test("triggers on deprecated process genera are ignored", () => {
+    const procGenus = defineReviewProcess([
+      { type: "condition", condition_attribute: "priority", condition_value: "urgent" },
+    ]);
+    deprecateGenus(kernel, procGenus);
+    const issueId = createEntity(kernel, issueGenus);
+    setAttribute(kernel, issueId, "priority", "urgent");
+    expect(listProcesses(kernel, { genus_id: procGenus })).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// Kernel Views
+// ============================================================================
+
+describe("Kernel Views", () => {
+  let kernel: Kernel;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  test("view shares the database but not the session state", () => {
+    const wsA = createWorkspace(kernel, "Alpha");
+    const wsB = createWorkspace(kernel, "Beta");
+    const genusId = defineEntityGenus(kernel, "Note", {
+      attributes: [{ name: "title", type: "text" }],
+    });
+
+    const a = createKernelView(kernel, { workspace_id: wsA });
+    const b = createKernelView(kernel, { workspace_id: wsB });
+    expect(a.db).toBe(kernel.db);
+
+    const noteA = createEntity(a, genusId);
+    const noteB = createEntity(b, genusId);
+    expect(listEntities(a, { genus_id: genusId }).map((e) => e.id)).toEqual([noteA]);
+    expect(listEntities(b, { genus_id: genusId }).map((e) => e.id)).toEqual([noteB]);
+    expect(kernel.currentWorkspace).toBeNull();
+  });
+
+  test("switching branch on a view leaves the base kernel untouched", () => {
+    const view = createKernelView(kernel);
+    createBranch(view, "experiment");
+    switchBranch(view, "experiment");
+    expect(view.currentBranch).toBe("experiment");
+    expect(kernel.currentBranch).toBe("main");
+
+    const other = createKernelView(kernel, { branch: "experiment", workspace_id: null });
+    expect(other.currentBranch).toBe("experiment");
+    expect(other.currentWorkspace).toBeNull();
+  });
+});
+
+// ============================================================================
+// Sync Pull Paging
+// ============================================================================
+
+describe("Sync Pull Paging", () => {
+  let server: Kernel;
+  let noteGenus: string;
+  let labWs: string;
+  let homeWs: string;
+
+  beforeEach(() => {
+    server = initKernel(":memory:");
+    noteGenus = defineEntityGenus(server, "Note", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "draft", initial: true }],
+    });
+    labWs = createWorkspace(server, "Lab");
+    homeWs = createWorkspace(server, "Home");
+  });
+
+  afterEach(() => {
+    server.db.close();
+  });
+
+  function createNote(workspace: string, title: string): string {
+    switchWorkspace(server, workspace);
+    const id = createEntity(server, noteGenus);
+    setAttribute(server, id, "title", title);
+    switchWorkspace(server, null);
+    return id;
+  }
+
+  test("unscoped pull excludes sentinel res and reports no more pages", () => {
+    createNote(labWs, "a");
+    const page = getPullData(server);
+    expect(page.has_more).toBe(false);
+    expect(page.next_cursor).toBeNull();
+    expect(page.res.map((r) => r.id)).not.toContain(META_GENUS_ID);
+    expect(page.tessellae.every((t) => t.res_id !== META_GENUS_ID)).toBe(true);
+  });
+
+  test("workspace filter returns only that workspace's entities plus genus defs", () => {
+    const labNote = createNote(labWs, "lab");
+    const homeNote = createNote(homeWs, "home");
+
+    const page = getPullData(server, { workspace_id: labWs });
+    const resIds = page.res.map((r) => r.id);
+    expect(resIds).toContain(labNote);
+    expect(resIds).toContain(noteGenus);
+    expect(resIds).toContain(labWs);
+    expect(resIds).not.toContain(homeNote);
+    expect(page.res.find((r) => r.id === labNote)!.workspace_id).toBe(labWs);
+  });
+
+  test("genus and taxonomy filters narrow the pull", () => {
+    const taxonomyId = createTaxonomy(server, "Inventory");
+    const itemGenus = defineEntityGenus(server, "Item", {
+      taxonomy_id: taxonomyId,
+      attributes: [{ name: "title", type: "text" }],
+    });
+    const note = createNote(labWs, "note");
+    const item = createEntity(server, itemGenus);
+
+    const byGenus = getPullData(server, { genus_ids: [noteGenus] }).res.map((r) => r.id);
+    expect(byGenus).toContain(note);
+    expect(byGenus).not.toContain(item);
+
+    const byTaxonomy = getPullData(server, { taxonomy_id: taxonomyId }).res.map((r) => r.id);
+    expect(byTaxonomy).toContain(item);
+    expect(byTaxonomy).toContain(itemGenus);
+    expect(byTaxonomy).not.toContain(note);
+  });
+
+  test("paging walks every tessella exactly once", () => {
+    for (let i = 0; i < 5; i++) createNote(labWs, `note ${i}`);
+    const all = getPullData(server, { workspace_id: labWs, limit: 10000 });
+
+    const seen: number[] = [];
+    let since = 0;
+    let pages = 0;
+    while (true) {
+      const page = getPullData(server, { workspace_id: labWs, since, limit: 3 });
+      pages++;
+      for (const t of page.tessellae) if (t.id > since) seen.push(t.id);
+      if (!page.has_more) break;
+      expect(page.next_cursor).toBe(page.high_water_mark);
+      since = page.next_cursor!;
+    }
+    expect(pages).toBeGreaterThan(1);
+    expect(new Set(seen).size).toBe(seen.length);
+    expect(seen.sort((a, b) => a - b)).toEqual(all.tessellae.map((t) => t.id));
+  });
+
+  test("insertPulledData resumes across pages and ignores re-delivered pages", () => {
+    const notes = [0, 1, 2, 3].map((i) => createNote(labWs, `note ${i}`));
+    const client = initKernel(":memory:");
+    const source = "sync:server";
+
+    let page: SyncPullData;
+    let firstPage: SyncPullData | null = null;
+    do {
+      const since = Number(getSyncState(client, pullCursorKey(source)) ?? "0");
+      page = getPullData(server, { workspace_id: labWs, since, limit: 4 });
+      firstPage ??= page;
+      insertPulledData(client, page, source);
+    } while (page.has_more);
+
+    const count = (client.db.query("SELECT COUNT(*) as cnt FROM tessella WHERE source = ?").get(source) as { cnt: number }).cnt;
+    // Replaying a page (e.g. after a crash before the cursor was saved) is a no-op
+    insertPulledData(client, firstPage!, source);
+    const after = (client.db.query("SELECT COUNT(*) as cnt FROM tessella WHERE source = ?").get(source) as { cnt: number }).cnt;
+    expect(after).toBe(count);
+
+    for (const [i, id] of notes.entries()) {
+      expect(materialize(client, id).title).toBe(`note ${i}`);
+    }
+    expect(listEntities(client, { genus_id: noteGenus, workspace_id: labWs, only_workspace: true })).toHaveLength(4);
+    client.db.close();
+  });
+});
+
+// ============================================================================
+// Full-Text Search
+// ============================================================================
+
+describe("Full-Text Search", () => {
+  let kernel: Kernel;
+  let bookGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    bookGenus = defineEntityGenus(kernel, "Book", {
+      attributes: [
+        { name: "title", type: "text" },
+        { name: "summary", type: "text" },
+        { name: "pages", type: "number" },
+      ],
+      states: [{ name: "draft", initial: true }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function book(title: string, summary?: string): string {
+    const id = createEntity(kernel, bookGenus);
+    setAttribute(kernel, id, "title", title);
+    if (summary) setAttribute(kernel, id, "summary", summary);
+    return id;
+  }
+
+  test("ranks closer matches first and highlights snippets", () => {
+    const passing = book("Gardening", "A chapter on ferns, then roses, then more about soil and weather");
+    const focused = book("Ferns", "Ferns and more ferns: a field guide to ferns");
+    const results = searchEntities(kernel, { query: "ferns" });
+    expect(results.map((r) => r.id)).toEqual([focused, passing]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[0].snippets.title).toBe("**Ferns**");
+    expect(results[1].snippets.summary).toContain("**ferns**");
+  });
+
+  test("supports prefix and phrase queries", () => {
+    const red = book("Mars", "The red planet");
+    const blue = book("Earth", "A planet that is blue, not red");
+    expect(searchEntities(kernel, { query: "plan*" }).map((r) => r.id).sort()).toEqual([red, blue].sort());
+    expect(searchEntities(kernel, { query: '"red planet"' }).map((r) => r.id)).toEqual([red]);
+    expect(searchEntities(kernel, { query: "blue red" }).map((r) => r.id)).toEqual([blue]);
+  });
+
+  test("punctuation-only and unbalanced queries do not throw", () => {
+    book("Anything");
+    expect(searchEntities(kernel, { query: "  -- " })).toEqual([]);
+    expect(() => searchEntities(kernel, { query: '"unbalanced AND (' })).not.toThrow();
+  });
+
+  test("overwritten text is no longer found", () => {
+    const id = book("Old Title");
+    setAttribute(kernel, id, "title", "New Title");
+    expect(searchEntities(kernel, { query: "old" })).toHaveLength(0);
+    expect(searchEntities(kernel, { query: "new" }).map((r) => r.id)).toEqual([id]);
+  });
+
+  test("finds feature attributes", () => {
+    const noteGenus = defineFeatureGenus(kernel, "Margin", {
+      parent_genus_name: "Book",
+      attributes: [{ name: "text", type: "text" }],
+    });
+    const id = book("Plain");
+    const featureId = createFeature(kernel, id, noteGenus, { attributes: { text: "marginalia about sextants" } });
+    const [result] = searchEntities(kernel, { query: "sextants" });
+    expect(result.id).toBe(id);
+    expect(result.matched_attributes).toEqual([`features.${featureId}.text`]);
+  });
+
+  test("results follow the current branch", () => {
+    const id = book("Alpha");
+    createBranch(kernel, "rename");
+    switchBranch(kernel, "rename");
+    setAttribute(kernel, id, "title", "Omega", { branch_id: "rename" });
+    expect(searchEntities(kernel, { query: "omega" }).map((r) => r.id)).toEqual([id]);
+    expect(searchEntities(kernel, { query: "alpha" })).toHaveLength(0);
+
+    switchBranch(kernel, "main");
+    expect(searchEntities(kernel, { query: "omega" })).toHaveLength(0);
+    expect(searchEntities(kernel, { query: "alpha" }).map((r) => r.id)).toEqual([id]);
+
+    mergeBranch(kernel, "rename");
+    expect(searchEntities(kernel, { query: "omega" }).map((r) => r.id)).toEqual([id]);
+  });
+
+  test("rebuildSearchIndex restores the index from tessellae", () => {
+    const id = book("Lighthouse");
+    kernel.db.run("DELETE FROM search_doc");
+    expect(searchEntities(kernel, { query: "lighthouse" })).toHaveLength(0);
+    rebuildSearchIndex(kernel);
+    expect(searchEntities(kernel, { query: "lighthouse" }).map((r) => r.id)).toEqual([id]);
+  });
+
+  test("palaceSearch covers scroll text and NPC dialogue", () => {
+    const ws = createWorkspace(kernel, "Museum");
+    palaceBuildRoom(kernel, ws, {
+      slug: "lab", name: "Laboratory", description: "Benches and burners.",
+      actions: [{ label: "Inspect the centrifuge", type: "text", content: "It hums." }],
+      portals: [],
+    });
+    palaceWriteScroll(kernel, ws, "lab", "Assay log", "Tin isotopes from the Uluburun wreck.");
+    palaceCreateNPC(kernel, ws, {
+      slug: "assayer", name: "Assayer", description: "Knows metals.", room_slug: "lab",
+      greeting: "Hello.",
+      dialogue: [{ id: "q1", parent: "root", prompt: "Where is the tin from?", text: "Cornwall, most likely." }],
+    });
+
+    const scroll = palaceSearch(kernel, ws, "uluburun");
+    expect(scroll).toHaveLength(1);
+    expect(scroll[0]).toMatchObject({ type: "scroll", room_slug: "lab", field: "body" });
+    expect(scroll[0].match).toContain("**Uluburun**");
+
+    const npc = palaceSearch(kernel, ws, "cornwall");
+    expect(npc).toHaveLength(1);
+    expect(npc[0]).toMatchObject({ type: "npc", room_slug: "lab", field: "dialogue" });
+
+    const action = palaceSearch(kernel, ws, "centri*");
+    expect(action[0]).toMatchObject({ type: "action", match: "Inspect the centrifuge", field: "label" });
+  });
+});
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+describe("Snapshots", () => {
+  let kernel: Kernel;
+  let itemGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    itemGenus = defineEntityGenus(kernel, "Item", {
+      attributes: [
+        { name: "label", type: "text" },
+        { name: "count", type: "number" },
+      ],
+      states: [{ name: "open", initial: true }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function snapshotRow(res_id: string, branch_id = "main", reducer = "default") {
+    return kernel.db.query(
+      "SELECT tessella_id, state FROM snapshot WHERE res_id = ? AND branch_id = ? AND reducer = ?",
+    ).get(res_id, branch_id, reducer) as { tessella_id: number; state: string } | null;
+  }
+
+  test("materialize writes a snapshot current to the last tessella", () => {
+    const id = createEntity(kernel, itemGenus);
+    setAttribute(kernel, id, "label", "first");
+    const state = materialize(kernel, id);
+    const last = replay(kernel, id).at(-1)!;
+    const row = snapshotRow(id)!;
+    expect(row.tessella_id).toBe(last.id);
+    expect(JSON.parse(row.state)).toEqual(state);
+  });
+
+  test("appendTessella advances an existing snapshot", () => {
+    const id = createEntity(kernel, itemGenus);
+    materialize(kernel, id);
+    const t = setAttribute(kernel, id, "count", 3);
+    const row = snapshotRow(id)!;
+    expect(row.tessella_id).toBe(t.id);
+    expect(JSON.parse(row.state).count).toBe(3);
+  });
+
+  test("stale snapshots catch up on read", () => {
+    const id = createEntity(kernel, itemGenus);
+    materialize(kernel, id);
+    // Bypass appendTessella so the snapshot falls behind
+    kernel.db.run(
+      "INSERT INTO tessella (res_id, branch_id, type, data) VALUES (?, 'main', 'attribute_set', ?)",
+      [id, JSON.stringify({ key: "label", value: "late" })],
+    );
+    expect(materialize(kernel, id).label).toBe("late");
+    expect(listEntities(kernel, { genus_id: itemGenus })[0].state.label).toBe("late");
+  });
+
+  test("branch snapshots see parent branch writes made after they were taken", () => {
+    const id = createEntity(kernel, itemGenus);
+    createBranch(kernel, "outer");
+    setAttribute(kernel, id, "label", "outer-1", { branch_id: "outer" });
+    switchBranch(kernel, "outer");
+    createBranch(kernel, "inner");
+    expect(materialize(kernel, id, { branch_id: "inner" }).label).toBe("outer-1");
+
+    setAttribute(kernel, id, "label", "outer-2", { branch_id: "outer" });
+    expect(materialize(kernel, id, { branch_id: "inner" }).label).toBe("outer-2");
+    expect(materialize(kernel, id).label).toBeUndefined();
+  });
+
+  test("upTo reads ignore snapshots", () => {
+    const id = createEntity(kernel, itemGenus);
+    const first = setAttribute(kernel, id, "label", "one");
+    setAttribute(kernel, id, "label", "two");
+    materialize(kernel, id);
+    expect(materialize(kernel, id, { upTo: first.id }).label).toBe("one");
+  });
+
+  test("custom reducers snapshot only once registered, and rebuild after invalidation", () => {
+    const id = createEntity(kernel, itemGenus);
+    setAttribute(kernel, id, "count", 2);
+    setAttribute(kernel, id, "count", 5);
+
+    let factor = 1;
+    const sumReducer: TessellaReducer = (state, t) =>
+      t.type === "attribute_set" && t.data.key === "count"
+        ? { total: ((state.total as number) ?? 0) + t.data.value * factor }
+        : state;
+
+    expect(materialize(kernel, id, { reducer: sumReducer }).total).toBe(7);
+    expect(snapshotRow(id, "main", "count-sum")).toBeNull();
+
+    registerSnapshotReducer("count-sum", sumReducer);
+    expect(materialize(kernel, id, { reducer: sumReducer }).total).toBe(7);
+    expect(snapshotRow(id, "main", "count-sum")).not.toBeNull();
+
+    // The reducer's logic changes: the stored snapshot is stale until invalidated
+    factor = 10;
+    expect(materialize(kernel, id, { reducer: sumReducer }).total).toBe(7);
+    expect(invalidateSnapshots(kernel, { reducer: "count-sum", rebuild: true })).toBe(1);
+    expect(JSON.parse(snapshotRow(id, "main", "count-sum")!.state).total).toBe(70);
+    expect(materialize(kernel, id, { reducer: sumReducer }).total).toBe(70);
+  });
+
+  test("listEntities over many entities builds snapshots, then reads from them", () => {
+    kernel.db.transaction(() => {
+      for (let i = 0; i < 1_000; i++) {
+        const id = createRes(kernel, itemGenus);
+        appendTessella(kernel, id, "created", {});
+        appendTessella(kernel, id, "status_changed", { status: "open" });
+        for (let j = 1; j <= 4; j++) appendTessella(kernel, id, "attribute_set", { key: "count", value: j });
+        appendTessella(kernel, id, "attribute_set", { key: "label", value: `item ${i}` });
+      }
+    })();
+
+    invalidateSnapshots(kernel);
+    const before = listEntities(kernel, { genus_id: itemGenus });
+    expect(before).toHaveLength(1_000);
+    expect(before[42].state).toEqual({ status: "open", count: 4, label: "item 42" });
+
+    // The first pass left a snapshot current to each entity's last tessella
+    const stale = kernel.db.query(
+      `SELECT COUNT(*) AS n FROM res r LEFT JOIN snapshot s ON s.res_id = r.id AND s.branch_id = 'main' AND s.reducer = 'default'
+       WHERE r.genus_id = ? AND (s.tessella_id IS NULL OR s.tessella_id < (SELECT MAX(id) FROM tessella t WHERE t.res_id = r.id))`,
+    ).get(itemGenus) as { n: number };
+    expect(stale.n).toBe(0);
+
+    // The second pass reads those snapshots instead of replaying: a marked one shows through
+    const marked = before[42].id;
+    kernel.db.run("UPDATE snapshot SET state = json_set(state, '$.label', 'from snapshot') WHERE res_id = ? AND reducer = 'default'", [marked]);
+    const after = listEntities(kernel, { genus_id: itemGenus });
+    expect(after.find((e) => e.id === marked)!.state.label).toBe("from snapshot");
+    expect(after.filter((e) => e.id !== marked)).toEqual(before.filter((e) => e.id !== marked));
+  });
+});
+
+// ============================================================================
+// Entity Query
+// ============================================================================
+
+describe("Entity Query", () => {
+  let kernel: Kernel;
+  let ticketGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    ticketGenus = defineEntityGenus(kernel, "Ticket", {
+      attributes: [
+        { name: "title", type: "text" },
+        { name: "priority", type: "number" },
+        { name: "due", type: "text" },
+        { name: "urgent", type: "boolean" },
+      ],
+      states: [
+        { name: "open", initial: true },
+        { name: "closed", initial: false },
+      ],
+      transitions: [{ from: "open", to: "closed" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function ticket(attrs: Record<string, unknown>): string {
+    const id = createEntity(kernel, ticketGenus);
+    for (const [key, value] of Object.entries(attrs)) setAttribute(kernel, id, key, value);
+    return id;
+  }
+
+  function titles(opts: Parameters<typeof queryEntities>[1]): string[] {
+    return queryEntities(kernel, { genus_id: ticketGenus, ...opts }).entities.map((e) => e.state.title as string);
+  }
+
+  test("comparison operators", () => {
+    ticket({ title: "a", priority: 1, due: "2026-01-10" });
+    ticket({ title: "b", priority: 3, due: "2026-02-01" });
+    ticket({ title: "c", priority: 5 });
+    ticket({ title: "d" });
+
+    expect(titles({ where: { key: "priority", op: "gt", value: 2 } })).toEqual(["b", "c"]);
+    expect(titles({ where: { key: "priority", op: "lt", value: 3 } })).toEqual(["a"]);
+    expect(titles({ where: { key: "priority", op: "between", value: [1, 3] } })).toEqual(["a", "b"]);
+    expect(titles({ where: { key: "title", op: "in", value: ["a", "d", "z"] } })).toEqual(["a", "d"]);
+    expect(titles({ where: { key: "due", op: "exists" } })).toEqual(["a", "b"]);
+    expect(titles({ where: { key: "due", op: "exists", value: false } })).toEqual(["c", "d"]);
+    expect(titles({ where: { key: "due", op: "gt", value: "2026-01-15" } })).toEqual(["b"]);
+    expect(titles({ attribute_filters: [{ key: "title", op: "contains", value: "B" }] })).toEqual(["b"]);
+  });
+
+  test("values only match their own type", () => {
+    // Written raw: setAttribute would reject the mistyped values
+    for (const [title, priority] of [["num", 1], ["str", "1"], ["bool", true]]) {
+      const id = ticket({ title });
+      appendTessella(kernel, id, "attribute_set", { key: "priority", value: priority });
+    }
+
+    expect(titles({ where: { key: "priority", op: "eq", value: 1 } })).toEqual(["num"]);
+    expect(titles({ where: { key: "priority", op: "eq", value: "1" } })).toEqual(["str"]);
+    expect(titles({ where: { key: "priority", op: "eq", value: true } })).toEqual(["bool"]);
+    expect(titles({ where: { key: "priority", op: "gt", value: 0 } })).toEqual(["num"]);
+  });
+
+  test("AND/OR groups nest", () => {
+    ticket({ title: "a", priority: 1, urgent: true });
+    ticket({ title: "b", priority: 4, urgent: false });
+    ticket({ title: "c", priority: 5, urgent: true });
+    ticket({ title: "d", priority: 2 });
+
+    const where = {
+      or: [
+        { and: [{ key: "urgent", op: "eq" as const, value: true }, { key: "priority", op: "lt" as const, value: 3 }] },
+        { key: "priority", op: "gt" as const, value: 4 },
+        { key: "urgent", op: "exists" as const, value: false },
+      ],
+    };
+    expect(titles({ where })).toEqual(["a", "c", "d"]);
+  });
+
+  test("sorts by attribute with missing values last", () => {
+    ticket({ title: "a", priority: 2 });
+    ticket({ title: "b" });
+    ticket({ title: "c", priority: 9 });
+    ticket({ title: "d", priority: 2, due: "2026-03-01" });
+    ticket({ title: "e", priority: 2, due: "2026-01-01" });
+
+    expect(titles({ sort: [{ key: "priority", direction: "desc" }] })).toEqual(["c", "a", "d", "e", "b"]);
+    expect(titles({ sort: [{ key: "priority" }, { key: "due" }] })).toEqual(["e", "d", "a", "c", "b"]);
+  });
+
+  test("pages are full and total counts every match", () => {
+    const ids = Array.from({ length: 10 }, (_, i) => ticket({ title: `t${i}`, priority: i }));
+    for (const id of ids.filter((_, i) => i % 2 === 0)) transitionStatus(kernel, id, "closed");
+
+    const page1 = queryEntities(kernel, { genus_id: ticketGenus, status: "open", limit: 3 });
+    const page2 = queryEntities(kernel, { genus_id: ticketGenus, status: "open", limit: 3, offset: 3 });
+    expect(page1.total).toBe(5);
+    expect(page1.entities.map((e) => e.state.title)).toEqual(["t1", "t3", "t5"]);
+    expect(page2.entities.map((e) => e.state.title)).toEqual(["t7", "t9"]);
+    expect(listEntities(kernel, { genus_id: ticketGenus, status: "open", limit: 3 })).toHaveLength(3);
+  });
+
+  test("branches see their own values", () => {
+    const a = ticket({ title: "a", priority: 1 });
+    ticket({ title: "b", priority: 5 });
+    createBranch(kernel, "triage");
+    switchBranch(kernel, "triage");
+    setAttribute(kernel, a, "priority", 8, { branch_id: "triage" });
+
+    const query = { where: { key: "priority", op: "gt" as const, value: 4 }, sort: [{ key: "priority", direction: "desc" as const }] };
+    expect(titles(query)).toEqual(["a", "b"]);
+    switchBranch(kernel, "main");
+    expect(titles(query)).toEqual(["b"]);
+  });
+
+  test("index follows removals, status changes and rebuilds", () => {
+    const id = ticket({ title: "a", priority: 3 });
+    appendTessella(kernel, id, "attribute_removed", { key: "priority" });
+    transitionStatus(kernel, id, "closed");
+
+    expect(titles({ where: { key: "priority", op: "exists" } })).toEqual([]);
+    expect(titles({ status: "closed" })).toEqual(["a"]);
+
+    const before = kernel.db.query("SELECT * FROM attr_index ORDER BY res_id, branch_id, key").all();
+    rebuildAttributeIndex(kernel);
+    const after = kernel.db.query("SELECT * FROM attr_index ORDER BY res_id, branch_id, key").all();
+    expect(after).toEqual(before);
+  });
+
+  test("rejects malformed conditions", () => {
+    expect(() => queryEntities(kernel, { where: { key: "priority", op: "near" as any, value: 1 } })).toThrow("Unknown operator");
+    expect(() => queryEntities(kernel, { where: { key: "priority", op: "between", value: [1, "z"] } })).toThrow("between");
+    expect(() => queryEntities(kernel, { where: { key: "priority", op: "in", value: 1 } })).toThrow("array");
+    expect(() => queryEntities(kernel, { sort: [{ key: "priority", direction: "up" as any }] })).toThrow("direction");
+  });
+});
+
+// ============================================================================
+// Actor Attribution
+// ============================================================================
+
+describe("Actor Attribution", () => {
+  let kernel: Kernel;
+  let noteGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    noteGenus = defineEntityGenus(kernel, "Note", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "draft", initial: true }, { name: "final", initial: false }],
+      transitions: [{ from: "draft", to: "final" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  test("writes through a view carry its actor and session", () => {
+    const alice = createKernelView(kernel, { actor: { id: "oauth:alice", session_id: "s-1" } });
+    const id = createEntity(alice, noteGenus);
+    setAttribute(alice, id, "title", "Draft");
+    transitionStatus(alice, id, "final");
+
+    const history = getHistory(kernel, id);
+    expect(history.length).toBeGreaterThan(0);
+    for (const entry of history) {
+      expect(entry.tessella.actor).toBe("oauth:alice");
+      expect(entry.tessella.session_id).toBe("s-1");
+    }
+  });
+
+  test("kernels without an actor record null, and AppendOptions overrides", () => {
+    const id = createEntity(kernel, noteGenus);
+    const view = createKernelView(kernel, { actor: { id: "agent:bot" } });
+    const t = appendTessella(view, id, "attribute_set", { key: "title", value: "x" }, { actor: { id: "oauth:carol", session_id: "s-9" } });
+
+    expect(replay(kernel, id)[0].actor).toBeNull();
+    expect(t.actor).toBe("oauth:carol");
+    expect(t.session_id).toBe("s-9");
+  });
+
+  test("executeAction attributes its tessellae to the actor and keeps source as the origin tag", () => {
+    const actionId = defineActionGenus(kernel, "finalize", {
+      resources: [{ name: "note", genus_name: "Note" }],
+      handler: [{ type: "transition_status", res: "$res.note.id", target: "final" }],
+    });
+    const id = createEntity(kernel, noteGenus);
+    const bob = createKernelView(kernel, { actor: { id: "oauth:bob", session_id: "s-2" } });
+    const result = executeAction(bob, actionId, { note: id }, {});
+
+    expect(result.error).toBeUndefined();
+    expect(result.tessellae!.every((t) => t.actor === "oauth:bob")).toBe(true);
+    const input = kernel.db.query("SELECT source FROM input WHERE id = ?").get(result.action_taken!.input_id) as { source: string };
+    expect(input.source).toBe("system");
+  });
+
+  test("merge and sync keep the original author", () => {
+    const id = createEntity(kernel, noteGenus);
+    const dana = createKernelView(kernel, { actor: { id: "oauth:dana", session_id: "s-3" } });
+    createBranch(dana, "edit");
+    setAttribute(dana, id, "title", "On branch", { branch_id: "edit" });
+    mergeBranch(kernel, "edit", "main");
+
+    const merged = replay(kernel, id).at(-1)!;
+    expect(merged.actor).toBe("oauth:dana");
+    expect(merged.session_id).toBe("s-3");
+
+    const client = initKernel(":memory:");
+    insertPulledData(client, getPullData(kernel), "sync:test");
+    const pulled = replay(client, id).at(-1)!;
+    expect(pulled.actor).toBe("oauth:dana");
+    client.db.close();
+  });
+});
+
+// ============================================================================
+// Point-in-time Reads
+// ============================================================================
+
+describe("Point-in-time Reads", () => {
+  let kernel: Kernel;
+  let personGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    personGenus = defineEntityGenus(kernel, "Person", {
+      attributes: [{ name: "name", type: "text", required: true }],
+      states: [{ name: "active", initial: true }, { name: "left", initial: false }],
+      transitions: [{ from: "active", to: "left" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function lastTessellaId(): number {
+    return (kernel.db.query("SELECT MAX(id) AS id FROM tessella").get() as { id: number }).id;
+  }
+
+  test("a pinned view reads entities and genus definitions as they were", () => {
+    const ada = createEntity(kernel, personGenus);
+    setAttribute(kernel, ada, "name", "Ada");
+    const then = lastTessellaId();
+
+    setAttribute(kernel, ada, "name", "Ada L.");
+    transitionStatus(kernel, ada, "left");
+    evolveGenus(kernel, personGenus, { attributes: [{ name: "email", type: "text", required: true }] });
+    createEntity(kernel, personGenus);
+
+    const past = createKernelView(kernel, { as_of: then });
+    expect(materialize(past, ada)).toEqual({ status: "active", name: "Ada" });
+    expect(Object.keys(getGenusDef(past, personGenus).attributes)).toEqual(["name"]);
+    expect(listEntities(past, { genus_id: personGenus }).map((e) => e.id)).toEqual([ada]);
+    expect(replay(past, ada).at(-1)!.id).toBe(then);
+
+    expect(Object.keys(getGenusDef(kernel, personGenus).attributes)).toEqual(["name", "email"]);
+    expect(listEntities(kernel, { genus_id: personGenus })).toHaveLength(2);
+  });
+
+  test("listEntities filters and sorts on past values", () => {
+    const a = createEntity(kernel, personGenus);
+    setAttribute(kernel, a, "name", "Zed");
+    const b = createEntity(kernel, personGenus);
+    setAttribute(kernel, b, "name", "Amy");
+    const then = lastTessellaId();
+    setAttribute(kernel, a, "name", "Abe");
+    transitionStatus(kernel, b, "left");
+
+    const past = queryEntities(kernel, { genus_id: personGenus, status: "active", sort: [{ key: "name" }], as_of: then });
+    expect(past.total).toBe(2);
+    expect(past.entities.map((e) => e.state.name)).toEqual(["Amy", "Zed"]);
+    expect(queryEntities(kernel, { genus_id: personGenus, status: "active" }).entities.map((e) => e.id)).toEqual([a]);
+  });
+
+  test("evaluateHealth uses the genus in force at the time", () => {
+    const ada = createEntity(kernel, personGenus);
+    setAttribute(kernel, ada, "name", "Ada");
+    const then = lastTessellaId();
+    evolveGenus(kernel, personGenus, { attributes: [{ name: "email", type: "text", required: true }] });
+
+    expect(evaluateHealth(kernel, ada, { as_of: then }).healthy).toBe(true);
+    expect(evaluateHealth(kernel, ada).healthy).toBe(false);
+    expect(() => evaluateHealth(kernel, createEntity(kernel, personGenus), { as_of: then })).toThrow("did not exist");
+  });
+
+  test("relationships reflect membership at the time", () => {
+    const teamGenus = defineRelationshipGenus(kernel, "Team", {
+      roles: [{ name: "member", valid_member_genera: ["Person"], cardinality: "zero_or_more" }],
+    });
+    const ada = createEntity(kernel, personGenus);
+    const bob = createEntity(kernel, personGenus);
+    const team = createRelationship(kernel, teamGenus, { member: [ada, bob] });
+    const then = lastTessellaId();
+    removeMember(kernel, team, "member", ada);
+
+    expect(getRelationshipsForEntity(kernel, ada)).toHaveLength(0);
+    const past = getRelationshipsForEntity(kernel, ada, { as_of: then });
+    expect(past.map((r) => r.id)).toEqual([team]);
+    expect(past[0].members.member).toEqual([ada, bob]);
+    expect(getRelationshipsForEntity(kernel, ada, { as_of: 0 })).toHaveLength(0);
+  });
+
+  test("timestamps resolve to the last tessella written by then", () => {
+    const ada = createEntity(kernel, personGenus);
+    setAttribute(kernel, ada, "name", "Ada");
+    const last = replay(kernel, ada).at(-1)!;
+
+    expect(resolveAsOf(kernel, last.created_at)).toBeGreaterThanOrEqual(last.id);
+    expect(resolveAsOf(kernel, "2000-01-01")).toBe(0);
+    expect(resolveAsOf(kernel, 42)).toBe(42);
+    expect(() => resolveAsOf(kernel, "last tuesday")).toThrow("Invalid as_of");
+  });
+
+  test("timestamps place merged tessellae at merge time", async () => {
+    const ada = createEntity(kernel, personGenus);
+    setAttribute(kernel, ada, "name", "Ada");
+    createBranch(kernel, "edits");
+    switchBranch(kernel, "edits");
+    setAttribute(kernel, ada, "name", "Ada (edited)");
+    switchBranch(kernel, "main");
+
+    await Bun.sleep(5);
+    const then = new Date().toISOString();
+    await Bun.sleep(5);
+    const bob = createEntity(kernel, personGenus);
+    setAttribute(kernel, bob, "name", "Bob");
+    expect(mergeBranch(kernel, "edits", "main").merged).toBe(true);
+
+    // The merged copy keeps the branch edit's created_at, which is before `then`
+    const past = createKernelView(kernel, { as_of: then });
+    expect(materialize(past, ada)).toEqual({ status: "active", name: "Ada" });
+    expect(listEntities(past, { genus_id: personGenus }).map((e) => e.id)).toEqual([ada]);
+    expect(materialize(kernel, ada).name).toBe("Ada (edited)");
+  });
+
+  test("pinned views are read-only", () => {
+    const ada = createEntity(kernel, personGenus);
+    const past = createKernelView(kernel, { as_of: lastTessellaId() });
+    expect(() => setAttribute(past, ada, "name", "Ada")).toThrow("read-only");
+  });
+});
+
+// ============================================================================
+// Attribute Types
+// ============================================================================
+
+describe("Attribute Types", () => {
+  let kernel: Kernel;
+  let personGenus: string;
+  let taskGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    personGenus = defineEntityGenus(kernel, "Person", {
+      attributes: [{ name: "name", type: "text" }],
+    });
+    taskGenus = defineEntityGenus(kernel, "Chore", {
+      attributes: [
+        { name: "title", type: "text" },
+        { name: "priority", type: "enum", values: ["low", "medium", "high"] },
+        { name: "due", type: "date" },
+        { name: "started_at", type: "datetime" },
+        { name: "owner", type: "reference", target_genera: ["Person"] },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  test("enum attributes only accept their declared values", () => {
+    const chore = createEntity(kernel, taskGenus);
+    setAttribute(kernel, chore, "priority", "high");
+    expect(materialize(kernel, chore).priority).toBe("high");
+    expect(() => setAttribute(kernel, chore, "priority", "urgent")).toThrow("Allowed values: low, medium, high");
+    expect(() => setAttribute(kernel, chore, "priority", 3)).toThrow("Type mismatch");
+  });
+
+  test("validateAttributes checks enum values and type-specific options", () => {
+    expect(() => validateAttributes([{ name: "p", type: "enum" }])).toThrow('needs a non-empty "values"');
+    expect(() => validateAttributes([{ name: "p", type: "enum", values: ["a"], default_value: "b" }])).toThrow("is not one of");
+    expect(() => validateAttributes([{ name: "p", type: "text", values: ["a"] }])).toThrow("only enum");
+    expect(() => validateAttributes([{ name: "r", type: "reference", target_genera: "Person" }])).toThrow("target_genera");
+    expect(() => validateAttributes([{ name: "d", type: "date", default_value: "soon" }])).toThrow("not a valid date");
+    validateAttributes([
+      { name: "p", type: "enum", values: ["a", "b"], default_value: "a" },
+      { name: "r", type: "reference" },
+      { name: "d", type: "datetime" },
+    ]);
+  });
+
+  test("dates are validated and datetimes normalized to UTC", () => {
+    const chore = createEntity(kernel, taskGenus);
+    setAttribute(kernel, chore, "due", "2024-02-29");
+    expect(() => setAttribute(kernel, chore, "due", "2023-02-29")).toThrow('expected date (YYYY-MM-DD), got "2023-02-29"');
+    expect(() => setAttribute(kernel, chore, "due", "29/02/2024")).toThrow("Type mismatch");
+
+    setAttribute(kernel, chore, "started_at", "2024-03-01T09:30:00+02:00");
+    expect(materialize(kernel, chore).started_at).toBe("2024-03-01T07:30:00.000Z");
+    expect(() => setAttribute(kernel, chore, "started_at", "2024-03-01T09:30:00")).toThrow("Type mismatch");
+  });
+
+  test("date attributes sort and range-filter chronologically", () => {
+    const ids = ["2024-11-02", "2023-12-31", "2024-01-15"].map((due) => {
+      const id = createEntity(kernel, taskGenus);
+      setAttribute(kernel, id, "due", due);
+      return id;
+    });
+    const sorted = queryEntities(kernel, { genus_id: taskGenus, sort: [{ key: "due" }] });
+    expect(sorted.entities.map((e) => e.state.due)).toEqual(["2023-12-31", "2024-01-15", "2024-11-02"]);
+    const in2024 = queryEntities(kernel, { genus_id: taskGenus, where: { key: "due", op: "between", value: ["2024-01-01", "2024-12-31"] } });
+    expect(in2024.entities.map((e) => e.id).sort()).toEqual([ids[0], ids[2]].sort());
+  });
+
+  test("references must point at an existing entity of a target genus", () => {
+    const ada = createEntity(kernel, personGenus);
+    const chore = createEntity(kernel, taskGenus);
+    const other = createEntity(kernel, taskGenus);
+
+    setAttribute(kernel, chore, "owner", ada);
+    expect(materialize(kernel, chore).owner).toBe(ada);
+    expect(() => setAttribute(kernel, chore, "owner", "01NOTAREALENTITY0000000000")).toThrow("references missing entity");
+    expect(() => setAttribute(kernel, chore, "owner", other)).toThrow("references a Chore entity, expected Person");
+  });
+
+  test("evaluateHealth reports dangling references and stray enum values", () => {
+    const chore = createEntity(kernel, taskGenus);
+    appendTessella(kernel, chore, "attribute_set", { key: "owner", value: "01NOTAREALENTITY0000000000" });
+    appendTessella(kernel, chore, "attribute_set", { key: "priority", value: "urgent" });
+
+    const report = evaluateHealth(kernel, chore);
+    expect(report.healthy).toBe(false);
+    expect(report.issues.map((i) => i.type).sort()).toEqual(["dangling_reference", "invalid_attribute_value"]);
+  });
+
+  test("evolveGenus adds new typed attributes and widens enum values", () => {
+    evolveGenus(kernel, taskGenus, {
+      attributes: [
+        { name: "priority", type: "enum", required: false, values: ["low", "critical"] },
+        { name: "reviewer", type: "reference", required: false },
+      ],
+    });
+    const def = getGenusDef(kernel, taskGenus);
+    expect(def.attributes.priority.values).toEqual(["low", "medium", "high", "critical"]);
+    expect(def.attributes.reviewer.type).toBe("reference");
+    expect(() => evolveGenus(kernel, taskGenus, { attributes: [{ name: "size", type: "enum", required: false }] })).toThrow("values");
+  });
+
+  test("templates render reference attributes by display name", () => {
+    const ada = createEntity(kernel, personGenus);
+    setAttribute(kernel, ada, "name", "Ada");
+    const chore = createEntity(kernel, taskGenus);
+    setAttribute(kernel, chore, "title", "Dishes");
+    setAttribute(kernel, chore, "owner", ada);
+
+    const targetId = defineSerializationGenus(kernel, "Chore Export", {
+      input: { query_type: "by_genus", genus_name: "Chore" },
+      output: { format: "markdown", output_shape: "filetree" },
+      handler: [{ type: "file", name: "{{entity.title}}.md", content: "---\nowner: {{entity.owner}}\n---\nOwned by {{entity.owner.name}}" }],
+    });
+    const file = runSerialization(kernel, targetId).filetree.children!.find((c) => c.name === "Dishes.md")!;
+    expect(file.content).toBe(`---\nowner: ${ada}\n---\nOwned by Ada`);
+
+    const state = materialize(kernel, chore);
+    const refs = getReferenceNames(kernel, getGenusDef(kernel, taskGenus), state);
+    expect(renderTemplate("{{title}} ({{owner.name}})", state, { genus_name: "Chore", id: chore, refs })).toBe("Dishes (Ada)");
+  });
+});
+
+// ============================================================================
+// Attribute Constraints
+// ============================================================================
+
+describe("Attribute Constraints", () => {
+  let kernel: Kernel;
+  let productGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    productGenus = defineEntityGenus(kernel, "Product", {
+      attributes: [
+        { name: "sku", type: "text", constraints: { pattern: "^[A-Z]{3}-\\d+$", unique: true } },
+        { name: "name", type: "text", constraints: { min_length: 2, max_length: 20 } },
+        { name: "price", type: "number", constraints: { min: 0, max: 1000 } },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  test("setAttribute enforces min/max and length constraints", () => {
+    const p = createEntity(kernel, productGenus);
+    setAttribute(kernel, p, "price", 0);
+    expect(() => setAttribute(kernel, p, "price", -1)).toThrow("below the minimum of 0");
+    expect(() => setAttribute(kernel, p, "price", 1001)).toThrow("above the maximum of 1000");
+    expect(() => setAttribute(kernel, p, "name", "X")).toThrow("shorter than the minimum of 2");
+    expect(() => setAttribute(kernel, p, "name", "X".repeat(21))).toThrow("longer than the maximum of 20");
+    expect(() => setAttribute(kernel, p, "sku", "abc-1")).toThrow("does not match pattern");
+  });
+
+  test("unique values are scoped to genus and workspace", () => {
+    const ws1 = createWorkspace(kernel, "One");
+    const ws2 = createWorkspace(kernel, "Two");
+    switchWorkspace(kernel, ws1);
+    const a = createEntity(kernel, productGenus);
+    const b = createEntity(kernel, productGenus);
+    setAttribute(kernel, a, "sku", "ABC-1");
+    setAttribute(kernel, a, "sku", "ABC-1"); // re-setting your own value is fine
+    expect(() => setAttribute(kernel, b, "sku", "ABC-1")).toThrow(`must be unique, but ${a} already has "ABC-1"`);
+
+    switchWorkspace(kernel, ws2);
+    const c = createEntity(kernel, productGenus);
+    setAttribute(kernel, c, "sku", "ABC-1");
+    expect(materialize(kernel, c).sku).toBe("ABC-1");
+  });
+
+  test("validateAttributes rejects constraints that do not fit the type", () => {
+    expect(() => validateAttributes([{ name: "n", type: "number", constraints: { pattern: "x" } }])).toThrow('"pattern" does not apply');
+    expect(() => validateAttributes([{ name: "t", type: "text", constraints: { pattern: "(" } }])).toThrow("not a valid regex");
+    expect(() => validateAttributes([{ name: "n", type: "number", constraints: { min: 5, max: 1 } }])).toThrow('"min" for "n" is greater');
+    expect(() => validateAttributes([{ name: "t", type: "text", constraints: { max_length: -1 } }])).toThrow("non-negative integer");
+    validateAttributes([{ name: "d", type: "date", constraints: { unique: true } }]);
+  });
+
+  test("evaluateHealth reports pre-existing violations", () => {
+    const a = createEntity(kernel, productGenus);
+    const b = createEntity(kernel, productGenus);
+    appendTessella(kernel, a, "attribute_set", { key: "sku", value: "ABC-1" });
+    appendTessella(kernel, b, "attribute_set", { key: "sku", value: "ABC-1" });
+    appendTessella(kernel, b, "attribute_set", { key: "price", value: -5 });
+
+    const issuesA = evaluateHealth(kernel, a).issues.map((i) => i.type);
+    const issuesB = evaluateHealth(kernel, b).issues.map((i) => i.message);
+    expect(issuesA).toEqual(["constraint_violation"]);
+    expect(issuesB).toHaveLength(2);
+    expect(issuesB.join("\n")).toContain('Attribute "price" is -5, below the minimum of 0');
+    expect(listUnhealthy(kernel, { genus_id: productGenus }).map((r) => r.res_id).sort()).toEqual([a, b].sort());
+  });
+
+  test("evolveGenus adds constraints and reports the entities they trip", () => {
+    const cheap = createEntity(kernel, productGenus);
+    setAttribute(kernel, cheap, "price", 5);
+    const pricey = createEntity(kernel, productGenus);
+    setAttribute(kernel, pricey, "price", 500);
+    setAttribute(kernel, pricey, "name", "Deluxe");
+
+    const result = evolveGenus(kernel, productGenus, {
+      attributes: [
+        { name: "price", type: "number", required: false, constraints: { max: 100 } },
+        { name: "name", type: "text", required: false, constraints: { pattern: "^[A-Z]" } },
+      ],
+    });
+    expect(result).toEqual({ newly_unhealthy: 1, constraint_violations: { price: 1, name: 0 } });
+    expect(getGenusDef(kernel, productGenus).attributes.price.constraints).toEqual({ min: 0, max: 100 });
+    expect(evaluateHealth(kernel, pricey).healthy).toBe(false);
+    expect(() => setAttribute(kernel, cheap, "price", 101)).toThrow("above the maximum of 100");
+
+    // Re-applying the same constraints is a no-op
+    expect(evolveGenus(kernel, productGenus, { attributes: [{ name: "price", type: "number", required: false, constraints: { max: 100 } }] }))
+      .toEqual({ newly_unhealthy: 0, constraint_violations: {} });
+    expect(() => evolveGenus(kernel, productGenus, { attributes: [{ name: "price", type: "text", required: false, constraints: { max_length: 3 } }] }))
+      .toThrow("it is a number attribute");
+  });
+});
+
+// ============================================================================
+// Action Control Flow
+// ============================================================================
+
+describe("Action Control Flow", () => {
+  let kernel: Kernel;
+  let issueGenus: string;
+  let personGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    issueGenus = defineEntityGenus(kernel, "Issue", {
+      attributes: [
+        { name: "title", type: "text" },
+        { name: "severity", type: "text" },
+        { name: "resolution", type: "text" },
+        { name: "summary", type: "text" },
+        { name: "tags", type: "text" },
+      ],
+      states: [{ name: "open", initial: true }, { name: "closed", initial: false }, { name: "escalated", initial: false }],
+      transitions: [{ from: "open", to: "closed" }, { from: "open", to: "escalated" }],
+    });
+    personGenus = defineEntityGenus(kernel, "Person", {
+      attributes: [{ name: "name", type: "text" }, { name: "inbox", type: "text" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function closeOut(): string {
+    const handler: SideEffect[] = [
+      { type: "set_attribute", res: "$res.issue.id", key: "resolution", value: "$param.resolution" },
+      {
+        type: "if",
+        condition: { or: [{ key: "$res.issue.severity", op: "eq", value: "critical" }, { key: "$param.force_escalate", op: "eq", value: true }] },
+        then: [
+          { type: "transition_status", res: "$res.issue.id", target: "escalated" },
+          { type: "create_log", message: "Escalated $res.issue.title", res: "$res.issue.id" },
+        ],
+        else: [{ type: "transition_status", res: "$res.issue.id", target: "closed" }],
+      },
+      { type: "set_attribute", res: "$res.issue.id", key: "summary", value: "$res.issue.status: $res.issue.resolution" },
+    ];
+    validateActionHandler(handler, ["issue"], ["resolution", "force_escalate"]);
+    return defineActionGenus(kernel, "close_out", {
+      resources: [{ name: "issue", genus_name: "Issue", required_status: "open" }],
+      parameters: [
+        { name: "resolution", type: "text", required: true },
+        { name: "force_escalate", type: "boolean", required: false },
+      ],
+      handler,
+    });
+  }
+
+  test("if branches on materialized resource attributes", () => {
+    const action = closeOut();
+    const minor = createEntity(kernel, issueGenus);
+    setAttribute(kernel, minor, "severity", "minor");
+    const critical = createEntity(kernel, issueGenus);
+    setAttribute(kernel, critical, "severity", "critical");
+    setAttribute(kernel, critical, "title", "Outage");
+
+    expect(executeAction(kernel, action, { issue: minor }, { resolution: "fixed" }).error).toBeUndefined();
+    expect(executeAction(kernel, action, { issue: critical }, { resolution: "paged" }).error).toBeUndefined();
+
+    expect(materialize(kernel, minor).status).toBe("closed");
+    expect(materialize(kernel, critical).status).toBe("escalated");
+    expect(listEntities(kernel, { genus_id: LOG_GENUS_ID }).map((e) => e.state.message)).toEqual(["Escalated Outage"]);
+  });
+
+  test("if branches on params, and $res.X.attr sees earlier writes", () => {
+    const action = closeOut();
+    const issue = createEntity(kernel, issueGenus);
+    executeAction(kernel, action, { issue }, { resolution: "wontfix", force_escalate: true });
+    const state = materialize(kernel, issue);
+    expect(state.status).toBe("escalated");
+    expect(state.summary).toBe("escalated: wontfix");
+  });
+
+  test("for_each iterates a list parameter", () => {
+    const action = defineActionGenus(kernel, "file_many", {
+      parameters: [{ name: "titles", type: "list", required: true }],
+      handler: [{
+        type: "for_each", over: "$param.titles", as: "title",
+        do: [{ type: "create_res", genus_name: "Issue", attributes: { title: "$each.title" } }],
+      }],
+    });
+    const result = executeAction(kernel, action, {}, { titles: ["a", "b", "c"] });
+    expect(result.error).toBeUndefined();
+    expect(listEntities(kernel, { genus_id: issueGenus }).map((e) => e.state.title).sort()).toEqual(["a", "b", "c"]);
+    expect(executeAction(kernel, action, {}, { titles: "a" }).error).toContain('Parameter "titles" type mismatch');
+  });
+
+  test("for_each iterates relationship members and reads their attributes", () => {
+    const watchGenus = defineRelationshipGenus(kernel, "Watch", {
+      roles: [
+        { name: "issue", valid_member_genera: ["Issue"], cardinality: "one" },
+        { name: "watcher", valid_member_genera: ["Person"], cardinality: "one_or_more" },
+      ],
+    });
+    const issue = createEntity(kernel, issueGenus);
+    setAttribute(kernel, issue, "title", "Leak");
+    const ada = createEntity(kernel, personGenus);
+    setAttribute(kernel, ada, "name", "Ada");
+    const bob = createEntity(kernel, personGenus);
+    setAttribute(kernel, bob, "name", "Bob");
+    createRelationship(kernel, watchGenus, { issue, watcher: [ada, bob] });
+
+    const action = defineActionGenus(kernel, "notify_watchers", {
+      resources: [{ name: "issue", genus_name: "Issue" }],
+      handler: [{
+        type: "for_each", over: { relationship: "Watch", role: "watcher", of: "$res.issue.id" }, as: "person",
+        do: [{ type: "set_attribute", res: "$each.person.id", key: "inbox", value: "Hi $each.person.name, $res.issue.title changed" }],
+      }],
+    });
+    expect(executeAction(kernel, action, { issue }, {}).error).toBeUndefined();
+    expect(materialize(kernel, ada).inbox).toBe("Hi Ada, Leak changed");
+    expect(materialize(kernel, bob).inbox).toBe("Hi Bob, Leak changed");
+  });
+
+  test("a failing nested effect rolls back the whole handler", () => {
+    const action = defineActionGenus(kernel, "bad_loop", {
+      resources: [{ name: "issue", genus_name: "Issue" }],
+      parameters: [{ name: "targets", type: "list", required: true }],
+      handler: [
+        { type: "set_attribute", res: "$res.issue.id", key: "title", value: "touched" },
+        { type: "for_each", over: "$param.targets", do: [{ type: "transition_status", res: "$res.issue.id", target: "$each.item" }] },
+      ],
+    });
+    const issue = createEntity(kernel, issueGenus);
+    const result = executeAction(kernel, action, { issue }, { targets: ["closed", "escalated"] });
+    expect(result.error).toBeDefined();
+    expect(materialize(kernel, issue).title).toBeUndefined();
+    expect(materialize(kernel, issue).status).toBe("open");
+  });
+
+  test("validateActionHandler checks nested effects, conditions and loop bindings", () => {
+    expect(() => validateActionHandler([{ type: "if", condition: { key: "$res.issue.severity", op: "eq", value: "x" }, then: [] }], [], []))
+      .toThrow('undefined resource "issue"');
+    expect(() => validateActionHandler([{ type: "if", condition: { key: "severity", op: "eq", value: "x" }, then: [] }], [], []))
+      .toThrow("must be a single token");
+    expect(() => validateActionHandler([{ type: "if", condition: { key: "$param.p", op: "near" }, then: [] }], [], ["p"]))
+      .toThrow('Unknown operator "near"');
+    expect(() => validateActionHandler([{ type: "if", condition: { key: "$param.p", op: "exists" }, then: [{ type: "set_attribute", res: "x" }] }], [], ["p"]))
+      .toThrow('handler[0].then[0] (set_attribute) missing required field: "key"');
+    expect(() => validateActionHandler([{ type: "create_log", message: "$each.item" }], [], []))
+      .toThrow("outside a for_each");
+    expect(() => validateActionHandler([{ type: "for_each", over: "$param.p", as: "x", do: [{ type: "create_log", message: "$each.y" }] }], [], ["p"]))
+      .toThrow('"$each.y" outside a for_each');
+    validateActionHandler([{ type: "for_each", over: "$param.p", as: "x", do: [{ type: "create_log", message: "$each.x" }] }], [], ["p"]);
+  });
+});
+
+// ============================================================================
+// Action Dry Run
+// ============================================================================
+
+describe("Action Dry Run", () => {
+  let kernel: Kernel;
+  let ticketGenus: string;
+  let action: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    ticketGenus = defineEntityGenus(kernel, "Ticket", {
+      attributes: [
+        { name: "title", type: "text", required: true },
+        { name: "assignee", type: "text" },
+      ],
+      states: [{ name: "open", initial: true }, { name: "assigned", initial: false }],
+      transitions: [{ from: "open", to: "assigned" }],
+    });
+    action = defineActionGenus(kernel, "assign", {
+      resources: [{ name: "ticket", genus_name: "Ticket", required_status: "open" }],
+      parameters: [{ name: "assignee", type: "text", required: true }],
+      handler: [
+        { type: "set_attribute", res: "$res.ticket.id", key: "assignee", value: "$param.assignee" },
+        { type: "transition_status", res: "$res.ticket.id", target: "assigned" },
+        { type: "create_res", genus_name: "Ticket", attributes: { assignee: "$param.assignee" } },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function counts() {
+    const count = (table: string) => (kernel.db.query(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+    return { tessella: count("tessella"), res: count("res"), input: count("input"), action_taken: count("action_taken") };
+  }
+
+  test("previews the writes without persisting anything", () => {
+    const ticket = createEntity(kernel, ticketGenus);
+    setAttribute(kernel, ticket, "title", "Broken login");
+    const before = counts();
+
+    const result = executeAction(kernel, action, { ticket }, { assignee: "ana" }, { dry_run: true });
+    expect(result.error).toBeUndefined();
+    expect(result.dry_run).toBe(true);
+    expect(result.action_taken).toBeUndefined();
+
+    const preview = result.preview!;
+    expect(preview.tessellae.filter((t) => t.res_id === ticket).map((t) => t.type)).toEqual(["attribute_set", "status_changed"]);
+    expect(preview.states[ticket]).toMatchObject({ title: "Broken login", assignee: "ana", status: "assigned" });
+    const created = Object.keys(preview.states).find((id) => id !== ticket)!;
+    expect(preview.states[created]).toMatchObject({ assignee: "ana", status: "open" });
+
+    expect(counts()).toEqual(before);
+    expect(materialize(kernel, ticket)).toMatchObject({ status: "open" });
+    expect(materialize(kernel, ticket).assignee).toBeUndefined();
+  });
+
+  test("reports only health issues the action would introduce", () => {
+    const ticket = createEntity(kernel, ticketGenus);
+    setAttribute(kernel, ticket, "title", "Broken login");
+    const { preview } = executeAction(kernel, action, { ticket }, { assignee: "ana" }, { dry_run: true });
+
+    // The new ticket has no title; the bound one was already healthy and stays so
+    expect(preview!.health_regressions).toHaveLength(1);
+    const [regression] = preview!.health_regressions;
+    expect(regression.res_id).not.toBe(ticket);
+    expect(regression.issues.map((i) => i.type)).toEqual(["missing_required_attribute"]);
+  });
+
+  test("pre-existing issues are not regressions", () => {
+    const ticket = createEntity(kernel, ticketGenus);
+    const { preview } = executeAction(kernel, action, { ticket }, { assignee: "ana" }, { dry_run: true });
+    expect(preview!.health_regressions.map((r) => r.res_id)).not.toContain(ticket);
+  });
+
+  test("validation failures are returned as errors", () => {
+    const ticket = createEntity(kernel, ticketGenus);
+    const before = counts();
+    expect(executeAction(kernel, action, { ticket }, {}, { dry_run: true }).error).toContain("assignee");
+    setAttribute(kernel, ticket, "title", "x");
+    executeAction(kernel, action, { ticket }, { assignee: "ana" });
+    const again = executeAction(kernel, action, { ticket }, { assignee: "bo" }, { dry_run: true });
+    expect(again.error).toBeDefined();
+    expect(again.preview).toBeUndefined();
+    expect(counts().input).toBe(before.input + 1);
+  });
+
+  test("a dry run followed by a real run writes the same tessellae", () => {
+    const ticket = createEntity(kernel, ticketGenus);
+    setAttribute(kernel, ticket, "title", "Broken login");
+    const { preview } = executeAction(kernel, action, { ticket }, { assignee: "ana" }, { dry_run: true });
+    const real = executeAction(kernel, action, { ticket }, { assignee: "ana" });
+    const onTicket = (ts: Tessella[]) => ts.filter((t) => t.res_id === ticket).map((t) => [t.type, t.data]);
+    expect(onTicket(real.tessellae!)).toEqual(onTicket(preview!.tessellae));
+    expect(materialize(kernel, ticket)).toMatchObject(preview!.states[ticket]);
+  });
+});
+
+// ============================================================================
+// Undo Action
+// ============================================================================
+
+describe("Undo Action", () => {
+  let kernel: Kernel;
+  let serverGenus: string;
+  let deploy: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    serverGenus = defineEntityGenus(kernel, "Server", {
+      attributes: [
+        { name: "hostname", type: "text" },
+        { name: "version", type: "text" },
+        { name: "notes", type: "text" },
+      ],
+      states: [{ name: "active", initial: true }, { name: "deployed", initial: false }],
+      transitions: [{ from: "active", to: "deployed" }],
+    });
+    deploy = defineActionGenus(kernel, "deploy", {
+      resources: [{ name: "server", genus_name: "Server", required_status: "active" }],
+      parameters: [{ name: "version", type: "text", required: true }],
+      handler: [
+        { type: "set_attribute", res: "$res.server.id", key: "version", value: "$param.version" },
+        { type: "set_attribute", res: "$res.server.id", key: "notes", value: "deployed $param.version" },
+        { type: "transition_status", res: "$res.server.id", target: "deployed" },
+        { type: "create_log", res: "$res.server.id", message: "Deployed $param.version" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function deployed(): { server: string; action_taken_id: string } {
+    const server = createEntity(kernel, serverGenus);
+    setAttribute(kernel, server, "hostname", "web-1");
+    setAttribute(kernel, server, "version", "1.0");
+    const result = executeAction(kernel, deploy, { server }, { version: "2.0" });
+    expect(result.error).toBeUndefined();
+    return { server, action_taken_id: result.action_taken!.id };
+  }
+
+  test("restores attributes, removes ones the action introduced, and overrides status", () => {
+    const { server, action_taken_id } = deployed();
+    const result = undoAction(kernel, action_taken_id);
+    expect(result.error).toBeUndefined();
+
+    const state = materialize(kernel, server);
+    expect(state.version).toBe("1.0");
+    expect(state.notes).toBeUndefined();
+    expect(state.hostname).toBe("web-1");
+    // No deployed → active transition, so status is overridden directly
+    expect(state.status).toBe("active");
+    expect(result.tessellae!.filter((t) => t.res_id === server).map((t) => t.type).sort())
+      .toEqual(["attribute_removed", "attribute_set", "status_changed"]);
+  });
+
+  test("uses a reverse transition when the genus defines one", () => {
+    evolveGenus(kernel, serverGenus, { transitions: [{ from: "deployed", to: "active" }] });
+    const { server, action_taken_id } = deployed();
+    undoAction(kernel, action_taken_id);
+    expect(materialize(kernel, server).status).toBe("active");
+  });
+
+  test("retires res the action created", () => {
+    const { action_taken_id } = deployed();
+    const [log] = listEntities(kernel, { genus_id: LOG_GENUS_ID });
+    expect(log.state.status).toBeUndefined();
+    undoAction(kernel, action_taken_id);
+    expect(materialize(kernel, log.id).status).toBe("retired");
+
+    const ticketGenus = defineEntityGenus(kernel, "Ticket", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "open", initial: true }, { name: "archived", initial: false }],
+      transitions: [{ from: "open", to: "archived" }],
+    });
+    const file = defineActionGenus(kernel, "file", { handler: [{ type: "create_res", genus_name: "Ticket" }] });
+    const filed = executeAction(kernel, file, {}, {});
+    const [{ id: ticket }] = listEntities(kernel, { genus_id: ticketGenus });
+    undoAction(kernel, filed.action_taken!.id);
+    expect(materialize(kernel, ticket).status).toBe("archived");
+  });
+
+  test("refuses to retire res whose genus has states but none to retire into", () => {
+    const draftGenus = defineEntityGenus(kernel, "Draft", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "draft", initial: true }],
+      transitions: [],
+    });
+    const start = defineActionGenus(kernel, "start_draft", { handler: [{ type: "create_res", genus_name: "Draft" }] });
+    const started = executeAction(kernel, start, {}, {});
+    const [{ id: draft }] = listEntities(kernel, { genus_id: draftGenus });
+
+    const result = undoAction(kernel, started.action_taken!.id);
+    expect(result.error).toContain("no retired, archived or cancelled state");
+    expect(result.error).toContain(draft);
+    expect(materialize(kernel, draft).status).toBe("draft");
+    expect(evaluateHealth(kernel, draft).healthy).toBe(true);
+    expect(kernel.db.query("SELECT COUNT(*) AS n FROM action_taken WHERE undoes IS NOT NULL").get()).toEqual({ n: 0 });
+  });
+
+  test("records the undo as its own action_taken linked to the original", () => {
+    const { server, action_taken_id } = deployed();
+    const result = undoAction(kernel, action_taken_id);
+    expect(result.action_taken!.undoes).toBe(action_taken_id);
+    expect(result.action_taken!.action_genus_id).toBe(deploy);
+
+    const history = getHistory(kernel, server);
+    const undone = history.filter((h) => h.action_taken?.undoes === action_taken_id);
+    expect(undone.map((h) => h.tessella.id)).toEqual(result.action_taken!.tessellae_ids.filter((id) => history.some((h) => h.tessella.id === id)));
+
+    expect(undoAction(kernel, action_taken_id).error).toContain("already undone");
+  });
+
+  test("refuses when later tessellae touched the same attributes", () => {
+    const { server, action_taken_id } = deployed();
+    const later = setAttribute(kernel, server, "version", "2.1");
+    const result = undoAction(kernel, action_taken_id);
+    expect(result.error).toContain("later changes");
+    expect(result.conflicts).toEqual([{ res_id: server, key: "version", tessella_id: later.id }]);
+    expect(materialize(kernel, server).version).toBe("2.1");
+    expect(materialize(kernel, server).status).toBe("deployed");
+  });
+
+  test("unrelated later changes do not conflict", () => {
+    const { server, action_taken_id } = deployed();
+    setAttribute(kernel, server, "hostname", "web-2");
+    expect(undoAction(kernel, action_taken_id).error).toBeUndefined();
+    expect(materialize(kernel, server)).toMatchObject({ hostname: "web-2", version: "1.0", status: "active" });
+  });
+
+  test("unknown action_taken ids are an error", () => {
+    expect(undoAction(kernel, "nope").error).toContain("not found");
+  });
+});
+
+// ============================================================================
+// Action Relationship and Feature Effects
+// ============================================================================
+
+describe("Action Relationship and Feature Effects", () => {
+  let kernel: Kernel;
+  let personGenus: string;
+  let artworkGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    personGenus = defineEntityGenus(kernel, "Person", { attributes: [{ name: "name", type: "text" }] });
+    artworkGenus = defineEntityGenus(kernel, "Artwork", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "unassigned", initial: true }, { name: "assigned", initial: false }],
+      transitions: [{ from: "unassigned", to: "assigned" }],
+    });
+    defineRelationshipGenus(kernel, "Assignment", {
+      roles: [
+        { name: "artist", valid_member_genera: ["Person"], cardinality: "one" },
+        { name: "artwork", valid_member_genera: ["Artwork"], cardinality: "one" },
+        { name: "reviewer", valid_member_genera: ["Person"], cardinality: "zero_or_more" },
+      ],
+      attributes: [{ name: "note", type: "text" }],
+    });
+    defineFeatureGenus(kernel, "Sketch", {
+      parent_genus_name: "Artwork",
+      attributes: [{ name: "label", type: "text" }, { name: "by", type: "text" }],
+      states: [{ name: "rough", initial: true }, { name: "final", initial: false }, { name: "archived", initial: false }],
+      transitions: [{ from: "rough", to: "final" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function assignArtist(): string {
+    const handler: SideEffect[] = [
+      { type: "create_relationship", genus_name: "Assignment", members: { artist: "$res.artist.id", artwork: "$res.artwork.id" } },
+      { type: "set_attribute", res: "$created.0.id", key: "note", value: "$res.artist.name on $res.artwork.title" },
+      { type: "transition_status", res: "$res.artwork.id", target: "assigned" },
+    ];
+    validateActionHandler(handler, ["artist", "artwork"], []);
+    return defineActionGenus(kernel, "assign_artist", {
+      resources: [
+        { name: "artwork", genus_name: "Artwork", required_status: "unassigned" },
+        { name: "artist", genus_name: "Person" },
+      ],
+      handler,
+    });
+  }
+
+  function people(...names: string[]): string[] {
+    return names.map((name) => {
+      const id = createEntity(kernel, personGenus);
+      setAttribute(kernel, id, "name", name);
+      return id;
+    });
+  }
+
+  function artwork(title: string): string {
+    const id = createEntity(kernel, artworkGenus);
+    setAttribute(kernel, id, "title", title);
+    return id;
+  }
+
+  test("create_relationship runs atomically with a status change", () => {
+    const action = assignArtist();
+    const [ana] = people("Ana");
+    const mural = artwork("Mural");
+
+    const result = executeAction(kernel, action, { artwork: mural, artist: ana }, {});
+    expect(result.error).toBeUndefined();
+    expect(materialize(kernel, mural).status).toBe("assigned");
+    const [rel] = getRelationshipsForEntity(kernel, mural);
+    expect(rel.members).toEqual({ artist: [ana], artwork: [mural] });
+    expect(materialize(kernel, rel.id).note).toBe("Ana on Mural");
+    expect(result.tessellae!.some((t) => t.res_id === rel.id && t.type === "member_added")).toBe(true);
+  });
+
+  test("a failing effect rolls the relationship back too", () => {
+    const action = defineActionGenus(kernel, "bad_assign", {
+      resources: [{ name: "artwork", genus_name: "Artwork" }],
+      handler: [
+        { type: "create_relationship", genus_name: "Assignment", members: { artist: "$res.artwork.id", artwork: "$res.artwork.id" } },
+      ],
+    });
+    const mural = artwork("Mural");
+    expect(executeAction(kernel, action, { artwork: mural }, {}).error).toContain("requires one of");
+    expect(getRelationshipsForEntity(kernel, mural)).toEqual([]);
+  });
+
+  test("token text inside a substituted value is kept literally", () => {
+    const action = defineActionGenus(kernel, "retitle", {
+      resources: [{ name: "artwork", genus_name: "Artwork" }],
+      parameters: [{ name: "t", type: "text", required: true }],
+      handler: [{ type: "set_attribute", res: "$res.artwork.id", key: "title", value: "$res.artwork.title: $param.t" }],
+    });
+    const mural = artwork("Mural");
+    const result = executeAction(kernel, action, { artwork: mural }, { t: "see $created.0.id and $res.artwork.title" });
+    expect(result.error).toBeUndefined();
+    expect(materialize(kernel, mural).title).toBe("Mural: see $created.0.id and $res.artwork.title");
+  });
+
+  test("add_member and remove_member edit an existing relationship", () => {
+    const [ana, bo] = people("Ana", "Bo");
+    const mural = artwork("Mural");
+    const assignment = createRelationship(kernel, findRelationshipGenusByName(kernel, "Assignment")!, { artist: ana, artwork: mural });
+    const action = defineActionGenus(kernel, "swap_reviewer", {
+      parameters: [{ name: "assignment", type: "text", required: true }, { name: "from", type: "text", required: true }, { name: "to", type: "text", required: true }],
+      handler: [
+        { type: "add_member", relationship: "$param.assignment", role: "reviewer", entity: "$param.from" },
+        { type: "add_member", relationship: "$param.assignment", role: "reviewer", entity: "$param.to" },
+        { type: "remove_member", relationship: "$param.assignment", role: "reviewer", entity: "$param.from" },
+      ],
+    });
+    expect(executeAction(kernel, action, {}, { assignment, from: ana, to: bo }).error).toBeUndefined();
+    expect((materialize(kernel, assignment).members as Record<string, string[]>).reviewer).toEqual([bo]);
+    expect(getRelatedEntities(kernel, mural).filter((r) => r.role === "reviewer").map((r) => r.entity_id)).toEqual([bo]);
+  });
+
+  test("feature effects create, edit and transition features addressed by $created", () => {
+    const mural = artwork("Mural");
+    const action = defineActionGenus(kernel, "sketch", {
+      resources: [{ name: "artwork", genus_name: "Artwork" }],
+      parameters: [{ name: "label", type: "text", required: true }],
+      handler: [
+        { type: "create_log", message: "sketching" },
+        { type: "create_feature", res: "$res.artwork.id", genus_name: "Sketch", attributes: { label: "$param.label" } },
+        { type: "set_feature_attribute", res: "$res.artwork.id", feature: "$created.1.id", key: "by", value: "$created.1.label studio" },
+        { type: "transition_feature_status", res: "$res.artwork.id", feature: "$created.1.id", target: "final" },
+      ],
+    });
+    expect(executeAction(kernel, action, { artwork: mural }, { label: "v1" }).error).toBeUndefined();
+    const features = materialize(kernel, mural).features as Record<string, Record<string, unknown>>;
+    expect(Object.values(features)).toEqual([expect.objectContaining({ label: "v1", by: "v1 studio", status: "final" })]);
+  });
+
+  test("$created beyond what has been created is an error", () => {
+    const action = defineActionGenus(kernel, "early", {
+      handler: [{ type: "create_log", message: "$created.0.message" }],
+    });
+    expect(executeAction(kernel, action, {}, {}).error).toContain("$created.0");
+  });
+
+  test("validation requires the new effects' fields", () => {
+    expect(() => validateActionHandler([{ type: "add_member", relationship: "x", role: "reviewer" }], [], []))
+      .toThrow('missing required field: "entity"');
+    expect(() => validateActionHandler([{ type: "create_feature", genus_name: "Sketch" }], [], []))
+      .toThrow('missing required field: "res"');
+  });
+
+  test("undo retires the relationship and restores memberships and features", () => {
+    const action = assignArtist();
+    const [ana, bo] = people("Ana", "Bo");
+    const mural = artwork("Mural");
+    const assigned = executeAction(kernel, action, { artwork: mural, artist: ana }, {});
+    const [rel] = getRelationshipsForEntity(kernel, mural);
+
+    expect(undoAction(kernel, assigned.action_taken!.id).error).toBeUndefined();
+    expect(getRelationshipsForEntity(kernel, mural)).toEqual([]);
+    expect(materialize(kernel, rel.id).status).toBe("retired");
+    expect(materialize(kernel, mural).status).toBe("unassigned");
+
+    const assignment = createRelationship(kernel, findRelationshipGenusByName(kernel, "Assignment")!, { artist: ana, artwork: mural });
+    const reassign = defineActionGenus(kernel, "reassign", {
+      parameters: [{ name: "to", type: "text", required: true }],
+      resources: [{ name: "artwork", genus_name: "Artwork" }],
+      handler: [
+        { type: "create_feature", res: "$res.artwork.id", genus_name: "Sketch" },
+        { type: "add_member", relationship: assignment, role: "reviewer", entity: "$param.to" },
+      ],
+    });
+    const done = executeAction(kernel, reassign, { artwork: mural }, { to: bo });
+    expect(done.error).toBeUndefined();
+    expect(undoAction(kernel, done.action_taken!.id).error).toBeUndefined();
+    expect((materialize(kernel, assignment).members as Record<string, string[]>).reviewer).toEqual([]);
+    const features = materialize(kernel, mural).features as Record<string, Record<string, unknown>>;
+    expect(Object.values(features).map((f) => f.status)).toEqual(["archived"]);
+  });
+});
+
+// ============================================================================
+// Branch-correct Actions
+// ============================================================================
+
+describe("Branch-correct Actions", () => {
+  let kernel: Kernel;
+  let serverGenus: string;
+  let deploy: string;
+  let server: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    serverGenus = defineEntityGenus(kernel, "Server", {
+      attributes: [{ name: "version", type: "text" }, { name: "announced", type: "boolean" }],
+      states: [{ name: "active", initial: true }, { name: "deployed", initial: false }],
+      transitions: [{ from: "active", to: "deployed" }],
+    });
+    deploy = defineActionGenus(kernel, "deploy", {
+      resources: [{ name: "server", genus_name: "Server", required_status: "active" }],
+      parameters: [{ name: "version", type: "text", required: true }],
+      handler: [
+        { type: "set_attribute", res: "$res.server.id", key: "version", value: "$param.version" },
+        { type: "transition_status", res: "$res.server.id", target: "deployed" },
+        { type: "create_log", res: "$res.server.id", message: "Deployed $param.version" },
+      ],
+    });
+    server = createEntity(kernel, serverGenus);
+    setAttribute(kernel, server, "version", "1.0");
+    createBranch(kernel, "release");
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  test("deploy on a branch leaves main untouched until mergeBranch", () => {
+    const result = executeAction(kernel, deploy, { server }, { version: "2.0" }, { branch_id: "release" });
+    expect(result.error).toBeUndefined();
+    expect(result.action_taken!.branch_id).toBe("release");
+    expect(result.tessellae!.every((t) => t.branch_id === "release")).toBe(true);
+
+    expect(materialize(kernel, server)).toMatchObject({ version: "1.0", status: "active" });
+    expect(materialize(kernel, server, { branch_id: "release" })).toMatchObject({ version: "2.0", status: "deployed" });
+    const log = result.tessellae!.find((t) => t.type === "created")!.res_id;
+    expect(materialize(kernel, log)).toEqual({});
+
+    mergeBranch(kernel, "release", "main");
+    expect(materialize(kernel, server)).toMatchObject({ version: "2.0", status: "deployed" });
+    expect(materialize(kernel, log).message).toBe("Deployed 2.0");
+  });
+
+  test("defaults to the kernel's current branch", () => {
+    switchBranch(kernel, "release");
+    const result = executeAction(kernel, deploy, { server }, { version: "2.0" });
+    expect(result.action_taken!.branch_id).toBe("release");
+    switchBranch(kernel, "main");
+    expect(materialize(kernel, server).status).toBe("active");
+    expect(materialize(kernel, server, { branch_id: "release" }).status).toBe("deployed");
+  });
+
+  test("preconditions are checked against the target branch", () => {
+    executeAction(kernel, deploy, { server }, { version: "2.0" }, { branch_id: "release" });
+    expect(executeAction(kernel, deploy, { server }, { version: "3.0" }, { branch_id: "release" }).error).toContain('must be in status "active"');
+    expect(executeAction(kernel, deploy, { server }, { version: "3.0" }).error).toBeUndefined();
+  });
+
+  test("processes triggered on a branch run their action steps there", () => {
+    defineActionGenus(kernel, "announce", {
+      resources: [{ name: "server", genus_name: "Server" }],
+      handler: [{ type: "set_attribute", res: "$res.server.id", key: "announced", value: true }],
+    });
+    defineProcessGenus(kernel, "Rollout", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "announce", type: "action_step", lane: "main", position: 0, action_name: "announce", action_resource_bindings: { server: "$context.res_id" } }],
+      triggers: [{ type: "action", action_name: "deploy" }],
+    });
+
+    const result = executeAction(kernel, deploy, { server }, { version: "2.0" }, { branch_id: "release" });
+    const [processId] = result.triggered_processes!;
+    const status = getProcessStatus(kernel, processId);
+    expect(status.branch_id).toBe("release");
+    expect(status.status).toBe("completed");
+    expect(materialize(kernel, server).announced).toBeUndefined();
+    expect(materialize(kernel, server, { branch_id: "release" }).announced).toBe(true);
+  });
+
+  test("cron-fired actions write to the branch in target_config", () => {
+    const schedule = createCronSchedule(kernel, {
+      name: "Nightly deploy",
+      expression: "0 0 * * *",
+      target_type: "action",
+      target_genus_id: deploy,
+      target_config: JSON.stringify({ resource_bindings: { server }, params: { version: "2.0" }, branch_id: "release" }),
+    });
+    fireCronSchedule(kernel, schedule);
+    expect(materialize(kernel, server).status).toBe("active");
+    expect(materialize(kernel, server, { branch_id: "release" }).status).toBe("deployed");
+  });
+});
+
+// ============================================================================
+// Action Guards
+// ============================================================================
+
+describe("Action Guards", () => {
+  let kernel: Kernel;
+  let ticketGenus: string;
+  let agentGenus: string;
+  let assignmentGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    ticketGenus = defineEntityGenus(kernel, "Ticket", {
+      attributes: [{ name: "priority", type: "text" }, { name: "estimate", type: "number" }],
+      states: [{ name: "open", initial: true }, { name: "triaged", initial: false }, { name: "closed", initial: false }],
+      transitions: [{ from: "open", to: "triaged" }, { from: "triaged", to: "closed" }, { from: "open", to: "closed" }],
+    });
+    agentGenus = defineEntityGenus(kernel, "Agent", { attributes: [{ name: "name", type: "text" }] });
+    assignmentGenus = defineRelationshipGenus(kernel, "Assignment", {
+      roles: [
+        { name: "ticket", valid_member_genera: ["Ticket"], cardinality: "one" },
+        { name: "agent", valid_member_genera: ["Agent"], cardinality: "one" },
+      ],
+      states: [{ name: "active", initial: true }, { name: "ended", initial: false }],
+      transitions: [{ from: "active", to: "ended" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function ticket(priority: string, status?: string): string {
+    const id = createEntity(kernel, ticketGenus);
+    setAttribute(kernel, id, "priority", priority);
+    if (status) transitionStatus(kernel, id, status);
+    return id;
+  }
+
+  test("required_status accepts a list of allowed statuses", () => {
+    const action = defineActionGenus(kernel, "close", {
+      resources: [{ name: "ticket", genus_name: "Ticket", required_status: ["open", "triaged"] }],
+      handler: [{ type: "transition_status", res: "$res.ticket.id", target: "closed" }],
+    });
+    expect(executeAction(kernel, action, { ticket: ticket("low", "triaged") }, {}).error).toBeUndefined();
+    const closed = ticket("low", "closed");
+    expect(executeAction(kernel, action, { ticket: closed }, {}).error)
+      .toBe(`Resource "ticket" must be in status "open" or "triaged", currently "closed"`);
+  });
+
+  test("where predicates gate on the resource's attributes", () => {
+    const action = defineActionGenus(kernel, "escalate", {
+      resources: [{ name: "ticket", genus_name: "Ticket", where: { key: "priority", op: "in", value: ["high", "urgent"] } }],
+      handler: [{ type: "set_attribute", res: "$res.ticket.id", key: "estimate", value: 1 }],
+    });
+    expect(executeAction(kernel, action, { ticket: ticket("urgent") }, {}).error).toBeUndefined();
+    expect(executeAction(kernel, action, { ticket: ticket("low") }, {}).error)
+      .toBe(`Resource "ticket" does not satisfy priority in ["high","urgent"]`);
+    expect(() => defineActionGenus(kernel, "broken", {
+      resources: [{ name: "ticket", genus_name: "Ticket", where: { key: "priority", op: "like" as any, value: "x" } }],
+    })).toThrow(/Invalid where on resource "ticket"/);
+  });
+
+  test("relationship guards require an active membership in the given role", () => {
+    const action = defineActionGenus(kernel, "start_work", {
+      resources: [{ name: "ticket", genus_name: "Ticket", relationships: [{ relationship: "Assignment", role: "ticket", status: "active" }] }],
+      handler: [{ type: "transition_status", res: "$res.ticket.id", target: "triaged" }],
+    });
+    const t = ticket("high");
+    expect(executeAction(kernel, action, { ticket: t }, {}).error)
+      .toBe(`Resource "ticket" has no "active" Assignment relationship as ticket`);
+
+    const agent = createEntity(kernel, agentGenus);
+    const rel = createRelationship(kernel, assignmentGenus, { ticket: t, agent });
+    expect(checkActionAvailability(kernel, action, { ticket: t }).available).toBe(true);
+    transitionStatus(kernel, rel, "ended");
+    expect(checkActionAvailability(kernel, action, { ticket: t }).available).toBe(false);
+  });
+
+  test("preconditions compare resources, e.g. same workspace", () => {
+    const action = defineActionGenus(kernel, "assign", {
+      resources: [{ name: "ticket", genus_name: "Ticket" }, { name: "agent", genus_name: "Agent" }],
+      handler: [{ type: "create_relationship", genus_name: "Assignment", members: { ticket: "$res.ticket.id", agent: "$res.agent.id" } }],
+      preconditions: { key: "$res.ticket.workspace_id", op: "eq", value: "$res.agent.workspace_id" },
+    });
+    const alpha = createWorkspace(kernel, "Alpha");
+    const beta = createWorkspace(kernel, "Beta");
+    kernel.currentWorkspace = alpha;
+    const t = ticket("high");
+    const local = createEntity(kernel, agentGenus);
+    kernel.currentWorkspace = beta;
+    const remote = createEntity(kernel, agentGenus);
+
+    expect(executeAction(kernel, action, { ticket: t, agent: remote }, {}).error)
+      .toBe(`Preconditions not met: $res.ticket.workspace_id eq "$res.agent.workspace_id"`);
+    expect(executeAction(kernel, action, { ticket: t, agent: local }, {}).error).toBeUndefined();
+    expect(() => defineActionGenus(kernel, "bad", {
+      resources: [{ name: "ticket", genus_name: "Ticket" }],
+      preconditions: { key: "$res.agent.workspace_id", op: "exists" },
+    })).toThrow(/undefined resource "agent"/);
+  });
+
+  test("checkActionAvailability lists every failing guard, and partial skips unbound resources", () => {
+    const action = defineActionGenus(kernel, "ship", {
+      resources: [
+        { name: "ticket", genus_name: "Ticket", required_status: "triaged", where: { key: "estimate", op: "exists" } },
+        { name: "agent", genus_name: "Agent" },
+      ],
+      preconditions: { key: "$res.agent.name", op: "exists" },
+    });
+    const t = ticket("low");
+    expect(checkActionAvailability(kernel, action, { ticket: t }, { partial: true })).toEqual({
+      available: false,
+      reasons: [
+        `Resource "ticket" must be in status "triaged", currently "open"`,
+        `Resource "ticket" does not satisfy estimate exists`,
+      ],
+    });
+    expect(checkActionAvailability(kernel, action, { ticket: t }).reasons).toContain("Missing resource binding: agent");
+
+    transitionStatus(kernel, t, "triaged");
+    setAttribute(kernel, t, "estimate", 3);
+    expect(checkActionAvailability(kernel, action, { ticket: t }, { partial: true })).toEqual({ available: true, reasons: [] });
+  });
+});
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+describe("Outbox", () => {
+  let kernel: Kernel;
+  let issueGenus: string;
+  let server: ReturnType<typeof Bun.serve>;
+  let received: { method: string; body: unknown; auth: string | null }[];
+  let failuresLeft: number;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    issueGenus = defineEntityGenus(kernel, "Issue", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "draft", initial: true }, { name: "published", initial: false }],
+      transitions: [{ from: "draft", to: "published" }],
+    });
+    received = [];
+    failuresLeft = 0;
+    server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          return new Response("publisher down", { status: 503 });
+        }
+        received.push({ method: req.method, body: await req.json(), auth: req.headers.get("authorization") });
+        return new Response("ok");
+      },
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+    kernel.db.close();
+  });
+
+  function publishIssue(extra: SideEffect[] = [], max_attempts = 3): string {
+    return defineActionGenus(kernel, "publish_issue", {
+      resources: [{ name: "issue", genus_name: "Issue", required_status: "draft" }],
+      handler: [
+        { type: "transition_status", res: "$res.issue.id", target: "published" },
+        {
+          type: "http_request",
+          url: `http://localhost:${server.port}/hooks/issues`,
+          headers: { Authorization: "Bearer secret" },
+          body: { id: "$res.issue.id", title: "$res.issue.title" },
+          max_attempts,
+        },
+        ...extra,
+      ],
+    });
+  }
+
+  function issue(title: string): string {
+    const id = createEntity(kernel, issueGenus);
+    setAttribute(kernel, id, "title", title);
+    return id;
+  }
+
+  function logs(res_id: string): { message: string; severity: string }[] {
+    return (kernel.db.query("SELECT id FROM res WHERE genus_id = ? ORDER BY id").all(LOG_GENUS_ID) as { id: string }[])
+      .map((r) => materialize(kernel, r.id))
+      .filter((s) => s.associated_res_id === res_id)
+      .map((s) => ({ message: s.message as string, severity: s.severity as string }));
+  }
+
+  test("listOutbox and requeueOutboxEntry only see the current workspace", () => {
+    const alpha = createKernelView(kernel, { workspace_id: createWorkspace(kernel, "Alpha") });
+    const beta = createKernelView(kernel, { workspace_id: createWorkspace(kernel, "Beta") });
+    const action = publishIssue();
+    const id = createEntity(alpha, issueGenus);
+    expect(executeAction(alpha, action, { issue: id }, {}).error).toBeUndefined();
+
+    const [entry] = listOutbox(alpha);
+    expect(entry.workspace_id).toBe(alpha.currentWorkspace);
+    expect(listOutbox(beta)).toEqual([]);
+    kernel.db.run("UPDATE outbox SET status = 'dead' WHERE id = ?", [entry.id]);
+    expect(() => requeueOutboxEntry(beta, entry.id)).toThrow(`Outbox entry not found: ${entry.id}`);
+    expect(requeueOutboxEntry(alpha, entry.id).status).toBe("pending");
+  });
+
+  test("http_request is queued by the action and sent by deliverOutbox", async () => {
+    const action = publishIssue();
+    const id = issue("Launch");
+    const result = executeAction(kernel, action, { issue: id }, {});
+    expect(result.error).toBeUndefined();
+    expect(received).toHaveLength(0);
+
+    const [queued] = listOutbox(kernel, { status: "pending" });
+    expect(queued).toMatchObject({ action_taken_id: result.action_taken!.id, res_id: id, method: "POST", attempts: 0 });
+    expect(queued.headers["Content-Type"]).toBe("application/json");
+
+    const delivery = await deliverOutbox(kernel);
+    expect(delivery).toEqual({ delivered: [queued.id], retried: [], dead: [] });
+    expect(received).toEqual([{ method: "POST", body: { id, title: "Launch" }, auth: "Bearer secret" }]);
+    expect(listOutbox(kernel)[0]).toMatchObject({ status: "delivered", attempts: 1, last_status: 200 });
+    expect(logs(id)).toEqual([{ message: expect.stringContaining("Delivered POST"), severity: "info" }]);
+
+    // Delivered rows are not sent twice
+    expect(await deliverOutbox(kernel)).toEqual({ delivered: [], retried: [], dead: [] });
+  });
+
+  test("a rolled-back action or a dry run queues nothing", () => {
+    const action = publishIssue([{ type: "transition_status", res: "$res.issue.id", target: "nowhere" }]);
+    expect(executeAction(kernel, action, { issue: issue("Broken") }, {}).error).toBeDefined();
+    expect(listOutbox(kernel)).toEqual([]);
+
+    const ok = publishIssue();
+    const preview = executeAction(kernel, ok, { issue: issue("Preview") }, {}, { dry_run: true });
+    expect(preview.preview!.outbox).toHaveLength(1);
+    expect(preview.preview!.outbox[0].url).toContain("/hooks/issues");
+    expect(listOutbox(kernel)).toEqual([]);
+  });
+
+  test("failures back off, then dead-letter after max_attempts", async () => {
+    const action = publishIssue([], 2);
+    const id = issue("Flaky");
+    executeAction(kernel, action, { issue: id }, {});
+    failuresLeft = 5;
+
+    const t0 = new Date(Date.now() + 1000);
+    const first = await deliverOutbox(kernel, { now: t0 });
+    expect(first.retried).toHaveLength(1);
+    const [entry] = listOutbox(kernel);
+    expect(entry).toMatchObject({ status: "pending", attempts: 1, last_status: 503 });
+    expect(entry.last_error).toContain("publisher down");
+    expect(entry.next_attempt_at).toBe(new Date(t0.getTime() + 30_000).toISOString());
+
+    // Not due yet
+    expect(await deliverOutbox(kernel, { now: new Date(t0.getTime() + 10_000) })).toEqual({ delivered: [], retried: [], dead: [] });
+
+    const second = await deliverOutbox(kernel, { now: new Date(t0.getTime() + 30_000) });
+    expect(second.dead).toEqual([entry.id]);
+    expect(listOutbox(kernel, { status: "dead" })).toHaveLength(1);
+    expect(logs(id).map((l) => l.severity)).toEqual(["warning", "error"]);
+
+    failuresLeft = 0;
+    expect(requeueOutboxEntry(kernel, entry.id)).toMatchObject({ status: "pending", attempts: 0 });
+    expect((await deliverOutbox(kernel, { now: new Date(Date.now() + 1000) })).delivered).toEqual([entry.id]);
+    expect(() => requeueOutboxEntry(kernel, entry.id)).toThrow(/only dead entries/);
+  });
+
+  test("network errors count as failed attempts", async () => {
+    const action = defineActionGenus(kernel, "ping", {
+      resources: [{ name: "issue", genus_name: "Issue" }],
+      handler: [{ type: "http_request", url: "http://localhost:9/unreachable", method: "get" }],
+    });
+    const id = issue("Ping");
+    executeAction(kernel, action, { issue: id }, {});
+    const result = await deliverOutbox(kernel, { fetch: async () => { throw new Error("connection refused"); } });
+    expect(result.retried).toHaveLength(1);
+    expect(listOutbox(kernel)[0]).toMatchObject({ method: "GET", last_status: null, last_error: "connection refused" });
+  });
+
+  test("validation rejects unsupported methods and bad max_attempts", () => {
+    expect(() => validateActionHandler([{ type: "http_request", url: "http://x", method: "TRACE" }], [], []))
+      .toThrow(/unsupported method "TRACE"/);
+    expect(() => validateActionHandler([{ type: "http_request", url: "http://x", max_attempts: 0 }], [], []))
+      .toThrow(/max_attempts must be a positive integer/);
+    expect(() => validateActionHandler([{ type: "http_request", method: "POST" } as SideEffect], [], []))
+      .toThrow(/missing required field: "url"/);
+  });
+});
+
+// ============================================================================
+// Action Parameter Schemas
+// ============================================================================
+
+describe("Action Parameter Schemas", () => {
+  let kernel: Kernel;
+  let releaseGenus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    releaseGenus = defineEntityGenus(kernel, "Release", { attributes: [{ name: "channel", type: "text" }] });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function defineShip(): string {
+    return defineActionGenus(kernel, "ship", {
+      resources: [{ name: "release", genus_name: "Release" }],
+      parameters: [
+        { name: "channel", type: "enum", values: ["stable", "beta"], required: true, default: "stable", description: "Release channel" },
+        { name: "tags", type: "list", items: { type: "text" }, required: false, default: [] },
+        {
+          name: "target",
+          type: "object",
+          required: false,
+          properties: [
+            { name: "region", type: "text", required: true },
+            { name: "canary", type: "boolean", required: false, default: false },
+          ],
+        },
+      ],
+      handler: [
+        { type: "set_attribute", res: "$res.release.id", key: "channel", value: "$param.channel" },
+        { type: "for_each", over: "$param.tags", as: "tag", do: [{ type: "create_log", res: "$res.release.id", message: "tag $each.tag" }] },
+      ],
+    });
+  }
+
+  test("defaults are applied before substitution", () => {
+    const action = defineShip();
+    const release = createEntity(kernel, releaseGenus);
+    const result = executeAction(kernel, action, { release }, {});
+    expect(result.error).toBeUndefined();
+    expect(materialize(kernel, release).channel).toBe("stable");
+    expect(result.action_taken!.params).toEqual({ channel: "stable", tags: [] });
+  });
+
+  test("enum, list item and object property values are validated", () => {
+    const action = defineShip();
+    const release = createEntity(kernel, releaseGenus);
+    expect(executeAction(kernel, action, { release }, { channel: "nightly" }).error)
+      .toBe(`Parameter "channel" must be one of: stable, beta; got "nightly"`);
+    expect(executeAction(kernel, action, { release }, { tags: ["a", 2] }).error)
+      .toBe(`Parameter "tags[1]" type mismatch: expected text, got number`);
+    expect(executeAction(kernel, action, { release }, { target: { canary: true } }).error)
+      .toBe("Missing required parameter: target.region");
+    expect(executeAction(kernel, action, { release }, { target: ["eu"] }).error)
+      .toBe(`Parameter "target" type mismatch: expected object, got list`);
+
+    const ok = executeAction(kernel, action, { release }, { channel: "beta", tags: ["x"], target: { region: "eu" } });
+    expect(ok.error).toBeUndefined();
+    expect(ok.action_taken!.params.target).toEqual({ region: "eu", canary: false });
+  });
+
+  test("definitions are checked, including defaults", () => {
+    expect(() => defineActionGenus(kernel, "a", { parameters: [{ name: "p", type: "colour" as any, required: false }] }))
+      .toThrow(/Invalid parameter type "colour"/);
+    expect(() => defineActionGenus(kernel, "b", { parameters: [{ name: "p", type: "enum", required: false }] }))
+      .toThrow(/needs a non-empty values list/);
+    expect(() => defineActionGenus(kernel, "c", { parameters: [{ name: "p", type: "number", required: false, default: "ten" }] }))
+      .toThrow(/Default for parameter "p" is invalid/);
+    expect(() => defineActionGenus(kernel, "d", { parameters: [{ name: "p", type: "text", items: { type: "text" }, required: false }] }))
+      .toThrow(/Only list parameters take items/);
+  });
+
+  test("getActionParametersSchema renders JSON Schema", () => {
+    const action = defineShip();
+    expect(getActionParametersSchema(kernel, action)).toEqual({
+      type: "object",
+      properties: {
+        channel: { type: "string", enum: ["stable", "beta"], description: "Release channel", default: "stable" },
+        tags: { type: "array", items: { type: "string" }, default: [] },
+        target: {
+          type: "object",
+          properties: { region: { type: "string" }, canary: { type: "boolean", default: false } },
+          required: ["region"],
+        },
+      },
+    });
+  });
+});
+
+// ============================================================================
+// Bulk Action Execution
+// ============================================================================
+
+describe("Bulk Action Execution", () => {
+  let kernel: Kernel;
+  let issueGenus: string;
+  let archive: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    issueGenus = defineEntityGenus(kernel, "Issue", {
+      attributes: [{ name: "published_at", type: "date" }, { name: "locked", type: "boolean" }, { name: "archived_by", type: "text" }],
+      states: [{ name: "draft", initial: true }, { name: "published", initial: false }, { name: "archived", initial: false }],
+      transitions: [{ from: "draft", to: "published" }, { from: "published", to: "archived" }],
+    });
+    defineEntityGenus(kernel, "Editor", { attributes: [{ name: "name", type: "text" }] });
+    archive = defineActionGenus(kernel, "archive_issue", {
+      resources: [
+        { name: "issue", genus_name: "Issue", required_status: "published", where: { key: "locked", op: "eq", value: false } },
+        { name: "editor", genus_name: "Editor" },
+      ],
+      handler: [
+        { type: "set_attribute", res: "$res.issue.id", key: "archived_by", value: "$res.editor.name" },
+        { type: "transition_status", res: "$res.issue.id", target: "archived" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function issue(published_at: string, locked = false): string {
+    const id = createEntity(kernel, issueGenus);
+    setAttribute(kernel, id, "published_at", published_at);
+    setAttribute(kernel, id, "locked", locked);
+    transitionStatus(kernel, id, "published");
+    return id;
+  }
+
+  function editor(): string {
+    const id = createEntity(kernel, findGenusByName(kernel, "Editor")!);
+    setAttribute(kernel, id, "name", "Ed");
+    return id;
+  }
+
+  test("runs the action for every match, sharing fixed bindings", () => {
+    const old1 = issue("2023-01-10");
+    const old2 = issue("2023-06-01");
+    const fresh = issue("2024-03-01");
+    const result = executeActionBulk(kernel, archive, {
+      resource: "issue",
+      status: "published",
+      where: { key: "published_at", op: "lt", value: "2024-01-01" },
+      bindings: { editor: editor() },
+    });
+    expect(result).toMatchObject({ mode: "best_effort", matched: 2, total: 2, has_more: false, succeeded: 2, failed: 0 });
+    expect(result.results.map((r) => r.res_id).sort()).toEqual([old1, old2].sort());
+    expect(materialize(kernel, old1)).toMatchObject({ status: "archived", archived_by: "Ed" });
+    expect(materialize(kernel, fresh).status).toBe("published");
+  });
+
+  test("reports matches left over beyond the limit", () => {
+    for (const date of ["2023-01-10", "2023-02-10", "2023-03-10"]) issue(date);
+    const opts = { resource: "issue", status: "published", bindings: { editor: editor() }, limit: 2 };
+
+    const first = executeActionBulk(kernel, archive, opts);
+    expect(first).toMatchObject({ matched: 2, total: 3, has_more: true, succeeded: 2 });
+    // Archived issues no longer match, so the next call picks up the rest
+    expect(executeActionBulk(kernel, archive, opts)).toMatchObject({ matched: 1, total: 1, has_more: false, succeeded: 1 });
+  });
+
+  test("best_effort reports per-item failures and keeps the successes", () => {
+    const ok = issue("2023-01-10");
+    const locked = issue("2023-02-10", true);
+    const result = executeActionBulk(kernel, archive, { resource: "issue", status: "published", bindings: { editor: editor() } });
+    expect(result).toMatchObject({ matched: 2, succeeded: 1, failed: 1 });
+    expect(result.results.find((r) => r.res_id === locked)!.error).toContain(`does not satisfy locked eq false`);
+    expect(result.results.find((r) => r.res_id === ok)!.action_taken_id).toBeDefined();
+    expect(materialize(kernel, ok).status).toBe("archived");
+  });
+
+  test("all_or_nothing rolls every run back on the first failure", () => {
+    const first = issue("2023-01-10");
+    issue("2023-02-10", true);
+    const before = (kernel.db.query("SELECT COUNT(*) AS n FROM action_taken").get() as { n: number }).n;
+    const result = executeActionBulk(kernel, archive, {
+      resource: "issue",
+      status: "published",
+      bindings: { editor: editor() },
+      mode: "all_or_nothing",
+    });
+    expect(result).toMatchObject({ mode: "all_or_nothing", rolled_back: true, succeeded: 0, failed: 1 });
+    expect(result.results.every((r) => r.action_taken_id === undefined)).toBe(true);
+    expect(materialize(kernel, first).status).toBe("published");
+    expect((kernel.db.query("SELECT COUNT(*) AS n FROM action_taken").get() as { n: number }).n).toBe(before);
+  });
+
+  test("unknown resource slots are reported, not thrown", () => {
+    expect(executeActionBulk(kernel, archive, { resource: "ticket" }).error).toBe(`Action has no resource "ticket". Resources: issue, editor`);
+  });
+});
+
+// ============================================================================
+// Idempotency Keys
+// ============================================================================
+
+describe("Idempotency Keys", () => {
+  let kernel: Kernel;
+  let orderGenus: string;
+  let ship: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    orderGenus = defineEntityGenus(kernel, "Order", {
+      attributes: [{ name: "carrier", type: "text" }],
+      states: [{ name: "paid", initial: true }, { name: "shipped", initial: false }],
+      transitions: [{ from: "paid", to: "shipped" }],
+    });
+    ship = defineActionGenus(kernel, "ship", {
+      resources: [{ name: "order", genus_name: "Order", required_status: "paid" }],
+      parameters: [{ name: "carrier", type: "text", required: true }],
+      handler: [
+        { type: "set_attribute", res: "$res.order.id", key: "carrier", value: "$param.carrier" },
+        { type: "transition_status", res: "$res.order.id", target: "shipped" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function tessellaCount(): number {
+    return (kernel.db.query("SELECT COUNT(*) AS n FROM tessella").get() as { n: number }).n;
+  }
+
+  test("a repeated key returns the original action run without writing", () => {
+    const order = createEntity(kernel, orderGenus);
+    const first = executeAction(kernel, ship, { order }, { carrier: "DHL" }, { idempotency_key: "ship-1" });
+    expect(first.error).toBeUndefined();
+    const written = tessellaCount();
+
+    // The order is no longer "paid", so a real second run would fail; the retry gets the first result
+    const retry = executeAction(kernel, ship, { order }, { carrier: "DHL" }, { idempotency_key: "ship-1" });
+    expect(retry.replayed).toBe(true);
+    expect(retry.action_taken!.id).toBe(first.action_taken!.id);
+    expect(retry.tessellae!.map((t) => t.id)).toEqual(first.tessellae!.map((t) => t.id));
+    expect(tessellaCount()).toBe(written);
+  });
+
+  test("reusing a key for a different request is refused", () => {
+    const order = createEntity(kernel, orderGenus);
+    executeAction(kernel, ship, { order }, { carrier: "DHL" }, { idempotency_key: "ship-2" });
+    expect(executeAction(kernel, ship, { order }, { carrier: "UPS" }, { idempotency_key: "ship-2" }).error)
+      .toBe(`Idempotency key "ship-2" was already used for a different request`);
+  });
+
+  test("a failed call does not claim its key", () => {
+    const order = createEntity(kernel, orderGenus);
+    expect(executeAction(kernel, ship, { order }, {}, { idempotency_key: "ship-3" }).error).toBe("Missing required parameter: carrier");
+    const ok = executeAction(kernel, ship, { order }, { carrier: "DHL" }, { idempotency_key: "ship-3" });
+    expect(ok.error).toBeUndefined();
+    expect(ok.replayed).toBeUndefined();
+  });
+
+  test("keys are scoped to the workspace and actor", () => {
+    const alpha = createKernelView(kernel, { workspace_id: createWorkspace(kernel, "Alpha") });
+    const beta = createKernelView(kernel, { workspace_id: createWorkspace(kernel, "Beta") });
+    const inAlpha = createEntity(alpha, orderGenus);
+    const inBeta = createEntity(beta, orderGenus);
+
+    const first = executeAction(alpha, ship, { order: inAlpha }, { carrier: "DHL" }, { idempotency_key: "retry-1" });
+    // Same key from another tenant: a request of its own, neither refused nor replayed
+    const other = executeAction(beta, ship, { order: inBeta }, { carrier: "UPS" }, { idempotency_key: "retry-1" });
+    expect(other.error).toBeUndefined();
+    expect(other.replayed).toBeUndefined();
+    expect(other.action_taken!.id).not.toBe(first.action_taken!.id);
+    expect(materialize(kernel, inBeta)).toMatchObject({ status: "shipped", carrier: "UPS" });
+
+    const same = withIdempotencyKey(alpha, "make-1", "create_entity", { genus: "Order" }, () => createEntity(alpha, orderGenus));
+    const elsewhere = withIdempotencyKey(beta, "make-1", "create_entity", { genus: "Order" }, () => createEntity(beta, orderGenus));
+    expect(elsewhere.replayed).toBe(false);
+    expect(elsewhere.result).not.toBe(same.result);
+
+    const carol = createKernelView(alpha, { actor: { id: "carol" } });
+    expect(withIdempotencyKey(carol, "make-1", "create_entity", { genus: "Order" }, () => createEntity(carol, orderGenus)).replayed).toBe(false);
+    expect(withIdempotencyKey(alpha, "make-1", "create_entity", { genus: "Order" }, () => createEntity(alpha, orderGenus)).replayed).toBe(true);
+  });
+
+  test("withIdempotencyKey runs a write once per key", () => {
+    let calls = 0;
+    const create = () => withIdempotencyKey(kernel, "order-1", "create_entity", { genus: "Order" }, () => {
+      calls++;
+      return { id: createEntity(kernel, orderGenus) };
+    });
+    const first = create();
+    const second = create();
+    expect(calls).toBe(1);
+    expect(first.replayed).toBe(false);
+    expect(second).toEqual({ result: first.result, replayed: true });
+    expect(() => withIdempotencyKey(kernel, "order-1", "create_task", { title: "x" }, () => ({})))
+      .toThrow(/already used for a different request/);
+  });
+
+  test("expired keys are released", () => {
+    const order = createEntity(kernel, orderGenus);
+    const other = createEntity(kernel, orderGenus);
+    executeAction(kernel, ship, { order }, { carrier: "DHL" }, { idempotency_key: "short", idempotency_ttl_ms: 1 });
+    withIdempotencyKey(kernel, "long", "noop", {}, () => 1);
+
+    expect(purgeIdempotencyKeys(kernel, new Date(Date.now() + 1000))).toBe(1);
+    const reused = executeAction(kernel, ship, { order: other }, { carrier: "UPS" }, { idempotency_key: "short" });
+    expect(reused.error).toBeUndefined();
+    expect(reused.replayed).toBeUndefined();
+    expect(withIdempotencyKey(kernel, "long", "noop", {}, () => 2)).toEqual({ result: 1, replayed: true });
+  });
+});
+
+// ============================================================================
+// Process Timers and Waits
+// ============================================================================
+
+describe("Process Timers and Waits", () => {
+  let kernel: Kernel;
+  let articleGenus: string;
+
+  const HOUR = 3_600_000;
+  const DAY = 24 * HOUR;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    articleGenus = defineEntityGenus(kernel, "Article", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "draft", initial: true }, { name: "approved", initial: false }],
+      transitions: [{ from: "draft", to: "approved" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function later(ms: number): Date {
+    return new Date(Date.now() + ms);
+  }
+
+  test("timer_step waits for its delay and resumes on the tick", () => {
+    const genus = defineProcessGenus(kernel, "Cooldown", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "cool_off", type: "timer_step", lane: "main", position: 0, timer_delay: "3d" },
+        { name: "publish", type: "task_step", lane: "main", position: 1, task_title: "Publish" },
+      ],
+    });
+    const { id, state } = startProcess(kernel, genus);
+    expect(state.steps.cool_off.status).toBe("active");
+    const wakeAt = new Date(state.steps.cool_off.wake_at!).getTime();
+    expect(Math.abs(wakeAt - later(3 * DAY).getTime())).toBeLessThan(60_000);
+
+    expect(tickCron(kernel, later(2 * DAY)).resumed).toEqual([]);
+    expect(getProcessStatus(kernel, id).steps.publish).toBeUndefined();
+
+    const tickAt = later(3 * DAY + HOUR);
+    const result = tickCron(kernel, tickAt);
+    expect(result.resumed).toEqual([{ process_id: id, step_name: "cool_off", outcome: "elapsed" }]);
+    const after = getProcessStatus(kernel, id);
+    expect(after.steps.cool_off.status).toBe("completed");
+    expect(after.steps.cool_off.completed_at).toBe(tickAt.toISOString());
+    expect(after.steps.publish.status).toBe("active");
+  });
+
+  test("timer_until in the past completes on activation", () => {
+    const genus = defineProcessGenus(kernel, "Overdue", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "deadline", type: "timer_step", lane: "main", position: 0, timer_until: "2020-01-01T00:00:00Z" }],
+    });
+    const { state } = startProcess(kernel, genus);
+    expect(state.steps.deadline.status).toBe("completed");
+    expect(state.status).toBe("completed");
+  });
+
+  test("chained timers measure from the tick that resumed them", () => {
+    const genus = defineProcessGenus(kernel, "TwoTimers", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "first", type: "timer_step", lane: "main", position: 0, timer_delay: "1d" },
+        { name: "second", type: "timer_step", lane: "main", position: 1, timer_delay: "1d" },
+      ],
+    });
+    const { id } = startProcess(kernel, genus);
+    const firstTick = later(DAY + HOUR);
+    tickCron(kernel, firstTick);
+    expect(getProcessStatus(kernel, id).steps.second.wake_at).toBe(new Date(firstTick.getTime() + DAY).toISOString());
+
+    tickCron(kernel, later(2 * DAY + 2 * HOUR));
+    expect(getProcessStatus(kernel, id).status).toBe("completed");
+  });
+
+  test("wait_step resumes once the context entity matches", () => {
+    const genus = defineProcessGenus(kernel, "Approval", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "await_approval", type: "wait_step", lane: "main", position: 0,
+          wait_condition: { key: "status", op: "eq", value: "approved" } },
+        { name: "publish", type: "task_step", lane: "main", position: 1, task_title: "Publish" },
+      ],
+    });
+    const article = createEntity(kernel, articleGenus);
+    const { id, state } = startProcess(kernel, genus, { context_res_id: article });
+    expect(state.steps.await_approval.status).toBe("active");
+    expect(state.steps.await_approval.waiting_for).toEqual({ key: "status", op: "eq", value: "approved" });
+    expect(state.steps.await_approval.wake_at).toBeUndefined();
+
+    expect(tickCron(kernel, later(HOUR)).resumed).toEqual([]);
+    transitionStatus(kernel, article, "approved");
+    expect(tickCron(kernel, later(2 * HOUR)).resumed)
+      .toEqual([{ process_id: id, step_name: "await_approval", outcome: "condition_met" }]);
+    expect(getProcessStatus(kernel, id).steps.publish.status).toBe("active");
+  });
+
+  test("wait_step whose condition already holds does not wait", () => {
+    const genus = defineProcessGenus(kernel, "Titled", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "has_title", type: "wait_step", lane: "main", position: 0,
+        wait_condition: { key: "title", op: "exists", value: true } }],
+    });
+    const article = createEntity(kernel, articleGenus);
+    setAttribute(kernel, article, "title", "Hello");
+    expect(startProcess(kernel, genus, { context_res_id: article }).state.status).toBe("completed");
+  });
+
+  test("wait_step past its deadline jumps to wait_timeout_step", () => {
+    const genus = defineProcessGenus(kernel, "Escalation", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "await_approval", type: "wait_step", lane: "main", position: 0, timer_delay: "2d",
+          wait_condition: { key: "status", op: "eq", value: "approved" }, wait_timeout_step: "escalate" },
+        { name: "publish", type: "task_step", lane: "main", position: 1, task_title: "Publish" },
+        { name: "escalate", type: "task_step", lane: "main", position: 2, task_title: "Chase the editor" },
+      ],
+    });
+    const article = createEntity(kernel, articleGenus);
+    const { id } = startProcess(kernel, genus, { context_res_id: article });
+
+    expect(tickCron(kernel, later(2 * DAY + HOUR)).resumed)
+      .toEqual([{ process_id: id, step_name: "await_approval", outcome: "timed_out" }]);
+    const state = getProcessStatus(kernel, id);
+    expect(state.steps.await_approval.result).toBe("timed_out");
+    expect(state.steps.publish.status).toBe("skipped");
+    expect(state.steps.escalate.status).toBe("active");
+  });
+
+  test("wait_step without a timeout step fails the process at its deadline", () => {
+    const genus = defineProcessGenus(kernel, "Strict", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "await_approval", type: "wait_step", lane: "main", position: 0, timer_until: later(DAY).toISOString(),
+        wait_condition: { key: "status", op: "eq", value: "approved" } }],
+    });
+    const article = createEntity(kernel, articleGenus);
+    const { id } = startProcess(kernel, genus, { context_res_id: article });
+
+    tickCron(kernel, later(2 * DAY));
+    const state = getProcessStatus(kernel, id);
+    expect(state.steps.await_approval.status).toBe("failed");
+    expect(state.steps.await_approval.result).toBe('Timed out waiting for status eq "approved"');
+    expect(state.status).toBe("failed");
+  });
+
+  test("wait_step without a context entity fails", () => {
+    const genus = defineProcessGenus(kernel, "NoContext", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "await", type: "wait_step", lane: "main", position: 0,
+        wait_condition: { key: "status", op: "eq", value: "approved" } }],
+    });
+    const { state } = startProcess(kernel, genus);
+    expect(state.steps.await.result).toBe("wait_step requires a context entity");
+    expect(state.status).toBe("failed");
+  });
+
+  test("cancelled processes are not resumed", () => {
+    const genus = defineProcessGenus(kernel, "Cancelled", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "cool_off", type: "timer_step", lane: "main", position: 0, timer_delay: "1h" }],
+    });
+    const { id } = startProcess(kernel, genus);
+    cancelProcess(kernel, id);
+    expect(tickCron(kernel, later(DAY)).resumed).toEqual([]);
+    expect(getProcessStatus(kernel, id).steps.cool_off.status).toBe("active");
+  });
+
+  test("validateProcessDefinition checks timer and wait steps", () => {
+    const lanes = [{ name: "main" }];
+    expect(() => validateProcessDefinition(lanes, [{ name: "t", type: "timer_step", lane: "main" }]))
+      .toThrow("must have timer_delay or timer_until");
+    expect(() => validateProcessDefinition(lanes, [{ name: "t", type: "timer_step", lane: "main", timer_delay: "soon" }]))
+      .toThrow("Invalid delay format");
+    expect(() => validateProcessDefinition(lanes, [{ name: "t", type: "timer_step", lane: "main", timer_until: "someday" }]))
+      .toThrow("invalid timer_until");
+    expect(() => validateProcessDefinition(lanes, [{ name: "w", type: "wait_step", lane: "main" }]))
+      .toThrow("must have a wait_condition");
+    expect(() => validateProcessDefinition(lanes, [{
+      name: "w", type: "wait_step", lane: "main", timer_delay: "1d",
+      wait_condition: { key: "status", op: "eq", value: "approved" }, wait_timeout_step: "missing",
+    }])).toThrow('wait_timeout_step must name a step in lane "main"');
+    const wait = {
+      name: "w", type: "wait_step", lane: "main", position: 1, timer_delay: "1d",
+      wait_condition: { key: "status", op: "eq" as const, value: "approved" },
+    };
+    const prepare = { name: "prepare", type: "task_step", lane: "main", position: 0 };
+    expect(() => validateProcessDefinition(lanes, [prepare, { ...wait, wait_timeout_step: "prepare" }]))
+      .toThrow('Step "w" wait_timeout_step must name a later step: "prepare"');
+    expect(() => validateProcessDefinition(lanes, [prepare, { ...wait, wait_timeout_step: "w" }]))
+      .toThrow("must name a later step");
+    expect(() => validateProcessDefinition(lanes, [
+      prepare, { ...wait, wait_timeout_step: "escalate" }, { name: "escalate", type: "task_step", lane: "main", position: 2 },
+    ])).not.toThrow();
+  });
+});
+
+// ============================================================================
+// Subprocess Steps
+// ============================================================================
+
+describe("Subprocess Steps", () => {
+  let kernel: Kernel;
+  let articleGenus: string;
+  let legalReview: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    articleGenus = defineEntityGenus(kernel, "Article", {
+      attributes: [{ name: "title", type: "text" }, { name: "author", type: "text" }],
+      states: [{ name: "draft", initial: true }],
+      transitions: [],
+    });
+    legalReview = defineProcessGenus(kernel, "Legal Review", {
+      lanes: [{ name: "legal", position: 0 }],
+      steps: [{ name: "check", type: "task_step", lane: "legal", position: 0, task_title: "Legal check" }],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function definePublication(steps: ProcessStepDef[] = []): string {
+    return defineProcessGenus(kernel, "Publication", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "legal", type: "subprocess_step", lane: "main", position: 0, subprocess_name: "Legal Review" },
+        { name: "publish", type: "task_step", lane: "main", position: 1, task_title: "Publish" },
+        ...steps,
+      ],
+    });
+  }
+
+  test("starts the child with the parent's context and links both ways", () => {
+    const genus = definePublication();
+    const article = createEntity(kernel, articleGenus);
+    const { id, state } = startProcess(kernel, genus, { context_res_id: article });
+
+    const childId = state.steps.legal.subprocess_id!;
+    expect(state.steps.legal.status).toBe("active");
+    const child = getProcessStatus(kernel, childId);
+    expect(child.process_genus_id).toBe(legalReview);
+    expect(child.context_res_id).toBe(article);
+    expect(child.parent_process_id).toBe(id);
+    expect(child.parent_step_name).toBe("legal");
+
+    const listed = listProcesses(kernel);
+    expect(listed.find((p) => p.id === id)!.subprocess_ids).toEqual([childId]);
+    expect(listed.find((p) => p.id === childId)!.parent_process_id).toBe(id);
+  });
+
+  test("parent step completes when the child completes", () => {
+    const genus = definePublication();
+    const { id, state } = startProcess(kernel, genus);
+    const child = getProcessStatus(kernel, state.steps.legal.subprocess_id!);
+
+    completeTask(kernel, child.steps.check.task_id!, "cleared");
+    const parent = getProcessStatus(kernel, id);
+    expect(parent.steps.legal.status).toBe("completed");
+    expect(parent.steps.legal.result).toBe(state.steps.legal.subprocess_id);
+    expect(parent.steps.publish.status).toBe("active");
+  });
+
+  test("a child that finishes on start completes the step immediately", () => {
+    defineProcessGenus(kernel, "Stamp", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "read_title", type: "fetch_step", lane: "main", position: 0, fetch_source: "title" }],
+    });
+    const genus = defineProcessGenus(kernel, "Wrapper", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "stamp", type: "subprocess_step", lane: "main", position: 0, subprocess_name: "Stamp" }],
+    });
+    const { state } = startProcess(kernel, genus);
+    expect(state.steps.stamp.status).toBe("completed");
+    expect(state.status).toBe("completed");
+    expect(getProcessStatus(kernel, state.steps.stamp.subprocess_id!).status).toBe("completed");
+  });
+
+  test("child failure and cancellation fail the parent step", () => {
+    const genus = definePublication();
+    const first = startProcess(kernel, genus);
+    cancelProcess(kernel, first.state.steps.legal.subprocess_id!);
+    const parent = getProcessStatus(kernel, first.id);
+    expect(parent.steps.legal.status).toBe("failed");
+    expect(parent.steps.legal.result).toBe(`Subprocess ${first.state.steps.legal.subprocess_id} was cancelled`);
+    expect(parent.status).toBe("failed");
+
+    defineProcessGenus(kernel, "Broken", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "act", type: "action_step", lane: "main", position: 0, action_name: "missing_action" }],
+    });
+    const wrapper = defineProcessGenus(kernel, "BrokenWrapper", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "run", type: "subprocess_step", lane: "main", position: 0, subprocess_name: "Broken" }],
+    });
+    const { state } = startProcess(kernel, wrapper);
+    expect(state.steps.run.result).toBe(`Subprocess ${state.steps.run.subprocess_id} failed`);
+    expect(state.status).toBe("failed");
+  });
+
+  test("cancelling the parent cancels the running child", () => {
+    const genus = definePublication();
+    const { id, state } = startProcess(kernel, genus);
+    cancelProcess(kernel, id, "Pulled");
+    expect(getProcessStatus(kernel, state.steps.legal.subprocess_id!).status).toBe("cancelled");
+    expect(getProcessStatus(kernel, id).status).toBe("cancelled");
+  });
+
+  test("subprocess_context can point at an entity held in a context attribute", () => {
+    const genus = defineProcessGenus(kernel, "AuthorCheck", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "legal", type: "subprocess_step", lane: "main", position: 0,
+        subprocess_name: "Legal Review", subprocess_context: "$context.author" }],
+    });
+    const author = createEntity(kernel, articleGenus);
+    const article = createEntity(kernel, articleGenus);
+    setAttribute(kernel, article, "author", author);
+    const { state } = startProcess(kernel, genus, { context_res_id: article });
+    expect(getProcessStatus(kernel, state.steps.legal.subprocess_id!).context_res_id).toBe(author);
+
+    const unset = createEntity(kernel, articleGenus);
+    const second = startProcess(kernel, genus, { context_res_id: unset });
+    expect(second.state.steps.legal.result).toBe("$context.author is not set on the context entity");
+  });
+
+  test("recursive subprocesses fail instead of looping", () => {
+    defineProcessGenus(kernel, "Ping", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "pong", type: "subprocess_step", lane: "main", position: 0, subprocess_name: "Pong" }],
+    });
+    const pong = defineProcessGenus(kernel, "Pong", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [{ name: "ping", type: "subprocess_step", lane: "main", position: 0, subprocess_name: "Ping" }],
+    });
+    const { id, state } = startProcess(kernel, pong);
+    const ping = getProcessStatus(kernel, state.steps.ping.subprocess_id!);
+    expect(ping.steps.pong.result).toBe('Subprocess "Pong" would start itself recursively');
+    expect(ping.status).toBe("failed");
+    expect(getProcessStatus(kernel, id).status).toBe("failed");
+  });
+
+  test("validateProcessDefinition requires subprocess_name", () => {
+    expect(() => validateProcessDefinition([{ name: "main" }], [{ name: "s", type: "subprocess_step", lane: "main" }]))
+      .toThrow("must have a subprocess_name");
+  });
+});
+
+// ============================================================================
+// Process Step Failure Handling
+// ============================================================================
+
+describe("Process Step Failure Handling", () => {
+  let kernel: Kernel;
+  let articleGenus: string;
+  let article: string;
+
+  const MINUTE = 60_000;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    articleGenus = defineEntityGenus(kernel, "Article", {
+      attributes: [{ name: "title", type: "text" }],
+      states: [{ name: "draft", initial: true }, { name: "published", initial: false }],
+      transitions: [{ from: "draft", to: "published" }],
+    });
+    // Fails until the article has a title
+    defineActionGenus(kernel, "publish", {
+      resources: [{ name: "article", genus_name: "Article", required_status: "draft" }],
+      preconditions: { key: "$res.article.title", op: "exists" },
+      handler: [{ type: "transition_status", res: "$res.article.id", target: "published" }],
+    });
+    article = createEntity(kernel, articleGenus);
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  function later(ms: number): Date {
+    return new Date(Date.now() + ms);
+  }
+
+  function definePublication(publish: Partial<ProcessStepDef> = {}, extra: ProcessStepDef[] = []): string {
+    return defineProcessGenus(kernel, "Publication", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "publish", type: "action_step", lane: "main", position: 0, action_name: "publish",
+          action_resource_bindings: { article: "$context.res_id" }, ...publish },
+        ...extra,
+      ],
+    });
+  }
+
+  test("without a policy a failed action fails the process", () => {
+    const { state } = startProcess(kernel, definePublication(), { context_res_id: article });
+    expect(state.steps.publish.status).toBe("failed");
+    expect(state.steps.publish.attempts).toBeUndefined();
+    expect(state.status).toBe("failed");
+  });
+
+  test("a failed step halts its own lane while other lanes run on", () => {
+    const genus = defineProcessGenus(kernel, "Two Lanes", {
+      lanes: [{ name: "main", position: 0 }, { name: "review", position: 1 }],
+      steps: [
+        { name: "publish", type: "action_step", lane: "main", position: 0, action_name: "publish",
+          action_resource_bindings: { article: "$context.res_id" } },
+        { name: "announce", type: "task_step", lane: "main", position: 1, task_title: "Announce" },
+        { name: "proofread", type: "task_step", lane: "review", position: 2, task_title: "Proofread" },
+      ],
+    });
+    const { id, state } = startProcess(kernel, genus, { context_res_id: article });
+    expect(state.steps.publish.status).toBe("failed");
+    expect(state.steps.announce).toBeUndefined();
+    expect(state.steps.proofread.status).toBe("active");
+    expect(state.status).toBe("running");
+
+    completeTask(kernel, state.steps.proofread.task_id!);
+    const after = getProcessStatus(kernel, id);
+    expect(after.steps.announce).toBeUndefined();
+    expect(after.status).toBe("failed");
+  });
+
+  test("retries with backoff until an attempt succeeds", () => {
+    const genus = definePublication({ retry_max_attempts: 3, retry_backoff: "1m" });
+    const { id, state } = startProcess(kernel, genus, { context_res_id: article });
+    expect(state.status).toBe("running");
+    expect(state.steps.publish.status).toBe("pending");
+    expect(state.steps.publish.attempts).toBe(1);
+    expect(typeof state.steps.publish.result).toBe("string");
+
+    // Not due yet
+    expect(tickCron(kernel, later(30_000)).resumed).toEqual([]);
+
+    // Second attempt still fails; the next backoff doubles
+    const secondTick = later(MINUTE + 1000);
+    expect(tickCron(kernel, secondTick).resumed).toEqual([{ process_id: id, step_name: "publish", outcome: "retried" }]);
+    const afterSecond = getProcessStatus(kernel, id);
+    expect(afterSecond.steps.publish.attempts).toBe(2);
+    expect(afterSecond.steps.publish.retry_at).toBe(new Date(secondTick.getTime() + 2 * MINUTE).toISOString());
+
+    setAttribute(kernel, article, "title", "Ready");
+    tickCron(kernel, later(4 * MINUTE));
+    const done = getProcessStatus(kernel, id);
+    expect(done.steps.publish.status).toBe("completed");
+    expect(done.status).toBe("completed");
+    expect(materialize(kernel, article).status).toBe("published");
+  });
+
+  test("exhausted retries fail the step and record the attempts", () => {
+    const { id, state } = startProcess(kernel, definePublication({ retry_max_attempts: 2 }), { context_res_id: article });
+    // Without a backoff the retry runs at once
+    expect(state.steps.publish.status).toBe("failed");
+    expect(state.steps.publish.attempts).toBe(2);
+    expect(getProcessStatus(kernel, id).status).toBe("failed");
+  });
+
+  test("on_failure routes the lane to a named step", () => {
+    const genus = definePublication({ on_failure: "notify_editor" }, [
+      { name: "announce", type: "task_step", lane: "main", position: 1, task_title: "Announce" },
+      { name: "notify_editor", type: "task_step", lane: "main", position: 2, task_title: "Publishing failed" },
+    ]);
+    const { id, state } = startProcess(kernel, genus, { context_res_id: article });
+    expect(state.status).toBe("running");
+    expect(state.steps.publish.status).toBe("failed");
+    expect(state.steps.publish.routed_to).toBe("notify_editor");
+    expect(state.steps.announce.status).toBe("skipped");
+    expect(state.steps.notify_editor.status).toBe("active");
+
+    completeTask(kernel, state.steps.notify_editor.task_id!);
+    expect(getProcessStatus(kernel, id).status).toBe("completed");
+  });
+
+  test("on_failure cannot route back to an earlier step", () => {
+    const steps: ProcessStepDef[] = [
+      { name: "notify", type: "task_step", lane: "main", position: 0, task_title: "Notify" },
+      { name: "act", type: "action_step", lane: "main", position: 1, action_name: "missing", on_failure: "notify" },
+      { name: "publish", type: "action_step", lane: "main", position: 2, action_name: "publish" },
+    ];
+    expect(() => validateProcessDefinition([{ name: "main" }], steps))
+      .toThrow('Step "act" on_failure must name a later step: "notify"');
+    expect(() => validateProcessDefinition([{ name: "main" }], [{ ...steps[1], on_failure: "act" }]))
+      .toThrow("must name a later step");
+
+    // A definition that slipped past validation halts the lane instead of skipping the rest of it
+    const genus = defineProcessGenus(kernel, "Backwards", { lanes: [{ name: "main", position: 0 }], steps });
+    const { id, state } = startProcess(kernel, genus, { context_res_id: article });
+    completeTask(kernel, state.steps.notify.task_id!);
+    const after = getProcessStatus(kernel, id);
+    expect(after.steps.act.status).toBe("failed");
+    expect(after.steps.act.routed_to).toBeUndefined();
+    expect(after.steps.publish).toBeUndefined();
+    expect(after.status).toBe("failed");
+  });
+
+  test("retryProcessStep reopens a failed process and reruns the step", () => {
+    const { id } = startProcess(kernel, definePublication(), { context_res_id: article });
+    setAttribute(kernel, article, "title", "Fixed");
+
+    const state = retryProcessStep(kernel, id, "publish");
+    expect(state.steps.publish.status).toBe("completed");
+    expect(state.status).toBe("completed");
+    expect(() => retryProcessStep(kernel, id, "publish")).toThrow(`Process ${id} is completed`);
+  });
+
+  test("a process reopened by a manual retry still wakes for later timers", () => {
+    const genus = definePublication({}, [
+      { name: "cool_off", type: "timer_step", lane: "main", position: 1, timer_delay: "1h" },
+    ]);
+    const { id } = startProcess(kernel, genus, { context_res_id: article });
+    setAttribute(kernel, article, "title", "Fixed");
+
+    const state = retryProcessStep(kernel, id, "publish");
+    expect(state.status).toBe("running");
+    expect(state.steps.cool_off.status).toBe("active");
+
+    const resumed = tickCron(kernel, later(120 * MINUTE)).resumed;
+    expect(resumed).toEqual([{ process_id: id, step_name: "cool_off", outcome: "elapsed" }]);
+    expect(getProcessStatus(kernel, id).status).toBe("completed");
+  });
+
+  test("skipProcessStep lets the lane carry on", () => {
+    const genus = definePublication({}, [
+      { name: "announce", type: "task_step", lane: "main", position: 1, task_title: "Announce" },
+    ]);
+    const { id } = startProcess(kernel, genus, { context_res_id: article });
+    expect(() => skipProcessStep(kernel, id, "announce")).toThrow('Step "announce" has not failed (status: pending)');
+    expect(() => skipProcessStep(kernel, id, "nope")).toThrow('Step "nope" not found');
+
+    const state = skipProcessStep(kernel, id, "publish");
+    expect(state.status).toBe("running");
+    expect(state.steps.publish.status).toBe("skipped");
+    expect(state.steps.announce.status).toBe("active");
+  });
+
+  test("manual retry and skip refuse routed failures", () => {
+    const genus = definePublication({ on_failure: "notify_editor" }, [
+      { name: "notify_editor", type: "task_step", lane: "main", position: 1, task_title: "Publishing failed" },
+    ]);
+    const { id } = startProcess(kernel, genus, { context_res_id: article });
+    expect(() => retryProcessStep(kernel, id, "publish")).toThrow('Step "publish" already failed over to "notify_editor"');
+  });
+
+  test("step_timeout fails a task step that runs too long and cancels its task", () => {
+    const genus = defineProcessGenus(kernel, "Review", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "review", type: "task_step", lane: "main", position: 0, task_title: "Review", step_timeout: "2d",
+          on_failure: "escalate" },
+        { name: "escalate", type: "task_step", lane: "main", position: 1, task_title: "Chase the reviewer" },
+      ],
+    });
+    const { id, state } = startProcess(kernel, genus, { context_res_id: article });
+    const taskId = state.steps.review.task_id!;
+    expect(state.steps.review.wake_at).toBeDefined();
+
+    expect(tickCron(kernel, later(3 * 24 * 60 * MINUTE)).resumed)
+      .toEqual([{ process_id: id, step_name: "review", outcome: "timed_out" }]);
+    const after = getProcessStatus(kernel, id);
+    expect(after.steps.review.result).toBe("Timed out after 2d");
+    expect(after.steps.escalate.status).toBe("active");
+    expect(materialize(kernel, taskId).status).toBe("cancelled");
+  });
+
+  test("validateProcessDefinition checks failure handling fields", () => {
+    const lanes = [{ name: "main" }];
+    const task = { name: "t", type: "task_step", lane: "main" };
+    expect(() => validateProcessDefinition(lanes, [{ ...task, retry_max_attempts: 0 }])).toThrow("must be a positive integer");
+    expect(() => validateProcessDefinition(lanes, [{ ...task, retry_backoff: "later" }])).toThrow("Invalid delay format");
+    expect(() => validateProcessDefinition(lanes, [{ ...task, on_failure: "missing" }]))
+      .toThrow('Step "t" on_failure must name a step in lane "main": "missing"');
+    expect(() => validateProcessDefinition(lanes, [{ name: "g", type: "fetch_step", lane: "main", step_timeout: "1d" }]))
+      .toThrow("step_timeout only applies to task_step and subprocess_step");
+  });
+});
+
+// ============================================================================
+// Process Definition Versioning
+// ============================================================================
+
+describe("Process Definition Versioning", () => {
+  let kernel: Kernel;
+  let genus: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    genus = defineProcessGenus(kernel, "Publication", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "draft", type: "task_step", lane: "main", position: 0, task_title: "Draft" },
+        { name: "review", type: "task_step", lane: "main", position: 1, task_title: "Review" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  test("instances pin the version they started with", () => {
+    const v1 = getProcessDefVersion(kernel, genus);
+    const { id, state } = startProcess(kernel, genus);
+    expect(state.def_version).toBe(v1);
+
+    evolveProcessGenus(kernel, genus, {
+      steps: [{ name: "legal", type: "task_step", lane: "main", position: 2, task_title: "Legal" }],
+    });
+    expect(getProcessDefVersion(kernel, genus)).toBeGreaterThan(v1);
+
+    // The running instance finishes on v1 and never sees the new step
+    completeTask(kernel, state.steps.draft.task_id!);
+    completeTask(kernel, getProcessStatus(kernel, id).steps.review.task_id!);
+    const done = getProcessStatus(kernel, id);
+    expect(done.status).toBe("completed");
+    expect(done.steps.legal).toBeUndefined();
+    expect(done.def_version).toBe(v1);
+
+    // New instances get the new step
+    const fresh = startProcess(kernel, genus);
+    expect(fresh.state.def_version).toBe(getProcessDefVersion(kernel, genus));
+    expect(listProcesses(kernel).find((p) => p.id === fresh.id)!.step_summary.total).toBe(3);
+  });
+
+  test("getProcessDef reads a past version", () => {
+    const v1 = getProcessDefVersion(kernel, genus);
+    evolveProcessGenus(kernel, genus, {
+      steps: [{ name: "legal", type: "task_step", lane: "main", position: 2, task_title: "Legal" }],
+    });
+    expect(Object.keys(getProcessDef(kernel, genus, { version: v1 }).steps)).toEqual(["draft", "review"]);
+    expect(Object.keys(getProcessDef(kernel, genus).steps)).toEqual(["draft", "review", "legal"]);
+  });
+
+  test("migrating carries step states over by name and through step_map", () => {
+    const { id, state } = startProcess(kernel, genus);
+    completeTask(kernel, state.steps.draft.task_id!);
+    const reviewTask = getProcessStatus(kernel, id).steps.review.task_id!;
+
+    evolveProcessGenus(kernel, genus, {
+      steps: [
+        { name: "copy_edit", type: "task_step", lane: "main", position: 1, task_title: "Copy edit" },
+        { name: "editorial_review", type: "task_step", lane: "main", position: 2, task_title: "Review" },
+        { name: "legal", type: "task_step", lane: "main", position: 3, task_title: "Legal" },
+      ],
+    });
+    const migrated = migrateProcessInstance(kernel, id, { step_map: { review: "editorial_review" } });
+    expect(migrated.def_version).toBe(getProcessDefVersion(kernel, genus));
+    expect(migrated.steps.draft.status).toBe("completed");
+    expect(migrated.steps.editorial_review).toMatchObject({ status: "active", task_id: reviewTask });
+    // Steps before the lane's progress (evolve keeps the old "review" step too)
+    // are skipped rather than run out of order
+    expect(migrated.steps.review.status).toBe("skipped");
+    expect(migrated.steps.copy_edit.status).toBe("skipped");
+
+    // The renamed step still completes from its task, and the new step runs next
+    completeTask(kernel, reviewTask);
+    expect(getProcessStatus(kernel, id).steps.legal.status).toBe("active");
+  });
+
+  test("migration refuses maps that would lose or misplace in-flight steps", () => {
+    const { id } = startProcess(kernel, genus);
+    const v1 = getProcessDefVersion(kernel, genus);
+    expect(() => migrateProcessInstance(kernel, id)).toThrow(`already runs version ${v1}`);
+
+    evolveProcessGenus(kernel, genus, {
+      steps: [{ name: "publish", type: "action_step", lane: "main", position: 3, action_name: "noop" }],
+    });
+    expect(() => migrateProcessInstance(kernel, id, { step_map: { draft: null } }))
+      .toThrow('Step "draft" is active and has no counterpart');
+    expect(() => migrateProcessInstance(kernel, id, { step_map: { draft: "publish" } }))
+      .toThrow('Active task_step "draft" cannot become action_step "publish"');
+    expect(() => migrateProcessInstance(kernel, id, { step_map: { draft: "nope" } }))
+      .toThrow('Step map target "nope" (from "draft") is not in version');
+    expect(() => migrateProcessInstance(kernel, id, { to_version: v1 + 1000 })).toThrow("does not exist");
+  });
+
+  test("migration can move to an explicit older version", () => {
+    const v1 = getProcessDefVersion(kernel, genus);
+    evolveProcessGenus(kernel, genus, {
+      steps: [{ name: "legal", type: "task_step", lane: "main", position: 2, task_title: "Legal" }],
+    });
+    const { id } = startProcess(kernel, genus);
+    expect(migrateProcessInstance(kernel, id, { to_version: v1 }).def_version).toBe(v1);
+    expect(listProcesses(kernel).find((p) => p.id === id)!.step_summary.total).toBe(2);
+  });
+});
+
+// ============================================================================
+// Process Variables
+// ============================================================================
+
+describe("Process Variables", () => {
+  let kernel: Kernel;
+  let issueGenus: string;
+  let noteGenus: string;
+  let issue: string;
+
+  beforeEach(() => {
+    kernel = initKernel(":memory:");
+    issueGenus = defineEntityGenus(kernel, "Issue", {
+      attributes: [{ name: "title", type: "text" }, { name: "slot", type: "text" }, { name: "pages", type: "number" }],
+      states: [{ name: "draft", initial: true }],
+      transitions: [],
+    });
+    noteGenus = defineEntityGenus(kernel, "Note", {
+      attributes: [{ name: "body", type: "text" }, { name: "count", type: "number" }],
+      states: [{ name: "open", initial: true }],
+      transitions: [],
+    });
+    defineActionGenus(kernel, "write_note", {
+      resources: [],
+      parameters: [{ name: "body", type: "text", required: true }, { name: "count", type: "number", required: false }],
+      handler: [
+        { type: "create_res", genus_name: "Note" },
+        { type: "set_attribute", res: "$created.0.id", key: "body", value: "$param.body" },
+        { type: "set_attribute", res: "$created.0.id", key: "count", value: "$param.count" },
+      ],
+    });
+    defineActionGenus(kernel, "annotate", {
+      resources: [{ name: "note", genus_name: "Note" }],
+      parameters: [{ name: "body", type: "text", required: true }],
+      handler: [{ type: "set_attribute", res: "$res.note.id", key: "body", value: "$param.body" }],
+    });
+    issue = createEntity(kernel, issueGenus);
+    setAttribute(kernel, issue, "title", "Spring issue");
+    setAttribute(kernel, issue, "pages", 48);
+  });
+
+  afterEach(() => {
+    kernel.db.close();
+  });
+
+  test("fetch_into feeds action params and task titles", () => {
+    const genus = defineProcessGenus(kernel, "Prep", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "read_title", type: "fetch_step", lane: "main", position: 0, fetch_source: "title", fetch_into: "title" },
+        { name: "read_pages", type: "fetch_step", lane: "main", position: 1, fetch_source: "pages", fetch_into: "pages" },
+        { name: "note", type: "action_step", lane: "main", position: 2, action_name: "write_note",
+          action_params: { body: "Prepare $var.title", count: "$var.pages" }, result_into: "note" },
+        { name: "review", type: "task_step", lane: "main", position: 3, task_title: "Review $var.title ($var.pages pages)" },
+      ],
+    });
+    const { state } = startProcess(kernel, genus, { context_res_id: issue });
+    expect(state.variables.title).toBe("Spring issue");
+    expect(state.variables.pages).toBe(48);
+
+    const note = state.variables.note as { action_taken_id: string; created: string[] };
+    expect(note.action_taken_id).toBe(state.steps.note.action_taken_id!);
+    const noteState = materialize(kernel, note.created[0]);
+    expect(noteState.body).toBe("Prepare Spring issue");
+    // A whole-string token keeps its type
+    expect(noteState.count).toBe(48);
+
+    expect(materialize(kernel, state.steps.review.task_id!).title).toBe("Review Spring issue (48 pages)");
+  });
+
+  test("action output paths bind resources for later steps", () => {
+    const genus = defineProcessGenus(kernel, "Chain", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "note", type: "action_step", lane: "main", position: 0, action_name: "write_note",
+          action_params: { body: "draft", count: 1 }, result_into: "note" },
+        { name: "annotate", type: "action_step", lane: "main", position: 1, action_name: "annotate",
+          action_resource_bindings: { note: "$var.note.created.0" }, action_params: { body: "annotated" } },
+      ],
+    });
+    const { state } = startProcess(kernel, genus);
+    expect(state.status).toBe("completed");
+    const noteId = (state.variables.note as { created: string[] }).created[0];
+    expect(materialize(kernel, noteId).body).toBe("annotated");
+  });
+
+  test("task results land in result_into and drive branch_condition", () => {
+    const genus = defineProcessGenus(kernel, "Decide", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "choose", type: "task_step", lane: "main", position: 0, task_title: "Pick a slot", result_into: "slot" },
+        { name: "route", type: "branch_step", lane: "main", position: 1, branch_condition: "$var.slot",
+          branch_map: { cover: "cover_art" }, branch_default: "inside" },
+        { name: "inside", type: "task_step", lane: "main", position: 2, task_title: "Lay out inside pages" },
+        { name: "cover_art", type: "task_step", lane: "main", position: 3, task_title: "Commission cover for $var.slot" },
+      ],
+    });
+    const { id, state } = startProcess(kernel, genus, { context_res_id: issue });
+    completeTask(kernel, state.steps.choose.task_id!, "cover");
+
+    const after = getProcessStatus(kernel, id);
+    expect(after.variables.slot).toBe("cover");
+    expect(after.steps.route.result).toBe("cover");
+    expect(after.steps.inside.status).toBe("skipped");
+    expect(materialize(kernel, after.steps.cover_art.task_id!).title).toBe("Commission cover for cover");
+  });
+
+  test("unset variables resolve to nothing", () => {
+    const genus = defineProcessGenus(kernel, "Empty", {
+      lanes: [{ name: "main", position: 0 }],
+      steps: [
+        { name: "read", type: "fetch_step", lane: "main", position: 0, fetch_source: "slot", fetch_into: "slot" },
+        { name: "task", type: "task_step", lane: "main", position: 1, task_title: "Slot: [$var.slot]" },
+      ],
+    });
+    const { state } = startProcess(kernel, genus, { context_res_id: issue });
+    expect(state.variables.slot).toBeNull();
+    expect(materialize(kernel, state.steps.task.task_id!).title).toBe("Slot: []");
+  });
+
+  test("validateProcessDefinition checks variable references", () => {
+    const lanes = [{ name: "main" }];
+    expect(() => validateProcessDefinition(lanes, [
+      { name: "t", type: "task_step", lane: "main", task_title: "Review $var.title" },
+    ])).toThrow('Step "t" references $var.title, but no step writes it');
+    expect(() => validateProcessDefinition(lanes, [
+      { name: "f", type: "fetch_step", lane: "main", fetch_into: "title" },
+      { name: "t", type: "task_step", lane: "main", task_title: "Review $var.title" },
+    ])).not.toThrow();
+    expect(() => validateProcessDefinition(lanes, [
+      { name: "g", type: "gate_step", lane: "main", gate_conditions: ["g"], result_into: "x" },
+    ])).toThrow("result_into only applies to task_step and action_step");
+  });
+});
@@ -7,9 +7,11 @@
 //   Tessella Store   Append-only tessella store on SQLite. Create res (entities),
 //                    append tessellae (facts), replay them, and materialize state
 //                    at any point in time.
-//                    Exports: initKernel, getRes, createRes, appendTessella,
-//                             replay, materialize, defaultReducer
-//                    Types:   Kernel, Res, Tessella, ReplayOptions,
+//                    Exports: initKernel, createKernelView, resolveAsOf, getRes,
+//                             createRes, appendTessella, replay, materialize,
+//                             defaultReducer, registerSnapshotReducer,
+//                             invalidateSnapshots
+//                    Types:   Kernel, Actor, AsOf, Res, Tessella, ReplayOptions,
 //                             MaterializeOptions, AppendOptions, TessellaReducer
 //
 //   Genus            Schema-as-res: genus definitions stored as tessellae.
@@ -19,12 +21,13 @@
 //                             createEntity, setAttribute, transitionStatus,
 //                             findTransitionPath, listGenera, listEntities,
 //                             findGenusByName, deprecateGenus, restoreGenus,
+//                             getReferenceNames,
 //                             createTaxonomy, listTaxonomies, findTaxonomyByName,
 //                             describeTaxonomy, META_GENUS_ID, TAXONOMY_GENUS_ID,
 //                             DEFAULT_TAXONOMY_ID,
 //                             createWorkspace, listWorkspaces, findWorkspaceByName,
 //                             switchWorkspace, WORKSPACE_GENUS_ID
-//                    Types:   GenusAttributeType, GenusAttributeDef,
+//                    Types:   GenusAttributeType, GenusAttributeDef, AttributeConstraints,
 //                             GenusStateDef, GenusTransitionDef, GenusDef,
 //                             GenusSummary, EntitySummary, ListEntitiesOptions,
 //                             TaxonomySummary, TaxonomyDescription, WorkspaceSummary
@@ -43,11 +46,19 @@
 //                    Exports: actionReducer, getActionDef, defineActionGenus,
 //                             recordInput, executeAction, listActionGenera,
 //                             findActionByName, findActionsByTargetGenus,
-//                             getHistory, LOG_GENUS_ID
+//                             executeActionBulk, checkActionAvailability,
+//                             getActionParametersSchema, undoAction, getHistory,
+//                             withIdempotencyKey, purgeIdempotencyKeys,
+//                             LOG_GENUS_ID
 //                    Types:   ActionResourceDef, ActionParameterDef, SideEffect,
 //                             ActionDef, DefineActionGenusOptions, Input,
 //                             ActionTaken, ExecuteActionResult, HistoryEntry,
-//                             ActionGenusSummary
+//                             ActionGenusSummary, ForEachMembersSource, ActionPreview,
+//                             UndoConflict, UndoActionResult,
+//                             ActionRelationshipGuard, ActionAvailability,
+//                             ActionParameterType, ActionParameterSchema,
+//                             ExecuteActionBulkOptions, BulkActionItemResult,
+//                             ExecuteActionBulkResult
 //
 //   Relationships    First-class relationships linking entities with typed roles.
 //                    Relationships are independent res with their own genus,
@@ -67,6 +78,7 @@
 //                             listUnhealthy, createError, acknowledgeError,
 //                             listErrors, ERROR_GENUS_ID
 //                    Types:   HealthIssue, HealthReport, EvolveGenusOptions,
+//                             EvolveGenusResult,
 //                             ErrorSummary
 //
 //   Tasks            Built-in task system for structured work items. Tasks are
@@ -78,13 +90,26 @@
 //
 //   Processes         Multi-lane workflow engine. Process genera define workflow
 //                    templates with lanes, ordered steps, gates, and triggers.
-//                    Process instances auto-advance when tasks complete.
+//                    Process instances auto-advance when tasks complete, when
+//                    timer/wait steps are resumed by the clock, and when a
+//                    subprocess they started finishes. Steps share values
+//                    through per-instance variables ($var.X).
 //                    Exports: defineProcessGenus, startProcess, cancelProcess,
 //                             getProcessStatus, getProcessDef, listProcessGenera,
-//                             findProcessGenusByName, listProcesses
+//                             findProcessGenusByName, listProcesses,
+//                             tickProcessWaits, retryProcessStep, skipProcessStep,
+//                             getProcessDefVersion, migrateProcessInstance
 //                    Types:   ProcessStepType, ProcessStepDef, ProcessLaneDef,
 //                             ProcessTriggerDef, ProcessDef, ProcessInstanceState,
-//                             ProcessSummary, ProcessGenusSummary
+//                             ProcessSummary, ProcessGenusSummary, ProcessWakeResult,
+//                             MigrateProcessInstanceOptions
+//
+//   Outbox           Durable queue for http_request side effects. Rows are
+//                    written inside the action transaction and delivered
+//                    afterwards with retries, backoff and a dead-letter state.
+//                    Exports: deliverOutbox, listOutbox, requeueOutboxEntry
+//                    Types:   OutboxEntry, OutboxStatus, OutboxDeliveryResult,
+//                             DeliverOutboxOptions
 //
 //   Branches         Branch and merge for isolated changes. Create a branch,
 //                    make changes, then merge back. Branch-aware materialization
@@ -98,8 +123,22 @@
 //                    unpushed tessella extraction, and pulled data insertion
 //                    with source tagging for deduplication.
 //                    Exports: getSyncState, setSyncState, getUnpushedTessellae,
-//                             getUnpushedRes, insertPulledData
-//                    Types:   SyncPullData, SyncPushData, SyncPushResult
+//                             getUnpushedRes, getPullData, insertPulledData,
+//                             pullCursorKey
+//                    Types:   SyncPullData, SyncPullOptions, SyncPushData,
+//                             SyncPushResult
+//
+//   Search           FTS5 index over entity, feature and palace text, kept
+//                    current on every attribute write. Ranked, branch-aware.
+//                    Exports: rebuildSearchIndex (searchEntities and
+//                             palaceSearch query it)
+//
+//   Entity Query     Attribute query layer for listEntities: comparison
+//                    operators, AND/OR groups, sorting and counted paging
+//                    over a maintained attribute index.
+//                    Exports: queryEntities, rebuildAttributeIndex
+//                    Types:   AttributeFilter, AttributeQuery, AttributeSort,
+//                             EntityQueryResult
 //
 //   Temporal Anchors  Attach year ranges to entities for timeline queries.
 //                    Uses an index table for fast range queries.
@@ -161,6 +200,31 @@ import { ulid, sqliteOpen, sqliteMigrate } from "./libraries";
 //     to materialize() for domain-specific logic.
 //   - sqliteMigrate uses db.run() which only executes one statement in
 //     bun:sqlite, so the migration is split into individual statements.
+//   - createKernelView returns a kernel sharing the same Database with its own
+//     currentBranch/currentWorkspace, so concurrent callers (e.g. MCP sessions)
+//     never mutate each other's context.
+//   - Every tessella records who wrote it: actor (user, agent or client id)
+//     and session_id, taken from AppendOptions.actor or else kernel.actor.
+//     Callers set kernel.actor once (the server does it per request via
+//     createKernelView) and every write below inherits it. Merges and sync
+//     copy the original author rather than the one doing the copying.
+//     source stays the origin tag that sync filters on; it never holds the actor.
+//   - Time travel: createKernelView(kernel, { as_of }) pins a view at a
+//     tessella id (an ISO timestamp resolves to the last tessella recorded
+//     at or before it). recorded_at is the local insert time; created_at is
+//     not, because merges and sync copy the original one onto new ids.
+//     materialize and replay stop there, so everything built
+//     on them — genus definitions included — reads as it stood then. Pinned
+//     views are read-only. Index tables (attributes, relationship members,
+//     search) only hold current values, so their readers fall back to
+//     tessellae when a view is pinned.
+//   - Snapshots: materialize() keeps the folded state per (res, branch,
+//     reducer) in the snapshot table with the tessella id it is current to,
+//     and only folds newer tessellae on the next read. Ids are monotonic, so
+//     "newer" is always id > snapshot id, including on branches. Only
+//     registered reducers are snapshotted; unregistered ones and upTo reads
+//     replay in full. Bump _SNAPSHOT_VERSION when a built-in reducer changes
+//     shape; call invalidateSnapshots when a registered custom one does.
 //
 
 // --- Types ---
@@ -170,6 +234,13 @@ export interface Kernel {
   path: string;
   currentBranch: string;
   currentWorkspace: string | null;
+  actor?: Actor | null;
+  asOf?: number | null;
+}
+
+export interface Actor {
+  id: string;
+  session_id?: string | null;
 }
 
 export interface Res {
@@ -187,6 +258,8 @@ export interface Tessella {
   data: any;
   created_at: string;
   source: string | null;
+  actor?: string | null;
+  session_id?: string | null;
 }
 
 export interface ReplayOptions {
@@ -205,8 +278,11 @@ export interface MaterializeOptions {
 export interface AppendOptions {
   branch_id?: string;
   source?: string;
+  actor?: Actor | null;
 }
 
+export type AsOf = string | number;
+
 export type TessellaReducer = (state: Record<string, unknown>, tessella: Tessella) => Record<string, unknown>;
 
 // --- Migrations ---
@@ -329,6 +405,85 @@ const _MIGRATIONS: string[] = [
     PRIMARY KEY (workspace_id, slug, branch_id)
   )`,
   `CREATE INDEX idx_palace_npc_room ON palace_npc_index(workspace_id, room_slug, branch_id)`,
+  `CREATE INDEX idx_tessella_type ON tessella(type)`,
+  `ALTER TABLE tessella ADD COLUMN remote_id INTEGER`,
+  `CREATE UNIQUE INDEX idx_tessella_remote ON tessella(source, remote_id)`,
+  `CREATE TABLE search_doc (
+    id INTEGER PRIMARY KEY,
+    res_id TEXT NOT NULL,
+    branch_id TEXT NOT NULL,
+    feature_id TEXT NOT NULL DEFAULT '',
+    field TEXT NOT NULL,
+    body TEXT NOT NULL
+  )`,
+  `CREATE UNIQUE INDEX idx_search_doc_field ON search_doc(res_id, branch_id, feature_id, field)`,
+  `CREATE VIRTUAL TABLE search_fts USING fts5(
+    body, content='search_doc', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+  )`,
+  `CREATE TRIGGER search_doc_ai AFTER INSERT ON search_doc BEGIN
+    INSERT INTO search_fts(rowid, body) VALUES (new.id, new.body);
+  END`,
+  `CREATE TRIGGER search_doc_ad AFTER DELETE ON search_doc BEGIN
+    INSERT INTO search_fts(search_fts, rowid, body) VALUES ('delete', old.id, old.body);
+  END`,
+  `CREATE TRIGGER search_doc_au AFTER UPDATE ON search_doc BEGIN
+    INSERT INTO search_fts(search_fts, rowid, body) VALUES ('delete', old.id, old.body);
+    INSERT INTO search_fts(rowid, body) VALUES (new.id, new.body);
+  END`,
+  `CREATE TABLE snapshot (
+    res_id TEXT NOT NULL,
+    branch_id TEXT NOT NULL,
+    reducer TEXT NOT NULL,
+    tessella_id INTEGER NOT NULL,
+    state TEXT NOT NULL,
+    PRIMARY KEY (res_id, branch_id, reducer)
+  )`,
+  `CREATE TABLE attr_index (
+    res_id TEXT NOT NULL,
+    branch_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    vtype TEXT NOT NULL,
+    value,
+    folded TEXT,
+    tessella_id INTEGER NOT NULL,
+    PRIMARY KEY (res_id, branch_id, key)
+  )`,
+  `CREATE INDEX idx_attr_index_value ON attr_index(branch_id, key, value)`,
+  `ALTER TABLE tessella ADD COLUMN actor TEXT`,
+  `ALTER TABLE tessella ADD COLUMN session_id TEXT`,
+  `ALTER TABLE action_taken ADD COLUMN undoes TEXT`,
+  `CREATE TABLE outbox (
+    id TEXT PRIMARY KEY,
+    action_taken_id TEXT,
+    res_id TEXT,
+    branch_id TEXT NOT NULL,
+    method TEXT NOT NULL,
+    url TEXT NOT NULL,
+    headers TEXT NOT NULL DEFAULT '{}',
+    body TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    next_attempt_at TEXT NOT NULL,
+    last_status INTEGER,
+    last_error TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    delivered_at TEXT
+  )`,
+  `CREATE INDEX idx_outbox_due ON outbox(status, next_attempt_at)`,
+  `ALTER TABLE input ADD COLUMN idempotency_key TEXT`,
+  `ALTER TABLE input ADD COLUMN result TEXT`,
+  `ALTER TABLE input ADD COLUMN expires_at TEXT`,
+  `CREATE UNIQUE INDEX idx_input_idempotency_key ON input(idempotency_key) WHERE idempotency_key IS NOT NULL`,
+  `ALTER TABLE tessella ADD COLUMN recorded_at TEXT`,
+  `UPDATE tessella SET recorded_at = created_at WHERE recorded_at IS NULL`,
+  `CREATE INDEX idx_tessella_recorded_at ON tessella(recorded_at)`,
+  `ALTER TABLE outbox ADD COLUMN workspace_id TEXT`,
+  `UPDATE outbox SET workspace_id = (SELECT workspace_id FROM res WHERE res.id = outbox.res_id) WHERE workspace_id IS NULL`,
+  `ALTER TABLE input ADD COLUMN idempotency_workspace TEXT NOT NULL DEFAULT ''`,
+  `ALTER TABLE input ADD COLUMN idempotency_actor TEXT NOT NULL DEFAULT ''`,
+  `DROP INDEX idx_input_idempotency_key`,
+  `CREATE UNIQUE INDEX idx_input_idempotency_key ON input(idempotency_key, idempotency_workspace, idempotency_actor) WHERE idempotency_key IS NOT NULL`,
 ];
 
 // --- Internal helpers ---
@@ -342,6 +497,8 @@ function _rowToTessella(row: any): Tessella {
     data: JSON.parse(row.data),
     created_at: row.created_at,
     source: row.source,
+    actor: row.actor ?? null,
+    session_id: row.session_id ?? null,
   };
 }
 
@@ -367,9 +524,46 @@ export function initKernel(path: string): Kernel {
   _bootstrapPalaceScrollGenus(kernel);
   _bootstrapPalaceNpcGenus(kernel);
   _migratePalaceToTessellae(kernel);
+  _backfillSearchIndex(kernel);
+  _backfillAttributeIndex(kernel);
+  _checkSnapshotVersion(kernel);
   return kernel;
 }
 
+export function createKernelView(
+  kernel: Kernel,
+  opts: { branch?: string; workspace_id?: string | null; actor?: Actor | null; as_of?: AsOf | null } = {},
+): Kernel {
+  return {
+    db: kernel.db,
+    path: kernel.path,
+    currentBranch: opts.branch ?? kernel.currentBranch,
+    currentWorkspace: opts.workspace_id !== undefined ? opts.workspace_id : kernel.currentWorkspace,
+    actor: opts.actor !== undefined ? opts.actor : kernel.actor ?? null,
+    asOf: opts.as_of !== undefined
+      ? (opts.as_of === null ? null : resolveAsOf(kernel, opts.as_of))
+      : kernel.asOf ?? null,
+  };
+}
+
+export function resolveAsOf(kernel: Kernel, as_of: AsOf): number {
+  if (typeof as_of === "number") {
+    if (!Number.isInteger(as_of) || as_of < 0) throw new Error(`Invalid as_of ${as_of}: tessella ids are non-negative integers`);
+    return as_of;
+  }
+  const ms = Date.parse(as_of);
+  if (Number.isNaN(ms)) throw new Error(`Invalid as_of "${as_of}": expected an ISO timestamp or a tessella id`);
+  const row = kernel.db.query(
+    "SELECT COALESCE(MAX(id), 0) AS id FROM tessella WHERE recorded_at <= ?",
+  ).get(new Date(ms).toISOString()) as { id: number };
+  return row.id;
+}
+
+function _existedAsOf(kernel: Kernel, res_id: string): boolean {
+  if (kernel.asOf == null) return true;
+  return !!kernel.db.query("SELECT 1 FROM tessella WHERE res_id = ? AND id <= ? LIMIT 1").get(res_id, kernel.asOf);
+}
+
 export function getRes(kernel: Kernel, id: string): Res {
   const row = kernel.db.query("SELECT * FROM res WHERE id = ?").get(id) as any;
   if (!row) throw new Error(`Res not found: ${id}`);
@@ -406,11 +600,17 @@ export function appendTessella(
   opts: AppendOptions = {},
 ): Tessella {
   const branch_id = opts.branch_id ?? "main";
+  if (kernel.asOf != null) throw new Error(`Kernel view is pinned as of tessella ${kernel.asOf} and is read-only`);
   const source = opts.source ?? null;
+  const actor = opts.actor !== undefined ? opts.actor : kernel.actor ?? null;
   const row = kernel.db.query(
-    "INSERT INTO tessella (res_id, branch_id, type, data, source) VALUES (?, ?, ?, ?, ?) RETURNING *",
-  ).get(res_id, branch_id, type, JSON.stringify(data), source) as any;
-  return _rowToTessella(row);
+    "INSERT INTO tessella (res_id, branch_id, type, data, source, actor, session_id, recorded_at) VALUES (?, ?, ?, ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) RETURNING *",
+  ).get(res_id, branch_id, type, JSON.stringify(data), source, actor?.id ?? null, actor?.session_id ?? null) as any;
+  const tessella = _rowToTessella(row);
+  if (_SEARCH_TESSELLA_TYPES.includes(type)) _indexTessellaForSearch(kernel, tessella);
+  if (_ATTR_INDEX_TESSELLA_TYPES.includes(type)) _indexTessellaAttributes(kernel, tessella);
+  _advanceSnapshots(kernel, res_id, branch_id);
+  return tessella;
 }
 
 export function replay(kernel: Kernel, res_id: string, opts: ReplayOptions = {}): Tessella[] {
@@ -422,6 +622,11 @@ export function replay(kernel: Kernel, res_id: string, opts: ReplayOptions = {})
   let sql = "SELECT * FROM tessella WHERE res_id = ? AND branch_id = ? AND id > ?";
   const params: any[] = [res_id, branch_id, after];
 
+  if (kernel.asOf != null) {
+    sql += " AND id <= ?";
+    params.push(kernel.asOf);
+  }
+
   if (types !== undefined && types.length > 0) {
     sql += ` AND type IN (${types.map(() => "?").join(", ")})`;
     params.push(...types);
@@ -444,31 +649,44 @@ export function materialize(
   opts: MaterializeOptions = {},
 ): Record<string, unknown> {
   const branch_id = opts.branch_id ?? "main";
-  const upTo = opts.upTo;
+  const upTo = opts.upTo ?? kernel.asOf ?? undefined;
   const reducer = opts.reducer ?? defaultReducer;
 
-  let tessellae: Tessella[];
-  if (branch_id === "main") {
-    let sql = "SELECT * FROM tessella WHERE res_id = ? AND branch_id = 'main'";
-    const params: any[] = [res_id];
-    if (upTo !== undefined) {
-      sql += " AND id <= ?";
-      params.push(upTo);
-    }
-    sql += " ORDER BY id ASC";
-    tessellae = (kernel.db.query(sql).all(...params) as any[]).map(_rowToTessella);
-  } else {
-    tessellae = _collectBranchTessellae(kernel, res_id, branch_id, upTo);
-  }
+  const snapshotKey = upTo === undefined ? _snapshotKeys.get(reducer) : undefined;
+  if (snapshotKey) return _materializeFromSnapshot(kernel, res_id, branch_id, reducer, snapshotKey);
 
+  const tessellae = _collectTessellae(kernel, res_id, branch_id, { upTo });
   return tessellae.reduce((state, t) => reducer(state, t), {} as Record<string, unknown>);
 }
 
+function _collectTessellae(
+  kernel: Kernel,
+  res_id: string,
+  branch_id: string,
+  opts: { upTo?: number; after?: number } = {},
+): Tessella[] {
+  if (branch_id !== "main") return _collectBranchTessellae(kernel, res_id, branch_id, opts.upTo, opts.after);
+
+  let sql = "SELECT * FROM tessella WHERE res_id = ? AND branch_id = 'main'";
+  const params: any[] = [res_id];
+  if (opts.after !== undefined) {
+    sql += " AND id > ?";
+    params.push(opts.after);
+  }
+  if (opts.upTo !== undefined) {
+    sql += " AND id <= ?";
+    params.push(opts.upTo);
+  }
+  sql += " ORDER BY id ASC";
+  return (kernel.db.query(sql).all(...params) as any[]).map(_rowToTessella);
+}
+
 function _collectBranchTessellae(
   kernel: Kernel,
   res_id: string,
   branch_name: string,
   upTo?: number,
+  after?: number,
 ): Tessella[] {
   // Walk the parent chain to build OR clauses
   const chain: { branch_id: string; branch_point: number | null }[] = [];
@@ -500,6 +718,10 @@ function _collectBranchTessellae(
   }
 
   let sql = `SELECT * FROM tessella WHERE res_id = ? AND (${clauses.join(" OR ")})`;
+  if (after !== undefined) {
+    sql += " AND id > ?";
+    params.push(after);
+  }
   if (upTo !== undefined) {
     sql += " AND id <= ?";
     params.push(upTo);
@@ -509,6 +731,112 @@ function _collectBranchTessellae(
   return (kernel.db.query(sql).all(...params) as any[]).map(_rowToTessella);
 }
 
+// --- Snapshots ---
+
+const _SNAPSHOT_VERSION = "1";
+const _snapshotKeys = new Map<TessellaReducer, string>();
+const _snapshotReducers = new Map<string, TessellaReducer>();
+
+export function registerSnapshotReducer(key: string, reducer: TessellaReducer): void {
+  const previous = _snapshotReducers.get(key);
+  if (previous && previous !== reducer) _snapshotKeys.delete(previous);
+  _snapshotKeys.set(reducer, key);
+  _snapshotReducers.set(key, reducer);
+}
+
+registerSnapshotReducer("default", defaultReducer);
+registerSnapshotReducer("genus", genusReducer);
+registerSnapshotReducer("action", actionReducer);
+registerSnapshotReducer("process", processReducer);
+registerSnapshotReducer("process_instance", processInstanceReducer);
+registerSnapshotReducer("serialization", serializationReducer);
+
+export function invalidateSnapshots(
+  kernel: Kernel,
+  opts: { reducer?: string; res_id?: string; rebuild?: boolean } = {},
+): number {
+  let where = "1 = 1";
+  const params: any[] = [];
+  if (opts.reducer) {
+    where += " AND reducer = ?";
+    params.push(opts.reducer);
+  }
+  if (opts.res_id) {
+    where += " AND res_id = ?";
+    params.push(opts.res_id);
+  }
+  const dropped = kernel.db.query(
+    `SELECT res_id, branch_id, reducer FROM snapshot WHERE ${where}`,
+  ).all(...params) as { res_id: string; branch_id: string; reducer: string }[];
+  kernel.db.run(`DELETE FROM snapshot WHERE ${where}`, params);
+
+  // Snapshots rebuild lazily on the next read; rebuild=true does it now
+  if (opts.rebuild) {
+    for (const row of dropped) {
+      const reducer = _snapshotReducers.get(row.reducer);
+      if (reducer) _materializeFromSnapshot(kernel, row.res_id, row.branch_id, reducer, row.reducer);
+    }
+  }
+  return dropped.length;
+}
+
+function _materializeFromSnapshot(
+  kernel: Kernel,
+  res_id: string,
+  branch_id: string,
+  reducer: TessellaReducer,
+  key: string,
+): Record<string, unknown> {
+  const row = kernel.db.query(
+    "SELECT tessella_id, state FROM snapshot WHERE res_id = ? AND branch_id = ? AND reducer = ?",
+  ).get(res_id, branch_id, key) as { tessella_id: number; state: string } | null;
+  const start = row ? JSON.parse(row.state) as Record<string, unknown> : {};
+  const tessellae = _collectTessellae(kernel, res_id, branch_id, { after: row?.tessella_id ?? 0 });
+  if (tessellae.length === 0) return start;
+
+  const state = tessellae.reduce((acc, t) => reducer(acc, t), start);
+  kernel.db.run(
+    `INSERT INTO snapshot (res_id, branch_id, reducer, tessella_id, state) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(res_id, branch_id, reducer) DO UPDATE SET tessella_id = excluded.tessella_id, state = excluded.state`,
+    [res_id, branch_id, key, tessellae[tessellae.length - 1].id, JSON.stringify(state)],
+  );
+  return state;
+}
+
+function _advanceSnapshots(kernel: Kernel, res_id: string, branch_id: string): void {
+  const keys = kernel.db.query(
+    "SELECT reducer FROM snapshot WHERE res_id = ? AND branch_id = ?",
+  ).all(res_id, branch_id) as { reducer: string }[];
+  for (const { reducer: key } of keys) {
+    const reducer = _snapshotReducers.get(key);
+    if (reducer) _materializeFromSnapshot(kernel, res_id, branch_id, reducer, key);
+  }
+}
+
+function _materializeMany(kernel: Kernel, res_ids: string[], branch_id: string): Map<string, Record<string, unknown>> {
+  const states = new Map<string, Record<string, unknown>>();
+  if (branch_id === "main" && kernel.asOf == null && res_ids.length > 0) {
+    // One pass over snapshots that are already current; everything else folds individually
+    const rows = kernel.db.query(
+      `SELECT s.res_id, s.state FROM snapshot s
+       WHERE s.res_id IN (SELECT value FROM json_each(?)) AND s.branch_id = 'main' AND s.reducer = 'default'
+         AND NOT EXISTS (SELECT 1 FROM tessella t WHERE t.res_id = s.res_id AND t.branch_id = 'main' AND t.id > s.tessella_id)`,
+    ).all(JSON.stringify(res_ids)) as { res_id: string; state: string }[];
+    for (const row of rows) states.set(row.res_id, JSON.parse(row.state));
+  }
+  for (const id of res_ids) {
+    if (!states.has(id)) states.set(id, materialize(kernel, id, { branch_id }));
+  }
+  return states;
+}
+
+function _checkSnapshotVersion(kernel: Kernel): void {
+  const row = kernel.db.query("SELECT value FROM sync_state WHERE key = 'snapshot_version'").get() as { value: string } | null;
+  if (row?.value === _SNAPSHOT_VERSION) return;
+  kernel.db.run("DELETE FROM snapshot");
+  kernel.db.run("INSERT OR REPLACE INTO sync_state (key, value) VALUES ('snapshot_version', ?)", [_SNAPSHOT_VERSION]);
+}
+
 export function defaultReducer(state: Record<string, unknown>, tessella: Tessella): Record<string, unknown> {
   switch (tessella.type) {
     case "created":
@@ -604,17 +932,34 @@ export function defaultReducer(state: Record<string, unknown>, tessella: Tessell
 //     TODO: add in-memory cache for Demo 3 (server hot path).
 //   - GenusDef uses Record<string, ...> for attributes/states (O(1) lookup).
 //     Transitions stay as array (queried by from/to pair).
+//   - enum/date/datetime/reference values are plain strings in the tessella
+//     stream, so the attribute index and sorting need no special cases.
+//     Datetimes are normalized to UTC on write so string order is time order.
+//   - A reference stores the target's res id. target_genera is checked on
+//     write; evaluateHealth reports targets that later go missing.
 //
 
 // --- Types ---
 
-export type GenusAttributeType = "text" | "number" | "boolean" | "filetree";
+export type GenusAttributeType = "text" | "number" | "boolean" | "filetree" | "enum" | "date" | "datetime" | "reference";
 
 export interface GenusAttributeDef {
   name: string;
   type: GenusAttributeType;
   required: boolean;
   default_value?: unknown;
+  values?: string[];         // enum: allowed values
+  target_genera?: string[];  // reference: genus names a target may belong to (empty = any)
+  constraints?: AttributeConstraints;
+}
+
+export interface AttributeConstraints {
+  min?: number;         // number
+  max?: number;         // number
+  min_length?: number;  // text
+  max_length?: number;  // text
+  pattern?: string;     // text: JS regex source, unanchored unless it says otherwise
+  unique?: boolean;     // no two entities of the genus in one workspace share a value
 }
 
 export interface GenusStateDef {
@@ -1111,16 +1456,125 @@ function _bootstrapPalaceNpcGenus(kernel: Kernel): void {
   appendTessella(kernel, PALACE_NPC_GENUS_ID, "genus_transition_defined", { from: "archived", to: "active" });
 }
 
+function _isIsoDate(value: string): boolean {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!m) return false;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.getUTCFullYear() === Number(m[1]) && d.getUTCMonth() === Number(m[2]) - 1 && d.getUTCDate() === Number(m[3]);
+}
+
+function _isIsoDatetime(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value)
+    && _isIsoDate(value.slice(0, 10))
+    && !Number.isNaN(Date.parse(value));
+}
+
 function _validateAttributeType(value: unknown, expected: GenusAttributeType): boolean {
   switch (expected) {
     case "text": return typeof value === "string";
     case "number": return typeof value === "number";
     case "boolean": return typeof value === "boolean";
     case "filetree": return typeof value === "object" && value !== null;
+    case "enum": return typeof value === "string";
+    case "date": return typeof value === "string" && _isIsoDate(value);
+    case "datetime": return typeof value === "string" && _isIsoDatetime(value);
+    case "reference": return typeof value === "string" && value.length > 0;
     default: return true; // forward compat for unknown types
   }
 }
 
+function _describeAttributeType(type: string): string {
+  if (type === "date") return "date (YYYY-MM-DD)";
+  if (type === "datetime") return "datetime (ISO 8601 with timezone)";
+  return type;
+}
+
+// Returns why a reference target is unacceptable, or null when it resolves
+function _referenceProblem(kernel: Kernel, attrDef: GenusAttributeDef, target_id: string): string | null {
+  const row = kernel.db.query("SELECT genus_id FROM res WHERE id = ?").get(target_id) as { genus_id: string } | null;
+  if (!row || !_existedAsOf(kernel, target_id)) return `references missing entity ${target_id}`;
+  const targets = attrDef.target_genera ?? [];
+  if (targets.length === 0) return null;
+  const genusName = (getGenusDef(kernel, row.genus_id).meta.name as string) ?? row.genus_id;
+  if (targets.some((g) => g.toLowerCase() === genusName.toLowerCase())) return null;
+  return `references a ${genusName} entity, expected ${targets.join(" or ")}`;
+}
+
+// Validates a value against its attribute definition and returns the value to
+// store. Datetimes are normalized to UTC so their string order is chronological.
+function _checkAttributeValue(kernel: Kernel, key: string, attrDef: GenusAttributeDef, value: unknown, scope?: AttributeScope): unknown {
+  if (!_validateAttributeType(value, attrDef.type)) {
+    const got = typeof value === "string" && (attrDef.type === "date" || attrDef.type === "datetime") ? JSON.stringify(value) : typeof value;
+    throw new Error(`Type mismatch for attribute "${key}": expected ${_describeAttributeType(attrDef.type)}, got ${got}`);
+  }
+  if (attrDef.type === "enum" && attrDef.values && !attrDef.values.includes(value as string)) {
+    throw new Error(`Invalid value "${value}" for attribute "${key}". Allowed values: ${attrDef.values.join(", ")}`);
+  }
+  if (attrDef.type === "reference") {
+    const problem = _referenceProblem(kernel, attrDef, value as string);
+    if (problem) throw new Error(`Attribute "${key}" ${problem}`);
+  }
+  const normalized = attrDef.type === "datetime" ? new Date(value as string).toISOString() : value;
+  const problem = _constraintProblem(kernel, attrDef, normalized, scope);
+  if (problem) throw new Error(`Attribute "${key}" ${problem}`);
+  return normalized;
+}
+
+function _attributeDefinitionData(
+  attr: { name: string; type: GenusAttributeType; required?: boolean; default_value?: unknown; values?: string[]; target_genera?: string[]; constraints?: AttributeConstraints },
+): GenusAttributeDef {
+  return {
+    name: attr.name,
+    type: attr.type,
+    required: attr.required ?? false,
+    ...(attr.default_value !== undefined ? { default_value: attr.default_value } : {}),
+    ...(attr.values !== undefined ? { values: attr.values } : {}),
+    ...(attr.target_genera !== undefined ? { target_genera: attr.target_genera } : {}),
+    ...(attr.constraints !== undefined ? { constraints: attr.constraints } : {}),
+  };
+}
+
+// Where a value lives, for constraints that compare it against other entities
+interface AttributeScope {
+  res_id: string | null;
+  genus_id: string;
+  workspace_id: string | null;
+}
+
+function _attributeScope(kernel: Kernel, res_id: string): AttributeScope {
+  const row = kernel.db.query("SELECT genus_id, workspace_id FROM res WHERE id = ?").get(res_id) as { genus_id: string; workspace_id: string | null };
+  return { res_id, genus_id: row.genus_id, workspace_id: row.workspace_id };
+}
+
+// Returns why a value breaks the attribute's constraints, or null when it complies.
+// Uniqueness is only checked when a scope is given (features have none).
+function _constraintProblem(kernel: Kernel, attrDef: GenusAttributeDef, value: unknown, scope?: AttributeScope): string | null {
+  const c = attrDef.constraints;
+  if (!c || value === undefined || value === null) return null;
+  if (typeof value === "number") {
+    if (c.min !== undefined && value < c.min) return `is ${value}, below the minimum of ${c.min}`;
+    if (c.max !== undefined && value > c.max) return `is ${value}, above the maximum of ${c.max}`;
+  }
+  if (typeof value === "string") {
+    if (c.min_length !== undefined && value.length < c.min_length) return `is ${value.length} characters, shorter than the minimum of ${c.min_length}`;
+    if (c.max_length !== undefined && value.length > c.max_length) return `is ${value.length} characters, longer than the maximum of ${c.max_length}`;
+    if (c.pattern !== undefined && !new RegExp(c.pattern).test(value)) return `does not match pattern /${c.pattern}/`;
+  }
+  if (c.unique && scope) {
+    const { entities } = queryEntities(kernel, {
+      genus_id: scope.genus_id,
+      all_workspaces: true,
+      where: { key: attrDef.name, op: "eq", value },
+    });
+    for (const e of entities) {
+      if (e.id === scope.res_id) continue;
+      if (_attributeScope(kernel, e.id).workspace_id !== scope.workspace_id) continue;
+      return `must be unique, but ${e.id} already has ${JSON.stringify(value)}`;
+    }
+  }
+  return null;
+}
+
 // --- Core functions ---
 
 export function genusReducer(state: Record<string, unknown>, tessella: Tessella): Record<string, unknown> {
@@ -1196,10 +1650,24 @@ export function getEntityDisplayName(kernel: Kernel, entityId: string): string {
   return entityId;
 }
 
+// Display names for an entity's reference attributes, keyed by attribute name.
+// Dangling references fall back to the raw target id.
+export function getReferenceNames(kernel: Kernel, genusDef: GenusDef, state: Record<string, unknown>): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const [key, attrDef] of Object.entries(genusDef.attributes)) {
+    const target = state[key];
+    if (attrDef.type !== "reference" || typeof target !== "string" || target === "") continue;
+    const exists = kernel.db.query("SELECT 1 FROM res WHERE id = ?").get(target);
+    names[key] = exists ? getEntityDisplayName(kernel, target) : target;
+  }
+  return names;
+}
+
 export function validateAttributes(
-  attributes: { name: string; type: string; required?: boolean; default_value?: unknown }[],
+  attributes: { name: string; type: string; required?: boolean; default_value?: unknown; values?: unknown; target_genera?: unknown; constraints?: unknown }[],
 ): void {
-  const VALID_TYPES: string[] = ["text", "number", "boolean", "filetree"];
+  const VALID_TYPES: string[] = ["text", "number", "boolean", "filetree", "enum", "date", "datetime", "reference"];
+  const isStringList = (v: unknown) => Array.isArray(v) && v.every((x) => typeof x === "string");
   const seen = new Set<string>();
   for (const attr of attributes) {
     const lower = attr.name.toLowerCase();
@@ -1210,6 +1678,70 @@ export function validateAttributes(
     if (!VALID_TYPES.includes(attr.type)) {
       throw new Error(`Invalid attribute type "${attr.type}" for "${attr.name}". Valid types: ${VALID_TYPES.join(", ")}`);
     }
+    if (attr.type === "enum") {
+      if (!isStringList(attr.values) || (attr.values as string[]).length === 0) {
+        throw new Error(`Enum attribute "${attr.name}" needs a non-empty "values" list of strings`);
+      }
+      if (attr.default_value !== undefined && !(attr.values as string[]).includes(attr.default_value as string)) {
+        throw new Error(`Default value "${attr.default_value}" for "${attr.name}" is not one of: ${(attr.values as string[]).join(", ")}`);
+      }
+    } else if (attr.values !== undefined) {
+      throw new Error(`Attribute "${attr.name}" has "values" but only enum attributes take them`);
+    }
+    if (attr.type === "reference") {
+      if (attr.target_genera !== undefined && !isStringList(attr.target_genera)) {
+        throw new Error(`Reference attribute "${attr.name}" needs "target_genera" to be a list of genus names`);
+      }
+    } else if (attr.target_genera !== undefined) {
+      throw new Error(`Attribute "${attr.name}" has "target_genera" but only reference attributes take them`);
+    }
+    if ((attr.type === "date" || attr.type === "datetime") && attr.default_value !== undefined
+      && !_validateAttributeType(attr.default_value, attr.type)) {
+      throw new Error(`Default value for "${attr.name}" is not a valid ${_describeAttributeType(attr.type)}`);
+    }
+    if (attr.constraints !== undefined) _validateConstraints(attr.name, attr.type, attr.constraints);
+  }
+}
+
+function _validateConstraints(name: string, type: string, constraints: unknown): void {
+  if (typeof constraints !== "object" || constraints === null || Array.isArray(constraints)) {
+    throw new Error(`Constraints for "${name}" must be an object`);
+  }
+  const ALLOWED: Record<string, string[]> = {
+    number: ["min", "max", "unique"],
+    text: ["min_length", "max_length", "pattern", "unique"],
+    enum: ["unique"],
+    date: ["unique"],
+    datetime: ["unique"],
+    reference: ["unique"],
+  };
+  const allowed = ALLOWED[type] ?? [];
+  const c = constraints as Record<string, unknown>;
+  for (const [key, value] of Object.entries(c)) {
+    if (!allowed.includes(key)) {
+      throw new Error(`Constraint "${key}" does not apply to ${type} attribute "${name}". Allowed: ${allowed.join(", ") || "(none)"}`);
+    }
+    if ((key === "min" || key === "max") && typeof value !== "number") {
+      throw new Error(`Constraint "${key}" for "${name}" must be a number`);
+    }
+    if ((key === "min_length" || key === "max_length") && !(Number.isInteger(value) && (value as number) >= 0)) {
+      throw new Error(`Constraint "${key}" for "${name}" must be a non-negative integer`);
+    }
+    if (key === "unique" && typeof value !== "boolean") {
+      throw new Error(`Constraint "unique" for "${name}" must be a boolean`);
+    }
+    if (key === "pattern") {
+      if (typeof value !== "string") throw new Error(`Constraint "pattern" for "${name}" must be a string`);
+      try { new RegExp(value); } catch (e) {
+        throw new Error(`Constraint "pattern" for "${name}" is not a valid regex: ${(e as Error).message}`);
+      }
+    }
+  }
+  if (c.min !== undefined && c.max !== undefined && (c.min as number) > (c.max as number)) {
+    throw new Error(`Constraint "min" for "${name}" is greater than "max"`);
+  }
+  if (c.min_length !== undefined && c.max_length !== undefined && (c.min_length as number) > (c.max_length as number)) {
+    throw new Error(`Constraint "min_length" for "${name}" is greater than "max_length"`);
   }
 }
 
@@ -1248,9 +1780,10 @@ function _validateActionTokens(
   resourceNames: Set<string>,
   parameterNames: Set<string>,
   path: string,
+  eachNames: Set<string> = new Set(),
 ): void {
   if (typeof value === "string") {
-    for (const match of value.matchAll(/\$res\.(\w+)\.id/g)) {
+    for (const match of value.matchAll(/\$res\.(\w+)\.\w+/g)) {
       if (!resourceNames.has(match[1])) {
         throw new Error(`Handler references undefined resource "${match[1]}" at ${path}. Available resources: ${[...resourceNames].join(", ") || "(none)"}`);
       }
@@ -1260,30 +1793,47 @@ function _validateActionTokens(
         throw new Error(`Handler references undefined parameter "${match[1]}" at ${path}. Available parameters: ${[...parameterNames].join(", ") || "(none)"}`);
       }
     }
+    for (const match of value.matchAll(/\$each\.(\w+)/g)) {
+      if (!eachNames.has(match[1])) {
+        throw new Error(`Handler references "$each.${match[1]}" outside a for_each binding it at ${path}. In scope: ${[...eachNames].join(", ") || "(none)"}`);
+      }
+    }
     return;
   }
   if (Array.isArray(value)) {
     for (let i = 0; i < value.length; i++) {
-      _validateActionTokens(value[i], resourceNames, parameterNames, `${path}[${i}]`);
+      _validateActionTokens(value[i], resourceNames, parameterNames, `${path}[${i}]`, eachNames);
     }
     return;
   }
   if (value !== null && typeof value === "object") {
     for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
-      _validateActionTokens(v, resourceNames, parameterNames, `${path}.${k}`);
+      _validateActionTokens(v, resourceNames, parameterNames, `${path}.${k}`, eachNames);
     }
   }
 }
 
-export function validateActionHandler(
-  handler: SideEffect[],
-  resourceNames: string[],
-  parameterNames: string[],
-): void {
-  const resSet = new Set(resourceNames);
-  const paramSet = new Set(parameterNames);
+function _validateEffectCondition(condition: unknown, path: string): void {
+  try {
+    _checkAttributeQuery(condition as AttributeQuery);
+  } catch (e) {
+    throw new Error(`Invalid condition at ${path}: ${(e as Error).message}`);
+  }
+  const leaves = (q: any): any[] => ("and" in q ? q.and.flatMap(leaves) : "or" in q ? q.or.flatMap(leaves) : [q]);
+  for (const leaf of leaves(condition)) {
+    if (!/^\$(param\.\w+|res\.\w+\.\w+|each\.\w+(\.\w+)?|created\.\d+\.\w+|now)$/.test(leaf.key)) {
+      throw new Error(`Condition key at ${path} must be a single token ($param.X, $res.X.attr, $each.X or $created.N.attr), got "${leaf.key}"`);
+    }
+  }
+}
 
-  const VALID_TYPES = new Set(["set_attribute", "transition_status", "create_res", "create_log", "create_error", "create_task"]);
+function _validateSideEffects(
+  effects: SideEffect[],
+  resSet: Set<string>,
+  paramSet: Set<string>,
+  eachSet: Set<string>,
+  path: string,
+): void {
   const REQUIRED_FIELDS: Record<string, string[]> = {
     set_attribute: ["res", "key", "value"],
     transition_status: ["res", "target"],
@@ -1291,26 +1841,231 @@ export function validateActionHandler(
     create_log: ["message"],
     create_error: ["message"],
     create_task: ["title"],
+    create_relationship: ["genus_name", "members"],
+    add_member: ["relationship", "role", "entity"],
+    remove_member: ["relationship", "role", "entity"],
+    create_feature: ["res", "genus_name"],
+    set_feature_attribute: ["res", "feature", "key", "value"],
+    transition_feature_status: ["res", "feature", "target"],
+    http_request: ["url"],
+    if: ["condition", "then"],
+    for_each: ["over", "do"],
   };
+  const VALID_TYPES = new Set(Object.keys(REQUIRED_FIELDS));
 
-  for (let i = 0; i < handler.length; i++) {
-    const effect = handler[i];
+  if (!Array.isArray(effects)) throw new Error(`${path} must be an array of side effects`);
+  for (let i = 0; i < effects.length; i++) {
+    const effect = effects[i];
+    const at = `${path}[${i}]`;
     if (!VALID_TYPES.has(effect.type)) {
-      throw new Error(`Unknown side effect type: "${effect.type}" at index ${i}. Valid types: ${[...VALID_TYPES].join(", ")}`);
+      throw new Error(`Unknown side effect type: "${effect.type}" at ${at}. Valid types: ${[...VALID_TYPES].join(", ")}`);
     }
     const required = REQUIRED_FIELDS[effect.type];
     for (const field of required) {
       if (effect[field] === undefined) {
-        throw new Error(`Side effect [${i}] (${effect.type}) missing required field: "${field}"`);
+        throw new Error(`Side effect ${at} (${effect.type}) missing required field: "${field}"`);
+      }
+    }
+    if (effect.type === "if") {
+      _validateEffectCondition(effect.condition, `${at}.condition`);
+      _validateActionTokens(effect.condition, resSet, paramSet, `${at}.condition`, eachSet);
+      _validateSideEffects(effect.then as SideEffect[], resSet, paramSet, eachSet, `${at}.then`);
+      if (effect.else !== undefined) _validateSideEffects(effect.else as SideEffect[], resSet, paramSet, eachSet, `${at}.else`);
+      continue;
+    }
+    if (effect.type === "for_each") {
+      const over = effect.over;
+      if (typeof over === "string") {
+        if (!/^\$(param\.\w+|res\.\w+\.\w+|each\.\w+(\.\w+)?|created\.\d+\.\w+)$/.test(over)) {
+          throw new Error(`for_each at ${at} must iterate a single token ($param.X, $res.X.attr, $each.X or $created.N.attr), got "${over}"`);
+        }
+      } else {
+        const src = over as Record<string, unknown>;
+        if (!src || typeof src !== "object" || typeof src.relationship !== "string" || typeof src.role !== "string" || typeof src.of !== "string") {
+          throw new Error(`for_each at ${at} must iterate a list token or { relationship, role, of }`);
+        }
+      }
+      const as = effect.as ?? "item";
+      if (typeof as !== "string" || !/^\w+$/.test(as)) throw new Error(`for_each at ${at} has an invalid "as" name`);
+      _validateActionTokens(over, resSet, paramSet, `${at}.over`, eachSet);
+      _validateSideEffects(effect.do as SideEffect[], resSet, paramSet, new Set([...eachSet, as]), `${at}.do`);
+      continue;
+    }
+    if (effect.type === "http_request") {
+      if (effect.method !== undefined && !_OUTBOX_METHODS.includes(String(effect.method).toUpperCase())) {
+        throw new Error(`http_request at ${at} has unsupported method "${effect.method}". Valid methods: ${_OUTBOX_METHODS.join(", ")}`);
+      }
+      if (effect.max_attempts !== undefined && (!Number.isInteger(effect.max_attempts) || (effect.max_attempts as number) < 1)) {
+        throw new Error(`http_request at ${at} max_attempts must be a positive integer`);
+      }
+    }
+    _validateActionTokens(effect, resSet, paramSet, at, eachSet);
+  }
+}
+
+const _ACTION_PARAMETER_TYPES: ActionParameterType[] = ["text", "number", "boolean", "filetree", "enum", "date", "datetime", "reference", "list", "object"];
+
+function _validateParameterSchema(schema: ActionParameterSchema, path: string): void {
+  if (!_ACTION_PARAMETER_TYPES.includes(schema.type)) {
+    throw new Error(`Invalid parameter type "${schema.type}" for parameter "${path}". Valid types: ${_ACTION_PARAMETER_TYPES.join(", ")}`);
+  }
+  if (schema.type === "enum" && (!Array.isArray(schema.values) || schema.values.length === 0)) {
+    throw new Error(`Enum parameter at ${path} needs a non-empty values list`);
+  }
+  if (schema.items !== undefined) {
+    if (schema.type !== "list") throw new Error(`Only list parameters take items (at ${path})`);
+    _validateParameterSchema(schema.items, `${path}[]`);
+  }
+  if (schema.properties !== undefined) {
+    if (schema.type !== "object") throw new Error(`Only object parameters take properties (at ${path})`);
+    _validateParameterDefs(schema.properties, path);
+  }
+}
+
+function _validateParameterDefs(params: ActionParameterDef[], path?: string): void {
+  const seen = new Set<string>();
+  for (const param of params) {
+    const at = path ? `${path}.${param.name}` : param.name;
+    if (typeof param.name !== "string" || !/^\w+$/.test(param.name)) throw new Error(`Invalid parameter name "${param.name}"`);
+    if (seen.has(param.name.toLowerCase())) throw new Error(`Duplicate parameter name: "${at}"`);
+    seen.add(param.name.toLowerCase());
+    _validateParameterSchema(param, at);
+    if (param.default !== undefined) {
+      const problem = _parameterValueProblem(param, param.default, at);
+      if (problem) throw new Error(`Default for parameter "${at}" is invalid: ${problem}`);
+    }
+  }
+}
+
+// Returns why a value does not fit the schema, or null when it does
+function _parameterValueProblem(schema: ActionParameterSchema, value: unknown, path: string): string | null {
+  switch (schema.type) {
+    case "list": {
+      if (!Array.isArray(value)) return `Parameter "${path}" type mismatch: expected list, got ${typeof value}`;
+      if (!schema.items) return null;
+      for (let i = 0; i < value.length; i++) {
+        const problem = _parameterValueProblem(schema.items, value[i], `${path}[${i}]`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return `Parameter "${path}" type mismatch: expected object, got ${Array.isArray(value) ? "list" : typeof value}`;
+      }
+      for (const prop of schema.properties ?? []) {
+        const field = (value as Record<string, unknown>)[prop.name];
+        if (field === undefined || field === null) {
+          if (prop.required && prop.default === undefined) return `Missing required parameter: ${path}.${prop.name}`;
+          continue;
+        }
+        const problem = _parameterValueProblem(prop, field, `${path}.${prop.name}`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    default: {
+      if (!_validateAttributeType(value, schema.type)) {
+        return `Parameter "${path}" type mismatch: expected ${_describeAttributeType(schema.type)}, got ${typeof value}`;
+      }
+      if (schema.type === "enum" && !schema.values!.includes(value as string)) {
+        return `Parameter "${path}" must be one of: ${schema.values!.join(", ")}; got ${JSON.stringify(value)}`;
+      }
+      return null;
+    }
+  }
+}
+
+// Fills omitted parameters (and omitted object properties) from their defaults
+function _applyParameterDefaults(params: ActionParameterDef[], values: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...values };
+  for (const param of params) {
+    if ((result[param.name] === undefined || result[param.name] === null) && param.default !== undefined) {
+      result[param.name] = structuredClone(param.default);
+    }
+    const value = result[param.name];
+    if (param.type === "object" && param.properties && typeof value === "object" && value !== null && !Array.isArray(value)) {
+      result[param.name] = _applyParameterDefaults(param.properties, value as Record<string, unknown>);
+    }
+  }
+  return result;
+}
+
+function _parameterJsonSchema(schema: ActionParameterSchema): Record<string, unknown> {
+  const out: Record<string, unknown> = (() => {
+    switch (schema.type) {
+      case "text": return { type: "string" };
+      case "number": return { type: "number" };
+      case "boolean": return { type: "boolean" };
+      case "filetree": return { type: "object" };
+      case "enum": return { type: "string", enum: schema.values };
+      case "date": return { type: "string", format: "date" };
+      case "datetime": return { type: "string", format: "date-time" };
+      case "reference": return { type: "string", description: "Entity ID" };
+      case "list": return { type: "array", ...(schema.items ? { items: _parameterJsonSchema(schema.items) } : {}) };
+      case "object": return _parametersJsonSchema(schema.properties ?? []);
+      default: return {};
+    }
+  })();
+  if (schema.description) out.description = schema.description;
+  return out;
+}
+
+function _parametersJsonSchema(params: ActionParameterDef[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const param of params) {
+    properties[param.name] = {
+      ..._parameterJsonSchema(param),
+      ...(param.default !== undefined ? { default: param.default } : {}),
+    };
+  }
+  const required = params.filter((p) => p.required && p.default === undefined).map((p) => p.name);
+  return { type: "object", properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+function _validateActionGuards(opts: DefineActionGenusOptions): void {
+  const resSet = new Set((opts.resources ?? []).map((r) => r.name));
+  const paramSet = new Set((opts.parameters ?? []).map((p) => p.name));
+  for (const res of opts.resources ?? []) {
+    if (res.where !== undefined) {
+      try {
+        _checkAttributeQuery(res.where);
+      } catch (e) {
+        throw new Error(`Invalid where on resource "${res.name}": ${(e as Error).message}`);
       }
     }
-    _validateActionTokens(effect, resSet, paramSet, `handler[${i}]`);
+    for (const guard of res.relationships ?? []) {
+      if (typeof guard?.relationship !== "string" || guard.relationship === "") {
+        throw new Error(`Relationship guard on resource "${res.name}" must name a relationship genus`);
+      }
+    }
+  }
+  if (opts.preconditions !== undefined) {
+    _validateEffectCondition(opts.preconditions, "preconditions");
+    if (JSON.stringify(opts.preconditions).includes("$created.")) {
+      throw new Error("preconditions run before the handler, so they cannot reference $created tokens");
+    }
+    _validateActionTokens(opts.preconditions, resSet, paramSet, "preconditions");
   }
 }
 
+export function validateActionHandler(
+  handler: SideEffect[],
+  resourceNames: string[],
+  parameterNames: string[],
+): void {
+  _validateSideEffects(handler, new Set(resourceNames), new Set(parameterNames), new Set(), "handler");
+}
+
 export function validateProcessDefinition(
   lanes: { name: string }[],
-  steps: { name: string; type: string; lane: string; gate_conditions?: string[] }[],
+  steps: {
+    name: string; type: string; lane: string; position?: number; gate_conditions?: string[];
+    timer_delay?: string; timer_until?: string; wait_condition?: AttributeQuery; wait_timeout_step?: string;
+    subprocess_name?: string; retry_max_attempts?: number; retry_backoff?: string; on_failure?: string; step_timeout?: string;
+    result_into?: string; fetch_into?: string; action_params?: Record<string, unknown>;
+    action_resource_bindings?: Record<string, string>; task_title?: string; task_description?: string; branch_condition?: string;
+  }[],
 ): void {
   if (lanes.length === 0) {
     throw new Error("Process must have at least one lane");
@@ -1326,7 +2081,7 @@ export function validateProcessDefinition(
   if (steps.length === 0) {
     throw new Error("Process must have at least one step");
   }
-  const VALID_STEP_TYPES = new Set(["task_step", "action_step", "gate_step", "fetch_step", "branch_step"]);
+  const VALID_STEP_TYPES = new Set(["task_step", "action_step", "gate_step", "fetch_step", "branch_step", "timer_step", "wait_step", "subprocess_step"]);
   const stepNames = new Set<string>();
   for (const step of steps) {
     const lower = step.name.toLowerCase();
@@ -1350,6 +2105,79 @@ export function validateProcessDefinition(
         }
       }
     }
+    if (step.type === "timer_step" || step.type === "wait_step") {
+      if (step.timer_delay !== undefined && step.timer_until !== undefined) {
+        throw new Error(`Step "${step.name}" cannot have both timer_delay and timer_until`);
+      }
+      if (step.timer_delay !== undefined) parseDelay(step.timer_delay);
+      if (step.timer_until !== undefined && isNaN(new Date(step.timer_until).getTime())) {
+        throw new Error(`Step "${step.name}" has an invalid timer_until: ${step.timer_until}`);
+      }
+    }
+    if (step.type === "timer_step" && step.timer_delay === undefined && step.timer_until === undefined) {
+      throw new Error(`Timer step "${step.name}" must have timer_delay or timer_until`);
+    }
+    if (step.type === "wait_step") {
+      if (!step.wait_condition) {
+        throw new Error(`Wait step "${step.name}" must have a wait_condition`);
+      }
+      if (step.wait_timeout_step !== undefined && step.timer_delay === undefined && step.timer_until === undefined) {
+        throw new Error(`Wait step "${step.name}" has wait_timeout_step but no deadline (timer_delay or timer_until)`);
+      }
+    }
+    if (step.type === "subprocess_step" && !step.subprocess_name) {
+      throw new Error(`Subprocess step "${step.name}" must have a subprocess_name`);
+    }
+    if (step.retry_max_attempts !== undefined && (!Number.isInteger(step.retry_max_attempts) || step.retry_max_attempts < 1)) {
+      throw new Error(`Step "${step.name}" retry_max_attempts must be a positive integer`);
+    }
+    if (step.retry_backoff !== undefined) parseDelay(step.retry_backoff);
+    if (step.step_timeout !== undefined) {
+      if (step.type !== "task_step" && step.type !== "subprocess_step") {
+        throw new Error(`Step "${step.name}" step_timeout only applies to task_step and subprocess_step`);
+      }
+      parseDelay(step.step_timeout);
+    }
+  }
+  // Timeout and failure targets are later steps in the same lane, so check them once every step is known.
+  // Steps without a position are ordered as listed.
+  const positionOf = (step: (typeof steps)[number]) => step.position ?? steps.indexOf(step);
+  const checkLaneTarget = (step: (typeof steps)[number], field: string, targetName: string) => {
+    const target = steps.find((s) => s.name.toLowerCase() === targetName.toLowerCase());
+    if (!target || target.lane.toLowerCase() !== step.lane.toLowerCase()) {
+      throw new Error(`Step "${step.name}" ${field} must name a step in lane "${step.lane}": "${targetName}"`);
+    }
+    if (positionOf(target) <= positionOf(step)) {
+      throw new Error(`Step "${step.name}" ${field} must name a later step: "${targetName}"`);
+    }
+  };
+  for (const step of steps) {
+    if (step.type === "wait_step" && step.wait_timeout_step !== undefined) {
+      checkLaneTarget(step, "wait_timeout_step", step.wait_timeout_step);
+    }
+    if (step.on_failure !== undefined) checkLaneTarget(step, "on_failure", step.on_failure);
+  }
+
+  // $var.X must name a variable some step writes
+  const written = new Set<string>();
+  for (const step of steps) {
+    if (step.result_into !== undefined) {
+      if (step.type !== "task_step" && step.type !== "action_step") {
+        throw new Error(`Step "${step.name}" result_into only applies to task_step and action_step`);
+      }
+      written.add(step.result_into);
+    }
+    if (step.fetch_into) written.add(step.fetch_into);
+  }
+  for (const step of steps) {
+    const templates = JSON.stringify([
+      step.action_params, step.action_resource_bindings, step.task_title, step.task_description, step.branch_condition,
+    ]);
+    for (const match of templates.matchAll(/\$var\.(\w+)/g)) {
+      if (!written.has(match[1])) {
+        throw new Error(`Step "${step.name}" references $var.${match[1]}, but no step writes it (fetch_into or result_into)`);
+      }
+    }
   }
 }
 
@@ -1367,12 +2195,7 @@ export function defineEntityGenus(
 
   if (opts.attributes) {
     for (const attr of opts.attributes) {
-      appendTessella(kernel, genusId, "genus_attribute_defined", {
-        name: attr.name,
-        type: attr.type,
-        required: attr.required ?? false,
-        ...(attr.default_value !== undefined ? { default_value: attr.default_value } : {}),
-      });
+      appendTessella(kernel, genusId, "genus_attribute_defined", _attributeDefinitionData(attr));
     }
   }
 
@@ -1444,13 +2267,17 @@ export function setAttribute(
     throw new Error(`Attribute "${key}" is not defined on genus "${genusDef.meta.name}". Valid attributes: ${validAttrs}`);
   }
 
-  // Validate type
-  if (!_validateAttributeType(value, attrDef.type)) {
-    throw new Error(`Type mismatch for attribute "${key}": expected ${attrDef.type}, got ${typeof value}`);
-  }
+  // Validate type, enum membership, reference targets and constraints
+  value = _checkAttributeValue(kernel, key, attrDef, value, _attributeScope(kernel, res_id));
 
   const effectiveOpts = { ...opts, branch_id: opts.branch_id ?? kernel.currentBranch };
-  return appendTessella(kernel, res_id, "attribute_set", { key, value }, effectiveOpts);
+  const watchers = effectiveOpts.branch_id === "main" ? _findConditionTriggers(kernel, key) : [];
+  const previous = watchers.length > 0 ? materialize(kernel, res_id, { branch_id: effectiveOpts.branch_id })[key] : undefined;
+  const t = appendTessella(kernel, res_id, "attribute_set", { key, value }, effectiveOpts);
+  if (watchers.length > 0) {
+    _fireConditionTriggers(kernel, watchers, res_id, genusDef, previous, value);
+  }
+  return t;
 }
 
 export function transitionStatus(
@@ -1493,7 +2320,14 @@ export function transitionStatus(
     );
   }
 
-  return appendTessella(kernel, res_id, "status_changed", { status: target_status }, { ...opts, branch_id: effectiveBranch });
+  const t = appendTessella(kernel, res_id, "status_changed", { status: target_status }, { ...opts, branch_id: effectiveBranch });
+  if (effectiveBranch === "main") {
+    const watchers = _findConditionTriggers(kernel, "status");
+    if (watchers.length > 0) {
+      _fireConditionTriggers(kernel, watchers, res_id, genusDef, currentStatus, target_status);
+    }
+  }
+  return t;
 }
 
 export function findTransitionPath(genusDef: GenusDef, from: string, to: string): string[] | null {
@@ -1567,8 +2401,15 @@ export interface ScienceDescription {
 
 export interface AttributeFilter {
   key: string;
-  op: "eq" | "contains";
-  value: unknown;
+  op: "eq" | "contains" | "gt" | "lt" | "in" | "exists" | "between";
+  value?: unknown;
+}
+
+export type AttributeQuery = AttributeFilter | { and: AttributeQuery[] } | { or: AttributeQuery[] };
+
+export interface AttributeSort {
+  key: string;
+  direction?: "asc" | "desc";
 }
 
 export interface ListEntitiesOptions {
@@ -1580,6 +2421,14 @@ export interface ListEntitiesOptions {
   all_workspaces?: boolean;
   only_workspace?: boolean;
   attribute_filters?: AttributeFilter[];
+  where?: AttributeQuery;
+  sort?: AttributeSort[];
+  as_of?: AsOf;
+}
+
+export interface EntityQueryResult {
+  entities: EntitySummary[];
+  total: number;
 }
 
 export interface DefineFeatureGenusOptions {
@@ -1604,7 +2453,7 @@ export function listGenera(kernel: Kernel, opts?: { taxonomy_id?: string; includ
     "SELECT id FROM res WHERE genus_id = ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? AND id != ? ORDER BY created_at ASC",
   ).all(META_GENUS_ID, META_GENUS_ID, LOG_GENUS_ID, ERROR_GENUS_ID, TASK_GENUS_ID, BRANCH_GENUS_ID, TAXONOMY_GENUS_ID, CRON_SCHEDULE_GENUS_ID, WORKSPACE_GENUS_ID, SCIENCE_GENUS_ID, PALACE_ROOM_GENUS_ID, PALACE_SCROLL_GENUS_ID, PALACE_NPC_GENUS_ID) as { id: string }[];
 
-  return rows.map((row) => {
+  return rows.filter((row) => _existedAsOf(kernel, row.id)).map((row) => {
     const def = getGenusDef(kernel, row.id);
     return { id: row.id, name: (def.meta.name as string) ?? "", def };
   }).filter((g) => {
@@ -1616,60 +2465,8 @@ export function listGenera(kernel: Kernel, opts?: { taxonomy_id?: string; includ
 }
 
 export function listEntities(kernel: Kernel, opts: ListEntitiesOptions = {}): EntitySummary[] {
-  let sql = "SELECT id, genus_id, created_at FROM res WHERE genus_id != ? AND genus_id != ? AND genus_id != ? AND genus_id != ? AND genus_id != ? AND genus_id != ? AND genus_id != ? AND genus_id != ? AND genus_id != ?";
-  const params: any[] = [META_GENUS_ID, BRANCH_GENUS_ID, TAXONOMY_GENUS_ID, CRON_SCHEDULE_GENUS_ID, WORKSPACE_GENUS_ID, SCIENCE_GENUS_ID, PALACE_ROOM_GENUS_ID, PALACE_SCROLL_GENUS_ID, PALACE_NPC_GENUS_ID];
-
-  if (opts.genus_id) {
-    sql += " AND genus_id = ?";
-    params.push(opts.genus_id);
-  }
-
-  // Workspace filtering
-  if (!opts.all_workspaces) {
-    const effectiveWorkspace = opts.workspace_id ?? kernel.currentWorkspace;
-    if (effectiveWorkspace) {
-      if (opts.only_workspace) {
-        sql += " AND workspace_id = ?";
-      } else {
-        sql += " AND (workspace_id = ? OR workspace_id IS NULL)";
-      }
-      params.push(effectiveWorkspace);
-    }
-  }
-
-  sql += " ORDER BY created_at ASC";
-
-  if (opts.limit !== undefined) {
-    sql += " LIMIT ?";
-    params.push(opts.limit);
-  }
-
-  if (opts.offset !== undefined) {
-    sql += " OFFSET ?";
-    params.push(opts.offset);
-  }
-
-  const rows = kernel.db.query(sql).all(...params) as { id: string; genus_id: string; created_at: string }[];
-
-  return rows.map((row) => {
-    const state = materialize(kernel, row.id, { branch_id: kernel.currentBranch });
-    return { id: row.id, genus_id: row.genus_id, created_at: row.created_at, state };
-  }).filter((e) => {
-    if (opts.status && e.state.status !== opts.status) return false;
-    if (opts.attribute_filters) {
-      for (const filter of opts.attribute_filters) {
-        const attrValue = e.state[filter.key];
-        if (filter.op === "eq") {
-          if (attrValue !== filter.value) return false;
-        } else if (filter.op === "contains") {
-          if (typeof attrValue !== "string" || typeof filter.value !== "string") return false;
-          if (!attrValue.toLowerCase().includes(filter.value.toLowerCase())) return false;
-        }
-      }
-    }
-    return true;
-  });
-}
+  return queryEntities(kernel, opts).entities;
+}
 
 export interface SearchEntitiesOptions {
   query: string;
@@ -1686,46 +2483,71 @@ export interface SearchResult {
   created_at: string;
   state: Record<string, unknown>;
   matched_attributes: string[];
+  snippets: Record<string, string>;
+  score: number;
 }
 
-const _SEARCH_SKIP_KEYS = new Set(["status", "features", "members"]);
-
 export function searchEntities(
   kernel: Kernel,
   opts: SearchEntitiesOptions,
 ): SearchResult[] {
-  const entities = listEntities(kernel, {
-    genus_id: opts.genus_id,
-    workspace_id: opts.workspace_id,
-    all_workspaces: opts.all_workspaces,
-  });
+  const match = _ftsQuery(opts.query);
+  if (!match) return [];
 
-  const queryLower = opts.query.toLowerCase();
-  const results: SearchResult[] = [];
+  const excluded = [META_GENUS_ID, BRANCH_GENUS_ID, TAXONOMY_GENUS_ID, CRON_SCHEDULE_GENUS_ID, WORKSPACE_GENUS_ID, SCIENCE_GENUS_ID, PALACE_ROOM_GENUS_ID, PALACE_SCROLL_GENUS_ID, PALACE_NPC_GENUS_ID];
+  let where = `r.genus_id NOT IN (${excluded.map(() => "?").join(", ")})`;
+  const params: any[] = [...excluded];
 
-  for (const entity of entities) {
-    const matched: string[] = [];
-    for (const [key, value] of Object.entries(entity.state)) {
-      if (_SEARCH_SKIP_KEYS.has(key)) continue;
-      if (typeof value === "string" && value.toLowerCase().includes(queryLower)) {
-        matched.push(key);
-      }
+  if (opts.genus_id) {
+    where += " AND r.genus_id = ?";
+    params.push(opts.genus_id);
+  }
+
+  // Workspace filtering (same rules as listEntities)
+  if (!opts.all_workspaces) {
+    const effectiveWorkspace = opts.workspace_id ?? kernel.currentWorkspace;
+    if (effectiveWorkspace) {
+      where += " AND (r.workspace_id = ? OR r.workspace_id IS NULL)";
+      params.push(effectiveWorkspace);
     }
-    if (matched.length > 0) {
-      const genusDef = getGenusDef(kernel, entity.genus_id);
-      results.push({
-        id: entity.id,
-        genus_id: entity.genus_id,
+  }
+
+  const results = new Map<string, SearchResult>();
+  const states = new Map<string, Record<string, unknown>>();
+  for (const hit of _searchCandidates(kernel, match, where, params)) {
+    // Once the limit is reached only more hits on res already found matter,
+    // so nothing else gets materialized
+    if (opts.limit !== undefined && results.size >= opts.limit && !results.has(hit.res_id)) continue;
+    let state = states.get(hit.res_id);
+    if (!state) {
+      state = materialize(kernel, hit.res_id, { branch_id: kernel.currentBranch });
+      states.set(hit.res_id, state);
+    }
+    if (!_searchHitIsCurrent(state, hit)) continue;
+
+    let result = results.get(hit.res_id);
+    if (!result) {
+      const genusDef = getGenusDef(kernel, hit.genus_id);
+      result = {
+        id: hit.res_id,
+        genus_id: hit.genus_id,
         genus_name: (genusDef.meta.name as string) ?? "",
-        created_at: entity.created_at,
-        state: entity.state,
-        matched_attributes: matched,
-      });
-      if (opts.limit !== undefined && results.length >= opts.limit) break;
+        created_at: hit.created_at,
+        state,
+        matched_attributes: [],
+        snippets: {},
+        score: -hit.rank,
+      };
+      results.set(hit.res_id, result);
+    }
+    const field = hit.feature_id ? `features.${hit.feature_id}.${hit.field}` : hit.field;
+    if (!result.matched_attributes.includes(field)) {
+      result.matched_attributes.push(field);
+      result.snippets[field] = hit.snippet;
     }
   }
 
-  return results;
+  return [...results.values()];
 }
 
 export function findGenusByName(kernel: Kernel, name: string): string | null {
@@ -1992,6 +2814,8 @@ export function deleteWorkspace(kernel: Kernel, workspace_id: string): void {
     .get(workspace_id) as { cnt: number }).cnt;
   if (count > 0) throw new Error("Workspace is not empty — reassign or delete entities first");
   kernel.db.run("DELETE FROM tessella WHERE res_id = ?", [workspace_id]);
+  kernel.db.run("DELETE FROM snapshot WHERE res_id = ?", [workspace_id]);
+  kernel.db.run("DELETE FROM attr_index WHERE res_id = ?", [workspace_id]);
   kernel.db.run("DELETE FROM res WHERE id = ?", [workspace_id]);
   if (kernel.currentWorkspace === workspace_id) kernel.currentWorkspace = null;
 }
@@ -2219,12 +3043,7 @@ export function defineFeatureGenus(
 
   if (opts.attributes) {
     for (const attr of opts.attributes) {
-      appendTessella(kernel, genusId, "genus_attribute_defined", {
-        name: attr.name,
-        type: attr.type,
-        required: attr.required ?? false,
-        ...(attr.default_value !== undefined ? { default_value: attr.default_value } : {}),
-      });
+      appendTessella(kernel, genusId, "genus_attribute_defined", _attributeDefinitionData(attr));
     }
   }
 
@@ -2277,15 +3096,14 @@ export function createFeature(
   }
 
   // Validate all attributes upfront before appending any tessellae
+  const attributes: Record<string, unknown> = {};
   if (opts?.attributes) {
     for (const [key, value] of Object.entries(opts.attributes)) {
       const attrDef = featureDef.attributes[key];
       if (!attrDef) {
         throw new Error(`Attribute "${key}" is not defined on feature genus "${featureDef.meta.name}". Valid attributes: ${Object.keys(featureDef.attributes).join(", ") || "(none)"}`);
       }
-      if (!_validateAttributeType(value, attrDef.type)) {
-        throw new Error(`Type mismatch for attribute "${key}": expected ${attrDef.type}, got ${typeof value}`);
-      }
+      attributes[key] = _checkAttributeValue(kernel, key, attrDef, value);
     }
   }
 
@@ -2307,14 +3125,12 @@ export function createFeature(
   }
 
   // Append validated attributes
-  if (opts?.attributes) {
-    for (const [key, value] of Object.entries(opts.attributes)) {
-      appendTessella(kernel, parent_res_id, "feature_attribute_set", {
-        feature_id,
-        key,
-        value,
-      }, { branch_id });
-    }
+  for (const [key, value] of Object.entries(attributes)) {
+    appendTessella(kernel, parent_res_id, "feature_attribute_set", {
+      feature_id,
+      key,
+      value,
+    }, { branch_id });
   }
 
   return feature_id;
@@ -2351,9 +3167,7 @@ export function setFeatureAttribute(
   if (!attrDef) {
     throw new Error(`Attribute "${key}" is not defined on feature genus "${featureDef.meta.name}". Valid attributes: ${Object.keys(featureDef.attributes).join(", ") || "(none)"}`);
   }
-  if (!_validateAttributeType(value, attrDef.type)) {
-    throw new Error(`Type mismatch for attribute "${key}": expected ${attrDef.type}, got ${typeof value}`);
-  }
+  value = _checkAttributeValue(kernel, key, attrDef, value);
 
   return appendTessella(kernel, parent_res_id, "feature_attribute_set", {
     feature_id,
@@ -2454,7 +3268,8 @@ export function getFeatureGenusForEntityGenus(kernel: Kernel, entity_genus_name:
 //
 // Summary:
 //   Declarative business logic defined as genus-like schemas. Actions specify
-//   preconditions (required resource statuses), parameters, and a handler of
+//   preconditions (resource statuses, attributes, relationships and cross-resource
+//   conditions), parameters, and a handler of
 //   side effects. executeAction validates, runs effects atomically, and logs.
 //
 // Usage:
@@ -2467,12 +3282,58 @@ export function getFeatureGenusForEntityGenus(kernel: Kernel, entity_genus_name:
 //     ],
 //   });
 //   const result = executeAction(kernel, deployId, { server: entityId }, { version: "2.0" });
+//   undoAction(kernel, result.action_taken!.id);
 //
 // Design notes:
 //   - Action genera are res under META_GENUS_ID with meta.kind = "action".
-//   - Handler substitution supports $param.X, $res.X.id, and $now tokens.
+//   - Handler substitution supports $param.X, $res.X.id, $res.X.<attr>, $each.X,
+//     $created.N.<attr> and $now tokens. $res.X.<attr> reads the resource's
+//     current state, so it reflects writes made earlier in the same handler;
+//     $res.X.workspace_id is the resource's workspace.
+//   - $created.N counts every res (entity, log, error, task, relationship) and
+//     feature the handler has created so far, in execution order from 0.
+//   - `if` and `for_each` effects nest further effects. Their bodies are
+//     substituted only when they run, which is what lets $each.X bind per item.
 //   - Side effects execute in a single SQLite transaction for atomicity.
+//     http_request is the one effect that leaves the kernel, so it only queues
+//     an outbox row (see Outbox); nothing is sent until the action commits.
 //   - executeAction never throws; returns { error } on failure.
+//   - Parameters take any attribute type plus "list" (optionally typed `items`)
+//     and "object" (named `properties`, validated recursively). Defaults are
+//     filled in before guards and substitution, so $param.X always sees them.
+//     getActionParametersSchema renders the same definitions as JSON Schema.
+//   - Guards run in a fixed order per resource: binding, genus, required_status
+//     (one status or a list), `where` (the list_entities predicate form), then
+//     `relationships`. Action-level `preconditions` are an `if`-style condition
+//     over tokens, so they can compare resources (e.g. "$res.a.workspace_id" eq
+//     "$res.b.workspace_id"). checkActionAvailability returns every failing
+//     guard; executeAction reports the first.
+//   - opts.branch_id (default kernel.currentBranch) is honoured end to end:
+//     preconditions, $res reads and every effect go through a kernel view on
+//     that branch, and triggered processes inherit it.
+//   - undoAction appends compensating tessellae rather than deleting anything:
+//     attributes get their pre-action values back, status walks back along a
+//     reverse transition (or is overridden when there is none), and res the
+//     action created move to a retired/archived/cancelled state (or a bare
+//     "retired" status when the genus has no states; a genus with states but
+//     none of those refuses the undo). Memberships and feature writes are reversed the same
+//     way; created relationships also drop their members. It refuses, listing
+//     conflicts, if later tessellae touched the same keys. The undo is its own
+//     action_taken with `undoes`.
+//   - Idempotency keys live on the input table (idempotency_key, result,
+//     expires_at; 24h by default). A key is claimed only once the call has
+//     succeeded; a repeat with the same request returns the stored result, a
+//     repeat with a different one is refused. withIdempotencyKey gives any other
+//     write (entity, relationship, task creation) the same treatment. Keys are
+//     scoped by workspace and actor ('' when unset), so tenants never share them.
+//   - executeActionBulk snapshots the matching entities, then calls executeAction
+//     once per match. all_or_nothing wraps the runs in one transaction (each
+//     run's own transaction nests as a savepoint) and rolls back on the first
+//     failure; best_effort commits each run on its own. At most `limit` (500)
+//     matches run per call; total and has_more report what was left over.
+//   - dry_run runs the same validation and handler inside a transaction that is
+//     always rolled back, so the preview is exactly what a real run would write.
+//     Health before the run is read with as_of, from inside that transaction.
 //
 
 // --- Types ---
@@ -2480,24 +3341,65 @@ export function getFeatureGenusForEntityGenus(kernel: Kernel, entity_genus_name:
 export interface ActionResourceDef {
   name: string;
   genus_name: string;
-  required_status?: string;
+  // One status, or a list of allowed ones
+  required_status?: string | string[];
+  // Attribute predicates on the resource's current state, in list_entities `where` form
+  where?: AttributeQuery;
+  // Relationships the resource must belong to
+  relationships?: ActionRelationshipGuard[];
+}
+
+export interface ActionRelationshipGuard {
+  relationship: string;
+  // Role the resource must fill; any role when omitted
+  role?: string;
+  // Allowed statuses of the relationship itself
+  status?: string | string[];
+}
+
+// "list" is an array (of `items` when given); "object" has named `properties`
+export type ActionParameterType = GenusAttributeType | "list" | "object";
+
+// The shape of a value, shared by top-level parameters, list items and object properties
+export interface ActionParameterSchema {
+  type: ActionParameterType;
+  description?: string;
+  values?: string[];                   // enum: allowed values
+  items?: ActionParameterSchema;       // list: element shape; any when omitted
+  properties?: ActionParameterDef[];   // object: named fields
 }
 
-export interface ActionParameterDef {
+export interface ActionParameterDef extends ActionParameterSchema {
   name: string;
-  type: GenusAttributeType;
   required: boolean;
+  // Used when the caller omits the parameter, before tokens are substituted
+  default?: unknown;
 }
 
 export interface SideEffect {
-  type: "set_attribute" | "transition_status" | "create_res" | "create_log" | "create_error" | "create_task";
+  type:
+    | "set_attribute" | "transition_status" | "create_res" | "create_log" | "create_error" | "create_task"
+    | "create_relationship" | "add_member" | "remove_member"
+    | "create_feature" | "set_feature_attribute" | "transition_feature_status"
+    | "http_request"
+    | "if" | "for_each";
   [key: string]: unknown;
 }
 
+// Relationship members to iterate: entities filling `role` in `relationship`
+// relationships that `of` (an entity id, usually $res.X.id) belongs to
+export interface ForEachMembersSource {
+  relationship: string;
+  role: string;
+  of: string;
+}
+
 export interface ActionDef {
   resources: Record<string, ActionResourceDef>;
   parameters: Record<string, ActionParameterDef>;
   handler: SideEffect[];
+  // Guard across resources and params, written like an `if` condition (token keys)
+  preconditions?: AttributeQuery;
   meta: Record<string, unknown>;
 }
 
@@ -2505,6 +3407,7 @@ export interface DefineActionGenusOptions {
   resources?: ActionResourceDef[];
   parameters?: ActionParameterDef[];
   handler?: SideEffect[];
+  preconditions?: AttributeQuery;
   meta?: Record<string, unknown>;
   taxonomy_id?: string;
 }
@@ -2527,14 +3430,87 @@ export interface ActionTaken {
   tessellae_ids: number[];
   created_at: string;
   branch_id: string;
+  // Set on the record undoAction writes: the action_taken it reverses
+  undoes?: string;
+}
+
+export interface ActionAvailability {
+  available: boolean;
+  reasons: string[];
+}
+
+export interface ExecuteActionBulkOptions {
+  // Resource slot each match is bound to; the query runs over that slot's genus
+  resource: string;
+  where?: AttributeQuery;
+  status?: string;
+  // Fixed bindings for the other slots, shared by every run
+  bindings?: Record<string, string>;
+  params?: Record<string, unknown>;
+  // best_effort (default) keeps going past failures; all_or_nothing rolls every run back on the first
+  mode?: "best_effort" | "all_or_nothing";
+  limit?: number;
+  source?: string;
+  branch_id?: string;
+}
+
+export interface BulkActionItemResult {
+  res_id: string;
+  action_taken_id?: string;
+  error?: string;
+}
+
+export interface ExecuteActionBulkResult {
+  mode: "best_effort" | "all_or_nothing";
+  matched: number;
+  // Everything the query matched; beyond `limit` the rest was not run and has_more is set
+  total: number;
+  has_more: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkActionItemResult[];
+  // all_or_nothing only: a run failed and none of the runs were kept
+  rolled_back?: boolean;
+  error?: string;
 }
 
 export interface ExecuteActionResult {
   action_taken?: ActionTaken;
   tessellae?: Tessella[];
+  triggered_processes?: string[];
+  // The idempotency key had been used already: this is the earlier run, nothing new was written
+  replayed?: boolean;
+  dry_run?: boolean;
+  preview?: ActionPreview;
+  error?: string;
+}
+
+// A later tessella that touched something the action being undone also wrote
+export interface UndoConflict {
+  res_id: string;
+  key: string;
+  tessella_id: number;
+}
+
+export interface UndoActionResult {
+  action_taken?: ActionTaken;
+  tessellae?: Tessella[];
+  conflicts?: UndoConflict[];
   error?: string;
 }
 
+export interface ActionPreview {
+  // Every tessella the action would write, including ones from entity creation and triggers
+  tessellae: Tessella[];
+  // Resulting materialized state of each res those tessellae touch
+  states: Record<string, Record<string, unknown>>;
+  // Health issues each touched res would have afterwards that it does not have now
+  health_regressions: { res_id: string; issues: HealthIssue[] }[];
+  triggered_processes: string[];
+  // http_request effects the action would queue
+  outbox: OutboxEntry[];
+}
+
 export interface HistoryEntry {
   tessella: Tessella;
   action_taken?: ActionTaken;
@@ -2566,6 +3542,10 @@ export function actionReducer(state: Record<string, unknown>, tessella: Tessella
       const { handler } = tessella.data as { handler: SideEffect[] };
       return { ...state, handler };
     }
+    case "action_preconditions_defined": {
+      const { preconditions } = tessella.data as { preconditions: AttributeQuery };
+      return { ...state, preconditions };
+    }
     case "genus_meta_set": {
       let { key, value } = tessella.data as { key: string; value: unknown };
       if (key === "domain_id" || key === "ontology_id") key = "taxonomy_id"; // backwards compat
@@ -2583,10 +3563,16 @@ export function getActionDef(kernel: Kernel, action_genus_id: string): ActionDef
     resources: (raw.resources as Record<string, ActionResourceDef>) ?? {},
     parameters: (raw.parameters as Record<string, ActionParameterDef>) ?? {},
     handler: (raw.handler as SideEffect[]) ?? [],
+    ...(raw.preconditions ? { preconditions: raw.preconditions as AttributeQuery } : {}),
     meta: (raw.meta as Record<string, unknown>) ?? {},
   };
 }
 
+// JSON Schema for an action's params argument, for callers such as MCP clients
+export function getActionParametersSchema(kernel: Kernel, action_genus_id: string): Record<string, unknown> {
+  return _parametersJsonSchema(Object.values(getActionDef(kernel, action_genus_id).parameters));
+}
+
 export function defineActionGenus(
   kernel: Kernel,
   name: string,
@@ -2594,6 +3580,8 @@ export function defineActionGenus(
 ): string {
   const effectiveOntologyId = opts.taxonomy_id ?? DEFAULT_TAXONOMY_ID;
   _checkTaxonomyNotArchived(kernel, effectiveOntologyId);
+  _validateParameterDefs(opts.parameters ?? []);
+  _validateActionGuards(opts);
 
   const genusId = createRes(kernel, META_GENUS_ID);
   appendTessella(kernel, genusId, "genus_meta_set", { key: "name", value: name });
@@ -2616,6 +3604,10 @@ export function defineActionGenus(
     appendTessella(kernel, genusId, "action_handler_defined", { handler: opts.handler });
   }
 
+  if (opts.preconditions) {
+    appendTessella(kernel, genusId, "action_preconditions_defined", { preconditions: opts.preconditions });
+  }
+
   if (opts.meta) {
     for (const [key, value] of Object.entries(opts.meta)) {
       appendTessella(kernel, genusId, "genus_meta_set", { key, value });
@@ -2639,27 +3631,225 @@ export function recordInput(
   return { ...row, data: JSON.parse(row.data) };
 }
 
+// --- Idempotency ---
+
+const _IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+function _idempotencyScope(kernel: Kernel): [string, string] {
+  return [kernel.currentWorkspace ?? "", kernel.actor?.id ?? ""];
+}
+
+// The live (unexpired) input recorded under a key in this workspace and for
+// this actor; an expired key is released on sight
+function _idempotentInput(kernel: Kernel, key: string): { id: string; data: string; result: string | null } | null {
+  const row = kernel.db.query(
+    "SELECT id, data, result, expires_at FROM input WHERE idempotency_key = ? AND idempotency_workspace = ? AND idempotency_actor = ?",
+  ).get(key, ..._idempotencyScope(kernel)) as
+    { id: string; data: string; result: string | null; expires_at: string | null } | null;
+  if (!row) return null;
+  if (row.expires_at && row.expires_at <= new Date().toISOString()) {
+    kernel.db.run("UPDATE input SET idempotency_key = NULL WHERE id = ?", [row.id]);
+    return null;
+  }
+  return row;
+}
+
+function _claimIdempotencyKey(kernel: Kernel, input_id: string, key: string, result: unknown, ttl_ms?: number): void {
+  kernel.db.run(
+    "UPDATE input SET idempotency_key = ?, idempotency_workspace = ?, idempotency_actor = ?, result = ?, expires_at = ? WHERE id = ?",
+    [key, ..._idempotencyScope(kernel), JSON.stringify(result), new Date(Date.now() + (ttl_ms ?? _IDEMPOTENCY_TTL_MS)).toISOString(), input_id],
+  );
+}
+
+// Runs fn once per key: a repeat with the same request returns the stored
+// result without calling fn; a repeat with a different request throws.
+export function withIdempotencyKey<T>(
+  kernel: Kernel,
+  key: string,
+  operation: string,
+  request: unknown,
+  fn: () => T,
+  opts: { source?: string; ttl_ms?: number } = {},
+): { result: T; replayed: boolean } {
+  const data = JSON.stringify({ operation, request });
+  const existing = _idempotentInput(kernel, key);
+  if (existing) {
+    if (existing.data !== data) throw new Error(`Idempotency key "${key}" was already used for a different request`);
+    return { result: JSON.parse(existing.result!) as T, replayed: true };
+  }
+  let result!: T;
+  kernel.db.transaction(() => {
+    result = fn();
+    const input = recordInput(kernel, "push", opts.source ?? "system", { operation, request }, kernel.currentBranch);
+    _claimIdempotencyKey(kernel, input.id, key, result, opts.ttl_ms);
+  })();
+  return { result, replayed: false };
+}
+
+// Releases keys past their expiry so they can be used again; the inputs stay
+export function purgeIdempotencyKeys(kernel: Kernel, now: Date = new Date()): number {
+  return kernel.db.run(
+    "UPDATE input SET idempotency_key = NULL WHERE idempotency_key IS NOT NULL AND expires_at <= ?",
+    [now.toISOString()],
+  ).changes;
+}
+
 // --- Internal helpers ---
 
-function _substituteParams(
-  value: unknown,
-  context: { params: Record<string, unknown>; resources: Record<string, string>; now: string },
-): unknown {
+interface EffectContext {
+  params: Record<string, unknown>;
+  resources: Record<string, string>;
+  now: string;
+  each: Record<string, unknown>;
+  // Res (and features, with their parent) created so far, in order; shared by nested effects
+  created: { id: string; parent?: string }[];
+  read: (res_id: string) => Record<string, unknown>;
+  workspace: (res_id: string) => string | null;
+  // Recorded on outbox rows so deliveries trace back to the action
+  action_taken_id?: string;
+}
+
+// $res.X.id is the bound id and $res.X.workspace_id its workspace; any other
+// $res.X.attr reads the resource's state as it stands now, so it sees writes
+// made by earlier effects in the same handler
+function _resolveResToken(context: EffectContext, name: string, attr: string): unknown {
+  const resId = context.resources[name];
+  if (attr === "id" || resId === undefined) return resId;
+  if (attr === "workspace_id") return context.workspace(resId);
+  return context.read(resId)[attr];
+}
+
+// $each.X is the loop item; $each.X.attr reads the item's state when it is an entity id
+function _resolveEachToken(context: EffectContext, name: string, attr: string | undefined): unknown {
+  const item = context.each[name];
+  if (attr === undefined) return item;
+  if (attr === "id" || typeof item !== "string") return attr === "id" ? item : undefined;
+  return context.read(item)[attr];
+}
+
+// $created.N.id is the Nth res or feature the handler created, counting from 0;
+// any other attribute reads its current state
+function _resolveCreatedToken(context: EffectContext, index: number, attr: string): unknown {
+  const entry = context.created[index];
+  if (!entry) throw new Error(`$created.${index} refers to a res that has not been created yet (${context.created.length} created so far)`);
+  if (attr === "id") return entry.id;
+  if (!entry.parent) return context.read(entry.id)[attr];
+  const features = (context.read(entry.parent).features ?? {}) as Record<string, Record<string, unknown>>;
+  return features[entry.id]?.[attr];
+}
+
+function _effectContext(kernel: Kernel, resources: Record<string, string>, params: Record<string, unknown>): EffectContext {
+  return {
+    params,
+    resources,
+    now: new Date().toISOString(),
+    each: {},
+    created: [],
+    read: (res_id) => materialize(kernel, res_id, { branch_id: kernel.currentBranch }),
+    workspace: (res_id) => _attributeScope(kernel, res_id).workspace_id,
+  };
+}
+
+function _describeAttributeQuery(query: AttributeQuery): string {
+  if ("and" in query) return `(${query.and.map(_describeAttributeQuery).join(" and ")})`;
+  if ("or" in query) return `(${query.or.map(_describeAttributeQuery).join(" or ")})`;
+  return query.op === "exists" ? `${query.key} exists` : `${query.key} ${query.op} ${JSON.stringify(query.value)}`;
+}
+
+// Why the action cannot run with these bindings, in check order. `partial` skips
+// unbound resources (and the cross-resource preconditions that would need them),
+// which is what lets list_available_actions judge an action from one entity.
+function _actionGuardFailures(
+  kernel: Kernel,
+  actionDef: ActionDef,
+  context: EffectContext,
+  partial: boolean,
+): string[] {
+  const reasons: string[] = [];
+  let allBound = true;
+  for (const [name, resDef] of Object.entries(actionDef.resources)) {
+    const resId = context.resources[name];
+    if (!resId) {
+      allBound = false;
+      if (!partial) reasons.push(`Missing resource binding: ${name}`);
+      continue;
+    }
+
+    let resRow: Res;
+    try {
+      resRow = getRes(kernel, resId);
+    } catch {
+      allBound = false;
+      reasons.push(`Resource "${name}" not found: ${resId}`);
+      continue;
+    }
+    const genusName = (getGenusDef(kernel, resRow.genus_id).meta.name as string) ?? "";
+    if (genusName.toLowerCase() !== resDef.genus_name.toLowerCase()) {
+      allBound = false;
+      reasons.push(`Resource "${name}" must be of genus "${resDef.genus_name}", got "${genusName}"`);
+      continue;
+    }
+
+    const state = context.read(resId);
+    const allowed = resDef.required_status === undefined ? [] : [resDef.required_status].flat();
+    if (allowed.length > 0 && !allowed.includes(state.status as string)) {
+      reasons.push(`Resource "${name}" must be in status ${allowed.map((st) => `"${st}"`).join(" or ")}, currently "${state.status}"`);
+    }
+    if (resDef.where && !_matchesAttributeQuery(state, resDef.where)) {
+      reasons.push(`Resource "${name}" does not satisfy ${_describeAttributeQuery(resDef.where)}`);
+    }
+    for (const guard of resDef.relationships ?? []) {
+      const statuses = guard.status === undefined ? [] : [guard.status].flat();
+      const found = getRelationshipsForEntity(kernel, resId, { branch_id: kernel.currentBranch }).some((rel) =>
+        rel.genus_name.toLowerCase() === guard.relationship.toLowerCase()
+        && (!guard.role || (rel.members[guard.role] ?? []).includes(resId))
+        && (statuses.length === 0 || statuses.includes(rel.state.status as string)));
+      if (!found) {
+        const which = statuses.length > 0 ? `${statuses.map((st) => `"${st}"`).join(" or ")} ` : "";
+        reasons.push(`Resource "${name}" has no ${which}${guard.relationship} relationship${guard.role ? ` as ${guard.role}` : ""}`);
+      }
+    }
+  }
+
+  if (actionDef.preconditions && allBound && !_effectConditionHolds(actionDef.preconditions, context)) {
+    reasons.push(`Preconditions not met: ${_describeAttributeQuery(actionDef.preconditions)}`);
+  }
+  return reasons;
+}
+
+function _lastTessellaId(kernel: Kernel): number {
+  return (kernel.db.query("SELECT COALESCE(MAX(id), 0) AS id FROM tessella").get() as { id: number }).id;
+}
+
+function _substituteParams(value: unknown, context: EffectContext): unknown {
   if (typeof value === "string") {
     // Check if the entire string is a single token — preserve typed value
     const paramMatch = value.match(/^\$param\.(\w+)$/);
     if (paramMatch) return context.params[paramMatch[1]];
 
-    const resMatch = value.match(/^\$res\.(\w+)\.id$/);
-    if (resMatch) return context.resources[resMatch[1]];
+    const resMatch = value.match(/^\$res\.(\w+)\.(\w+)$/);
+    if (resMatch) return _resolveResToken(context, resMatch[1], resMatch[2]);
+
+    const eachMatch = value.match(/^\$each\.(\w+)(?:\.(\w+))?$/);
+    if (eachMatch) return _resolveEachToken(context, eachMatch[1], eachMatch[2]);
+
+    const createdMatch = value.match(/^\$created\.(\d+)\.(\w+)$/);
+    if (createdMatch) return _resolveCreatedToken(context, Number(createdMatch[1]), createdMatch[2]);
 
     if (value === "$now") return context.now;
 
-    // Embedded substitution — coerce to string
-    return value
-      .replace(/\$param\.(\w+)/g, (_, k) => String(context.params[k] ?? ""))
-      .replace(/\$res\.(\w+)\.id/g, (_, k) => String(context.resources[k] ?? ""))
-      .replace(/\$now/g, context.now);
+    // Embedded substitution — coerce to string. One pass, so substituted
+    // values are never scanned for tokens again
+    return value.replace(
+      /\$(?:param\.(\w+)|res\.(\w+)\.(\w+)|each\.(\w+)(?:\.(\w+))?|created\.(\d+)\.(\w+)|now)/g,
+      (_, param, res, resAttr, each, eachAttr, created, createdAttr) => {
+        if (param !== undefined) return String(context.params[param] ?? "");
+        if (res !== undefined) return String(_resolveResToken(context, res, resAttr) ?? "");
+        if (each !== undefined) return String(_resolveEachToken(context, each, eachAttr) ?? "");
+        if (created !== undefined) return String(_resolveCreatedToken(context, Number(created), createdAttr) ?? "");
+        return context.now;
+      },
+    );
   }
 
   if (Array.isArray(value)) {
@@ -2677,14 +3867,57 @@ function _substituteParams(
   return value;
 }
 
+// An `if` condition is an AttributeQuery whose keys are tokens rather than
+// attribute names; each leaf compares the token's current value
+function _effectConditionHolds(condition: AttributeQuery, context: EffectContext): boolean {
+  if ("and" in condition) return condition.and.every((c) => _effectConditionHolds(c, context));
+  if ("or" in condition) return condition.or.some((c) => _effectConditionHolds(c, context));
+  const actual = _substituteParams(condition.key, context);
+  const value = _substituteParams(condition.value, context);
+  return _matchesAttributeQuery({ actual }, { key: "actual", op: condition.op, value });
+}
+
+function _forEachItems(kernel: Kernel, over: unknown, context: EffectContext): unknown[] {
+  if (typeof over === "string") {
+    const items = _substituteParams(over, context);
+    if (items === undefined || items === null) return [];
+    if (!Array.isArray(items)) throw new Error(`for_each over "${over}" expected a list, got ${typeof items}`);
+    return items;
+  }
+  const source = _substituteParams(over, context) as ForEachMembersSource;
+  const members: string[] = [];
+  for (const rel of getRelationshipsForEntity(kernel, source.of, { branch_id: kernel.currentBranch })) {
+    if (rel.genus_name.toLowerCase() !== source.relationship.toLowerCase()) continue;
+    for (const id of rel.members[source.role] ?? []) {
+      if (!members.includes(id)) members.push(id);
+    }
+  }
+  return members;
+}
+
 function _executeSideEffects(
   kernel: Kernel,
   effects: SideEffect[],
-  context: { params: Record<string, unknown>; resources: Record<string, string>; now: string },
+  context: EffectContext,
 ): Tessella[] {
   const tessellae: Tessella[] = [];
 
   for (const effect of effects) {
+    // Control flow substitutes lazily so nested effects see loop items and earlier writes
+    if (effect.type === "if") {
+      const branch = _effectConditionHolds(effect.condition as AttributeQuery, context) ? effect.then : effect.else;
+      tessellae.push(..._executeSideEffects(kernel, (branch ?? []) as SideEffect[], context));
+      continue;
+    }
+    if (effect.type === "for_each") {
+      const as = (effect.as as string) ?? "item";
+      for (const item of _forEachItems(kernel, effect.over, context)) {
+        const scoped = { ...context, each: { ...context.each, [as]: item } };
+        tessellae.push(..._executeSideEffects(kernel, effect.do as SideEffect[], scoped));
+      }
+      continue;
+    }
+
     const substituted = _substituteParams(effect, context) as Record<string, unknown>;
     const type = substituted.type as string;
 
@@ -2704,6 +3937,8 @@ function _executeSideEffects(
         const genusId = findGenusByName(kernel, genusName);
         if (!genusId) throw new Error(`Genus not found: ${genusName}`);
         const entityId = createEntity(kernel, genusId);
+        context.created.push({ id: entityId });
+        tessellae.push(...replay(kernel, entityId, { branch_id: kernel.currentBranch }));
         const attrs = (substituted.attributes ?? {}) as Record<string, unknown>;
         for (const [k, v] of Object.entries(attrs)) {
           const t = setAttribute(kernel, entityId, k, v);
@@ -2713,6 +3948,8 @@ function _executeSideEffects(
       }
       case "create_log": {
         const entityId = createEntity(kernel, LOG_GENUS_ID);
+        context.created.push({ id: entityId });
+        tessellae.push(...replay(kernel, entityId, { branch_id: kernel.currentBranch }));
         const msg = substituted.message as string;
         const severity = (substituted.severity as string) ?? "info";
         const associatedRes = substituted.res as string;
@@ -2725,6 +3962,8 @@ function _executeSideEffects(
       }
       case "create_error": {
         const entityId = createEntity(kernel, ERROR_GENUS_ID);
+        context.created.push({ id: entityId });
+        tessellae.push(...replay(kernel, entityId, { branch_id: kernel.currentBranch }));
         const msg = substituted.message as string;
         const severity = (substituted.severity as string) ?? "error";
         const associatedRes = substituted.res as string;
@@ -2744,110 +3983,209 @@ function _executeSideEffects(
         if (substituted.target_agent_type) taskOpts.target_agent_type = substituted.target_agent_type as string;
         if (substituted.context_res_ids) taskOpts.context_res_ids = substituted.context_res_ids as string[];
         const taskId = createTask(kernel, title, taskOpts);
-        // Push attribute tessellae as representative
-        const taskTessellae = replay(kernel, taskId, { types: ["attribute_set"] });
-        tessellae.push(...taskTessellae);
+        context.created.push({ id: taskId });
+        tessellae.push(...replay(kernel, taskId, { branch_id: kernel.currentBranch }));
+        break;
+      }
+      case "create_relationship": {
+        const genusName = substituted.genus_name as string;
+        const genusId = findRelationshipGenusByName(kernel, genusName);
+        if (!genusId) throw new Error(`Relationship genus not found: ${genusName}`);
+        const relId = createRelationship(kernel, genusId, substituted.members as Record<string, string | string[]>, {
+          attributes: substituted.attributes as Record<string, unknown> | undefined,
+          branch_id: kernel.currentBranch,
+        });
+        context.created.push({ id: relId });
+        tessellae.push(...replay(kernel, relId, { branch_id: kernel.currentBranch }));
+        break;
+      }
+      case "add_member": {
+        const t = addMember(kernel, substituted.relationship as string, substituted.role as string, substituted.entity as string, { branch_id: kernel.currentBranch });
+        tessellae.push(t);
+        break;
+      }
+      case "remove_member": {
+        const t = removeMember(kernel, substituted.relationship as string, substituted.role as string, substituted.entity as string, { branch_id: kernel.currentBranch });
+        tessellae.push(t);
+        break;
+      }
+      case "create_feature": {
+        const genusName = substituted.genus_name as string;
+        const genusId = findFeatureGenusByName(kernel, genusName);
+        if (!genusId) throw new Error(`Feature genus not found: ${genusName}`);
+        const parent = substituted.res as string;
+        const mark = _lastTessellaId(kernel);
+        const featureId = createFeature(kernel, parent, genusId, { attributes: substituted.attributes as Record<string, unknown> | undefined });
+        context.created.push({ id: featureId, parent });
+        tessellae.push(...replay(kernel, parent, { branch_id: kernel.currentBranch, after: mark }));
+        break;
+      }
+      case "set_feature_attribute": {
+        const t = setFeatureAttribute(kernel, substituted.res as string, substituted.feature as string, substituted.key as string, substituted.value);
+        tessellae.push(t);
+        break;
+      }
+      case "transition_feature_status": {
+        const t = transitionFeatureStatus(kernel, substituted.res as string, substituted.feature as string, substituted.target as string);
+        tessellae.push(t);
+        break;
+      }
+      case "http_request": {
+        // Queued, not sent: the row commits or rolls back with the rest of the action
+        _enqueueOutbox(kernel, {
+          action_taken_id: context.action_taken_id,
+          res_id: (substituted.res as string | undefined) ?? Object.values(context.resources)[0],
+          method: substituted.method as string | undefined,
+          url: substituted.url as string,
+          headers: substituted.headers as Record<string, string> | undefined,
+          body: substituted.body,
+          max_attempts: substituted.max_attempts as number | undefined,
+        });
         break;
       }
       default:
-        throw new Error(`Unknown side effect type: "${type}". Valid types: set_attribute, transition_status, create_res, create_log, create_error, create_task`);
+        throw new Error(`Unknown side effect type: "${type}". Valid types: set_attribute, transition_status, create_res, create_log, create_error, create_task, create_relationship, add_member, remove_member, create_feature, set_feature_attribute, transition_feature_status, http_request, if, for_each`);
     }
   }
 
   return tessellae;
 }
 
+// Runs the handler (and any processes it triggers) inside a transaction that is
+// always rolled back, capturing what it wrote and what that would do to health
+function _previewAction(
+  kernel: Kernel,
+  actionDef: ActionDef,
+  resource_bindings: Record<string, string>,
+  context: EffectContext,
+): ExecuteActionResult {
+  const before = _lastTessellaId(kernel);
+  const rollback = new Error("dry run rollback");
+  let result: ExecuteActionResult = {};
+  try {
+    kernel.db.transaction(() => {
+      const tessellae = _executeSideEffects(kernel, actionDef.handler, context);
+      const contextResId = Object.keys(actionDef.resources).map((n) => resource_bindings[n]).find(Boolean);
+      const triggered = _fireActionTriggers(kernel, (actionDef.meta.name as string) ?? "", contextResId, kernel.currentBranch);
+
+      const written = (kernel.db.query("SELECT * FROM tessella WHERE id > ? ORDER BY id").all(before) as any[]).map(_rowToTessella);
+      const states: Record<string, Record<string, unknown>> = {};
+      const health_regressions: ActionPreview["health_regressions"] = [];
+      for (const res_id of new Set(written.map((t) => t.res_id))) {
+        states[res_id] = materialize(kernel, res_id, { branch_id: kernel.currentBranch });
+        let prior: HealthIssue[] = [];
+        try {
+          prior = evaluateHealth(kernel, res_id, { as_of: before }).issues;
+        } catch {
+          // Created by this action: everything it would report is new
+        }
+        const known = new Set(prior.map((i) => `${i.type}:${i.message}`));
+        const issues = evaluateHealth(kernel, res_id).issues.filter((i) => !known.has(`${i.type}:${i.message}`));
+        if (issues.length > 0) health_regressions.push({ res_id, issues });
+      }
+      const outbox = context.action_taken_id ? listOutbox(kernel, { action_taken_id: context.action_taken_id }) : [];
+      result = {
+        dry_run: true,
+        tessellae,
+        preview: { tessellae: written, states, health_regressions, triggered_processes: triggered, outbox },
+      };
+      throw rollback;
+    })();
+  } catch (e) {
+    if (e !== rollback) throw e;
+  }
+  return result;
+}
+
 // --- Orchestrator ---
 
+export function checkActionAvailability(
+  kernel: Kernel,
+  action_genus_id: string,
+  resource_bindings: Record<string, string>,
+  opts: { branch_id?: string; partial?: boolean } = {},
+): ActionAvailability {
+  const view = opts.branch_id && opts.branch_id !== kernel.currentBranch ? createKernelView(kernel, { branch: opts.branch_id }) : kernel;
+  const actionDef = getActionDef(kernel, action_genus_id);
+  const reasons = _actionGuardFailures(view, actionDef, _effectContext(view, resource_bindings, {}), opts.partial ?? false);
+  return { available: reasons.length === 0, reasons };
+}
+
 export function executeAction(
   kernel: Kernel,
   action_genus_id: string,
   resource_bindings: Record<string, string>,
   params: Record<string, unknown>,
-  opts: { source?: string; branch_id?: string } = {},
+  opts: { source?: string; branch_id?: string; dry_run?: boolean; idempotency_key?: string; idempotency_ttl_ms?: number } = {},
 ): ExecuteActionResult {
   const source = opts.source ?? "system";
-  const branch_id = opts.branch_id ?? "main";
+  const branch_id = opts.branch_id ?? kernel.currentBranch;
+  // Every write below goes through this view, so effects land on branch_id
+  const view = branch_id === kernel.currentBranch ? kernel : createKernelView(kernel, { branch: branch_id });
+  const key = opts.dry_run ? undefined : opts.idempotency_key;
 
   try {
-    // 1. Record push input
-    const input = recordInput(kernel, "push", source, {
-      action_genus_id,
-      resource_bindings,
-      params,
-    }, branch_id);
-
-    // 2. Load action def
-    const actionDef = getActionDef(kernel, action_genus_id);
-
-    // 3. Validate resource bindings
-    for (const [name, resDef] of Object.entries(actionDef.resources)) {
-      const resId = resource_bindings[name];
-      if (!resId) {
-        return { error: `Missing resource binding: ${name}` };
+    // 0. A key seen before returns the run it recorded
+    const pushed = { action_genus_id, resource_bindings, params };
+    if (key) {
+      const existing = _idempotentInput(kernel, key);
+      if (existing) {
+        if (existing.data !== JSON.stringify(pushed)) {
+          return { error: `Idempotency key "${key}" was already used for a different request` };
+        }
+        return _replayActionResult(kernel, JSON.parse(existing.result!));
       }
+    }
 
-      // Check res exists
-      let resRow: any;
-      try {
-        resRow = getRes(kernel, resId);
-      } catch {
-        return { error: `Resource "${name}" not found: ${resId}` };
-      }
+    // 1. Record push input (a dry run leaves no trace)
+    const input = opts.dry_run ? null : recordInput(kernel, "push", source, pushed, branch_id);
 
-      // Check genus matches
-      const genusDef = getGenusDef(kernel, resRow.genus_id);
-      const genusName = (genusDef.meta.name as string) ?? "";
-      if (genusName.toLowerCase() !== resDef.genus_name.toLowerCase()) {
-        return { error: `Resource "${name}" must be of genus "${resDef.genus_name}", got "${genusName}"` };
-      }
+    // 2. Load action def; defaults are filled in before anything reads params
+    const actionDef = getActionDef(kernel, action_genus_id);
+    const loop = _actionTriggerLoop(kernel, (actionDef.meta.name as string) ?? "");
+    if (loop) return { error: loop };
+    const paramDefs = Object.values(actionDef.parameters);
+    params = _applyParameterDefaults(paramDefs, params);
 
-      // Check required status
-      if (resDef.required_status) {
-        const state = materialize(kernel, resId, { branch_id });
-        const currentStatus = state.status as string | undefined;
-        if (currentStatus !== resDef.required_status) {
-          return { error: `Resource "${name}" must be in status "${resDef.required_status}", currently "${currentStatus}"` };
-        }
-      }
+    // 3. Check resource bindings and guards
+    const actionTakenId = ulid();
+    const context: EffectContext = { ..._effectContext(view, resource_bindings, params), action_taken_id: actionTakenId };
+    const failures = _actionGuardFailures(view, actionDef, context, false);
+    if (failures.length > 0) {
+      return { error: failures[0] };
     }
 
     // 4. Validate params
-    for (const [name, paramDef] of Object.entries(actionDef.parameters)) {
-      const value = params[name];
-      if (paramDef.required && (value === undefined || value === null)) {
-        return { error: `Missing required parameter: ${name}` };
-      }
-      if (value !== undefined && value !== null) {
-        if (!_validateAttributeType(value, paramDef.type)) {
-          return { error: `Parameter "${name}" type mismatch: expected ${paramDef.type}, got ${typeof value}` };
-        }
+    for (const paramDef of paramDefs) {
+      const value = params[paramDef.name];
+      if (value === undefined || value === null) {
+        if (paramDef.required) return { error: `Missing required parameter: ${paramDef.name}` };
+        continue;
       }
+      const problem = _parameterValueProblem(paramDef, value, paramDef.name);
+      if (problem) return { error: problem };
     }
 
-    // 5. Build substitution context
-    const now = new Date().toISOString();
-    const context = { params, resources: resource_bindings, now };
+    if (opts.dry_run) return _previewAction(view, actionDef, resource_bindings, context);
 
-    // 6. Execute side effects in transaction
+    // 5. Execute side effects in transaction
     let tessellae: Tessella[] = [];
     const runEffects = kernel.db.transaction(() => {
-      tessellae = _executeSideEffects(kernel, actionDef.handler, context);
+      tessellae = _executeSideEffects(view, actionDef.handler, context);
     });
     runEffects();
 
-    // 7. Record action_taken
-    const actionTakenId = ulid();
+    // 6. Record action_taken
     const tessellaeIds = tessellae.map((t) => t.id);
     kernel.db.run(
       "INSERT INTO action_taken (id, action_genus_id, input_id, resources, params, tessellae_ids, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?)",
-      [actionTakenId, action_genus_id, input.id, JSON.stringify(resource_bindings), JSON.stringify(params), JSON.stringify(tessellaeIds), branch_id],
+      [actionTakenId, action_genus_id, input!.id, JSON.stringify(resource_bindings), JSON.stringify(params), JSON.stringify(tessellaeIds), branch_id],
     );
 
     const actionTaken: ActionTaken = {
       id: actionTakenId,
       action_genus_id,
-      input_id: input.id,
+      input_id: input!.id,
       resources: resource_bindings,
       params,
       tessellae_ids: tessellaeIds,
@@ -2855,20 +4193,305 @@ export function executeAction(
       branch_id,
     };
 
-    return { action_taken: actionTaken, tessellae };
+    // 7. Start processes triggered by this action, bound to the first resource
+    const contextResId = Object.keys(actionDef.resources).map((n) => resource_bindings[n]).find(Boolean);
+    const triggered = _fireActionTriggers(kernel, (actionDef.meta.name as string) ?? "", contextResId, branch_id);
+
+    // 8. Only a run that went through claims the key, so a failed call can be retried
+    if (key) _claimIdempotencyKey(kernel, input!.id, key, { action_taken_id: actionTakenId, triggered_processes: triggered }, opts.idempotency_ttl_ms);
+
+    return { action_taken: actionTaken, tessellae, ...(triggered.length > 0 ? { triggered_processes: triggered } : {}) };
   } catch (e: any) {
     return { error: e.message ?? String(e) };
   }
 }
 
-// --- Action query helpers ---
-
-export function listActionGenera(kernel: Kernel, opts?: { taxonomy_id?: string }): ActionGenusSummary[] {
-  const rows = kernel.db.query(
-    "SELECT id FROM res WHERE genus_id = ? AND id != ? AND id != ? ORDER BY created_at ASC",
-  ).all(META_GENUS_ID, META_GENUS_ID, LOG_GENUS_ID) as { id: string }[];
+function _replayActionResult(kernel: Kernel, stored: { action_taken_id: string; triggered_processes: string[] }): ExecuteActionResult {
+  const actionTaken = _rowToActionTaken(kernel.db.query("SELECT * FROM action_taken WHERE id = ?").get(stored.action_taken_id));
+  const ids = actionTaken.tessellae_ids;
+  const tessellae = ids.length === 0 ? [] : (kernel.db.query(
+    `SELECT * FROM tessella WHERE id IN (${ids.map(() => "?").join(", ")}) ORDER BY id`,
+  ).all(...ids) as any[]).map(_rowToTessella);
+  return {
+    action_taken: actionTaken,
+    tessellae,
+    ...(stored.triggered_processes.length > 0 ? { triggered_processes: stored.triggered_processes } : {}),
+    replayed: true,
+  };
+}
 
-  const results: ActionGenusSummary[] = [];
+// Runs the action once per entity matching the query. Matches are collected
+// up front, so runs that change what the query would match don't skip or repeat.
+export function executeActionBulk(
+  kernel: Kernel,
+  action_genus_id: string,
+  opts: ExecuteActionBulkOptions,
+): ExecuteActionBulkResult {
+  const mode = opts.mode ?? "best_effort";
+  const empty: ExecuteActionBulkResult = { mode, matched: 0, total: 0, has_more: false, succeeded: 0, failed: 0, results: [] };
+  const branch_id = opts.branch_id ?? kernel.currentBranch;
+  const view = branch_id === kernel.currentBranch ? kernel : createKernelView(kernel, { branch: branch_id });
+
+  let actionDef: ActionDef;
+  try {
+    actionDef = getActionDef(kernel, action_genus_id);
+  } catch (e: any) {
+    return { ...empty, error: e.message ?? String(e) };
+  }
+  const slot = actionDef.resources[opts.resource];
+  if (!slot) {
+    return { ...empty, error: `Action has no resource "${opts.resource}". Resources: ${Object.keys(actionDef.resources).join(", ") || "(none)"}` };
+  }
+  const genusId = findGenusByName(kernel, slot.genus_name);
+  if (!genusId) return { ...empty, error: `Genus not found: ${slot.genus_name}` };
+
+  const page = queryEntities(view, { genus_id: genusId, status: opts.status, where: opts.where, limit: opts.limit ?? 500 });
+  const matches = page.entities.map((e) => e.id);
+  const total = page.total;
+  const has_more = total > matches.length;
+  const results: BulkActionItemResult[] = [];
+  const rollback = new Error("bulk action rollback");
+  const runAll = () => {
+    for (const res_id of matches) {
+      const result = executeAction(kernel, action_genus_id, { ...(opts.bindings ?? {}), [opts.resource]: res_id }, opts.params ?? {}, {
+        source: opts.source,
+        branch_id,
+      });
+      if (result.error) {
+        results.push({ res_id, error: result.error });
+        if (mode === "all_or_nothing") throw rollback;
+      } else {
+        results.push({ res_id, action_taken_id: result.action_taken!.id });
+      }
+    }
+  };
+
+  if (mode === "best_effort") {
+    runAll();
+  } else {
+    try {
+      kernel.db.transaction(runAll)();
+    } catch (e) {
+      if (e !== rollback) throw e;
+      // Nothing was kept: report the failure, and no action_taken ids that no longer exist
+      const failed = results[results.length - 1];
+      return { mode, matched: matches.length, total, has_more, succeeded: 0, failed: 1, results: [...results.slice(0, -1).map((r) => ({ res_id: r.res_id })), failed], rolled_back: true };
+    }
+  }
+
+  const failed = results.filter((r) => r.error).length;
+  return { mode, matched: matches.length, total, has_more, succeeded: results.length - failed, failed, results };
+}
+
+// --- Undo ---
+
+const _UNDOABLE_TESSELLA_TYPES = [
+  "created", "attribute_set", "attribute_removed", "status_changed",
+  "feature_created", "feature_attribute_set", "feature_status_changed", "member_added", "member_removed",
+];
+// Preferred end states for res an undone action created, in order
+const _RETIRED_STATES = ["retired", "archived", "cancelled"];
+
+function _rowToActionTaken(row: any): ActionTaken {
+  return {
+    id: row.id,
+    action_genus_id: row.action_genus_id,
+    input_id: row.input_id,
+    resources: JSON.parse(row.resources),
+    params: JSON.parse(row.params),
+    tessellae_ids: JSON.parse(row.tessellae_ids),
+    created_at: row.created_at,
+    branch_id: row.branch_id,
+    ...(row.undoes ? { undoes: row.undoes } : {}),
+  };
+}
+
+// The piece of state a tessella writes: an attribute name, "status",
+// features.<id>.<key> or members.<role>.<entity_id>
+function _tessellaKey(t: Tessella): string | null {
+  const data = t.data as Record<string, string>;
+  switch (t.type) {
+    case "status_changed": return "status";
+    case "attribute_set":
+    case "attribute_removed": return data.key;
+    case "feature_attribute_set": return `features.${data.feature_id}.${data.key}`;
+    case "feature_status_changed": return `features.${data.feature_id}.status`;
+    case "member_added":
+    case "member_removed": return `members.${data.role}.${data.entity_id}`;
+    default: return null;
+  }
+}
+
+// Genera without a state machine take a bare "retired" status; one with states
+// has to define where to retire to, since any other status fails its health check
+function _retiredStatus(genusDef: GenusDef): string | null {
+  if (Object.keys(genusDef.states).length === 0) return "retired";
+  return _RETIRED_STATES.find((s) => genusDef.states[s]) ?? null;
+}
+
+export function undoAction(
+  kernel: Kernel,
+  action_taken_id: string,
+  opts: { source?: string } = {},
+): UndoActionResult {
+  const source = opts.source ?? "system";
+
+  try {
+    const row = kernel.db.query("SELECT * FROM action_taken WHERE id = ?").get(action_taken_id);
+    if (!row) throw new Error(`Action taken not found: ${action_taken_id}`);
+    const original = _rowToActionTaken(row);
+    const prior = kernel.db.query("SELECT id FROM action_taken WHERE undoes = ?").get(action_taken_id) as { id: string } | null;
+    if (prior) throw new Error(`Action taken ${action_taken_id} was already undone by ${prior.id}`);
+    const branch_id = original.branch_id;
+
+    const ids = new Set(original.tessellae_ids);
+    const first = Math.min(...ids);
+    const last = Math.max(...ids);
+    const written = ids.size === 0 ? [] : (kernel.db.query(
+      "SELECT * FROM tessella WHERE id >= ? AND id <= ? AND branch_id = ? ORDER BY id",
+    ).all(first, last, branch_id) as any[])
+      .map(_rowToTessella)
+      .filter((t) => ids.has(t.id) && _UNDOABLE_TESSELLA_TYPES.includes(t.type));
+
+    // Res and features the action brought into being are retired; everything
+    // else it wrote gets its earlier value back
+    const created = new Set(written.filter((t) => t.type === "created").map((t) => t.res_id));
+    const createdFeatures = new Map<string, string>();
+    for (const t of written) {
+      if (t.type === "feature_created" && !created.has(t.res_id)) createdFeatures.set((t.data as { feature_id: string }).feature_id, t.res_id);
+    }
+    const ownedByCreatedFeature = (key: string) => [...createdFeatures.keys()].some((fid) => key.startsWith(`features.${fid}.`));
+    const touched = new Map<string, Map<string, Tessella>>();
+    for (const t of written) {
+      const key = _tessellaKey(t);
+      if (created.has(t.res_id) || key === null || ownedByCreatedFeature(key)) continue;
+      if (!touched.has(t.res_id)) touched.set(t.res_id, new Map());
+      touched.get(t.res_id)!.set(key, t);
+    }
+
+    // Anything written since on the same keys (or at all, on created res and features) would be clobbered
+    const conflicts: UndoConflict[] = [];
+    for (const res_id of new Set([...created, ...touched.keys(), ...createdFeatures.values()])) {
+      for (const t of replay(kernel, res_id, { branch_id, after: last })) {
+        const key = _tessellaKey(t) ?? t.type;
+        if (created.has(res_id) || touched.get(res_id)?.has(key) || ownedByCreatedFeature(key)) {
+          conflicts.push({ res_id, key, tessella_id: t.id });
+        }
+      }
+    }
+    if (conflicts.length > 0) {
+      const keys = [...new Set(conflicts.map((c) => `${c.res_id}.${c.key}`))].join(", ");
+      return { error: `Cannot undo ${action_taken_id}: later changes touched ${keys}`, conflicts };
+    }
+
+    const retireTo = new Map<string, string>();
+    const unretirable: string[] = [];
+    for (const [feature_id, parent] of createdFeatures) {
+      const features = (materialize(kernel, parent, { branch_id }).features ?? {}) as Record<string, Record<string, unknown>>;
+      const featureDef = getGenusDef(kernel, features[feature_id].genus_id as string);
+      const status = _retiredStatus(featureDef);
+      if (status) retireTo.set(feature_id, status);
+      else unretirable.push(`feature ${feature_id} (${featureDef.meta.name})`);
+    }
+    for (const res_id of created) {
+      const genusDef = getGenusDef(kernel, getRes(kernel, res_id).genus_id);
+      const status = _retiredStatus(genusDef);
+      if (status) retireTo.set(res_id, status);
+      else unretirable.push(`${res_id} (${genusDef.meta.name})`);
+    }
+    if (unretirable.length > 0) {
+      return { error: `Cannot undo ${action_taken_id}: no retired, archived or cancelled state to retire ${unretirable.join(", ")} into` };
+    }
+
+    const input = recordInput(kernel, "push", source, { undo: action_taken_id }, branch_id);
+    const tessellae: Tessella[] = [];
+    const append = (res_id: string, type: string, data: unknown) => {
+      tessellae.push(appendTessella(kernel, res_id, type, data, { branch_id, source }));
+    };
+    kernel.db.transaction(() => {
+      for (const [res_id, keys] of touched) {
+        const then = materialize(createKernelView(kernel, { branch: branch_id, as_of: first - 1 }), res_id, { branch_id });
+        const now = materialize(kernel, res_id, { branch_id });
+        const genusDef = getGenusDef(kernel, getRes(kernel, res_id).genus_id);
+        for (const [key, t] of keys) {
+          const data = t.data as Record<string, string>;
+          if (t.type === "member_added" || t.type === "member_removed") {
+            const was = ((then.members ?? {}) as Record<string, string[]>)[data.role]?.includes(data.entity_id) ?? false;
+            const is = ((now.members ?? {}) as Record<string, string[]>)[data.role]?.includes(data.entity_id) ?? false;
+            // Written directly: a swapped "one" member passes through zero or two members on the way back
+            if (was === is) continue;
+            append(res_id, was ? "member_added" : "member_removed", { role: data.role, entity_id: data.entity_id });
+            _updateRelationshipIndex(kernel, res_id, data.role, data.entity_id, was ? "insert" : "delete", branch_id);
+            continue;
+          }
+          if (t.type === "feature_attribute_set" || t.type === "feature_status_changed") {
+            const field = t.type === "feature_status_changed" ? "status" : data.key;
+            const earlier = ((then.features ?? {}) as Record<string, Record<string, unknown>>)[data.feature_id]?.[field];
+            const current = ((now.features ?? {}) as Record<string, Record<string, unknown>>)[data.feature_id]?.[field];
+            if (JSON.stringify(earlier) === JSON.stringify(current)) continue;
+            if (field === "status") append(res_id, "feature_status_changed", { feature_id: data.feature_id, status: earlier });
+            else append(res_id, "feature_attribute_set", { feature_id: data.feature_id, key: field, value: earlier ?? null });
+            continue;
+          }
+          if (JSON.stringify(then[key]) === JSON.stringify(now[key])) continue;
+          if (!(key in then)) {
+            append(res_id, "attribute_removed", { key });
+          } else if (key === "status") {
+            // Walk back along the state machine when it allows it, otherwise override
+            const reversible = genusDef.transitions.some((tr) => tr.from === now.status && tr.to === then.status);
+            if (reversible) tessellae.push(transitionStatus(kernel, res_id, then.status as string, { branch_id, source }));
+            else append(res_id, "status_changed", { status: then.status });
+          } else {
+            append(res_id, "attribute_set", { key, value: then[key] });
+          }
+        }
+      }
+      for (const [feature_id, parent] of createdFeatures) {
+        append(parent, "feature_status_changed", { feature_id, status: retireTo.get(feature_id) });
+      }
+      for (const res_id of created) {
+        append(res_id, "status_changed", { status: retireTo.get(res_id) });
+        // A retired relationship no longer links anything, whatever its role floors say
+        const members = (materialize(kernel, res_id, { branch_id }).members ?? {}) as Record<string, string[]>;
+        for (const [role, entityIds] of Object.entries(members)) {
+          for (const entity_id of entityIds) {
+            append(res_id, "member_removed", { role, entity_id });
+            _updateRelationshipIndex(kernel, res_id, role, entity_id, "delete", branch_id);
+          }
+        }
+      }
+    })();
+
+    const actionTaken: ActionTaken = {
+      id: ulid(),
+      action_genus_id: original.action_genus_id,
+      input_id: input.id,
+      resources: original.resources,
+      params: original.params,
+      tessellae_ids: tessellae.map((t) => t.id),
+      created_at: new Date().toISOString(),
+      branch_id,
+      undoes: action_taken_id,
+    };
+    kernel.db.run(
+      "INSERT INTO action_taken (id, action_genus_id, input_id, resources, params, tessellae_ids, branch_id, undoes) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      [actionTaken.id, actionTaken.action_genus_id, input.id, JSON.stringify(original.resources), JSON.stringify(original.params), JSON.stringify(actionTaken.tessellae_ids), branch_id, action_taken_id],
+    );
+
+    return { action_taken: actionTaken, tessellae };
+  } catch (e: any) {
+    return { error: e.message ?? String(e) };
+  }
+}
+
+// --- Action query helpers ---
+
+export function listActionGenera(kernel: Kernel, opts?: { taxonomy_id?: string }): ActionGenusSummary[] {
+  const rows = kernel.db.query(
+    "SELECT id FROM res WHERE genus_id = ? AND id != ? AND id != ? ORDER BY created_at ASC",
+  ).all(META_GENUS_ID, META_GENUS_ID, LOG_GENUS_ID) as { id: string }[];
+
+  const results: ActionGenusSummary[] = [];
   for (const row of rows) {
     const def = getActionDef(kernel, row.id);
     if (def.meta.kind === "action") {
@@ -2917,18 +4540,8 @@ export function getHistory(
 
   const tessIdToAction = new Map<number, ActionTaken>();
   for (const row of allActionTaken) {
-    const ids: number[] = JSON.parse(row.tessellae_ids);
-    const actionTaken: ActionTaken = {
-      id: row.id,
-      action_genus_id: row.action_genus_id,
-      input_id: row.input_id,
-      resources: JSON.parse(row.resources),
-      params: JSON.parse(row.params),
-      tessellae_ids: ids,
-      created_at: row.created_at,
-      branch_id: row.branch_id,
-    };
-    for (const tid of ids) {
+    const actionTaken = _rowToActionTaken(row);
+    for (const tid of actionTaken.tessellae_ids) {
       tessIdToAction.set(tid, actionTaken);
     }
   }
@@ -3096,12 +4709,7 @@ export function defineRelationshipGenus(
 
   if (opts.attributes) {
     for (const attr of opts.attributes) {
-      appendTessella(kernel, genusId, "genus_attribute_defined", {
-        name: attr.name,
-        type: attr.type,
-        required: attr.required ?? false,
-        ...(attr.default_value !== undefined ? { default_value: attr.default_value } : {}),
-      });
+      appendTessella(kernel, genusId, "genus_attribute_defined", _attributeDefinitionData(attr));
     }
   }
 
@@ -3144,15 +4752,14 @@ export function createRelationship(
   _validateMembers(kernel, genusDef, members);
 
   // Validate attributes upfront if provided
+  const attributes: Record<string, unknown> = {};
   if (opts?.attributes) {
     for (const [key, value] of Object.entries(opts.attributes)) {
       const attrDef = genusDef.attributes[key];
       if (!attrDef) {
         throw new Error(`Attribute "${key}" is not defined on relationship genus "${genusDef.meta.name}". Valid attributes: ${Object.keys(genusDef.attributes).join(", ") || "(none)"}`);
       }
-      if (!_validateAttributeType(value, attrDef.type)) {
-        throw new Error(`Type mismatch for attribute "${key}": expected ${attrDef.type}, got ${typeof value}`);
-      }
+      attributes[key] = _checkAttributeValue(kernel, key, attrDef, value, { res_id: null, genus_id, workspace_id: kernel.currentWorkspace });
     }
   }
 
@@ -3174,10 +4781,8 @@ export function createRelationship(
   }
 
   // Set initial attributes if provided
-  if (opts?.attributes) {
-    for (const [key, value] of Object.entries(opts.attributes)) {
-      appendTessella(kernel, relId, "attribute_set", { key, value }, { branch_id });
-    }
+  for (const [key, value] of Object.entries(attributes)) {
+    appendTessella(kernel, relId, "attribute_set", { key, value }, { branch_id });
   }
 
   return relId;
@@ -3280,8 +4885,11 @@ export function removeMember(
 export function getRelationshipsForEntity(
   kernel: Kernel,
   entity_id: string,
-  opts?: { genus_id?: string; role?: string; branch_id?: string },
+  opts?: { genus_id?: string; role?: string; branch_id?: string; as_of?: AsOf },
 ): RelationshipSummary[] {
+  if (opts?.as_of !== undefined) {
+    return getRelationshipsForEntity(createKernelView(kernel, { as_of: opts.as_of }), entity_id, { ...opts, as_of: undefined });
+  }
   const branch_id = opts?.branch_id ?? "main";
 
   let sql = "SELECT DISTINCT relationship_id FROM relationship_member WHERE entity_id = ? AND branch_id = ?";
@@ -3292,7 +4900,14 @@ export function getRelationshipsForEntity(
     params.push(opts.role);
   }
 
-  const rows = kernel.db.query(sql).all(...params) as { relationship_id: string }[];
+  // relationship_member only holds current membership; as-of views find every
+  // relationship the entity ever joined and check membership at that point
+  const upTo = kernel.asOf;
+  const rows = (upTo != null
+    ? kernel.db.query(
+      "SELECT DISTINCT res_id AS relationship_id FROM tessella WHERE type = 'member_added' AND json_extract(data, '$.entity_id') = ? AND id <= ?",
+    ).all(entity_id, upTo)
+    : kernel.db.query(sql).all(...params)) as { relationship_id: string }[];
 
   const results: RelationshipSummary[] = [];
   for (const row of rows) {
@@ -3300,6 +4915,11 @@ export function getRelationshipsForEntity(
     if (opts?.genus_id && resRow.genus_id !== opts.genus_id) continue;
 
     const state = materialize(kernel, row.relationship_id, { branch_id });
+    if (upTo != null) {
+      const members = (state.members as Record<string, string[]>) ?? {};
+      const roles = opts?.role ? [opts.role] : Object.keys(members);
+      if (!roles.some((role) => members[role]?.includes(entity_id))) continue;
+    }
     const genusDef = getGenusDef(kernel, resRow.genus_id);
 
     results.push({
@@ -3476,14 +5096,19 @@ export function findRelationshipGenusByName(kernel: Kernel, name: string): strin
 // Design notes:
 //   - _evaluateHealthPure is a pure function with no side effects.
 //   - evolveGenus is additive-only: it appends missing definitions but never
-//     removes or modifies existing ones.
+//     removes or modifies existing ones. The one widening it allows is adding
+//     enum values or reference target genera to an existing attribute, and
+//     adding constraints — which returns how many entities they would trip.
+//   - Constraints are checked on write and re-checked by evaluateHealth, so data
+//     written before a constraint existed shows up in listUnhealthy. Uniqueness
+//     is scoped to genus + workspace and does not apply to feature attributes.
 //   - Error genus uses state machine (open → acknowledged) unlike immutable Log.
 //
 
 // --- Types ---
 
 export interface HealthIssue {
-  type: "missing_required_attribute" | "invalid_attribute_type" | "invalid_status" | "unacknowledged_error";
+  type: "missing_required_attribute" | "invalid_attribute_type" | "invalid_attribute_value" | "dangling_reference" | "constraint_violation" | "invalid_status" | "unacknowledged_error";
   message: string;
   severity: "warning" | "error";
 }
@@ -3495,6 +5120,13 @@ export interface HealthReport {
   issues: HealthIssue[];
 }
 
+export interface EvolveGenusResult {
+  // Entities that were healthy before the evolution and are not after
+  newly_unhealthy: number;
+  // Per attribute whose constraints changed: entities whose current value violates them
+  constraint_violations: Record<string, number>;
+}
+
 export interface EvolveGenusOptions {
   attributes?: GenusAttributeDef[];
   states?: GenusStateDef[];
@@ -3518,7 +5150,7 @@ export function evolveGenus(
   kernel: Kernel,
   genus_id: string,
   opts: EvolveGenusOptions,
-): void {
+): EvolveGenusResult {
   // Validate genus exists
   const genusRow = kernel.db.query("SELECT id FROM res WHERE id = ?").get(genus_id) as any;
   if (!genusRow) {
@@ -3533,15 +5165,50 @@ export function evolveGenus(
   const ontologyId = (def.meta.taxonomy_id as string) ?? DEFAULT_TAXONOMY_ID;
   _checkTaxonomyNotArchived(kernel, ontologyId);
 
+  const result: EvolveGenusResult = { newly_unhealthy: 0, constraint_violations: {} };
+  const unhealthyIds = () => new Set(
+    listEntities(kernel, { genus_id, all_workspaces: true })
+      .filter((e) => !evaluateHealth(kernel, e.id).healthy)
+      .map((e) => e.id),
+  );
+  const unhealthyBefore = opts.attributes?.some((a) => a.constraints) ? unhealthyIds() : null;
+
   if (opts.attributes) {
+    validateAttributes(opts.attributes);
     for (const attr of opts.attributes) {
-      if (!def.attributes[attr.name]) {
-        appendTessella(kernel, genus_id, "genus_attribute_defined", {
-          name: attr.name,
-          type: attr.type,
-          required: attr.required ?? false,
-          ...(attr.default_value !== undefined ? { default_value: attr.default_value } : {}),
-        });
+      const existing = def.attributes[attr.name];
+      if (!existing) {
+        if (attr.constraints) result.constraint_violations[attr.name] = 0;
+        appendTessella(kernel, genus_id, "genus_attribute_defined", _attributeDefinitionData(attr));
+        continue;
+      }
+      let updated = existing;
+      // Enum values and reference targets only ever widen (union, case-insensitive for genera)
+      if (existing.type === "enum" && attr.type === "enum") {
+        const values = [...(existing.values ?? [])];
+        for (const v of attr.values ?? []) if (!values.includes(v)) values.push(v);
+        if (values.length !== (existing.values ?? []).length) updated = { ...updated, values };
+      } else if (existing.type === "reference" && attr.type === "reference" && (existing.target_genera ?? []).length > 0) {
+        const seen = new Set(existing.target_genera!.map((g) => g.toLowerCase()));
+        const targets = [...existing.target_genera!];
+        for (const g of attr.target_genera ?? []) {
+          if (!seen.has(g.toLowerCase())) { targets.push(g); seen.add(g.toLowerCase()); }
+        }
+        if (targets.length !== existing.target_genera!.length) updated = { ...updated, target_genera: targets };
+      }
+      // Constraints may be added or replaced key by key on an existing attribute
+      if (attr.constraints) {
+        if (attr.type !== existing.type) {
+          throw new Error(`Cannot add constraints to "${attr.name}": it is a ${existing.type} attribute, not ${attr.type}`);
+        }
+        const constraints = { ...existing.constraints, ...attr.constraints };
+        if (JSON.stringify(constraints) !== JSON.stringify(existing.constraints ?? {})) {
+          updated = { ...updated, constraints };
+          result.constraint_violations[attr.name] = 0;
+        }
+      }
+      if (updated !== existing) {
+        appendTessella(kernel, genus_id, "genus_attribute_defined", updated);
       }
     }
   }
@@ -3596,6 +5263,22 @@ export function evolveGenus(
       }
     }
   }
+
+  // Report what the new constraints mean for data already in the genus
+  const constrained = Object.keys(result.constraint_violations);
+  if (constrained.length > 0) {
+    const evolved = getGenusDef(kernel, genus_id);
+    for (const entity of listEntities(kernel, { genus_id, all_workspaces: true })) {
+      const scope = _attributeScope(kernel, entity.id);
+      for (const name of constrained) {
+        const attrDef = evolved.attributes[name];
+        if (_constraintProblem(kernel, attrDef, entity.state[name], scope)) result.constraint_violations[name]++;
+      }
+    }
+    const before = unhealthyBefore ?? new Set<string>();
+    result.newly_unhealthy = [...unhealthyIds()].filter((id) => !before.has(id)).length;
+  }
+  return result;
 }
 
 export function deprecateGenus(kernel: Kernel, genus_id: string): void {
@@ -3651,7 +5334,13 @@ function _evaluateHealthPure(
       if (!_validateAttributeType(val, attrDef.type)) {
         issues.push({
           type: "invalid_attribute_type",
-          message: `Attribute "${name}" has type ${typeof val}, expected ${attrDef.type}`,
+          message: `Attribute "${name}" has type ${typeof val}, expected ${_describeAttributeType(attrDef.type)}`,
+          severity: "warning",
+        });
+      } else if (attrDef.type === "enum" && attrDef.values && !attrDef.values.includes(val as string)) {
+        issues.push({
+          type: "invalid_attribute_value",
+          message: `Attribute "${name}" is "${val}", expected one of: ${attrDef.values.join(", ")}`,
           severity: "warning",
         });
       }
@@ -3673,13 +5362,43 @@ function _evaluateHealthPure(
   return issues;
 }
 
-export function evaluateHealth(kernel: Kernel, res_id: string): HealthReport {
+export function evaluateHealth(kernel: Kernel, res_id: string, opts: { as_of?: AsOf } = {}): HealthReport {
+  if (opts.as_of !== undefined) return evaluateHealth(createKernelView(kernel, { as_of: opts.as_of }), res_id);
   const res = getRes(kernel, res_id);
+  if (!_existedAsOf(kernel, res_id)) throw new Error(`Res ${res_id} did not exist as of tessella ${kernel.asOf}`);
   const genusDef = getGenusDef(kernel, res.genus_id);
   const state = materialize(kernel, res_id, { branch_id: kernel.currentBranch });
 
   const issues = _evaluateHealthPure(genusDef, state);
 
+  // Check reference attributes for targets that are gone or of the wrong genus
+  for (const [name, attrDef] of Object.entries(genusDef.attributes)) {
+    const val = state[name];
+    if (attrDef.type !== "reference" || typeof val !== "string" || val === "") continue;
+    const problem = _referenceProblem(kernel, attrDef, val);
+    if (problem) {
+      issues.push({
+        type: "dangling_reference",
+        message: `Attribute "${name}" ${problem}`,
+        severity: "error",
+      });
+    }
+  }
+
+  // Check declared constraints, including uniqueness against sibling entities
+  const scope = _attributeScope(kernel, res_id);
+  for (const [name, attrDef] of Object.entries(genusDef.attributes)) {
+    if (!attrDef.constraints || !_validateAttributeType(state[name], attrDef.type)) continue;
+    const problem = _constraintProblem(kernel, attrDef, state[name], scope);
+    if (problem) {
+      issues.push({
+        type: "constraint_violation",
+        message: `Attribute "${name}" ${problem}`,
+        severity: "warning",
+      });
+    }
+  }
+
   // Check for unacknowledged errors
   const errors = listErrors(kernel, { associated_res_id: res_id, status: "open" });
   for (const err of errors) {
@@ -3928,6 +5647,10 @@ export function listTasks(
 //     ],
 //   });
 //   const instance = startProcess(kernel, procGenus, { context_res_id: issueId });
+//   // Time-based steps: { type: "timer_step", timer_delay: "3d" } or
+//   // { type: "wait_step", wait_condition: { key: "status", op: "eq", value: "approved" },
+//   //   timer_until: "2026-10-23T17:00:00Z", wait_timeout_step: "escalate" }
+//   tickProcessWaits(kernel, now); // also called by tickCron
 //
 // Design notes:
 //   - Process genera use meta.kind = "process" (same pattern as action/feature).
@@ -3936,11 +5659,57 @@ export function listTasks(
 //   - Gate steps block until all named conditions (prior step names) are completed.
 //   - Immediate steps (action, fetch, gate, branch) execute synchronously;
 //     task steps create tasks and wait for completion.
+//   - Action triggers start an instance after executeAction succeeds, with the
+//     action's first bound resource as context_res_id. Condition triggers start
+//     an instance when setAttribute/transitionStatus make
+//     condition_attribute === condition_value (edge-triggered, main branch only),
+//     optionally scoped to genus_name.
+//   - Action triggers can chain (an action step runs an action that starts
+//     another process). executeAction refuses an action whose triggers are
+//     already firing further up the chain, or a chain deeper than
+//     _MAX_ACTION_TRIGGER_DEPTH, so a process cannot restart itself forever.
+//   - Instances record the branch they were started on (process_started.branch_id,
+//     absent for main). Action steps and fetch/branch reads use that branch; the
+//     instance's own tessellae stay on main so any session can follow it.
+//   - Timer and wait steps stay active with a step_waiting tessella recording
+//     wake_at / waiting_for. tickProcessWaits (run from tickCron) completes
+//     timers that are due and waits whose condition on the context entity now
+//     holds. A wait past its deadline jumps to wait_timeout_step, or fails.
+//     Conditions are polled, not pushed, so a wait resolves on the next tick.
+//   - subprocess_step starts another process genus (by name) on the parent's
+//     branch and waits. The child records parent_process_id/parent_step_name and
+//     the parent step records subprocess_id. When the child completes the step
+//     completes; when it fails or is cancelled the step fails. Cancelling a
+//     parent cancels its running children. A genus may not start itself, even
+//     through intermediate subprocesses.
+//   - Every step failure goes through _failStep. With retry_max_attempts the
+//     step goes back to pending with retry_at (step_retry_scheduled) and is
+//     rerun by _advanceProcess once due; tickProcessWaits wakes it. When the
+//     attempts run out the step fails, and on_failure routes the lane to a
+//     later step (step_failure_routed) instead of halting it. A route to the
+//     failing step or an earlier one is rejected by validateProcessDefinition
+//     and ignored at run time, so the lane halts. A failed step that is not
+//     routed halts its lane: later steps in it never start, other lanes run on,
+//     and the process fails once none of them has an active step. step_timeout
+//     fails a task or subprocess step that runs too long, cancelling its task
+//     or child. retryProcessStep/skipProcessStep reopen a failed step (and a
+//     process that failed because of it) by hand.
+//   - Definitions are versioned by the genus's latest tessella id. Instances pin
+//     the version they started with (process_started.def_version) and read it
+//     via materialize upTo, so evolveProcessGenus only affects new instances.
+//     migrateProcessInstance moves one instance forward, carrying step states
+//     over by name or through an explicit step_map.
+//   - Each instance has a variables bag (process_variable_set tessellae).
+//     fetch_step writes fetch_into; task_step and action_step write
+//     result_into (the task's result, or { action_taken_id, created } for an
+//     action). $var.X / $var.X.path is substituted into action_params,
+//     action_resource_bindings, task_title, task_description and
+//     branch_condition when the step runs.
 //
 
 // --- Types ---
 
-export type ProcessStepType = "action_step" | "task_step" | "fetch_step" | "gate_step" | "branch_step";
+export type ProcessStepType = "action_step" | "task_step" | "fetch_step" | "gate_step" | "branch_step" | "timer_step" | "wait_step" | "subprocess_step";
 
 export interface ProcessStepDef {
   name: string;
@@ -3956,6 +5725,9 @@ export interface ProcessStepDef {
   task_description?: string;
   task_priority?: string;
   task_target_agent_type?: string;
+  // task_step / action_step: variable that receives the task's result or the
+  // action's output ({ action_taken_id, created })
+  result_into?: string;
   // fetch_step
   fetch_source?: string;
   fetch_into?: string;
@@ -3965,6 +5737,25 @@ export interface ProcessStepDef {
   branch_condition?: string;
   branch_map?: Record<string, string>;
   branch_default?: string;
+  // timer_step: fires timer_delay after activation ("3d") or at timer_until (ISO).
+  // On a wait_step the same fields set an optional deadline.
+  timer_delay?: string;
+  timer_until?: string;
+  // wait_step
+  wait_condition?: AttributeQuery;
+  wait_timeout_step?: string;
+  // subprocess_step: process genus to start, and its context — "$context.res_id"
+  // (the default), "$context.<attribute>" holding a res id, or a literal res id
+  subprocess_name?: string;
+  subprocess_context?: string;
+  // Failure handling (any step that can fail): retry up to retry_max_attempts
+  // attempts in total, waiting retry_backoff ("30s") doubled per attempt, then
+  // jump to the on_failure step in the same lane instead of halting it.
+  // step_timeout fails a task_step or subprocess_step still running after it.
+  retry_max_attempts?: number;
+  retry_backoff?: string;
+  on_failure?: string;
+  step_timeout?: string;
 }
 
 export interface ProcessLaneDef {
@@ -3977,6 +5768,7 @@ export interface ProcessTriggerDef {
   action_name?: string;
   condition_attribute?: string;
   condition_value?: unknown;
+  genus_name?: string;
   cron_expression?: string;
 }
 
@@ -4003,13 +5795,34 @@ export interface ProcessStepStatus {
   started_at?: string;
   completed_at?: string;
   result?: unknown;
+  // timer_step / wait_step: when the step fires (or times out) and what it waits for
+  wake_at?: string;
+  waiting_for?: AttributeQuery;
+  // subprocess_step: the child process instance
+  subprocess_id?: string;
+  // Failure handling: failed attempts so far, when the next one is due
+  // (status stays "pending" until then), and the step a failure jumped to
+  attempts?: number;
+  retry_at?: string;
+  routed_to?: string;
 }
 
 export interface ProcessInstanceState {
   process_genus_id: string;
   context_res_id?: string;
+  // Branch the process's action steps write to; bookkeeping itself stays on main
+  branch_id?: string;
+  // Set when this instance was started by a parent's subprocess_step
+  parent_process_id?: string;
+  parent_step_name?: string;
+  // Definition version (genus tessella id) the instance runs; absent on
+  // instances started before versioning, which follow the latest definition
+  def_version?: number;
   status: "running" | "completed" | "failed" | "cancelled";
   steps: Record<string, ProcessStepStatus>;
+  // Values steps hand to later steps: fetch_into and result_into write here,
+  // $var.X reads
+  variables: Record<string, unknown>;
   started_at: string;
   completed_at?: string;
 }
@@ -4019,6 +5832,9 @@ export interface ProcessSummary {
   process_genus_id: string;
   process_name: string;
   context_res_id?: string;
+  parent_process_id?: string;
+  subprocess_ids?: string[];
+  def_version?: number;
   status: string;
   step_summary: { total: number; completed: number; active: number; pending: number; failed: number };
 }
@@ -4029,6 +5845,20 @@ export interface ProcessGenusSummary {
   def: ProcessDef;
 }
 
+export interface MigrateProcessInstanceOptions {
+  // Defaults to the latest definition
+  to_version?: number;
+  // Old step name -> new step name, or null to drop the step's state.
+  // Unmapped steps keep their name if the new definition still has it.
+  step_map?: Record<string, string | null>;
+}
+
+export interface ProcessWakeResult {
+  process_id: string;
+  step_name: string;
+  outcome: "elapsed" | "condition_met" | "timed_out" | "retried";
+}
+
 // --- Reducers ---
 
 export function processReducer(state: Record<string, unknown>, tessella: Tessella): Record<string, unknown> {
@@ -4066,13 +5896,18 @@ export function processInstanceReducer(state: Record<string, unknown>, tessella:
     case "created":
       return {};
     case "process_started": {
-      const { process_genus_id, context_res_id, started_at } = tessella.data as {
-        process_genus_id: string; context_res_id?: string; started_at: string;
+      const { process_genus_id, context_res_id, started_at, branch_id, parent_process_id, parent_step_name, def_version } = tessella.data as {
+        process_genus_id: string; context_res_id?: string; started_at: string; branch_id?: string;
+        parent_process_id?: string; parent_step_name?: string; def_version?: number;
       };
       return {
         ...state,
         process_genus_id,
         context_res_id,
+        branch_id,
+        parent_process_id,
+        parent_step_name,
+        def_version,
         status: "running",
         steps: {},
         started_at,
@@ -4081,7 +5916,9 @@ export function processInstanceReducer(state: Record<string, unknown>, tessella:
     case "step_activated": {
       const { step_name, started_at } = tessella.data as { step_name: string; started_at: string };
       const steps = { ...(state.steps as Record<string, ProcessStepStatus>) };
-      steps[step_name] = { ...(steps[step_name] ?? { step_name }), step_name, status: "active", started_at };
+      // A new attempt starts clean: drop the previous attempt's timing and outcome
+      const { retry_at: _retryAt, wake_at: _wakeAt, completed_at: _completedAt, result: _result, ...previous } = steps[step_name] ?? { step_name };
+      steps[step_name] = { ...previous, step_name, status: "active", started_at };
       return { ...state, steps };
     }
     case "step_completed": {
@@ -4091,9 +5928,28 @@ export function processInstanceReducer(state: Record<string, unknown>, tessella:
       return { ...state, steps };
     }
     case "step_failed": {
-      const { step_name, completed_at, result } = tessella.data as { step_name: string; completed_at: string; result?: unknown };
+      const { step_name, completed_at, result, attempts } = tessella.data as { step_name: string; completed_at: string; result?: unknown; attempts?: number };
       const steps = { ...(state.steps as Record<string, ProcessStepStatus>) };
-      steps[step_name] = { ...(steps[step_name] ?? { step_name }), step_name, status: "failed", completed_at, result };
+      steps[step_name] = {
+        ...(steps[step_name] ?? { step_name }),
+        step_name,
+        status: "failed",
+        completed_at,
+        result,
+        ...(attempts !== undefined ? { attempts } : {}),
+      };
+      return { ...state, steps };
+    }
+    case "step_retry_scheduled": {
+      const { step_name, attempts, retry_at, error } = tessella.data as { step_name: string; attempts: number; retry_at: string; error?: unknown };
+      const steps = { ...(state.steps as Record<string, ProcessStepStatus>) };
+      steps[step_name] = { ...(steps[step_name] ?? { step_name }), step_name, status: "pending", attempts, retry_at, result: error };
+      return { ...state, steps };
+    }
+    case "step_failure_routed": {
+      const { step_name, routed_to } = tessella.data as { step_name: string; routed_to: string };
+      const steps = { ...(state.steps as Record<string, ProcessStepStatus>) };
+      steps[step_name] = { ...(steps[step_name] ?? { step_name }), step_name, routed_to };
       return { ...state, steps };
     }
     case "step_skipped": {
@@ -4108,12 +5964,33 @@ export function processInstanceReducer(state: Record<string, unknown>, tessella:
       steps[step_name] = { ...(steps[step_name] ?? { step_name }), step_name, task_id };
       return { ...state, steps };
     }
+    case "step_waiting": {
+      const { step_name, wake_at, waiting_for } = tessella.data as { step_name: string; wake_at?: string; waiting_for?: AttributeQuery };
+      const steps = { ...(state.steps as Record<string, ProcessStepStatus>) };
+      steps[step_name] = {
+        ...(steps[step_name] ?? { step_name }),
+        step_name,
+        ...(wake_at ? { wake_at } : {}),
+        ...(waiting_for ? { waiting_for } : {}),
+      };
+      return { ...state, steps };
+    }
+    case "step_subprocess_started": {
+      const { step_name, subprocess_id } = tessella.data as { step_name: string; subprocess_id: string };
+      const steps = { ...(state.steps as Record<string, ProcessStepStatus>) };
+      steps[step_name] = { ...(steps[step_name] ?? { step_name }), step_name, subprocess_id };
+      return { ...state, steps };
+    }
     case "step_action_executed": {
       const { step_name, action_taken_id } = tessella.data as { step_name: string; action_taken_id: string };
       const steps = { ...(state.steps as Record<string, ProcessStepStatus>) };
       steps[step_name] = { ...(steps[step_name] ?? { step_name }), step_name, action_taken_id };
       return { ...state, steps };
     }
+    case "process_variable_set": {
+      const { key, value } = tessella.data as { key: string; value: unknown };
+      return { ...state, variables: { ...(state.variables as Record<string, unknown>), [key]: value } };
+    }
     case "gate_evaluated": {
       // gate_evaluated is just informational; step_completed/step_activated handle state
       return state;
@@ -4126,6 +6003,22 @@ export function processInstanceReducer(state: Record<string, unknown>, tessella:
       const { completed_at } = tessella.data as { completed_at: string; reason?: string };
       return { ...state, status: "failed", completed_at };
     }
+    case "process_migrated": {
+      const { to_version, step_map, skipped } = tessella.data as {
+        to_version: number; step_map: Record<string, string | null>; skipped: string[];
+      };
+      const steps: Record<string, ProcessStepStatus> = {};
+      for (const [name, status] of Object.entries(state.steps as Record<string, ProcessStepStatus>)) {
+        const target = step_map[name];
+        if (target) steps[target] = { ...status, step_name: target };
+      }
+      for (const name of skipped) steps[name] = { step_name: name, status: "skipped" };
+      return { ...state, steps, def_version: to_version };
+    }
+    case "process_resumed": {
+      const { completed_at: _completedAt, ...rest } = state;
+      return { ...rest, status: "running" };
+    }
     case "process_cancelled": {
       const { completed_at } = tessella.data as { completed_at: string; reason?: string };
       return { ...state, status: "cancelled", completed_at };
@@ -4137,8 +6030,8 @@ export function processInstanceReducer(state: Record<string, unknown>, tessella:
 
 // --- Core functions ---
 
-export function getProcessDef(kernel: Kernel, genus_id: string): ProcessDef {
-  const raw = materialize(kernel, genus_id, { branch_id: "main", reducer: processReducer });
+export function getProcessDef(kernel: Kernel, genus_id: string, opts?: { version?: number }): ProcessDef {
+  const raw = materialize(kernel, genus_id, { branch_id: "main", reducer: processReducer, upTo: opts?.version });
   return {
     lanes: (raw.lanes as Record<string, ProcessLaneDef>) ?? {},
     steps: (raw.steps as Record<string, ProcessStepDef>) ?? {},
@@ -4147,6 +6040,20 @@ export function getProcessDef(kernel: Kernel, genus_id: string): ProcessDef {
   };
 }
 
+// The definition's current version: the id of the genus's latest tessella
+export function getProcessDefVersion(kernel: Kernel, genus_id: string): number {
+  const row = kernel.db.query(
+    "SELECT MAX(id) AS version FROM tessella WHERE res_id = ? AND branch_id = 'main'",
+  ).get(genus_id) as { version: number | null };
+  if (row.version === null) throw new Error(`Process genus not found: ${genus_id}`);
+  return row.version;
+}
+
+// The definition an instance runs: the version it is pinned to
+function _instanceDef(kernel: Kernel, state: ProcessInstanceState): ProcessDef {
+  return getProcessDef(kernel, state.process_genus_id, { version: state.def_version });
+}
+
 export function defineProcessGenus(
   kernel: Kernel,
   name: string,
@@ -4221,7 +6128,7 @@ export function evolveProcessGenus(
 export function startProcess(
   kernel: Kernel,
   genus_id: string,
-  opts?: { context_res_id?: string },
+  opts?: { context_res_id?: string; branch_id?: string; parent_process_id?: string; parent_step_name?: string },
 ): { id: string; state: ProcessInstanceState } {
   // Verify this is a process genus
   const def = getProcessDef(kernel, genus_id);
@@ -4233,10 +6140,14 @@ export function startProcess(
   const instanceId = createRes(kernel, genus_id, "main", kernel.currentWorkspace);
   const now = new Date().toISOString();
 
+  const branch_id = opts?.branch_id ?? kernel.currentBranch;
   appendTessella(kernel, instanceId, "process_started", {
     process_genus_id: genus_id,
     context_res_id: opts?.context_res_id,
     started_at: now,
+    def_version: getProcessDefVersion(kernel, genus_id),
+    ...(branch_id !== "main" ? { branch_id } : {}),
+    ...(opts?.parent_process_id ? { parent_process_id: opts.parent_process_id, parent_step_name: opts.parent_step_name } : {}),
   });
 
   // Kick off the engine
@@ -4252,10 +6163,135 @@ export function cancelProcess(
   reason?: string,
 ): void {
   const now = new Date().toISOString();
+  const state = getProcessStatus(kernel, process_id);
   appendTessella(kernel, process_id, "process_cancelled", {
     completed_at: now,
     reason,
   });
+
+  // Cancellation flows down to running subprocesses and up to a waiting parent
+  for (const step of Object.values(state.steps)) {
+    if (step.status !== "active" || !step.subprocess_id) continue;
+    if (getProcessStatus(kernel, step.subprocess_id).status === "running") {
+      cancelProcess(kernel, step.subprocess_id, "Parent process cancelled");
+    }
+  }
+  _notifyParentProcess(kernel, process_id);
+}
+
+// Checks that step_name can be retried or skipped by hand, and reopens a
+// process that failed because of it
+function _reopenFailedStep(kernel: Kernel, process_id: string, step_name: string): ProcessDef {
+  const state = getProcessStatus(kernel, process_id);
+  if (state.status === "completed" || state.status === "cancelled") {
+    throw new Error(`Process ${process_id} is ${state.status}`);
+  }
+  const def = _instanceDef(kernel, state);
+  if (!def.steps[step_name]) throw new Error(`Step "${step_name}" not found in process ${process_id}`);
+
+  const stepStatus = state.steps[step_name];
+  const awaitingRetry = stepStatus?.status === "pending" && !!stepStatus.retry_at;
+  if (stepStatus?.status !== "failed" && !awaitingRetry) {
+    throw new Error(`Step "${step_name}" has not failed (status: ${stepStatus?.status ?? "pending"})`);
+  }
+  if (stepStatus.routed_to) {
+    throw new Error(`Step "${step_name}" already failed over to "${stepStatus.routed_to}"`);
+  }
+
+  if (state.status === "failed") {
+    appendTessella(kernel, process_id, "process_resumed", { resumed_at: new Date().toISOString() });
+  }
+  return def;
+}
+
+export function retryProcessStep(kernel: Kernel, process_id: string, step_name: string): ProcessInstanceState {
+  const def = _reopenFailedStep(kernel, process_id, step_name);
+  // A manual retry starts the step's retry policy over
+  appendTessella(kernel, process_id, "step_retry_scheduled", {
+    step_name,
+    attempts: 0,
+    retry_at: new Date().toISOString(),
+  });
+  _advanceProcess(kernel, process_id, def);
+  return getProcessStatus(kernel, process_id);
+}
+
+export function skipProcessStep(kernel: Kernel, process_id: string, step_name: string): ProcessInstanceState {
+  const def = _reopenFailedStep(kernel, process_id, step_name);
+  appendTessella(kernel, process_id, "step_skipped", { step_name });
+  _advanceProcess(kernel, process_id, def);
+  return getProcessStatus(kernel, process_id);
+}
+
+export function migrateProcessInstance(
+  kernel: Kernel,
+  process_id: string,
+  opts: MigrateProcessInstanceOptions = {},
+): ProcessInstanceState {
+  const state = getProcessStatus(kernel, process_id);
+  if (state.status !== "running") throw new Error(`Process ${process_id} is ${state.status}`);
+
+  const latest = getProcessDefVersion(kernel, state.process_genus_id);
+  const to_version = opts.to_version ?? latest;
+  if (to_version > latest) throw new Error(`Version ${to_version} does not exist (latest is ${latest})`);
+  const from_version = state.def_version;
+  if (from_version === to_version) throw new Error(`Process ${process_id} already runs version ${to_version}`);
+
+  const oldDef = _instanceDef(kernel, state);
+  const newDef = getProcessDef(kernel, state.process_genus_id, { version: to_version });
+  if (newDef.meta.kind !== "process") throw new Error(`Version ${to_version} is not a process definition`);
+
+  const step_map: Record<string, string | null> = {};
+  const mappedFrom = new Map<string, string>();
+  for (const [name, status] of Object.entries(state.steps)) {
+    const explicit = opts.step_map && name in opts.step_map;
+    const target = explicit ? opts.step_map![name] : (newDef.steps[name] ? name : null);
+    if (target !== null && !newDef.steps[target]) {
+      throw new Error(`Step map target "${target}" (from "${name}") is not in version ${to_version}`);
+    }
+    if (target === null) {
+      // Finished steps may simply disappear; in-flight ones need somewhere to go
+      if (status.status === "active" || status.status === "pending") {
+        throw new Error(`Step "${name}" is ${status.status} and has no counterpart in version ${to_version}; map it with step_map`);
+      }
+    } else {
+      if (mappedFrom.has(target)) {
+        throw new Error(`Steps "${mappedFrom.get(target)}" and "${name}" both map to "${target}"`);
+      }
+      mappedFrom.set(target, name);
+      const oldType = oldDef.steps[name]?.type;
+      if (status.status === "active" && oldType && oldType !== newDef.steps[target].type) {
+        throw new Error(`Active ${oldType} "${name}" cannot become ${newDef.steps[target].type} "${target}"`);
+      }
+    }
+    step_map[name] = target;
+  }
+
+  // Steps the new definition places before a lane's progress would otherwise
+  // run out of order next to it, so they are recorded as skipped
+  const skipped: string[] = [];
+  const laneSteps = new Map<string, ProcessStepDef[]>();
+  for (const step of Object.values(newDef.steps)) {
+    const arr = laneSteps.get(step.lane) ?? [];
+    arr.push(step);
+    laneSteps.set(step.lane, arr);
+  }
+  for (const steps of laneSteps.values()) {
+    steps.sort((a, b) => a.position - b.position);
+    const lastReached = steps.map((st) => mappedFrom.has(st.name)).lastIndexOf(true);
+    for (let i = 0; i < lastReached; i++) {
+      if (!mappedFrom.has(steps[i].name)) skipped.push(steps[i].name);
+    }
+  }
+
+  appendTessella(kernel, process_id, "process_migrated", {
+    ...(from_version !== undefined ? { from_version } : {}),
+    to_version,
+    step_map,
+    skipped,
+  });
+  _advanceProcess(kernel, process_id, newDef);
+  return getProcessStatus(kernel, process_id);
 }
 
 export function getProcessStatus(kernel: Kernel, process_id: string): ProcessInstanceState {
@@ -4263,8 +6299,14 @@ export function getProcessStatus(kernel: Kernel, process_id: string): ProcessIns
   return {
     process_genus_id: (raw.process_genus_id as string) ?? "",
     context_res_id: raw.context_res_id as string | undefined,
+    ...(raw.branch_id ? { branch_id: raw.branch_id as string } : {}),
+    ...(raw.parent_process_id
+      ? { parent_process_id: raw.parent_process_id as string, parent_step_name: raw.parent_step_name as string }
+      : {}),
+    ...(raw.def_version !== undefined ? { def_version: raw.def_version as number } : {}),
     status: (raw.status as ProcessInstanceState["status"]) ?? "running",
     steps: (raw.steps as Record<string, ProcessStepStatus>) ?? {},
+    variables: (raw.variables as Record<string, unknown>) ?? {},
     started_at: (raw.started_at as string) ?? "",
     completed_at: raw.completed_at as string | undefined,
   };
@@ -4325,14 +6367,18 @@ export function listProcesses(
       if (opts?.context_res_id && state.context_res_id !== opts.context_res_id) continue;
 
       const stepValues = Object.values(state.steps);
-      const def = getProcessDef(kernel, gid);
+      const def = _instanceDef(kernel, state);
       const totalSteps = Object.keys(def.steps).length;
+      const subprocessIds = stepValues.filter((s) => s.subprocess_id).map((s) => s.subprocess_id!);
 
       results.push({
         id: inst.id,
         process_genus_id: gid,
         process_name: genusNameMap.get(gid) ?? "",
         context_res_id: state.context_res_id,
+        ...(state.parent_process_id ? { parent_process_id: state.parent_process_id } : {}),
+        ...(subprocessIds.length > 0 ? { subprocess_ids: subprocessIds } : {}),
+        ...(state.def_version !== undefined ? { def_version: state.def_version } : {}),
         status: state.status,
         step_summary: {
           total: totalSteps,
@@ -4349,44 +6395,119 @@ export function listProcesses(
 
 // --- Step execution helpers ---
 
+function _resolveProcessVar(variables: Record<string, unknown>, path: string): unknown {
+  let value: unknown = variables;
+  for (const segment of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+// $var.X (or $var.X.field.0) — a whole-string token keeps the value's type,
+// embedded tokens are coerced to strings, as with $param in action handlers
+function _substituteProcessVars(value: unknown, variables: Record<string, unknown>): unknown {
+  if (typeof value === "string") {
+    const varMatch = value.match(/^\$var\.(\w+(?:\.\w+)*)$/);
+    if (varMatch) return _resolveProcessVar(variables, varMatch[1]);
+    return value.replace(/\$var\.(\w+(?:\.\w+)*)/g, (_, path) => {
+      const resolved = _resolveProcessVar(variables, path);
+      if (resolved === undefined || resolved === null) return "";
+      return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => _substituteProcessVars(v, variables));
+  if (value !== null && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      result[k] = _substituteProcessVars(v, variables);
+    }
+    return result;
+  }
+  return value;
+}
+
+function _setProcessVariable(kernel: Kernel, process_id: string, key: string | undefined, value: unknown): void {
+  if (!key) return;
+  appendTessella(kernel, process_id, "process_variable_set", { key, value: value ?? null });
+}
+
+// Every step failure goes through here so retry policies and failure routes
+// apply uniformly. Callers stop the lane; _advanceProcess picks up whatever
+// was scheduled (an immediate retry, or the on_failure step).
+function _failStep(
+  kernel: Kernel,
+  process_id: string,
+  step: ProcessStepDef,
+  def: ProcessDef,
+  reason: unknown,
+  at: Date = new Date(),
+): void {
+  const attempts = (getProcessStatus(kernel, process_id).steps[step.name]?.attempts ?? 0) + 1;
+  const maxAttempts = step.retry_max_attempts ?? 1;
+  if (attempts < maxAttempts) {
+    const backoff = step.retry_backoff ? parseDelay(step.retry_backoff) * 2 ** (attempts - 1) : 0;
+    appendTessella(kernel, process_id, "step_retry_scheduled", {
+      step_name: step.name,
+      attempts,
+      retry_at: new Date(at.getTime() + backoff).toISOString(),
+      error: reason,
+    });
+    return;
+  }
+
+  appendTessella(kernel, process_id, "step_failed", {
+    step_name: step.name,
+    completed_at: at.toISOString(),
+    result: reason,
+    ...(maxAttempts > 1 ? { attempts } : {}),
+  });
+  // Only a later step in the same lane can take over; anything else would skip the rest of the lane
+  const target = step.on_failure ? def.steps[step.on_failure] : undefined;
+  if (step.on_failure && target && target.lane === step.lane && target.position > step.position) {
+    _skipLaneStepsUntil(kernel, process_id, step, step.on_failure, def);
+    appendTessella(kernel, process_id, "step_failure_routed", { step_name: step.name, routed_to: step.on_failure });
+  }
+}
+
+// Completed, skipped, or failed but routed elsewhere: the lane moves past it
+function _stepSettled(status: ProcessStepStatus | undefined): boolean {
+  if (!status) return false;
+  return status.status === "completed" || status.status === "skipped" || (status.status === "failed" && !!status.routed_to);
+}
+
 function _executeActionStep(
   kernel: Kernel,
   process_id: string,
   step: ProcessStepDef,
   instanceState: ProcessInstanceState,
+  def: ProcessDef,
+  at: Date,
 ): boolean {
   const actionId = findActionByName(kernel, step.action_name ?? "");
   if (!actionId) {
-    const now = new Date().toISOString();
-    appendTessella(kernel, process_id, "step_failed", {
-      step_name: step.name,
-      completed_at: now,
-      result: `Action not found: ${step.action_name}`,
-    });
+    _failStep(kernel, process_id, step, def, `Action not found: ${step.action_name}`, at);
     return false;
   }
 
-  // Build resource bindings — substitute $context.res_id
+  // Build resource bindings — substitute $context.res_id and $var.X
   const bindings: Record<string, string> = {};
   if (step.action_resource_bindings) {
     for (const [key, val] of Object.entries(step.action_resource_bindings)) {
       if (val === "$context.res_id" && instanceState.context_res_id) {
         bindings[key] = instanceState.context_res_id;
       } else {
-        bindings[key] = val;
+        bindings[key] = String(_substituteProcessVars(val, instanceState.variables) ?? "");
       }
     }
   }
+  const params = _substituteProcessVars(step.action_params ?? {}, instanceState.variables) as Record<string, unknown>;
 
-  const result = executeAction(kernel, actionId, bindings, step.action_params ?? {});
+  const result = executeAction(kernel, actionId, bindings, params, { branch_id: instanceState.branch_id ?? "main" });
   const now = new Date().toISOString();
 
   if (result.error) {
-    appendTessella(kernel, process_id, "step_failed", {
-      step_name: step.name,
-      completed_at: now,
-      result: result.error,
-    });
+    _failStep(kernel, process_id, step, def, result.error, at);
     return false;
   }
 
@@ -4394,6 +6515,10 @@ function _executeActionStep(
     step_name: step.name,
     action_taken_id: result.action_taken!.id,
   });
+  _setProcessVariable(kernel, process_id, step.result_into, {
+    action_taken_id: result.action_taken!.id,
+    created: (result.tessellae ?? []).filter((t) => t.type === "created").map((t) => t.res_id),
+  });
   appendTessella(kernel, process_id, "step_completed", {
     step_name: step.name,
     completed_at: now,
@@ -4411,13 +6536,16 @@ function _executeTaskStep(
     context_res_ids: [process_id],
     priority: step.task_priority,
     target_agent_type: step.task_target_agent_type,
-    description: step.task_description,
+    description: step.task_description !== undefined
+      ? String(_substituteProcessVars(step.task_description, instanceState.variables))
+      : undefined,
   };
   if (instanceState.context_res_id) {
     taskOpts.associated_res_id = instanceState.context_res_id;
   }
 
-  const taskId = createTask(kernel, step.task_title ?? step.name, taskOpts);
+  const title = String(_substituteProcessVars(step.task_title ?? step.name, instanceState.variables) ?? "");
+  const taskId = createTask(kernel, title, taskOpts);
   setAttribute(kernel, taskId, "step_name", step.name);
   setAttribute(kernel, taskId, "lane_name", step.lane);
   appendTessella(kernel, process_id, "step_task_created", {
@@ -4434,9 +6562,10 @@ function _executeFetchStep(
 ): void {
   let value: unknown;
   if (step.fetch_source && instanceState.context_res_id) {
-    const contextState = materialize(kernel, instanceState.context_res_id);
+    const contextState = materialize(kernel, instanceState.context_res_id, { branch_id: instanceState.branch_id ?? "main" });
     value = contextState[step.fetch_source];
   }
+  _setProcessVariable(kernel, process_id, step.fetch_into, value);
 
   const now = new Date().toISOString();
   appendTessella(kernel, process_id, "step_completed", {
@@ -4454,8 +6583,10 @@ function _executeBranchStep(
   def: ProcessDef,
 ): void {
   let conditionValue: string | undefined;
-  if (step.branch_condition && instanceState.context_res_id) {
-    const contextState = materialize(kernel, instanceState.context_res_id);
+  if (step.branch_condition?.includes("$var.")) {
+    conditionValue = String(_substituteProcessVars(step.branch_condition, instanceState.variables) ?? "");
+  } else if (step.branch_condition && instanceState.context_res_id) {
+    const contextState = materialize(kernel, instanceState.context_res_id, { branch_id: instanceState.branch_id ?? "main" });
     conditionValue = String(contextState[step.branch_condition] ?? "");
   }
 
@@ -4463,21 +6594,7 @@ function _executeBranchStep(
   const target = (step.branch_map && conditionValue && step.branch_map[conditionValue])
     ?? step.branch_default;
 
-  if (target) {
-    // Skip steps in this lane between current and target
-    const laneSteps = Object.values(def.steps)
-      .filter((s) => s.lane === step.lane)
-      .sort((a, b) => a.position - b.position);
-
-    let skipping = false;
-    for (const ls of laneSteps) {
-      if (ls.name === step.name) { skipping = true; continue; }
-      if (ls.name === target) break;
-      if (skipping) {
-        appendTessella(kernel, process_id, "step_skipped", { step_name: ls.name });
-      }
-    }
-  }
+  if (target) _skipLaneStepsUntil(kernel, process_id, step, target, def);
 
   const now = new Date().toISOString();
   appendTessella(kernel, process_id, "step_completed", {
@@ -4487,17 +6604,230 @@ function _executeBranchStep(
   });
 }
 
+function _skipLaneStepsUntil(
+  kernel: Kernel,
+  process_id: string,
+  step: ProcessStepDef,
+  target: string,
+  def: ProcessDef,
+): void {
+  // Skip steps in this lane between current and target
+  const laneSteps = Object.values(def.steps)
+    .filter((s) => s.lane === step.lane)
+    .sort((a, b) => a.position - b.position);
+
+  let skipping = false;
+  for (const ls of laneSteps) {
+    if (ls.name === step.name) { skipping = true; continue; }
+    if (ls.name === target) break;
+    if (skipping) {
+      appendTessella(kernel, process_id, "step_skipped", { step_name: ls.name });
+    }
+  }
+}
+
+function _waitDeadline(step: ProcessStepDef, from: Date): string | undefined {
+  if (step.timer_until) return new Date(step.timer_until).toISOString();
+  if (step.timer_delay) return new Date(from.getTime() + parseDelay(step.timer_delay)).toISOString();
+  return undefined;
+}
+
+function _waitConditionMet(kernel: Kernel, step: ProcessStepDef, instanceState: ProcessInstanceState): boolean {
+  const contextState = materialize(kernel, instanceState.context_res_id!, { branch_id: instanceState.branch_id ?? "main" });
+  return _matchesAttributeQuery(contextState, step.wait_condition!);
+}
+
+// Returns true when the step finished on activation and the lane can move on
+function _executeWaitStep(
+  kernel: Kernel,
+  process_id: string,
+  step: ProcessStepDef,
+  instanceState: ProcessInstanceState,
+  def: ProcessDef,
+  at: Date,
+): boolean {
+  const now = at.toISOString();
+  if (step.type === "wait_step") {
+    if (!instanceState.context_res_id) {
+      _failStep(kernel, process_id, step, def, "wait_step requires a context entity", at);
+      return false;
+    }
+    if (_waitConditionMet(kernel, step, instanceState)) {
+      appendTessella(kernel, process_id, "step_completed", { step_name: step.name, completed_at: now, result: "condition_met" });
+      return true;
+    }
+  }
+
+  const wake_at = _waitDeadline(step, at);
+  if (step.type === "timer_step" && wake_at! <= now) {
+    appendTessella(kernel, process_id, "step_completed", { step_name: step.name, completed_at: now, result: "elapsed" });
+    return true;
+  }
+  appendTessella(kernel, process_id, "step_waiting", {
+    step_name: step.name,
+    ...(wake_at ? { wake_at } : {}),
+    ...(step.type === "wait_step" ? { waiting_for: step.wait_condition } : {}),
+  });
+  return false;
+}
+
+// Settles one waiting step at time `at`; returns the outcome, or null if it keeps waiting
+function _resumeWaitStep(
+  kernel: Kernel,
+  process_id: string,
+  step: ProcessStepDef,
+  instanceState: ProcessInstanceState,
+  def: ProcessDef,
+  at: Date,
+): ProcessWakeResult["outcome"] | null {
+  const now = at.toISOString();
+  const stepStatus = instanceState.steps[step.name];
+
+  if (step.type === "wait_step" && _waitConditionMet(kernel, step, instanceState)) {
+    appendTessella(kernel, process_id, "step_completed", { step_name: step.name, completed_at: now, result: "condition_met" });
+    return "condition_met";
+  }
+  if (!stepStatus.wake_at || stepStatus.wake_at > now) return null;
+
+  if (step.type === "task_step" || step.type === "subprocess_step") {
+    _failStep(kernel, process_id, step, def, `Timed out after ${step.step_timeout}`, at);
+    // Close what the step was waiting on so it cannot settle the step later
+    if (step.type === "task_step" && stepStatus.task_id) cancelTask(kernel, stepStatus.task_id);
+    if (step.type === "subprocess_step" && stepStatus.subprocess_id
+      && getProcessStatus(kernel, stepStatus.subprocess_id).status === "running") {
+      cancelProcess(kernel, stepStatus.subprocess_id, "Parent step timed out");
+    }
+    return "timed_out";
+  }
+
+  if (step.type === "timer_step") {
+    appendTessella(kernel, process_id, "step_completed", { step_name: step.name, completed_at: now, result: "elapsed" });
+    return "elapsed";
+  }
+
+  // Wait step deadline passed: jump to the timeout step if there is one, otherwise fail the lane
+  if (step.wait_timeout_step) {
+    _skipLaneStepsUntil(kernel, process_id, step, step.wait_timeout_step, def);
+    appendTessella(kernel, process_id, "step_completed", { step_name: step.name, completed_at: now, result: "timed_out" });
+  } else {
+    _failStep(kernel, process_id, step, def, `Timed out waiting for ${_describeAttributeQuery(step.wait_condition!)}`, at);
+  }
+  return "timed_out";
+}
+
+// task_step / subprocess_step: record when the step times out, for tickProcessWaits
+function _armStepTimeout(kernel: Kernel, process_id: string, step: ProcessStepDef, at: Date): void {
+  if (!step.step_timeout) return;
+  const wake_at = new Date(at.getTime() + parseDelay(step.step_timeout)).toISOString();
+  appendTessella(kernel, process_id, "step_waiting", { step_name: step.name, wake_at });
+}
+
+// Returns true when the child finished on start and the lane can move on
+function _executeSubprocessStep(
+  kernel: Kernel,
+  process_id: string,
+  step: ProcessStepDef,
+  instanceState: ProcessInstanceState,
+  def: ProcessDef,
+  at: Date,
+): boolean {
+  const fail = (reason: string): false => {
+    _failStep(kernel, process_id, step, def, reason, at);
+    return false;
+  };
+
+  const childGenusId = findProcessGenusByName(kernel, step.subprocess_name ?? "");
+  if (!childGenusId) return fail(`Process not found: ${step.subprocess_name}`);
+
+  // A process may not (transitively) start itself
+  let ancestor: ProcessInstanceState | undefined = instanceState;
+  while (ancestor) {
+    if (ancestor.process_genus_id === childGenusId) {
+      return fail(`Subprocess "${step.subprocess_name}" would start itself recursively`);
+    }
+    ancestor = ancestor.parent_process_id ? getProcessStatus(kernel, ancestor.parent_process_id) : undefined;
+  }
+
+  let context_res_id: string | undefined;
+  const ref = step.subprocess_context ?? "$context.res_id";
+  if (ref === "$context.res_id") {
+    context_res_id = instanceState.context_res_id;
+  } else if (ref.startsWith("$context.")) {
+    if (!instanceState.context_res_id) return fail(`${ref} needs a context entity`);
+    const contextState = materialize(kernel, instanceState.context_res_id, { branch_id: instanceState.branch_id ?? "main" });
+    const value = contextState[ref.slice("$context.".length)];
+    if (typeof value !== "string" || !value) return fail(`${ref} is not set on the context entity`);
+    context_res_id = value;
+  } else {
+    context_res_id = ref;
+  }
+
+  const child = startProcess(kernel, childGenusId, {
+    context_res_id,
+    branch_id: instanceState.branch_id ?? "main",
+    parent_process_id: process_id,
+    parent_step_name: step.name,
+  });
+  appendTessella(kernel, process_id, "step_subprocess_started", { step_name: step.name, subprocess_id: child.id });
+
+  // The child can finish synchronously (only immediate steps); the link above
+  // did not exist yet, so _notifyParentProcess skipped it and we settle here
+  if (child.state.status === "running") {
+    _armStepTimeout(kernel, process_id, step, at);
+    return false;
+  }
+  return _settleSubprocessStep(kernel, process_id, step, def, child.id, child.state.status);
+}
+
+function _settleSubprocessStep(
+  kernel: Kernel,
+  process_id: string,
+  step: ProcessStepDef,
+  def: ProcessDef,
+  subprocess_id: string,
+  childStatus: ProcessInstanceState["status"],
+): boolean {
+  if (childStatus === "completed") {
+    const now = new Date().toISOString();
+    appendTessella(kernel, process_id, "step_completed", { step_name: step.name, completed_at: now, result: subprocess_id });
+    return true;
+  }
+  _failStep(kernel, process_id, step, def, `Subprocess ${subprocess_id} ${childStatus === "cancelled" ? "was cancelled" : "failed"}`);
+  return false;
+}
+
+// Called when an instance finishes: resumes (or fails) the parent step waiting on it
+function _notifyParentProcess(kernel: Kernel, process_id: string): void {
+  const childState = getProcessStatus(kernel, process_id);
+  if (!childState.parent_process_id || !childState.parent_step_name) return;
+
+  const parentState = getProcessStatus(kernel, childState.parent_process_id);
+  if (parentState.status !== "running") return;
+  // Found by subprocess_id, not parent_step_name: a migration may have renamed the step
+  const parentStep = Object.values(parentState.steps).find((s) => s.subprocess_id === process_id);
+  if (!parentStep || parentStep.status !== "active") return;
+
+  const parentDef = _instanceDef(kernel, parentState);
+  const step = parentDef.steps[parentStep.step_name];
+  if (!step) return;
+  _settleSubprocessStep(kernel, childState.parent_process_id, step, parentDef, process_id, childState.status);
+  _advanceProcess(kernel, childState.parent_process_id, parentDef);
+}
+
 // --- Core engine ---
 
-function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef): void {
+function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef, at?: Date): void {
   const instanceState = getProcessStatus(kernel, process_id);
   if (instanceState.status !== "running") return;
 
   if (!def) {
-    def = getProcessDef(kernel, instanceState.process_genus_id);
+    def = _instanceDef(kernel, instanceState);
   }
 
-  const now = new Date().toISOString();
+  // `at` is the tick time when a timer or wait step resumed the process, so
+  // timers activated next are measured from the same clock
+  const clock = at ?? new Date();
+  const now = clock.toISOString();
   let madeProgress = false;
 
   // Group steps by lane, sorted by position
@@ -4516,13 +6846,18 @@ function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef):
     for (const step of steps) {
       const stepStatus = instanceState.steps[step.name];
 
-      // Skip already completed/skipped/failed steps
-      if (stepStatus && (stepStatus.status === "completed" || stepStatus.status === "skipped" || stepStatus.status === "failed")) {
+      // Skip already completed/skipped steps (and failures routed elsewhere)
+      if (_stepSettled(stepStatus)) {
         continue;
       }
 
-      // Active step blocks further progress in this lane
-      if (stepStatus && stepStatus.status === "active") {
+      // Active step blocks further progress in this lane; a failed one halts it
+      if (stepStatus && (stepStatus.status === "active" || stepStatus.status === "failed")) {
+        break;
+      }
+
+      // A step waiting out its retry backoff holds the lane until it is due
+      if (stepStatus?.retry_at && stepStatus.retry_at > now) {
         break;
       }
 
@@ -4555,7 +6890,7 @@ function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef):
       if (step.type === "action_step") {
         // Re-read state after activation
         const freshState = getProcessStatus(kernel, process_id);
-        const ok = _executeActionStep(kernel, process_id, step, freshState);
+        const ok = _executeActionStep(kernel, process_id, step, freshState, def, clock);
         madeProgress = true;
         if (!ok) break; // Lane failed
         continue; // Process next step in lane
@@ -4564,6 +6899,7 @@ function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef):
       if (step.type === "task_step") {
         const freshState = getProcessStatus(kernel, process_id);
         _executeTaskStep(kernel, process_id, step, freshState);
+        _armStepTimeout(kernel, process_id, step, clock);
         // Task step is now active, waiting for completion
         break; // Lane waits for task
       }
@@ -4579,6 +6915,20 @@ function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef):
         const freshState = getProcessStatus(kernel, process_id);
         _executeBranchStep(kernel, process_id, step, freshState, def);
         madeProgress = true;
+        break; // Re-read state on the next pass so skipped steps stay skipped
+      }
+
+      if (step.type === "timer_step" || step.type === "wait_step") {
+        const freshState = getProcessStatus(kernel, process_id);
+        madeProgress = true;
+        if (!_executeWaitStep(kernel, process_id, step, freshState, def, clock)) break; // Lane waits for tickProcessWaits
+        continue; // Process next step in lane
+      }
+
+      if (step.type === "subprocess_step") {
+        const freshState = getProcessStatus(kernel, process_id);
+        madeProgress = true;
+        if (!_executeSubprocessStep(kernel, process_id, step, freshState, def, clock)) break; // Lane waits for the child
         continue; // Process next step in lane
       }
 
@@ -4588,7 +6938,7 @@ function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef):
 
   // If we made progress, re-check (recursive) — gates may now pass
   if (madeProgress) {
-    _advanceProcess(kernel, process_id, def);
+    _advanceProcess(kernel, process_id, def, at);
     return;
   }
 
@@ -4597,26 +6947,26 @@ function _advanceProcess(kernel: Kernel, process_id: string, def?: ProcessDef):
   if (finalState.status !== "running") return;
 
   const allSteps = Object.values(def.steps);
-  const allDone = allSteps.every((step) => {
-    const s = finalState.steps[step.name];
-    return s && (s.status === "completed" || s.status === "skipped");
-  });
+  const allDone = allSteps.every((step) => _stepSettled(finalState.steps[step.name]));
 
   if (allDone) {
     appendTessella(kernel, process_id, "process_completed", { completed_at: now });
+    _notifyParentProcess(kernel, process_id);
   }
 
   // Check if any step failed and there are no more active steps
   const anyFailed = allSteps.some((step) => {
     const s = finalState.steps[step.name];
-    return s && s.status === "failed";
+    return s && s.status === "failed" && !s.routed_to;
   });
+  // A step waiting to be retried is still in flight
   const anyActive = allSteps.some((step) => {
     const s = finalState.steps[step.name];
-    return s && s.status === "active";
+    return s && (s.status === "active" || (s.status === "pending" && !!s.retry_at));
   });
   if (anyFailed && !anyActive && !allDone) {
     appendTessella(kernel, process_id, "process_failed", { completed_at: now, reason: "Step failure" });
+    _notifyParentProcess(kernel, process_id);
   }
 }
 
@@ -4655,9 +7005,11 @@ function _checkProcessTaskCompletion(kernel: Kernel, task_id: string): void {
     // This is a process instance — find the step with this task_id
     const instanceState = getProcessStatus(kernel, resId);
     if (instanceState.status !== "running") continue;
+    processDef = _instanceDef(kernel, instanceState);
 
     for (const [stepName, stepStatus] of Object.entries(instanceState.steps)) {
       if (stepStatus.task_id === task_id && stepStatus.status === "active") {
+        _setProcessVariable(kernel, resId, processDef.steps[stepName]?.result_into, taskState.result);
         const now = new Date().toISOString();
         appendTessella(kernel, resId, "step_completed", {
           step_name: stepName,
@@ -4671,6 +7023,161 @@ function _checkProcessTaskCompletion(kernel: Kernel, task_id: string): void {
   }
 }
 
+// --- Timer and wait hook ---
+
+export function tickProcessWaits(kernel: Kernel, now?: Date): ProcessWakeResult[] {
+  const currentTime = now ?? new Date();
+  // A failed process reopened by retryProcessStep/skipProcessStep is running
+  // again, so only the latest terminal or process_resumed row decides
+  const rows = kernel.db.query(
+    `SELECT DISTINCT w.res_id FROM tessella w WHERE w.type IN ('step_waiting', 'step_retry_scheduled')
+     AND COALESCE((SELECT e.type FROM tessella e WHERE e.res_id = w.res_id
+       AND e.type IN ('process_completed', 'process_failed', 'process_cancelled', 'process_resumed')
+       ORDER BY e.id DESC LIMIT 1), 'process_resumed') = 'process_resumed'`,
+  ).all() as { res_id: string }[];
+
+  const woken: ProcessWakeResult[] = [];
+  for (const row of rows) {
+    try {
+      const instanceState = getProcessStatus(kernel, row.res_id);
+      if (instanceState.status !== "running") continue;
+      const def = _instanceDef(kernel, instanceState);
+
+      let resumed = false;
+      for (const stepStatus of Object.values(instanceState.steps)) {
+        const step = def.steps[stepStatus.step_name];
+        if (!step) continue;
+        // Due retries are run by _advanceProcess below
+        if (stepStatus.status === "pending" && stepStatus.retry_at) {
+          if (stepStatus.retry_at > currentTime.toISOString()) continue;
+          woken.push({ process_id: row.res_id, step_name: step.name, outcome: "retried" });
+          resumed = true;
+          continue;
+        }
+        if (stepStatus.status !== "active") continue;
+        if (step.type !== "timer_step" && step.type !== "wait_step" && !stepStatus.wake_at) continue;
+        const outcome = _resumeWaitStep(kernel, row.res_id, step, instanceState, def, currentTime);
+        if (!outcome) continue;
+        woken.push({ process_id: row.res_id, step_name: step.name, outcome });
+        resumed = true;
+      }
+      if (resumed) _advanceProcess(kernel, row.res_id, def, currentTime);
+    } catch (e) {
+      console.error(`Process wait tick error for ${row.res_id}:`, e);
+    }
+  }
+  return woken;
+}
+
+// --- Trigger hooks ---
+
+function _findTriggeredProcessGenera(
+  kernel: Kernel,
+  trigger_type: "action" | "condition",
+  condition_attribute?: string,
+): { id: string; def: ProcessDef }[] {
+  let sql = "SELECT DISTINCT res_id FROM tessella WHERE type = 'process_trigger_defined' AND branch_id = 'main' AND json_extract(data, '$.type') = ?";
+  const params: any[] = [trigger_type];
+  if (condition_attribute !== undefined) {
+    sql += " AND json_extract(data, '$.condition_attribute') = ?";
+    params.push(condition_attribute);
+  }
+  const rows = kernel.db.query(sql).all(...params) as { res_id: string }[];
+
+  const results: { id: string; def: ProcessDef }[] = [];
+  for (const row of rows) {
+    const def = getProcessDef(kernel, row.res_id);
+    if (def.meta.kind !== "process" || def.meta.deprecated === true) continue;
+    results.push({ id: row.res_id, def });
+  }
+  return results;
+}
+
+function _findConditionTriggers(
+  kernel: Kernel,
+  attribute: string,
+): { genus_id: string; trigger: ProcessTriggerDef }[] {
+  const results: { genus_id: string; trigger: ProcessTriggerDef }[] = [];
+  for (const { id, def } of _findTriggeredProcessGenera(kernel, "condition", attribute)) {
+    for (const trigger of def.triggers) {
+      if (trigger.type === "condition" && trigger.condition_attribute === attribute) {
+        results.push({ genus_id: id, trigger });
+      }
+    }
+  }
+  return results;
+}
+
+function _fireConditionTriggers(
+  kernel: Kernel,
+  watchers: { genus_id: string; trigger: ProcessTriggerDef }[],
+  res_id: string,
+  genusDef: GenusDef,
+  previous: unknown,
+  current: unknown,
+): string[] {
+  const genusName = ((genusDef.meta.name as string) ?? "").toLowerCase();
+  const fired = new Set<string>();
+  const started: string[] = [];
+  for (const { genus_id, trigger } of watchers) {
+    if (fired.has(genus_id)) continue;
+    if (trigger.genus_name && trigger.genus_name.toLowerCase() !== genusName) continue;
+    // Edge-triggered: only fire when the condition goes from false to true
+    if (current !== trigger.condition_value || previous === trigger.condition_value) continue;
+    fired.add(genus_id);
+    try {
+      started.push(startProcess(kernel, genus_id, { context_res_id: res_id, branch_id: "main" }).id);
+    } catch (e) {
+      console.error(`Condition trigger failed to start process ${genus_id}:`, e);
+    }
+  }
+  return started;
+}
+
+// Lowercased names of the actions whose triggers are starting processes right
+// now, outermost first. Everything from executeAction to the action steps of
+// the processes it starts runs synchronously, so this is the current chain.
+const _firingActionTriggers: string[] = [];
+const _MAX_ACTION_TRIGGER_DEPTH = 8;
+
+function _actionTriggeredGenera(kernel: Kernel, action_name: string): string[] {
+  const lower = action_name.toLowerCase();
+  return _findTriggeredProcessGenera(kernel, "action")
+    .filter(({ def }) => def.triggers.some((t) => t.type === "action" && (t.action_name ?? "").toLowerCase() === lower))
+    .map(({ id }) => id);
+}
+
+// Why running action_name now would start processes without end, or null
+function _actionTriggerLoop(kernel: Kernel, action_name: string): string | null {
+  const lower = action_name.toLowerCase();
+  const repeats = _firingActionTriggers.includes(lower);
+  if (!repeats && _firingActionTriggers.length < _MAX_ACTION_TRIGGER_DEPTH) return null;
+  if (_actionTriggeredGenera(kernel, action_name).length === 0) return null;
+  const chain = [..._firingActionTriggers, lower].join(" → ");
+  return repeats
+    ? `Action "${action_name}" would trigger itself again (${chain})`
+    : `Action triggers nested more than ${_MAX_ACTION_TRIGGER_DEPTH} deep (${chain})`;
+}
+
+function _fireActionTriggers(kernel: Kernel, action_name: string, context_res_id: string | undefined, branch_id: string): string[] {
+  const started: string[] = [];
+  const genera = _actionTriggeredGenera(kernel, action_name);
+  if (genera.length === 0) return started;
+  _firingActionTriggers.push(action_name.toLowerCase());
+  try {
+    for (const id of genera) {
+      try {
+        started.push(startProcess(kernel, id, { context_res_id, branch_id }).id);
+      } catch (e) {
+        console.error(`Action trigger failed to start process ${id}:`, e);
+      }
+    }
+  } finally {
+    _firingActionTriggers.pop();
+  }
+  return started;
+}
+
 // ============================================================================
 // SECTION: Cron
 // ============================================================================
@@ -4688,13 +7195,17 @@ function _checkProcessTaskCompletion(kernel: Kernel, task_id: string): void {
 //     target_genus_id: auditActionId,
 //     target_config: JSON.stringify({ resource_bindings: {}, params: {} }),
 //   });
-//   const result = tickCron(kernel); // { fired: [...], skipped: 0, checked: 1 }
+//   const result = tickCron(kernel); // { fired: [...], skipped: 0, checked: 1, resumed: [] }
 //
 // Design notes:
 //   - State machine (active/paused/retired) replaces an enabled boolean.
 //   - last_fired_at tracked via setAttribute; tessella history is the audit log.
 //   - Cron parser supports 5-field expressions + @daily/@hourly/@weekly/@monthly.
 //   - tickCron is a pure kernel function — server.ts just calls setInterval.
+//   - tickCron also runs tickProcessWaits, so process timer and wait steps
+//     resume on the same clock (and tests can drive both with a fake now).
+//   - target_config.branch_id picks the branch a fired action or process writes
+//     to; it defaults to the kernel's current branch.
 //
 
 // --- Types ---
@@ -4730,6 +7241,7 @@ export interface CronTickResult {
   fired: CronFireResult[];
   skipped: number;
   checked: number;
+  resumed: ProcessWakeResult[];
 }
 
 // --- Cron parser ---
@@ -4903,12 +7415,13 @@ export function fireCronSchedule(kernel: Kernel, schedule_id: string, opts?: { n
       targetGenusId,
       config.resource_bindings ?? {},
       config.params ?? {},
-      { source: "cron" },
+      { source: "cron", branch_id: config.branch_id ?? kernel.currentBranch },
     );
   } else if (targetType === "process") {
     const config = targetConfigRaw ? JSON.parse(targetConfigRaw) : {};
     result = startProcess(kernel, targetGenusId, {
       context_res_id: config.context_res_id,
+      branch_id: config.branch_id ?? kernel.currentBranch,
     });
   } else {
     throw new Error(`Unknown target_type: ${targetType}`);
@@ -4925,57 +7438,282 @@ export function tickCron(kernel: Kernel, now?: Date): CronTickResult {
   const fired: CronFireResult[] = [];
   let skipped = 0;
 
-  // Format current minute for dedup (UTC)
-  const currentMinute = `${currentTime.getUTCFullYear()}-${String(currentTime.getUTCMonth() + 1).padStart(2, "0")}-${String(currentTime.getUTCDate()).padStart(2, "0")}T${String(currentTime.getUTCHours()).padStart(2, "0")}:${String(currentTime.getUTCMinutes()).padStart(2, "0")}`;
+  // Format current minute for dedup (UTC)
+  const currentMinute = `${currentTime.getUTCFullYear()}-${String(currentTime.getUTCMonth() + 1).padStart(2, "0")}-${String(currentTime.getUTCDate()).padStart(2, "0")}T${String(currentTime.getUTCHours()).padStart(2, "0")}:${String(currentTime.getUTCMinutes()).padStart(2, "0")}`;
+
+  for (const schedule of schedules) {
+    if (schedule.status !== "active") {
+      skipped++;
+      continue;
+    }
+
+    // One-time trigger check
+    const scheduledAt = schedule.scheduled_at;
+    if (scheduledAt) {
+      const triggerTime = new Date(scheduledAt);
+      if (currentTime >= triggerTime) {
+        try {
+          const result = fireCronSchedule(kernel, schedule.id, { now: currentTime });
+          fired.push(result);
+          // Auto-retire one-time trigger
+          transitionStatus(kernel, schedule.id, "retired");
+        } catch (e) {
+          console.error(`Scheduled trigger fire error for ${schedule.name}:`, e);
+          skipped++;
+        }
+      }
+      continue; // Skip cron expression matching
+    }
+
+    if (!matchesCron(schedule.expression, currentTime)) {
+      continue;
+    }
+
+    // Check if already fired this minute
+    if (schedule.last_fired_at) {
+      const lastFired = new Date(schedule.last_fired_at);
+      const lastMinute = `${lastFired.getUTCFullYear()}-${String(lastFired.getUTCMonth() + 1).padStart(2, "0")}-${String(lastFired.getUTCDate()).padStart(2, "0")}T${String(lastFired.getUTCHours()).padStart(2, "0")}:${String(lastFired.getUTCMinutes()).padStart(2, "0")}`;
+      if (lastMinute === currentMinute) {
+        skipped++;
+        continue;
+      }
+    }
+
+    try {
+      const result = fireCronSchedule(kernel, schedule.id, { now: currentTime });
+      fired.push(result);
+    } catch (e) {
+      console.error(`Cron fire error for ${schedule.name}:`, e);
+      skipped++;
+    }
+  }
+
+  // Timer and wait steps ride the same clock
+  const resumed = tickProcessWaits(kernel, currentTime);
+
+  return { fired, skipped, checked: schedules.length, resumed };
+}
+
+// ============================================================================
+// SECTION: Outbox
+// ============================================================================
+//
+// Summary:
+//   Reliable delivery for the http_request side effect. The effect only writes
+//   a row into the outbox table, inside the action's transaction; deliverOutbox
+//   sends due rows afterwards, retrying with exponential backoff until a row is
+//   delivered or runs out of attempts and is dead-lettered.
+//
+// Usage:
+//   defineActionGenus(kernel, "publish_issue", {
+//     resources: [{ name: "issue", genus_name: "Issue" }],
+//     handler: [{ type: "http_request", url: "https://publisher/hooks", body: { id: "$res.issue.id" } }],
+//   });
+//   const result = await deliverOutbox(kernel); // { delivered: [...], retried: [...], dead: [...] }
+//   requeueOutboxEntry(kernel, result.dead[0]);
+//
+// Design notes:
+//   - The outbox is a plain table, not tessellae: delivery bookkeeping is
+//     operational state, and a rolled-back action (or a dry run) leaves no row.
+//   - Every attempt is logged as a Log entity on the row's res, on the branch
+//     the action ran on: info when delivered, warning when retrying, error
+//     when dead.
+//   - Non-2xx responses and network errors both count as failed attempts.
+//     Backoff doubles from 30s and is capped at an hour.
+//   - deliverOutbox is a kernel function like tickCron; server.ts polls it on
+//     an interval and passes nothing but the kernel.
+//   - Rows carry the workspace they were queued from (or their res's), and
+//     listOutbox/requeueOutboxEntry only see the current workspace's rows.
+//
+
+// --- Types ---
+
+export type OutboxStatus = "pending" | "delivered" | "dead";
+
+export interface OutboxEntry {
+  id: string;
+  action_taken_id: string | null;
+  res_id: string | null;
+  branch_id: string;
+  workspace_id: string | null;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface OutboxDeliveryResult {
+  delivered: string[];
+  retried: string[];
+  dead: string[];
+}
+
+export interface DeliverOutboxOptions {
+  now?: Date;
+  limit?: number;
+  timeout_ms?: number;
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+// --- Internal helpers ---
+
+const _OUTBOX_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const _OUTBOX_DEFAULT_MAX_ATTEMPTS = 5;
+const _OUTBOX_BASE_BACKOFF_MS = 30_000;
+const _OUTBOX_MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+function _rowToOutboxEntry(row: any): OutboxEntry {
+  return { ...row, headers: JSON.parse(row.headers) };
+}
+
+function _enqueueOutbox(
+  kernel: Kernel,
+  request: {
+    action_taken_id?: string;
+    res_id?: string;
+    method?: string;
+    url: string;
+    headers?: Record<string, string>;
+    body?: unknown;
+    max_attempts?: number;
+  },
+): string {
+  const id = ulid();
+  const headers: Record<string, string> = { ...(request.headers ?? {}) };
+  let body: string | null = null;
+  if (typeof request.body === "string") {
+    body = request.body;
+  } else if (request.body !== undefined && request.body !== null) {
+    body = JSON.stringify(request.body);
+    if (!Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) headers["Content-Type"] = "application/json";
+  }
+  const resRow = request.res_id ? kernel.db.query("SELECT workspace_id FROM res WHERE id = ?").get(request.res_id) as { workspace_id: string | null } | null : null;
+  const workspace_id = kernel.currentWorkspace ?? resRow?.workspace_id ?? null;
+  kernel.db.run(
+    "INSERT INTO outbox (id, action_taken_id, res_id, branch_id, workspace_id, method, url, headers, body, max_attempts, next_attempt_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    [
+      id,
+      request.action_taken_id ?? null,
+      request.res_id ?? null,
+      kernel.currentBranch,
+      workspace_id,
+      (request.method ?? "POST").toUpperCase(),
+      request.url,
+      JSON.stringify(headers),
+      body,
+      request.max_attempts ?? _OUTBOX_DEFAULT_MAX_ATTEMPTS,
+      new Date().toISOString(),
+    ],
+  );
+  return id;
+}
+
+function _outboxBackoffMs(attempts: number): number {
+  return Math.min(_OUTBOX_BASE_BACKOFF_MS * 2 ** (attempts - 1), _OUTBOX_MAX_BACKOFF_MS);
+}
 
-  for (const schedule of schedules) {
-    if (schedule.status !== "active") {
-      skipped++;
-      continue;
-    }
+// The Log lands next to the res it is about: same branch, same workspace
+function _logOutboxAttempt(kernel: Kernel, entry: OutboxEntry, message: string, severity: string): void {
+  if (!entry.res_id) return;
+  const view = createKernelView(kernel, { branch: entry.branch_id, workspace_id: _attributeScope(kernel, entry.res_id).workspace_id });
+  const logId = createEntity(view, LOG_GENUS_ID);
+  setAttribute(view, logId, "message", message);
+  setAttribute(view, logId, "severity", severity);
+  setAttribute(view, logId, "associated_res_id", entry.res_id);
+}
 
-    // One-time trigger check
-    const scheduledAt = schedule.scheduled_at;
-    if (scheduledAt) {
-      const triggerTime = new Date(scheduledAt);
-      if (currentTime >= triggerTime) {
-        try {
-          const result = fireCronSchedule(kernel, schedule.id, { now: currentTime });
-          fired.push(result);
-          // Auto-retire one-time trigger
-          transitionStatus(kernel, schedule.id, "retired");
-        } catch (e) {
-          console.error(`Scheduled trigger fire error for ${schedule.name}:`, e);
-          skipped++;
-        }
-      }
-      continue; // Skip cron expression matching
-    }
+// --- Delivery ---
 
-    if (!matchesCron(schedule.expression, currentTime)) {
-      continue;
-    }
+export async function deliverOutbox(kernel: Kernel, opts: DeliverOutboxOptions = {}): Promise<OutboxDeliveryResult> {
+  const now = opts.now ?? new Date();
+  const send = opts.fetch ?? ((url, init) => fetch(url, init));
+  const due = (kernel.db.query(
+    "SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at, id LIMIT ?",
+  ).all(now.toISOString(), opts.limit ?? 50) as any[]).map(_rowToOutboxEntry);
 
-    // Check if already fired this minute
-    if (schedule.last_fired_at) {
-      const lastFired = new Date(schedule.last_fired_at);
-      const lastMinute = `${lastFired.getUTCFullYear()}-${String(lastFired.getUTCMonth() + 1).padStart(2, "0")}-${String(lastFired.getUTCDate()).padStart(2, "0")}T${String(lastFired.getUTCHours()).padStart(2, "0")}:${String(lastFired.getUTCMinutes()).padStart(2, "0")}`;
-      if (lastMinute === currentMinute) {
-        skipped++;
-        continue;
-      }
+  const result: OutboxDeliveryResult = { delivered: [], retried: [], dead: [] };
+  for (const entry of due) {
+    const attempts = entry.attempts + 1;
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+      const resp = await send(entry.url, {
+        method: entry.method,
+        headers: entry.headers,
+        ...(entry.body !== null && entry.method !== "GET" ? { body: entry.body } : {}),
+        signal: AbortSignal.timeout(opts.timeout_ms ?? 10_000),
+      });
+      status = resp.status;
+      if (!resp.ok) error = `HTTP ${resp.status}: ${(await resp.text()).slice(0, 200)}`;
+    } catch (e: any) {
+      error = e?.message ?? String(e);
     }
 
-    try {
-      const result = fireCronSchedule(kernel, schedule.id, { now: currentTime });
-      fired.push(result);
-    } catch (e) {
-      console.error(`Cron fire error for ${schedule.name}:`, e);
-      skipped++;
+    const target = `${entry.method} ${entry.url}`;
+    if (error === null) {
+      kernel.db.run(
+        "UPDATE outbox SET status = 'delivered', attempts = ?, last_status = ?, last_error = NULL, delivered_at = ? WHERE id = ?",
+        [attempts, status, now.toISOString(), entry.id],
+      );
+      _logOutboxAttempt(kernel, entry, `Delivered ${target} (HTTP ${status}, attempt ${attempts})`, "info");
+      result.delivered.push(entry.id);
+    } else if (attempts >= entry.max_attempts) {
+      kernel.db.run(
+        "UPDATE outbox SET status = 'dead', attempts = ?, last_status = ?, last_error = ? WHERE id = ?",
+        [attempts, status, error, entry.id],
+      );
+      _logOutboxAttempt(kernel, entry, `Gave up on ${target} after ${attempts} attempts: ${error}`, "error");
+      result.dead.push(entry.id);
+    } else {
+      const next = new Date(now.getTime() + _outboxBackoffMs(attempts)).toISOString();
+      kernel.db.run(
+        "UPDATE outbox SET attempts = ?, last_status = ?, last_error = ?, next_attempt_at = ? WHERE id = ?",
+        [attempts, status, error, next, entry.id],
+      );
+      _logOutboxAttempt(kernel, entry, `Attempt ${attempts} of ${entry.max_attempts} for ${target} failed: ${error}; retrying at ${next}`, "warning");
+      result.retried.push(entry.id);
     }
   }
+  return result;
+}
+
+// --- Queries ---
 
-  return { fired, skipped, checked: schedules.length };
+export function listOutbox(
+  kernel: Kernel,
+  opts: { status?: OutboxStatus; res_id?: string; action_taken_id?: string; limit?: number } = {},
+): OutboxEntry[] {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  // Same rule as listEntities: a workspace sees its own rows and unscoped ones
+  if (kernel.currentWorkspace) { clauses.push("(workspace_id = ? OR workspace_id IS NULL)"); params.push(kernel.currentWorkspace); }
+  if (opts.status) { clauses.push("status = ?"); params.push(opts.status); }
+  if (opts.res_id) { clauses.push("res_id = ?"); params.push(opts.res_id); }
+  if (opts.action_taken_id) { clauses.push("action_taken_id = ?"); params.push(opts.action_taken_id); }
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  params.push(opts.limit ?? 100);
+  return (kernel.db.query(`SELECT * FROM outbox ${where} ORDER BY id LIMIT ?`).all(...params) as any[]).map(_rowToOutboxEntry);
+}
+
+// Gives a dead-lettered row a fresh set of attempts, due immediately
+export function requeueOutboxEntry(kernel: Kernel, id: string): OutboxEntry {
+  const row = kernel.db.query("SELECT * FROM outbox WHERE id = ?").get(id) as any;
+  const hidden = row && kernel.currentWorkspace && row.workspace_id && row.workspace_id !== kernel.currentWorkspace;
+  if (!row || hidden) throw new Error(`Outbox entry not found: ${id}`);
+  if (row.status !== "dead") throw new Error(`Outbox entry ${id} is ${row.status}; only dead entries can be requeued`);
+  kernel.db.run(
+    "UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE id = ?",
+    [new Date().toISOString(), id],
+  );
+  return _rowToOutboxEntry(kernel.db.query("SELECT * FROM outbox WHERE id = ?").get(id));
 }
 
 // ============================================================================
@@ -5211,6 +7949,7 @@ export function mergeBranch(
 
   // Copy all tessellae from source branch to target branch
   const sourceTag = `merge:${source}`;
+  const maxBefore = (kernel.db.query("SELECT MAX(id) as max_id FROM tessella").get() as { max_id: number | null }).max_id ?? 0;
   const rows = kernel.db.query(
     "SELECT * FROM tessella WHERE branch_id = ? ORDER BY id ASC",
   ).all(source) as any[];
@@ -5218,8 +7957,8 @@ export function mergeBranch(
   const doMerge = kernel.db.transaction(() => {
     for (const row of rows) {
       kernel.db.run(
-        "INSERT INTO tessella (res_id, branch_id, type, data, created_at, source) VALUES (?, ?, ?, ?, ?, ?)",
-        [row.res_id, targetBranch, row.type, row.data, row.created_at, sourceTag],
+        "INSERT INTO tessella (res_id, branch_id, type, data, created_at, source, actor, session_id, recorded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))",
+        [row.res_id, targetBranch, row.type, row.data, row.created_at, sourceTag, row.actor, row.session_id],
       );
     }
   });
@@ -5227,6 +7966,8 @@ export function mergeBranch(
 
   // Rebuild index tables that aren't updated by tessella copy
   _rebuildIndexesForMerge(kernel, source, targetBranch);
+  _indexSearchSince(kernel, maxBefore);
+  _indexAttributesSince(kernel, maxBefore);
 
   // Mark source as merged (on "main" since branch entities live there)
   transitionStatus(kernel, sourceBranch.id, "merged", { branch_id: "main" });
@@ -5390,6 +8131,8 @@ export function compareBranches(
 // Design notes:
 //   - Handler is a FileOp[] DSL evaluated once per entity (runner iterates entities).
 //   - Template uses {{...}} delimiters (not $ like actions) for markdown-friendly content.
+//   - {{entity.<attr>.name}} renders a reference attribute as its target's display
+//     name; plain {{entity.<attr>}} keeps the id so frontmatter round-trips.
 //   - Import uses frontmatter parsing + diff against current state; status is read-only.
 //   - Manifest (_manifest.json) embeds entity-to-file mapping for round-trip import.
 //
@@ -5574,13 +8317,15 @@ export function listSerializationGenera(kernel: Kernel, opts?: { taxonomy_id?: s
 function _substituteTemplate(
   template: string,
   context: {
-    entity?: { id: string; genus: string; status: string; attrs: Record<string, unknown> };
-    feature?: { id: string; genus: string; status: string; attrs: Record<string, unknown> };
+    entity?: { id: string; genus: string; status: string; attrs: Record<string, unknown>; refs?: Record<string, string> };
+    feature?: { id: string; genus: string; status: string; attrs: Record<string, unknown>; refs?: Record<string, string> };
   },
 ): string {
-  return template.replace(/\{\{(\w+)\.(\w+)\}\}/g, (match, scope, key) => {
+  return template.replace(/\{\{(\w+)\.(\w+)(\.name)?\}\}/g, (match, scope, key, nameSuffix) => {
     const ctx = scope === "entity" ? context.entity : scope === "feature" ? context.feature : null;
     if (!ctx) return match;
+    // {{entity.<reference>.name}} renders the referenced entity's display name
+    if (nameSuffix) return ctx.refs?.[key] ?? match;
 
     switch (key) {
       case "id": return ctx.id;
@@ -5618,6 +8363,7 @@ function _evaluateFileOps(
     genus: entityContext.genus,
     status: (entityContext.state.status as string) ?? "",
     attrs: entityAttrs,
+    refs: getReferenceNames(kernel, entityContext.genusDef, entityAttrs),
   };
 
   for (const op of ops) {
@@ -5676,6 +8422,7 @@ function _evaluateFileOps(
             genus: featureGenusName,
             status: (featureState.status as string) ?? "",
             attrs: featureAttrs,
+            refs: featureGenusId ? getReferenceNames(kernel, getGenusDef(kernel, featureGenusId), featureAttrs) : {},
           };
 
           for (const childOp of op.children) {
@@ -5909,6 +8656,11 @@ function _coerceValue(value: string, type: GenusAttributeType): unknown {
     case "boolean": return value === "true";
     case "text": return value;
     case "filetree": return JSON.parse(value);
+    // Frontmatter may quote scalars; enum/date/datetime/reference are stored as bare strings
+    case "enum":
+    case "date":
+    case "datetime":
+    case "reference": return value.replace(/^(["'])(.*)\1$/, "$2");
     default: return value;
   }
 }
@@ -6095,11 +8847,17 @@ export function importFiletree(
 //   tagging for deduplication.
 //
 // Usage:
-//   // Client pull:
-//   const hwm = getSyncState(kernel, "server_hwm") ?? "0";
-//   const pullData = await fetchFromServer(hwm);
-//   insertPulledData(kernel, pullData, "sync:http://localhost:3000");
-//   setSyncState(kernel, "server_hwm", String(pullData.high_water_mark));
+//   // Server side — one page of pull data, optionally scoped:
+//   const page = getPullData(kernel, { since, workspace_id, limit: 500 });
+//
+//   // Client pull (resumable — insert and cursor advance are atomic):
+//   const source = "sync:http://localhost:3000";
+//   let page: SyncPullData;
+//   do {
+//     const since = Number(getSyncState(kernel, pullCursorKey(source)) ?? "0");
+//     page = await fetchFromServer({ since, workspace: "Lab" });
+//     insertPulledData(kernel, page, source);
+//   } while (page.has_more);
 //
 //   // Client push:
 //   const tessellae = getUnpushedTessellae(kernel);
@@ -6113,24 +8871,50 @@ export function importFiletree(
 //     pushed data gets source="device:<id>" on the server.
 //   - Sentinel res (META, LOG, ERROR) are excluded from sync — both sides
 //     bootstrap them via initKernel.
+//   - Tessellae travel with their actor/session_id both ways, so audit
+//     history survives a round trip through another node.
+//   - Pulls page by server tessella id. has_more/next_cursor tell the client
+//     to keep going; high_water_mark is the last id covered by the page.
+//   - Scoped pulls (workspace, genus) always carry the genus definitions they
+//     depend on, so genus tessellae can arrive more than once. Each pulled
+//     tessella keeps its server id in remote_id, and (source, remote_id) is
+//     unique, so re-delivered pages and repeated genus defs are ignored.
 //
 
 // --- Types ---
 
 export interface SyncPullData {
-  res: { id: string; genus_id: string; branch_id: string; created_at: string }[];
+  res: { id: string; genus_id: string; branch_id: string; created_at: string; workspace_id?: string | null }[];
   tessellae: {
     id: number; res_id: string; branch_id: string; type: string;
     data: any; created_at: string; source: string | null;
+    actor?: string | null; session_id?: string | null;
   }[];
   high_water_mark: number;
+  has_more?: boolean;
+  next_cursor?: number | null;
+}
+
+export interface SyncPullOptions {
+  since?: number;
+  limit?: number;
+  workspace_id?: string;
+  genus_ids?: string[];
+  taxonomy_id?: string;
+  exclude_source?: string;
 }
 
+export const SYNC_PULL_DEFAULT_LIMIT = 1000;
+export const SYNC_PULL_MAX_LIMIT = 10000;
+
+const _SYNC_SENTINELS = [META_GENUS_ID, LOG_GENUS_ID, ERROR_GENUS_ID, TASK_GENUS_ID, BRANCH_GENUS_ID];
+
 export interface SyncPushData {
   res: { id: string; genus_id: string; branch_id: string; created_at?: string }[];
   tessellae: {
     res_id: string; branch_id: string; type: string;
     data: any; created_at: string; source: string | null;
+    actor?: string | null; session_id?: string | null;
   }[];
 }
 
@@ -6177,24 +8961,622 @@ export function getUnpushedRes(kernel: Kernel, tessellae: Tessella[]): Res[] {
   return results;
 }
 
+export function pullCursorKey(sourceTag: string): string {
+  return `pull_cursor:${sourceTag}`;
+}
+
+export function getPullData(kernel: Kernel, opts: SyncPullOptions = {}): SyncPullData {
+  const since = opts.since ?? 0;
+  const limit = Math.max(1, Math.min(opts.limit ?? SYNC_PULL_DEFAULT_LIMIT, SYNC_PULL_MAX_LIMIT));
+
+  let genusIds = opts.genus_ids;
+  if (opts.taxonomy_id) {
+    const inTaxonomy = _genusIdsInTaxonomy(kernel, opts.taxonomy_id);
+    genusIds = genusIds ? genusIds.filter((id) => inTaxonomy.includes(id)) : inTaxonomy;
+  }
+
+  let sql = `SELECT t.* FROM tessella t LEFT JOIN res r ON r.id = t.res_id
+    WHERE t.id > ? AND t.res_id NOT IN (${_SYNC_SENTINELS.map(() => "?").join(", ")})`;
+  const params: any[] = [since, ..._SYNC_SENTINELS];
+  if (opts.exclude_source) {
+    sql += " AND (t.source IS NULL OR t.source != ?)";
+    params.push(opts.exclude_source);
+  }
+
+  // Scoped pulls: data res matching every filter, plus the genus definitions
+  // they need and the workspace res itself
+  if (opts.workspace_id || genusIds) {
+    const dataConds: string[] = [];
+    const scope: string[] = [];
+    if (opts.workspace_id) {
+      dataConds.push("r.workspace_id = ?");
+      params.push(opts.workspace_id);
+    }
+    if (genusIds) {
+      const placeholders = genusIds.map(() => "?").join(", ") || "NULL";
+      dataConds.push(`r.genus_id IN (${placeholders})`);
+      params.push(...genusIds);
+      scope.push(`(${dataConds.join(" AND ")})`, `r.id IN (${placeholders})`);
+      params.push(...genusIds);
+    } else {
+      scope.push(`(${dataConds.join(" AND ")})`, "r.genus_id = ?");
+      params.push(META_GENUS_ID);
+    }
+    if (opts.workspace_id) {
+      scope.push("r.id = ?");
+      params.push(opts.workspace_id);
+    }
+    sql += ` AND (${scope.join(" OR ")})`;
+  }
+  sql += " ORDER BY t.id ASC LIMIT ?";
+  params.push(limit + 1);
+
+  const rows = kernel.db.query(sql).all(...params) as any[];
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  const tessellae: SyncPullData["tessellae"] = page.map(_rowToTessella);
+
+  const _resRow = (id: string): SyncPullData["res"][number] | null => {
+    const row = kernel.db.query("SELECT * FROM res WHERE id = ?").get(id) as any;
+    return row ? { id: row.id, genus_id: row.genus_id, branch_id: row.branch_id, created_at: row.created_at, workspace_id: row.workspace_id } : null;
+  };
+
+  const resIds = [...new Set(tessellae.map((t) => t.res_id))];
+  const res = resIds.map(_resRow).filter((r): r is NonNullable<typeof r> => r !== null);
+
+  // Include the full genus definition for every genus referenced in this page
+  // so the client can materialize what it receives
+  const seen = new Set(resIds);
+  for (const gid of new Set(res.map((r) => r.genus_id))) {
+    if (seen.has(gid) || _SYNC_SENTINELS.includes(gid)) continue;
+    seen.add(gid);
+    const row = _resRow(gid);
+    if (!row) continue;
+    res.push(row);
+    const genusRows = kernel.db.query(
+      "SELECT * FROM tessella WHERE res_id = ? ORDER BY id ASC",
+    ).all(gid) as any[];
+    for (const gt of genusRows) tessellae.push(_rowToTessella(gt));
+  }
+  tessellae.sort((a, b) => a.id - b.id);
+
+  const hwm = page.length > 0 ? page[page.length - 1].id : since;
+  return { res, tessellae, high_water_mark: hwm, has_more: hasMore, next_cursor: hasMore ? hwm : null };
+}
+
 export function insertPulledData(kernel: Kernel, data: SyncPullData, sourceTag: string): void {
+  const maxBefore = (kernel.db.query("SELECT MAX(id) as max_id FROM tessella").get() as { max_id: number | null }).max_id ?? 0;
   const insert = kernel.db.transaction(() => {
     for (const r of data.res) {
       kernel.db.run(
-        "INSERT OR IGNORE INTO res (id, genus_id, branch_id, created_at) VALUES (?, ?, ?, ?)",
-        [r.id, r.genus_id, r.branch_id, r.created_at],
+        "INSERT OR IGNORE INTO res (id, genus_id, branch_id, created_at, workspace_id) VALUES (?, ?, ?, ?, ?)",
+        [r.id, r.genus_id, r.branch_id, r.created_at, r.workspace_id ?? null],
       );
     }
-    for (const t of data.tessellae) {
+    const tessellae = [...data.tessellae].sort((a, b) => a.id - b.id);
+    for (const t of tessellae) {
       kernel.db.run(
-        "INSERT INTO tessella (res_id, branch_id, type, data, created_at, source) VALUES (?, ?, ?, ?, ?, ?)",
-        [t.res_id, t.branch_id, t.type, JSON.stringify(t.data), t.created_at, sourceTag],
+        "INSERT OR IGNORE INTO tessella (res_id, branch_id, type, data, created_at, source, remote_id, actor, session_id, recorded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))",
+        [t.res_id, t.branch_id, t.type, JSON.stringify(t.data), t.created_at, sourceTag, t.id, t.actor ?? null, t.session_id ?? null],
       );
     }
+    setSyncState(kernel, pullCursorKey(sourceTag), String(data.high_water_mark));
+    _indexSearchSince(kernel, maxBefore);
+    _indexAttributesSince(kernel, maxBefore);
   });
   insert();
 }
 
+function _genusIdsInTaxonomy(kernel: Kernel, taxonomy_id: string): string[] {
+  const rows = kernel.db.query(
+    "SELECT id FROM res WHERE genus_id = ? AND id != ?",
+  ).all(META_GENUS_ID, META_GENUS_ID) as { id: string }[];
+  return rows
+    .filter((row) => (getGenusDef(kernel, row.id).meta.taxonomy_id ?? DEFAULT_TAXONOMY_ID) === taxonomy_id)
+    .map((row) => row.id);
+}
+
+// ============================================================================
+// SECTION: Search
+// ============================================================================
+//
+// Summary:
+//   Full-text index over entity attributes, feature attributes and palace
+//   content (room text and actions, scrolls, NPC dialogue), backed by SQLite
+//   FTS5. appendTessella keeps it current; searchEntities and palaceSearch
+//   query it.
+//
+// Usage:
+//   searchEntities(kernel, { query: "blue planet" });   // every word must match
+//   searchEntities(kernel, { query: '"red planet"' });  // phrase
+//   searchEntities(kernel, { query: "plan*" });         // prefix
+//   rebuildSearchIndex(kernel);                         // rebuild from tessellae
+//   rebuildSearchIndex(kernel, { after: maxIdBefore }); // index raw bulk inserts
+//
+// Design notes:
+//   - search_doc holds the current text of each (res, branch, feature, field);
+//     search_fts is an external-content FTS5 table over it, kept in step by
+//     triggers. Ranking is bm25.
+//   - Rows are written per branch. A query matches rows on the current branch
+//     and its ancestors, then materializes candidates on the current branch
+//     and drops any whose text has changed there, so results stay
+//     branch-correct without indexing every branch's full view.
+//   - Strings are indexed as-is. Arrays contribute their strings and the
+//     label/prompt/text fields of their objects (room actions, NPC dialogue).
+//     Numbers and booleans are not indexed.
+//   - Bare words, "quoted phrases" and word* prefixes are the whole query
+//     language; everything is quoted before it reaches MATCH, so user input
+//     can't produce an FTS syntax error.
+//
+
+// --- Internal helpers ---
+
+const _SEARCH_TESSELLA_TYPES = ["attribute_set", "feature_attribute_set"];
+const _SEARCH_OBJECT_FIELDS = ["label", "prompt", "text"];
+
+interface _SearchHit {
+  res_id: string;
+  genus_id: string;
+  created_at: string;
+  feature_id: string;
+  field: string;
+  body: string;
+  rank: number;
+  snippet: string;
+}
+
+function _searchText(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() ? value : null;
+  if (!Array.isArray(value)) return null;
+  const parts: string[] = [];
+  for (const item of value) {
+    if (typeof item === "string") {
+      parts.push(item);
+    } else if (item && typeof item === "object") {
+      for (const key of _SEARCH_OBJECT_FIELDS) {
+        const v = (item as Record<string, unknown>)[key];
+        if (typeof v === "string" && v.trim()) parts.push(v);
+      }
+    }
+  }
+  return parts.length > 0 ? parts.join("\n") : null;
+}
+
+function _indexTessellaForSearch(kernel: Kernel, tessella: Tessella): void {
+  const { key, value, feature_id } = tessella.data as { key: string; value: unknown; feature_id?: string };
+  const text = _searchText(value);
+  if (text !== null) {
+    kernel.db.run(
+      `INSERT INTO search_doc (res_id, branch_id, feature_id, field, body) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(res_id, branch_id, feature_id, field) DO UPDATE SET body = excluded.body`,
+      [tessella.res_id, tessella.branch_id, feature_id ?? "", key, text],
+    );
+  } else {
+    kernel.db.run(
+      "DELETE FROM search_doc WHERE res_id = ? AND branch_id = ? AND feature_id = ? AND field = ?",
+      [tessella.res_id, tessella.branch_id, feature_id ?? "", key],
+    );
+  }
+}
+
+function _indexSearchSince(kernel: Kernel, after: number): void {
+  const rows = kernel.db.query(
+    `SELECT * FROM tessella WHERE id > ? AND type IN (${_SEARCH_TESSELLA_TYPES.map(() => "?").join(", ")}) ORDER BY id ASC`,
+  ).all(after, ..._SEARCH_TESSELLA_TYPES) as any[];
+  for (const row of rows) _indexTessellaForSearch(kernel, _rowToTessella(row));
+}
+
+function _backfillSearchIndex(kernel: Kernel): void {
+  const flag = kernel.db.query("SELECT value FROM sync_state WHERE key = 'search_index_built'").get();
+  if (flag) return;
+  rebuildSearchIndex(kernel);
+  kernel.db.run("INSERT OR REPLACE INTO sync_state (key, value) VALUES ('search_index_built', '1')");
+}
+
+function _ftsQuery(query: string): string | null {
+  const terms: string[] = [];
+  for (const m of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const prefix = m[2] !== undefined && m[2].endsWith("*");
+    const text = (m[1] ?? m[2]).replace(/[*"]/g, " ").trim();
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+    terms.push(`"${text}"${prefix ? "*" : ""}`);
+  }
+  return terms.length > 0 ? terms.join(" AND ") : null;
+}
+
+function _searchBranches(kernel: Kernel): string[] {
+  const branches: string[] = [];
+  let current = kernel.currentBranch;
+  while (current !== "main") {
+    branches.push(current);
+    const branchEntity = _findBranchByName(kernel, current);
+    if (!branchEntity) break;
+    current = branchEntity.parent_branch ?? "main";
+  }
+  branches.push("main");
+  return branches;
+}
+
+function _searchCandidates(kernel: Kernel, match: string, where: string, params: any[]): _SearchHit[] {
+  const branches = _searchBranches(kernel);
+  return kernel.db.query(
+    `SELECT d.res_id, r.genus_id, r.created_at, d.feature_id, d.field, d.body,
+       bm25(search_fts) AS rank, snippet(search_fts, 0, '**', '**', '...', 12) AS snippet
+     FROM search_fts
+     JOIN search_doc d ON d.id = search_fts.rowid
+     JOIN res r ON r.id = d.res_id
+     WHERE search_fts MATCH ? AND d.branch_id IN (${branches.map(() => "?").join(", ")}) AND ${where}
+     ORDER BY rank`,
+  ).all(match, ...branches, ...params) as _SearchHit[];
+}
+
+function _searchHitIsCurrent(state: Record<string, unknown>, hit: _SearchHit): boolean {
+  const value = hit.feature_id
+    ? (state.features as Record<string, Record<string, unknown>> | undefined)?.[hit.feature_id]?.[hit.field]
+    : state[hit.field];
+  return _searchText(value) === hit.body;
+}
+
+function _searchMatchingLine(body: string, snippet: string): string {
+  // Pick the line of a multi-line doc (e.g. one action label) holding the first highlighted term
+  const term = /\*\*(.+?)\*\*/.exec(snippet)?.[1]?.toLowerCase();
+  const lines = body.split("\n");
+  return (term && lines.find((line) => line.toLowerCase().includes(term))) || lines[0];
+}
+
+// --- Core functions ---
+
+export function rebuildSearchIndex(kernel: Kernel, opts: { after?: number } = {}): void {
+  // With `after`, only index tessellae written past that id (e.g. rows bulk-inserted by sync)
+  const rebuild = kernel.db.transaction(() => {
+    if (opts.after === undefined) kernel.db.run("DELETE FROM search_doc");
+    _indexSearchSince(kernel, opts.after ?? 0);
+  });
+  rebuild();
+}
+
+// ============================================================================
+// SECTION: Entity Query
+// ============================================================================
+//
+// Summary:
+//   Attribute query layer behind listEntities. Comparison operators, AND/OR
+//   groups, attribute sorting and paging with a total count, answered from
+//   attr_index, a table of each entity's current top-level attribute values
+//   maintained by appendTessella.
+//
+// Usage:
+//   queryEntities(kernel, { genus_id, where: { key: "priority", op: "gt", value: 2 } });
+//   queryEntities(kernel, {
+//     where: { or: [{ key: "tier", op: "in", value: ["gold", "silver"] }, { key: "vip", op: "exists" }] },
+//     sort: [{ key: "priority", direction: "desc" }],
+//     limit: 20, offset: 40,
+//   });                                        // → { entities, total }
+//   rebuildAttributeIndex(kernel);             // rebuild from tessellae
+//
+// Design notes:
+//   - attr_index mirrors what defaultReducer does to top-level keys:
+//     attribute_set upserts, attribute_removed deletes, status_changed
+//     writes "status", and created clears the res. Rows are per branch and
+//     written in tessella id order, so each holds the value a full replay
+//     would produce.
+//   - Values keep their JSON type (vtype). eq/in compare type and value, so
+//     1, "1" and true never match each other. gt/lt/between compare numbers
+//     with numbers and strings with strings (ISO dates sort correctly);
+//     contains is a case-insensitive substring match on strings, done on a
+//     lowercased copy folded in JS. exists means present and not null.
+//   - Sorting places numbers and booleans before strings, and missing or
+//     null values last in either direction. Ties fall back to created_at.
+//   - Only current main is answered in SQL. Other branches see their
+//     ancestors' values up to a branch point, and as-of views need values
+//     the index has since overwritten, so both materialize the candidates
+//     and run the same predicates in memory — same results, no index.
+//
+
+// --- Internal helpers ---
+
+const _ATTR_INDEX_TESSELLA_TYPES = ["created", "attribute_set", "attribute_removed", "status_changed"];
+const _ATTRIBUTE_QUERY_OPS = ["eq", "contains", "gt", "lt", "in", "exists", "between"];
+
+interface _AttrCell {
+  vtype: "number" | "string" | "boolean" | "null" | "json";
+  value: number | string | null;
+  folded: string | null;
+}
+
+function _attrCell(value: unknown): _AttrCell {
+  if (value === null || value === undefined) return { vtype: "null", value: null, folded: null };
+  if (typeof value === "number") return { vtype: "number", value, folded: null };
+  if (typeof value === "boolean") return { vtype: "boolean", value: value ? 1 : 0, folded: null };
+  if (typeof value === "string") return { vtype: "string", value, folded: value.toLowerCase() };
+  return { vtype: "json", value: JSON.stringify(value), folded: null };
+}
+
+function _indexTessellaAttributes(kernel: Kernel, tessella: Tessella): void {
+  if (tessella.type === "created") {
+    kernel.db.run("DELETE FROM attr_index WHERE res_id = ? AND branch_id = ?", [tessella.res_id, tessella.branch_id]);
+    return;
+  }
+  const key = tessella.type === "status_changed" ? "status" : (tessella.data as { key: string }).key;
+  if (tessella.type === "attribute_removed") {
+    kernel.db.run(
+      "DELETE FROM attr_index WHERE res_id = ? AND branch_id = ? AND key = ?",
+      [tessella.res_id, tessella.branch_id, key],
+    );
+    return;
+  }
+  const cell = _attrCell(tessella.type === "status_changed" ? tessella.data.status : tessella.data.value);
+  kernel.db.run(
+    `INSERT INTO attr_index (res_id, branch_id, key, vtype, value, folded, tessella_id) VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(res_id, branch_id, key) DO UPDATE SET
+       vtype = excluded.vtype, value = excluded.value, folded = excluded.folded, tessella_id = excluded.tessella_id`,
+    [tessella.res_id, tessella.branch_id, key, cell.vtype, cell.value, cell.folded, tessella.id],
+  );
+}
+
+function _indexAttributesSince(kernel: Kernel, after: number): void {
+  const rows = kernel.db.query(
+    `SELECT * FROM tessella WHERE id > ? AND type IN (${_ATTR_INDEX_TESSELLA_TYPES.map(() => "?").join(", ")}) ORDER BY id ASC`,
+  ).all(after, ..._ATTR_INDEX_TESSELLA_TYPES) as any[];
+  for (const row of rows) _indexTessellaAttributes(kernel, _rowToTessella(row));
+}
+
+function _backfillAttributeIndex(kernel: Kernel): void {
+  const flag = kernel.db.query("SELECT value FROM sync_state WHERE key = 'attribute_index_built'").get();
+  if (flag) return;
+  rebuildAttributeIndex(kernel);
+  kernel.db.run("INSERT OR REPLACE INTO sync_state (key, value) VALUES ('attribute_index_built', '1')");
+}
+
+function _isComparable(value: unknown): value is number | string {
+  return typeof value === "number" || typeof value === "string";
+}
+
+function _checkAttributeQuery(query: AttributeQuery): void {
+  if ("and" in query || "or" in query) {
+    const group = "and" in query ? query.and : (query as { or: AttributeQuery[] }).or;
+    if (!Array.isArray(group)) throw new Error(`"${"and" in query ? "and" : "or"}" must be an array of conditions`);
+    for (const q of group) _checkAttributeQuery(q);
+    return;
+  }
+  const { key, op, value } = query;
+  if (typeof key !== "string" || !key) throw new Error("Attribute condition requires a key");
+  if (!_ATTRIBUTE_QUERY_OPS.includes(op)) {
+    throw new Error(`Unknown operator "${op}" for "${key}". Valid: ${_ATTRIBUTE_QUERY_OPS.join(", ")}`);
+  }
+  if (op === "contains" && typeof value !== "string") throw new Error(`"contains" on "${key}" requires a string value`);
+  if ((op === "gt" || op === "lt") && !_isComparable(value)) {
+    throw new Error(`"${op}" on "${key}" requires a number or string value`);
+  }
+  if (op === "between") {
+    const ok = Array.isArray(value) && value.length === 2 && _isComparable(value[0]) && typeof value[0] === typeof value[1];
+    if (!ok) throw new Error(`"between" on "${key}" requires [low, high] of the same type (numbers or strings)`);
+  }
+  if (op === "in" && !Array.isArray(value)) throw new Error(`"in" on "${key}" requires an array value`);
+  if (op === "exists" && value !== undefined && typeof value !== "boolean") {
+    throw new Error(`"exists" on "${key}" takes true, false or no value`);
+  }
+}
+
+function _combinedAttributeQuery(opts: ListEntitiesOptions): AttributeQuery | null {
+  const parts: AttributeQuery[] = [];
+  if (opts.status) parts.push({ key: "status", op: "eq", value: opts.status });
+  if (opts.attribute_filters) parts.push(...opts.attribute_filters);
+  if (opts.where) parts.push(opts.where);
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : { and: parts };
+}
+
+function _attrCellsEqual(a: _AttrCell, b: _AttrCell): boolean {
+  return a.vtype === b.vtype && a.value === b.value;
+}
+
+function _matchesAttributeQuery(state: Record<string, unknown>, query: AttributeQuery): boolean {
+  if ("and" in query) return query.and.every((q) => _matchesAttributeQuery(state, q));
+  if ("or" in query) return query.or.some((q) => _matchesAttributeQuery(state, q));
+  const { key, op, value } = query;
+  const actual = state[key];
+  if (op === "exists") return (actual !== undefined && actual !== null) === (value ?? true);
+  if (actual === undefined) return false;
+  const cell = _attrCell(actual);
+  switch (op) {
+    case "eq":
+      return _attrCellsEqual(cell, _attrCell(value));
+    case "in":
+      return (value as unknown[]).some((v) => _attrCellsEqual(cell, _attrCell(v)));
+    case "contains":
+      return cell.vtype === "string" && cell.folded!.includes((value as string).toLowerCase());
+    case "gt":
+    case "lt":
+    case "between": {
+      const bounds = op === "between" ? value as (number | string)[] : [value as number | string];
+      if (cell.vtype !== typeof bounds[0]) return false;
+      const v = cell.value as number | string;
+      if (op === "gt") return v > bounds[0];
+      if (op === "lt") return v < bounds[0];
+      return v >= bounds[0] && v <= bounds[1];
+    }
+  }
+  return false;
+}
+
+function _attributeQuerySql(query: AttributeQuery, params: any[]): string {
+  if ("and" in query || "or" in query) {
+    const isAnd = "and" in query;
+    const group = isAnd ? query.and : (query as { or: AttributeQuery[] }).or;
+    if (group.length === 0) return isAnd ? "1" : "0";
+    return `(${group.map((q) => _attributeQuerySql(q, params)).join(isAnd ? " AND " : " OR ")})`;
+  }
+  const { key, op, value } = query;
+  const matching = (cond: string) => `r.id IN (SELECT res_id FROM attr_index WHERE branch_id = 'main' AND key = ? AND ${cond})`;
+  params.push(key);
+  switch (op) {
+    case "exists":
+      return (value ?? true) ? matching("vtype != 'null'") : `NOT ${matching("vtype != 'null'")}`;
+    case "eq":
+    case "in": {
+      const cells = (op === "eq" ? [value] : value as unknown[]).map(_attrCell);
+      if (cells.length === 0) return matching("0");
+      for (const cell of cells) params.push(cell.vtype, cell.value);
+      return matching(`(${cells.map(() => "(vtype = ? AND value IS ?)").join(" OR ")})`);
+    }
+    case "contains":
+      params.push((value as string).toLowerCase());
+      return matching("vtype = 'string' AND instr(folded, ?) > 0");
+    case "gt":
+    case "lt":
+      params.push(typeof value, value);
+      return matching(`vtype = ? AND value ${op === "gt" ? ">" : "<"} ?`);
+    case "between": {
+      const [low, high] = value as (number | string)[];
+      params.push(typeof low, low, high);
+      return matching("vtype = ? AND value BETWEEN ? AND ?");
+    }
+  }
+  return "0";
+}
+
+function _compareSortValues(a: unknown, b: unknown): number {
+  const ca = _attrCell(a);
+  const cb = _attrCell(b);
+  const rankA = typeof ca.value === "number" ? 0 : 1;
+  const rankB = typeof cb.value === "number" ? 0 : 1;
+  if (rankA !== rankB) return rankA - rankB;
+  return ca.value! < cb.value! ? -1 : ca.value! > cb.value! ? 1 : 0;
+}
+
+function _entityQueryBase(kernel: Kernel, opts: ListEntitiesOptions): { where: string; params: any[] } {
+  const params: any[] = [
+    META_GENUS_ID, BRANCH_GENUS_ID, TAXONOMY_GENUS_ID, CRON_SCHEDULE_GENUS_ID, WORKSPACE_GENUS_ID,
+    SCIENCE_GENUS_ID, PALACE_ROOM_GENUS_ID, PALACE_SCROLL_GENUS_ID, PALACE_NPC_GENUS_ID,
+  ];
+  let where = `r.genus_id NOT IN (${params.map(() => "?").join(", ")})`;
+
+  if (opts.genus_id) {
+    where += " AND r.genus_id = ?";
+    params.push(opts.genus_id);
+  }
+
+  // Workspace filtering
+  if (!opts.all_workspaces) {
+    const effectiveWorkspace = opts.workspace_id ?? kernel.currentWorkspace;
+    if (effectiveWorkspace) {
+      if (opts.only_workspace) {
+        where += " AND r.workspace_id = ?";
+      } else {
+        where += " AND (r.workspace_id = ? OR r.workspace_id IS NULL)";
+      }
+      params.push(effectiveWorkspace);
+    }
+  }
+
+  if (kernel.asOf != null) {
+    where += " AND EXISTS (SELECT 1 FROM tessella t WHERE t.res_id = r.id AND t.id <= ?)";
+    params.push(kernel.asOf);
+  }
+  return { where, params };
+}
+
+function _queryEntitiesIndexed(
+  kernel: Kernel,
+  opts: ListEntitiesOptions,
+  query: AttributeQuery | null,
+): EntityQueryResult {
+  const base = _entityQueryBase(kernel, opts);
+  let where = base.where;
+  const params = base.params;
+  if (query) where += ` AND ${_attributeQuerySql(query, params)}`;
+
+  const total = (kernel.db.query(`SELECT COUNT(*) AS cnt FROM res r WHERE ${where}`).get(...params) as { cnt: number }).cnt;
+
+  const joins: string[] = [];
+  const joinParams: any[] = [];
+  const order: string[] = [];
+  (opts.sort ?? []).forEach((s, i) => {
+    joins.push(`LEFT JOIN attr_index s${i} ON s${i}.res_id = r.id AND s${i}.branch_id = 'main' AND s${i}.key = ?`);
+    joinParams.push(s.key);
+    order.push(`s${i}.value IS NULL`, `s${i}.value ${s.direction === "desc" ? "DESC" : "ASC"}`);
+  });
+  order.push("r.created_at ASC", "r.id ASC");
+
+  let sql = `SELECT r.id, r.genus_id, r.created_at FROM res r ${joins.join(" ")} WHERE ${where} ORDER BY ${order.join(", ")}`;
+  const pageParams: any[] = [];
+  if (opts.limit !== undefined || opts.offset !== undefined) {
+    sql += " LIMIT ? OFFSET ?";
+    pageParams.push(opts.limit ?? -1, opts.offset ?? 0);
+  }
+  const rows = kernel.db.query(sql).all(...joinParams, ...params, ...pageParams) as { id: string; genus_id: string; created_at: string }[];
+  const states = _materializeMany(kernel, rows.map((row) => row.id), "main");
+  return {
+    entities: rows.map((row) => ({ id: row.id, genus_id: row.genus_id, created_at: row.created_at, state: states.get(row.id)! })),
+    total,
+  };
+}
+
+function _queryEntitiesInMemory(
+  kernel: Kernel,
+  opts: ListEntitiesOptions,
+  query: AttributeQuery | null,
+): EntityQueryResult {
+  const { where, params } = _entityQueryBase(kernel, opts);
+  const rows = kernel.db.query(
+    `SELECT r.id, r.genus_id, r.created_at FROM res r WHERE ${where} ORDER BY r.created_at ASC, r.id ASC`,
+  ).all(...params) as { id: string; genus_id: string; created_at: string }[];
+  const states = _materializeMany(kernel, rows.map((row) => row.id), kernel.currentBranch);
+
+  let entities: EntitySummary[] = rows
+    .map((row) => ({ id: row.id, genus_id: row.genus_id, created_at: row.created_at, state: states.get(row.id)! }))
+    .filter((e) => !query || _matchesAttributeQuery(e.state, query));
+
+  const sort = opts.sort ?? [];
+  if (sort.length > 0) {
+    entities.sort((a, b) => {
+      for (const s of sort) {
+        const va = a.state[s.key] ?? null;
+        const vb = b.state[s.key] ?? null;
+        if (va === null || vb === null) {
+          if (va !== vb) return va === null ? 1 : -1;
+          continue;
+        }
+        const cmp = _compareSortValues(va, vb);
+        if (cmp !== 0) return s.direction === "desc" ? -cmp : cmp;
+      }
+      return 0;
+    });
+  }
+
+  const total = entities.length;
+  const offset = opts.offset ?? 0;
+  entities = entities.slice(offset, opts.limit !== undefined ? offset + opts.limit : undefined);
+  return { entities, total };
+}
+
+// --- Core functions ---
+
+export function queryEntities(kernel: Kernel, opts: ListEntitiesOptions = {}): EntityQueryResult {
+  if (opts.as_of !== undefined) return queryEntities(createKernelView(kernel, { as_of: opts.as_of }), { ...opts, as_of: undefined });
+  const query = _combinedAttributeQuery(opts);
+  if (query) _checkAttributeQuery(query);
+  for (const s of opts.sort ?? []) {
+    if (typeof s.key !== "string" || !s.key) throw new Error("Sort entry requires a key");
+    if (s.direction !== undefined && s.direction !== "asc" && s.direction !== "desc") {
+      throw new Error(`Sort direction for "${s.key}" must be "asc" or "desc"`);
+    }
+  }
+  if (kernel.currentBranch === "main" && kernel.asOf == null) return _queryEntitiesIndexed(kernel, opts, query);
+  return _queryEntitiesInMemory(kernel, opts, query);
+}
+
+export function rebuildAttributeIndex(kernel: Kernel, opts: { after?: number } = {}): void {
+  // With `after`, only index tessellae written past that id (e.g. rows bulk-inserted by sync)
+  const rebuild = kernel.db.transaction(() => {
+    if (opts.after === undefined) kernel.db.run("DELETE FROM attr_index");
+    _indexAttributesSince(kernel, opts.after ?? 0);
+  });
+  rebuild();
+}
+
 // ============================================================================
 // SECTION: Temporal Anchors
 // ============================================================================
@@ -6917,59 +10299,64 @@ export function palaceMergeRoom(kernel: Kernel, workspace_id: string, def: Palac
 // --- Search ---
 
 export interface PalaceSearchResult {
-  type: "room" | "scroll" | "action";
+  type: "room" | "scroll" | "action" | "npc";
   room_slug: string;
   room_name: string;
   match: string;
   field: string;
 }
 
+const _PALACE_SEARCH_FIELDS = ["name", "description", "actions", "title", "body", "greeting", "dialogue"];
+
 export function palaceSearch(kernel: Kernel, workspace_id: string, query: string): PalaceSearchResult[] {
-  const results: PalaceSearchResult[] = [];
-  const q = query.toLowerCase();
-  const rooms = palaceListRooms(kernel, workspace_id);
+  const match = _ftsQuery(query);
+  if (!match) return [];
 
-  for (const room of rooms) {
-    // Search room name
-    if (room.name.toLowerCase().includes(q)) {
-      results.push({ type: "room", room_slug: room.slug, room_name: room.name, match: room.name, field: "name" });
-    }
-    // Search room description
-    if (room.description.toLowerCase().includes(q)) {
-      const snippet = _searchSnippet(room.description, q);
-      results.push({ type: "room", room_slug: room.slug, room_name: room.name, match: snippet, field: "description" });
-    }
-    // Search action labels
-    for (const act of room.actions) {
-      if (act.label.toLowerCase().includes(q)) {
-        results.push({ type: "action", room_slug: room.slug, room_name: room.name, match: act.label, field: "label" });
-      }
-    }
-    // Search scrolls
-    const scrollsResult = palaceGetScrolls(kernel, workspace_id, room.slug, { limit: 100 });
-    for (const scroll of scrollsResult.scrolls) {
-      if (scroll.title.toLowerCase().includes(q)) {
-        results.push({ type: "scroll", room_slug: room.slug, room_name: room.name, match: scroll.title, field: "title" });
-      } else if (scroll.body.toLowerCase().includes(q)) {
-        const snippet = _searchSnippet(scroll.body, q);
-        results.push({ type: "scroll", room_slug: room.slug, room_name: room.name, match: snippet, field: "body" });
+  const hits = _searchCandidates(
+    kernel, match,
+    `r.workspace_id = ? AND r.genus_id IN (?, ?, ?) AND d.field IN (${_PALACE_SEARCH_FIELDS.map(() => "?").join(", ")})`,
+    [workspace_id, PALACE_ROOM_GENUS_ID, PALACE_SCROLL_GENUS_ID, PALACE_NPC_GENUS_ID, ..._PALACE_SEARCH_FIELDS],
+  );
+
+  const results: PalaceSearchResult[] = [];
+  const seenScrolls = new Set<string>();
+  for (const hit of hits) {
+    if (results.length >= 20) break;
+    const state = materialize(kernel, hit.res_id, { branch_id: kernel.currentBranch });
+    if (!_searchHitIsCurrent(state, hit)) continue;
+
+    if (hit.genus_id === PALACE_ROOM_GENUS_ID) {
+      const slug = state.slug as string;
+      if (_palaceRoomLookup(kernel, workspace_id, slug)?.res_id !== hit.res_id) continue;
+      if (state.status === "archived") continue;
+      const room_name = state.name as string;
+      if (hit.field === "actions") {
+        const label = _searchMatchingLine(hit.body, hit.snippet);
+        results.push({ type: "action", room_slug: slug, room_name, match: label, field: "label" });
+      } else {
+        results.push({ type: "room", room_slug: slug, room_name, match: hit.snippet, field: hit.field });
       }
+    } else if (hit.genus_id === PALACE_SCROLL_GENUS_ID) {
+      // One result per scroll, from its best-ranked field
+      if (seenScrolls.has(hit.res_id)) continue;
+      const visible = kernel.db.query(
+        "SELECT 1 FROM palace_scroll_index WHERE res_id = ? AND (branch_id = ? OR branch_id = 'main')",
+      ).get(hit.res_id, kernel.currentBranch);
+      if (!visible) continue;
+      const room = materialize(kernel, state.room_id as string, { branch_id: kernel.currentBranch });
+      if (_palaceRoomLookup(kernel, workspace_id, room.slug as string)?.res_id !== state.room_id) continue;
+      seenScrolls.add(hit.res_id);
+      results.push({ type: "scroll", room_slug: room.slug as string, room_name: room.name as string, match: hit.snippet, field: hit.field });
+    } else {
+      if (_palaceNpcLookup(kernel, workspace_id, state.slug as string)?.res_id !== hit.res_id) continue;
+      const roomLookup = _palaceRoomLookup(kernel, workspace_id, state.room_slug as string);
+      if (!roomLookup) continue;
+      const room = materialize(kernel, roomLookup.res_id, { branch_id: kernel.currentBranch });
+      results.push({ type: "npc", room_slug: room.slug as string, room_name: room.name as string, match: hit.snippet, field: hit.field });
     }
   }
 
-  return results.slice(0, 20);
-}
-
-function _searchSnippet(text: string, query: string): string {
-  const lower = text.toLowerCase();
-  const idx = lower.indexOf(query);
-  if (idx < 0) return text.slice(0, 60);
-  const start = Math.max(0, idx - 20);
-  const end = Math.min(text.length, idx + query.length + 40);
-  let snippet = text.slice(start, end);
-  if (start > 0) snippet = "..." + snippet;
-  if (end < text.length) snippet = snippet + "...";
-  return snippet;
+  return results;
 }
 
 // --- NPC types ---
@@ -7466,7 +10853,8 @@ export function palaceResolveMarkup(
         } else if (genusId) {
           const templates = getGenusTemplates(kernel, genusId);
           if (templates.mention) {
-            display = renderTemplate(templates.mention, found.state, { genus_name: genusName, id: found.id });
+            const refs = getReferenceNames(kernel, getGenusDef(kernel, genusId), found.state);
+            display = renderTemplate(templates.mention, found.state, { genus_name: genusName, id: found.id, refs });
           } else {
             display = `\u00ab${rawName}\u00bb`;
           }
@@ -7511,9 +10899,10 @@ export function getGenusTemplates(kernel: Kernel, genus_id: string): { mention?:
 export function renderTemplate(
   template: string,
   state: Record<string, unknown>,
-  context: { genus_name: string; id: string },
+  context: { genus_name: string; id: string; refs?: Record<string, string> },
 ): string {
-  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => {
+  return template.replace(/\{\{(\w+)(\.name)?\}\}/g, (match, key, nameSuffix) => {
+    if (nameSuffix) return context.refs?.[key] ?? match;
     if (key === "genus_name") return context.genus_name;
     if (key === "id") return context.id;
     const val = state[key];
@@ -12,6 +12,7 @@ import {
   getUnpushedTessellae,
   getUnpushedRes,
   insertPulledData,
+  pullCursorKey,
   type Kernel,
   type SyncPullData,
   type SyncPushResult,
@@ -45,6 +46,20 @@ function headers(): Record<string, string> {
   return { "Content-Type": "application/json", Authorization: `Bearer ${AUTH_TOKEN}` };
 }
 
+async function pull(body: Record<string, unknown>): Promise<Response> {
+  return fetch(`${SERVER_URL}/sync/pull`, { method: "POST", headers: headers(), body: JSON.stringify(body) });
+}
+
+async function callTool(name: string, args: Record<string, unknown>): Promise<any> {
+  const resp = await fetch(`${SERVER_URL}/mcp`, {
+    method: "POST",
+    headers: headers(),
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: { ...args, _session_id: "sync-test" } } }),
+  });
+  const body = await resp.json() as any;
+  return JSON.parse(body.result.content[0].text);
+}
+
 describe("Sync Integration", () => {
   beforeAll(async () => {
     // Clean up any previous test db
@@ -316,4 +331,61 @@ describe("Sync Integration", () => {
     );
     expect(deviceNameTessellae.length).toBeGreaterThan(0);
   });
+
+  // --- Scoped and paged pull ---
+
+  test("POST /sync/pull scopes to a workspace", async () => {
+    await callTool("create_workspace", { name: "Laptop" });
+    await callTool("create_workspace", { name: "Elsewhere" });
+    await callTool("define_entity_genus", {
+      name: "Memo",
+      attributes: [{ name: "body", type: "text" }],
+      states: [{ name: "open", initial: true }],
+      transitions: [],
+    });
+    await callTool("set_workspace", { workspace: "Laptop" });
+    const mine = await callTool("create_entity", { genus: "Memo", attributes: { body: "mine" } });
+    await callTool("set_workspace", { workspace: "Elsewhere" });
+    const other = await callTool("create_entity", { genus: "Memo", attributes: { body: "other" } });
+
+    const resp = await pull({ since: 0, device_id: "laptop", workspace: "Laptop" });
+    expect(resp.status).toBe(200);
+    const data = await resp.json() as SyncPullData;
+    const resIds = data.res.map((r) => r.id);
+    expect(resIds).toContain(mine.id);
+    expect(resIds).not.toContain(other.id);
+
+    const client = initKernel(":memory:");
+    insertPulledData(client, data, "sync:test-server");
+    expect(materialize(client, mine.id).body).toBe("mine");
+    client.db.close();
+  });
+
+  test("POST /sync/pull pages with has_more and next_cursor", async () => {
+    const client = initKernel(":memory:");
+    const source = "sync:paged";
+    let pages = 0;
+    let data: SyncPullData;
+    do {
+      const since = Number(getSyncState(client, pullCursorKey(source)) ?? "0");
+      const resp = await pull({ since, device_id: "pager", limit: 5 });
+      expect(resp.status).toBe(200);
+      data = await resp.json() as SyncPullData;
+      expect(data.tessellae.filter((t) => t.id > since && t.id <= data.high_water_mark).length).toBeLessThanOrEqual(5);
+      if (data.has_more) expect(data.next_cursor).toBe(data.high_water_mark);
+      insertPulledData(client, data, source);
+      pages++;
+    } while (data.has_more && pages < 1000);
+
+    expect(pages).toBeGreaterThan(1);
+    expect(data.next_cursor).toBeNull();
+    client.db.close();
+  });
+
+  test("POST /sync/pull rejects an unknown workspace", async () => {
+    const resp = await pull({ since: 0, device_id: "laptop", workspace: "Nowhere" });
+    expect(resp.status).toBe(400);
+    const body = await resp.json() as { error: string };
+    expect(body.error).toContain("Workspace not found");
+  });
 });